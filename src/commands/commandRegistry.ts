@@ -1,62 +1,100 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { promises as fs } from 'fs';
-import { GitService, GitStatus, GitBranch } from '../services/gitService';
-import { ChangelistManager, Changelist } from '../managers/changelistManager';
-import { ShelfManager, ShelvedChange } from '../managers/shelfManager';
-import { LocalChangesProvider } from '../providers/localChangesProvider';
+import { GitStatus, GitBranch, GitCommit, GitOperationAction, GitSubmodule, GitTag, GitWorktreeSource } from '../services/gitService';
+import { Changelist } from '../managers/changelistManager';
+import { ShelvedChange } from '../managers/shelfManager';
+import { JournalConflictError, JournalEntry } from '../managers/operationJournal';
+import { TaskContextKind } from '../managers/taskContextManager';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 import { ShelfProvider } from '../providers/shelfProvider';
 import { BranchesProvider } from '../providers/branchesProvider';
 import { StashProvider, StashTreeItem } from '../providers/stashProvider';
+import { WorktreesProvider, WorktreeTreeItem } from '../providers/worktreesProvider';
+import { SubmodulesProvider, SubmoduleTreeItem } from '../providers/submodulesProvider';
+import { TagsProvider, TagTreeItem } from '../providers/tagsProvider';
 import { CommitDialog } from '../ui/commitDialog';
 import { BranchDetailsPanel } from '../ui/branchDetailsPanel';
 import { PushDialog } from '../ui/pushDialog';
+import { InteractiveRebasePanel } from '../ui/interactiveRebasePanel';
+import { MergeConflictPanel } from '../ui/mergeConflictPanel';
+import { LogPanel } from '../ui/logPanel';
+import { CommitDetailsPanel } from '../ui/commitDetailsPanel';
+import { FileHistoryPanel } from '../ui/fileHistoryPanel';
+import { GitConsolePanel } from '../ui/gitConsolePanel';
+import { ReflogPanel } from '../ui/reflogPanel';
 import { DiffViewHelper } from '../helpers/diffViewHelper';
 import { AnnotateHelper } from '../helpers/annotateHelper';
+import { ConflictHelper } from '../helpers/conflictHelper';
+import { SmartCheckoutHelper } from '../helpers/smartCheckoutHelper';
+import { OperationHelper } from '../helpers/operationHelper';
+import { GitHooksHelper } from '../helpers/gitHooksHelper';
 
 export class CommandRegistry {
     private context: vscode.ExtensionContext;
-    private gitService: GitService;
-    private changelistManager: ChangelistManager;
-    private shelfManager: ShelfManager;
-    private localChangesProvider: LocalChangesProvider;
+    private repositoryManager: RepositoryManager;
     private shelfProvider: ShelfProvider;
     private branchesProvider: BranchesProvider;
     private stashProvider: StashProvider;
+    private worktreesProvider: WorktreesProvider;
+    private submodulesProvider: SubmodulesProvider;
+    private tagsProvider: TagsProvider;
     private commitDialog: CommitDialog;
     private branchDetailsPanel: BranchDetailsPanel;
     private pushDialog: PushDialog;
+    private interactiveRebasePanel: InteractiveRebasePanel;
+    private mergeConflictPanel: MergeConflictPanel;
+    private logPanel: LogPanel;
+    private commitDetailsPanel: CommitDetailsPanel;
+    private fileHistoryPanel: FileHistoryPanel;
+    private gitConsolePanel: GitConsolePanel;
+    private reflogPanel: ReflogPanel;
 
     constructor(
         context: vscode.ExtensionContext,
-        gitService: GitService,
-        changelistManager: ChangelistManager,
-        shelfManager: ShelfManager,
-        localChangesProvider: LocalChangesProvider,
+        repositoryManager: RepositoryManager,
         shelfProvider: ShelfProvider,
         branchesProvider: BranchesProvider,
         stashProvider: StashProvider,
+        worktreesProvider: WorktreesProvider,
+        submodulesProvider: SubmodulesProvider,
+        tagsProvider: TagsProvider,
         commitDialog: CommitDialog,
         branchDetailsPanel: BranchDetailsPanel,
-        pushDialog: PushDialog
+        pushDialog: PushDialog,
+        interactiveRebasePanel: InteractiveRebasePanel,
+        mergeConflictPanel: MergeConflictPanel,
+        logPanel: LogPanel,
+        commitDetailsPanel: CommitDetailsPanel,
+        fileHistoryPanel: FileHistoryPanel,
+        gitConsolePanel: GitConsolePanel,
+        reflogPanel: ReflogPanel
     ) {
         this.context = context;
-        this.gitService = gitService;
-        this.changelistManager = changelistManager;
-        this.shelfManager = shelfManager;
-        this.localChangesProvider = localChangesProvider;
+        this.repositoryManager = repositoryManager;
         this.shelfProvider = shelfProvider;
         this.branchesProvider = branchesProvider;
         this.stashProvider = stashProvider;
+        this.worktreesProvider = worktreesProvider;
+        this.submodulesProvider = submodulesProvider;
+        this.tagsProvider = tagsProvider;
         this.commitDialog = commitDialog;
         this.branchDetailsPanel = branchDetailsPanel;
         this.pushDialog = pushDialog;
+        this.interactiveRebasePanel = interactiveRebasePanel;
+        this.mergeConflictPanel = mergeConflictPanel;
+        this.logPanel = logPanel;
+        this.commitDetailsPanel = commitDetailsPanel;
+        this.fileHistoryPanel = fileHistoryPanel;
+        this.gitConsolePanel = gitConsolePanel;
+        this.reflogPanel = reflogPanel;
         void this.ensureTreeIndent();
     }
 
     registerAllCommands(): void {
         // General commands
         this.register('vigit.refresh', () => this.refresh());
+        this.register('vigit.selectRepository', () => this.selectRepository());
 
         // Commit commands
         this.register('vigit.commit', () => this.commit());
@@ -106,10 +144,18 @@ export class CommandRegistry {
         this.register('vigit.stashDrop', (item: any) => this.stashDrop(item));
         this.register('vigit.showStashDiff', (item: any) => this.showStashDiff(item));
 
-        this.register('vigit.showFileHistory', () => this.showFileHistory());
-        this.register('vigit.showCommitDetails', (commit: any) => this.showCommitDetails(commit));
-        this.register('vigit.showBranchDetails', (branch: GitBranch) => this.showBranchDetails(branch));
+        this.register('vigit.showFileHistory', (resource?: vscode.Uri) => this.showFileHistory(resource));
+        this.register('vigit.showCommitDetails', (commit: any, repositoryRoot?: string) =>
+            this.showCommitDetails(commit, repositoryRoot));
+        this.register('vigit.showBranchDetails', (branch: GitBranch, repositoryRoot?: string) =>
+            this.showBranchDetails(branch, repositoryRoot));
         this.register('vigit.annotate', () => this.annotate());
+        this.register('vigit.annotatePreviousRevision', (uri?: string, line?: number) =>
+            this.annotatePreviousRevision(uri, line));
+        this.register('vigit.showLog', (item: any) => this.showLog(item));
+        this.register('vigit.showGitConsole', () => this.gitConsolePanel.show());
+        this.register('vigit.showGitConsoleOutput', () => this.gitConsolePanel.showOutput());
+        this.register('vigit.showReflog', (item: any) => this.showReflog(item));
 
         // Branch commands
         this.register('vigit.checkoutBranch', (item: any) => this.checkoutBranch(item));
@@ -117,9 +163,33 @@ export class CommandRegistry {
         this.register('vigit.deleteBranch', (item: any) => this.deleteBranch(item));
         this.register('vigit.mergeBranch', (item: any) => this.mergeBranch(item));
         this.register('vigit.rebaseBranch', (item: any) => this.rebaseBranch(item));
+        this.register('vigit.interactiveRebase', (item: any) => this.interactiveRebase(item));
         this.register('vigit.pushBranch', (item: any) => this.pushBranch(item));
         this.register('vigit.openBranchesView', () => this.openBranchesView());
-        this.register('vigit.createTag', () => this.createTag());
+        this.register('vigit.createTag', (item: any) => this.createTag(item));
+
+        // Worktree commands
+        this.register('vigit.addWorktree', (item: any) => this.addWorktree(item));
+        this.register('vigit.removeWorktree', (item: any) => this.removeWorktree(item));
+        this.register('vigit.lockWorktree', (item: any) => this.lockWorktree(item));
+        this.register('vigit.unlockWorktree', (item: any) => this.unlockWorktree(item));
+        this.register('vigit.pruneWorktrees', (item: any) => this.pruneWorktrees(item));
+        this.register('vigit.openWorktree', (item: any) => this.openWorktree(item));
+
+        // Submodule commands
+        this.register('vigit.initSubmodule', (item: any) => this.runSubmoduleCommand(item, 'init'));
+        this.register('vigit.updateSubmodule', (item: any) => this.runSubmoduleCommand(item, 'update'));
+        this.register('vigit.syncSubmodule', (item: any) => this.runSubmoduleCommand(item, 'sync'));
+        this.register('vigit.deinitSubmodule', (item: any) => this.deinitSubmodule(item));
+        this.register('vigit.showSubmoduleSummary', (item: any) => this.showSubmoduleSummary(item));
+        this.register('vigit.openSubmoduleRepository', (item: any) => this.openSubmoduleRepository(item));
+
+        // Tag commands
+        this.register('vigit.deleteTag', (item: any) => this.deleteTag(item));
+        this.register('vigit.deleteRemoteTag', (item: any) => this.deleteRemoteTag(item));
+        this.register('vigit.pushTag', (item: any) => this.pushTag(item));
+        this.register('vigit.checkoutTag', (item: any) => this.checkoutTag(item));
+        this.register('vigit.compareTags', (item: any) => this.compareTags(item));
 
         // Git operations
         this.register('vigit.pull', () => this.pull());
@@ -127,11 +197,26 @@ export class CommandRegistry {
         this.register('vigit.fetch', () => this.fetch());
         this.register('vigit.cherryPick', () => this.cherryPick());
         this.register('vigit.resetHead', () => this.resetHead());
+        this.register('vigit.undoLastOperation', () => this.undoLastOperation());
+        this.register('vigit.redoLastOperation', () => this.redoLastOperation());
         this.register('vigit.compareWithBranch', (resource?: vscode.Uri, resources?: vscode.Uri[]) => 
             this.compareWithBranch(resource, resources));
         this.register('vigit.unstashChanges', () => this.unstashChanges());
         this.register('vigit.manageRemotes', () => this.manageRemotes());
         this.register('vigit.cloneRepository', () => this.cloneRepository());
+
+        // Conflict commands
+        this.register('vigit.resolveConflicts', (item: any) => this.resolveConflicts(item));
+        this.register('vigit.mergeConflict', (item: any) => this.mergeConflict(item));
+        this.register('vigit.acceptConflictYours', (item: any) => this.acceptConflictSide(item, 'ours'));
+        this.register('vigit.acceptConflictTheirs', (item: any) => this.acceptConflictSide(item, 'theirs'));
+        this.register('vigit.markConflictResolved', (item: any) => this.markConflictResolved(item));
+
+        // In-progress operation commands
+        this.register('vigit.showOperationActions', (item: any) => this.showOperationActions(item));
+        this.register('vigit.continueOperation', (item: any) => this.runOperationAction(item, 'continue'));
+        this.register('vigit.skipOperation', (item: any) => this.runOperationAction(item, 'skip'));
+        this.register('vigit.abortOperation', (item: any) => this.runOperationAction(item, 'abort'));
     }
 
     /**
@@ -159,11 +244,17 @@ export class CommandRegistry {
 
     private async refresh(): Promise<void> {
         await Promise.all([
-            this.localChangesProvider.refresh(),
+            this.repositoryManager.refreshAll(),
             this.branchesProvider.refresh(),
-            this.stashProvider.refresh()
+            this.stashProvider.refresh(),
+            this.worktreesProvider.refresh(),
+            this.submodulesProvider.refresh(),
+            this.tagsProvider.refresh()
         ]);
         this.shelfProvider.refresh();
+        this.logPanel.refresh();
+        this.fileHistoryPanel.refresh();
+        this.reflogPanel.refresh();
         vscode.window.showInformationMessage('Refreshed');
     }
 
@@ -179,9 +270,14 @@ export class CommandRegistry {
     }
 
     private async commitDirectory(resource?: vscode.Uri, resources?: vscode.Uri[]): Promise<void> {
-        const target = this.resolveResource(resource, resources) ?? vscode.Uri.file(this.gitService.getWorkspaceRoot());
-        const targetPath = target.fsPath;
-        const files = this.changelistManager.getFilesUnderPath(targetPath);
+        const resolved = this.resolveResource(resource, resources);
+        const repository = this.requireRepository(resolved?.fsPath);
+        if (!repository) {
+            return;
+        }
+
+        const targetPath = (resolved ?? vscode.Uri.file(repository.root)).fsPath;
+        const files = repository.changelistManager.getFilesUnderPath(targetPath);
 
         if (files.length === 0) {
             vscode.window.showWarningMessage('No tracked changes under the selected path');
@@ -195,16 +291,39 @@ export class CommandRegistry {
     }
 
     private async showDiff(filePath: string, staged: boolean = false): Promise<void> {
+        // 子模块路径的差异只是指针变化，改为列出指针跨越的提交
+        const submoduleOwner = await this.findSubmoduleOwner(filePath);
+        if (submoduleOwner) {
+            await this.showSubmoduleSummary({ filePath, repositoryRoot: submoduleOwner.root });
+            return;
+        }
+
+        const repository = this.requireRepository(filePath);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await DiffViewHelper.showDiff(this.gitService, filePath, staged);
+            await DiffViewHelper.showDiff(repository.gitService, filePath, staged);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to show diff: ${error}`);
         }
     }
 
     private async showDiffInNewTab(filePath: string, staged: boolean = false): Promise<void> {
+        const submoduleOwner = await this.findSubmoduleOwner(filePath);
+        if (submoduleOwner) {
+            await this.showSubmoduleSummary({ filePath, repositoryRoot: submoduleOwner.root });
+            return;
+        }
+
+        const repository = this.requireRepository(filePath);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await DiffViewHelper.showDiff(this.gitService, filePath, staged, {
+            await DiffViewHelper.showDiff(repository.gitService, filePath, staged, {
                 viewColumn: vscode.ViewColumn.Beside,
                 preview: false
             });
@@ -218,6 +337,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         const confirm = await vscode.window.showWarningMessage(
             `Revert changes in ${item.label}?`,
             { modal: true },
@@ -226,8 +350,11 @@ export class CommandRegistry {
 
         if (confirm === 'Revert') {
             try {
-                await this.gitService.revertFile(item.filePath);
-                await this.localChangesProvider.refresh();
+                await repository.operationJournal.run(
+                    { kind: 'revert', label: `Revert ${item.label}`, paths: [item.filePath] },
+                    () => repository.gitService.revertFile(item.filePath)
+                );
+                await repository.localChangesProvider.refresh();
                 vscode.window.showInformationMessage('File reverted');
             } catch (error) {
                 vscode.window.showErrorMessage(`Failed to revert: ${error}`);
@@ -240,9 +367,14 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await this.gitService.stageFile(item.filePath);
-            await this.localChangesProvider.refresh();
+            await repository.gitService.stageFile(item.filePath);
+            await repository.localChangesProvider.refresh();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to stage: ${error}`);
         }
@@ -253,9 +385,14 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await this.gitService.unstageFile(item.filePath);
-            await this.localChangesProvider.refresh();
+            await repository.gitService.unstageFile(item.filePath);
+            await repository.localChangesProvider.refresh();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to unstage: ${error}`);
         }
@@ -269,8 +406,11 @@ export class CommandRegistry {
         }
 
         try {
-            await this.gitService.stageFiles(targets.map(uri => uri.fsPath));
-            await this.localChangesProvider.refresh();
+            const groups = this.repositoryManager.groupPathsByRepository(targets.map(uri => uri.fsPath));
+            for (const [repository, paths] of groups) {
+                await repository.gitService.stageFiles(paths);
+                await repository.localChangesProvider.refresh();
+            }
             vscode.window.showInformationMessage(`Added ${targets.length} path${targets.length > 1 ? 's' : ''}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to add paths: ${error}`);
@@ -278,7 +418,12 @@ export class CommandRegistry {
     }
 
     private async commitFile(item: any): Promise<void> {
-        const files = this.collectFilesFromItem(item);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const files = this.collectFilesFromItem(repository, item);
         if (files.length === 0) {
             vscode.window.showWarningMessage('Select a file or changelist to commit');
             return;
@@ -290,7 +435,12 @@ export class CommandRegistry {
     }
 
     private async jumpToSource(item: any): Promise<void> {
-        const filePath = this.collectFilesFromItem(item)[0];
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const filePath = this.collectFilesFromItem(repository, item)[0];
         if (!filePath) {
             return;
         }
@@ -309,6 +459,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.requireRepository(filePath);
+        if (!repository) {
+            return;
+        }
+
         const confirm = await vscode.window.showWarningMessage(
             `Delete "${path.basename(filePath)}" from disk?`,
             { modal: true },
@@ -320,18 +475,26 @@ export class CommandRegistry {
         }
 
         try {
-            await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+            await repository.operationJournal.run(
+                { kind: 'delete', label: `Delete ${path.basename(filePath)}`, paths: [filePath] },
+                async () => vscode.workspace.fs.delete(vscode.Uri.file(filePath))
+            );
             if (item?.changelistId) {
-                this.changelistManager.removeFileFromChangelist(filePath, item.changelistId);
+                repository.changelistManager.removeFileFromChangelist(filePath, item.changelistId);
             }
-            await this.localChangesProvider.refresh();
+            await repository.localChangesProvider.refresh();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to delete file: ${error}`);
         }
     }
 
     private async openGitExclude(): Promise<void> {
-        const excludePath = path.join(this.gitService.getWorkspaceRoot(), '.git', 'info', 'exclude');
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
+        const excludePath = path.join(repository.gitService.getWorkspaceRoot(), '.git', 'info', 'exclude');
         try {
             await fs.mkdir(path.dirname(excludePath), { recursive: true });
             try {
@@ -354,8 +517,13 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.requireRepository(target.fsPath);
+        if (!repository) {
+            return;
+        }
+
         try {
-            const diff = await this.gitService.getDiff(target.fsPath);
+            const diff = await repository.gitService.getDiff(target.fsPath);
             if (!diff.trim()) {
                 vscode.window.showInformationMessage('No differences for the selected path');
                 return;
@@ -376,7 +544,13 @@ export class CommandRegistry {
     }
 
     private async compareWithRevision(resource?: vscode.Uri): Promise<void> {
-        const commits = await this.gitService.getLog(50);
+        const targetPath = resource?.fsPath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+        const repository = this.requireRepository(targetPath);
+        if (!repository) {
+            return;
+        }
+
+        const commits = await repository.gitService.getLog(50);
         if (commits.length === 0) {
             vscode.window.showWarningMessage('No commits available to compare');
             return;
@@ -396,10 +570,8 @@ export class CommandRegistry {
             return;
         }
 
-        const targetPath = resource?.fsPath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
-
         try {
-            const diff = await this.gitService.compareWithBranch(selected.commit.hash, targetPath);
+            const diff = await repository.gitService.compareWithBranch(selected.commit.hash, targetPath);
             if (!diff.trim()) {
                 vscode.window.showInformationMessage('No differences for the selected revision');
                 return;
@@ -441,7 +613,13 @@ export class CommandRegistry {
         }
 
         try {
-            await this.gitService.revertPaths(targets.map(uri => uri.fsPath));
+            const groups = this.repositoryManager.groupPathsByRepository(targets.map(uri => uri.fsPath));
+            for (const [repository, paths] of groups) {
+                await repository.operationJournal.run(
+                    { kind: 'revert', label: `Rollback ${label}`, paths },
+                    () => repository.gitService.revertPaths(paths)
+                );
+            }
             await this.refresh();
             vscode.window.showInformationMessage(`Reverted ${label}`);
         } catch (error) {
@@ -450,14 +628,19 @@ export class CommandRegistry {
     }
 
     private async copyPatchToClipboard(item: any): Promise<void> {
-        const files = this.collectFilesFromItem(item);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const files = this.collectFilesFromItem(repository, item);
         if (files.length === 0) {
             vscode.window.showWarningMessage('No changes to copy');
             return;
         }
 
         try {
-            const patch = await this.generatePatchForFiles(files);
+            const patch = await this.generatePatchForFiles(repository, files);
             if (!patch.trim()) {
                 vscode.window.showInformationMessage('No differences found for selected files');
                 return;
@@ -470,13 +653,18 @@ export class CommandRegistry {
     }
 
     private async createPatchFromLocalChanges(item: any): Promise<void> {
-        const files = this.collectFilesFromItem(item);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const files = this.collectFilesFromItem(repository, item);
         if (files.length === 0) {
             vscode.window.showWarningMessage('No changes to export');
             return;
         }
 
-        const defaultPath = path.join(this.gitService.getWorkspaceRoot(), 'changes.patch');
+        const defaultPath = path.join(repository.gitService.getWorkspaceRoot(), 'changes.patch');
         const uri = await vscode.window.showSaveDialog({
             defaultUri: vscode.Uri.file(defaultPath),
             filters: {
@@ -490,7 +678,7 @@ export class CommandRegistry {
         }
 
         try {
-            const patch = await this.generatePatchForFiles(files);
+            const patch = await this.generatePatchForFiles(repository, files);
             await vscode.workspace.fs.writeFile(uri, Buffer.from(patch, 'utf8'));
             vscode.window.showInformationMessage(`Patch saved to ${uri.fsPath}`);
         } catch (error) {
@@ -499,15 +687,20 @@ export class CommandRegistry {
     }
 
     private async showLocalChangesAsUml(item: any): Promise<void> {
-        const files = this.collectFilesFromItem(item);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const files = this.collectFilesFromItem(repository, item);
         if (files.length === 0) {
             vscode.window.showWarningMessage('No files selected');
             return;
         }
 
         try {
-            const status = this.localChangesProvider.getGitStatus() ?? await this.gitService.getStatus();
-            const uml = this.buildUmlDiagram(files, status);
+            const status = repository.localChangesProvider.getGitStatus() ?? await repository.gitService.getStatus();
+            const uml = this.buildUmlDiagram(repository, files, status);
             const doc = await vscode.workspace.openTextDocument({
                 content: uml,
                 language: 'plantuml'
@@ -518,7 +711,7 @@ export class CommandRegistry {
         }
     }
 
-    private async promptForNewChangelist(): Promise<Changelist | undefined> {
+    private async promptForNewChangelist(repository: Repository): Promise<Changelist | undefined> {
         const name = await vscode.window.showInputBox({
             prompt: 'Enter changelist name',
             placeHolder: 'Changelist name',
@@ -539,15 +732,20 @@ export class CommandRegistry {
             placeHolder: 'Description'
         });
 
-        const changelist = this.changelistManager.createChangelist(name, description);
+        const changelist = repository.changelistManager.createChangelist(name, description);
         vscode.window.showInformationMessage(`Created changelist: ${name}`);
         return changelist;
     }
 
     private async newChangelist(): Promise<void> {
-        const changelist = await this.promptForNewChangelist();
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
+        const changelist = await this.promptForNewChangelist(repository);
         if (changelist) {
-            await this.localChangesProvider.refresh();
+            await repository.localChangesProvider.refresh();
         }
     }
 
@@ -556,7 +754,12 @@ export class CommandRegistry {
             return;
         }
 
-        const changelists = this.changelistManager.getChangelists();
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const changelists = repository.changelistManager.getChangelists();
         type MoveTargetPick = vscode.QuickPickItem & {
             changelist?: Changelist;
             createNew?: boolean;
@@ -583,7 +786,7 @@ export class CommandRegistry {
         let targetChangelistId: string | undefined = selected.changelist?.id;
 
         if (selected.createNew) {
-            const created = await this.promptForNewChangelist();
+            const created = await this.promptForNewChangelist(repository);
             if (!created) {
                 return;
             }
@@ -594,8 +797,8 @@ export class CommandRegistry {
             return;
         }
 
-        this.changelistManager.moveFileToChangelist(item.filePath, targetChangelistId);
-        await this.localChangesProvider.refresh();
+        repository.changelistManager.moveFileToChangelist(item.filePath, targetChangelistId);
+        await repository.localChangesProvider.refresh();
     }
 
     private async deleteChangelist(item: any): Promise<void> {
@@ -603,7 +806,12 @@ export class CommandRegistry {
             return;
         }
 
-        const changelist = this.changelistManager.getChangelist(item.changelistId);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const changelist = repository.changelistManager.getChangelist(item.changelistId);
         if (!changelist) {
             return;
         }
@@ -615,8 +823,9 @@ export class CommandRegistry {
         );
 
         if (confirm === 'Delete') {
-            if (this.changelistManager.deleteChangelist(item.changelistId)) {
-                await this.localChangesProvider.refresh();
+            if (repository.changelistManager.deleteChangelist(item.changelistId)) {
+                repository.taskContextManager.deleteContext('changelist', item.changelistId);
+                await repository.localChangesProvider.refresh();
                 vscode.window.showInformationMessage('Changelist deleted');
             }
         }
@@ -627,9 +836,22 @@ export class CommandRegistry {
             return;
         }
 
-        if (this.changelistManager.setActiveChangelist(item.changelistId)) {
-            await this.localChangesProvider.refresh();
-            vscode.window.showInformationMessage('Active changelist updated');
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const previous = repository.changelistManager.getActiveChangelist();
+        if (previous.id !== item.changelistId) {
+            repository.taskContextManager.saveContext('changelist', previous.id);
+        }
+        if (repository.changelistManager.setActiveChangelist(item.changelistId)) {
+            await repository.localChangesProvider.refresh();
+            const restored = previous.id !== item.changelistId
+                && await this.restoreTaskContext(repository, 'changelist', item.changelistId);
+            vscode.window.showInformationMessage(
+                restored ? 'Active changelist updated, context restored' : 'Active changelist updated'
+            );
         }
     }
 
@@ -638,7 +860,12 @@ export class CommandRegistry {
             return;
         }
 
-        const changelist = this.changelistManager.getChangelist(item.changelistId);
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const changelist = repository.changelistManager.getChangelist(item.changelistId);
         if (!changelist) {
             return;
         }
@@ -664,16 +891,28 @@ export class CommandRegistry {
             placeHolder: 'Leave empty to clear description'
         });
 
-        this.changelistManager.updateChangelist(item.changelistId, {
+        const ticket = await vscode.window.showInputBox({
+            prompt: 'Associated ticket ID (optional)',
+            value: changelist.ticket ?? '',
+            placeHolder: 'e.g. PROJ-123, leave empty to clear'
+        });
+
+        repository.changelistManager.updateChangelist(item.changelistId, {
             name: newName.trim(),
-            description: description !== undefined ? description.trim() || undefined : changelist.description
+            description: description !== undefined ? description.trim() || undefined : changelist.description,
+            ticket: ticket !== undefined ? ticket.trim() || undefined : changelist.ticket
         });
 
-        await this.localChangesProvider.refresh();
+        await repository.localChangesProvider.refresh();
     }
 
     private async shelveChanges(): Promise<void> {
-        const activeChangelist = this.changelistManager.getActiveChangelist();
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
+        const activeChangelist = repository.changelistManager.getActiveChangelist();
         if (!activeChangelist || activeChangelist.files.length === 0) {
             vscode.window.showWarningMessage('No files to shelve in active changelist');
             return;
@@ -701,8 +940,8 @@ export class CommandRegistry {
         });
 
         try {
-            await this.shelfManager.shelveChanges(name, activeChangelist.files, description);
-            await this.localChangesProvider.refresh();
+            await repository.shelfManager.shelveChanges(name, activeChangelist.files, description);
+            await repository.localChangesProvider.refresh();
             this.shelfProvider.refresh();
             vscode.window.showInformationMessage('Changes shelved');
         } catch (error) {
@@ -715,6 +954,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         const options = ['Unshelve and Keep', 'Unshelve and Delete'];
         const selected = await vscode.window.showQuickPick(options, {
             placeHolder: 'Select unshelve option'
@@ -726,8 +970,8 @@ export class CommandRegistry {
 
         const removeAfter = selected === 'Unshelve and Delete';
 
-        const changelists = this.changelistManager.getChangelists();
-        let targetChangelistId = this.changelistManager.getActiveChangelist()?.id;
+        const changelists = repository.changelistManager.getChangelists();
+        let targetChangelistId = repository.changelistManager.getActiveChangelist()?.id;
 
         if (changelists.length > 1) {
             const pickItems = changelists.map(cl => ({
@@ -749,16 +993,16 @@ export class CommandRegistry {
         }
 
         try {
-            const restored = await this.shelfManager.unshelveChanges(item.shelvedChange.id, removeAfter);
+            const restored = await repository.shelfManager.unshelveChanges(item.shelvedChange.id, removeAfter);
 
             if (targetChangelistId) {
-                const files = this.getFilesFromShelvedChange(restored);
+                const files = this.getFilesFromShelvedChange(repository, restored);
                 for (const file of files) {
-                    this.changelistManager.addFileToChangelist(file, targetChangelistId);
+                    repository.changelistManager.addFileToChangelist(file, targetChangelistId);
                 }
             }
 
-            await this.localChangesProvider.refresh();
+            await repository.localChangesProvider.refresh();
             this.shelfProvider.refresh();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to unshelve: ${error}`);
@@ -770,6 +1014,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         const confirm = await vscode.window.showWarningMessage(
             `Delete shelved changes "${item.shelvedChange.name}"?`,
             { modal: true },
@@ -777,7 +1026,7 @@ export class CommandRegistry {
         );
 
         if (confirm === 'Delete') {
-            await this.shelfManager.deleteShelvedChange(item.shelvedChange.id);
+            await repository.shelfManager.deleteShelvedChange(item.shelvedChange.id);
             this.shelfProvider.refresh();
             vscode.window.showInformationMessage('Shelved changes deleted');
         }
@@ -788,8 +1037,13 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         try {
-            const patch = this.shelfManager.getPatchContent(item.shelvedChange.id);
+            const patch = repository.shelfManager.getPatchContent(item.shelvedChange.id);
             const doc = await vscode.workspace.openTextDocument({
                 content: patch,
                 language: 'diff'
@@ -804,6 +1058,11 @@ export class CommandRegistry {
     }
 
     private async stashSave(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         const message = await vscode.window.showInputBox({
             prompt: 'Enter stash message (optional)',
             placeHolder: 'Stash message',
@@ -811,10 +1070,10 @@ export class CommandRegistry {
         });
 
         try {
-            await this.gitService.stash(message && message.trim().length > 0 ? message.trim() : undefined);
+            await repository.gitService.stash(message && message.trim().length > 0 ? message.trim() : undefined);
             await Promise.all([
                 this.stashProvider.refresh(),
-                this.localChangesProvider.refresh()
+                repository.localChangesProvider.refresh()
             ]);
             vscode.window.showInformationMessage('Changes stashed');
         } catch (error) {
@@ -828,9 +1087,14 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await this.gitService.stashApply(stashItem.stash.hash);
-            await this.localChangesProvider.refresh();
+            await repository.gitService.stashApply(stashItem.stash.hash);
+            await repository.localChangesProvider.refresh();
             vscode.window.showInformationMessage(`Applied ${stashItem.stash.hash}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to apply stash: ${error}`);
@@ -839,15 +1103,19 @@ export class CommandRegistry {
 
     private async stashPop(item: any): Promise<void> {
         const stashItem = item as StashTreeItem | undefined;
+        const repository = this.getItemRepository(stashItem);
+        if (!repository) {
+            return;
+        }
 
         try {
             if (stashItem && stashItem.stash) {
-                await this.gitService.stashPop(stashItem.stash.hash);
+                await repository.gitService.stashPop(stashItem.stash.hash);
             } else {
-                await this.gitService.stashPop();
+                await repository.gitService.stashPop();
             }
             await Promise.all([
-                this.localChangesProvider.refresh(),
+                repository.localChangesProvider.refresh(),
                 this.stashProvider.refresh()
             ]);
             vscode.window.showInformationMessage('Stash popped');
@@ -862,6 +1130,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         const confirm = await vscode.window.showWarningMessage(
             `Drop ${stashItem.stash.hash}?`,
             { modal: true },
@@ -873,7 +1146,15 @@ export class CommandRegistry {
         }
 
         try {
-            await this.gitService.stashDrop(stashItem.stash.hash);
+            await repository.operationJournal.run(
+                {
+                    kind: 'stashDrop',
+                    label: `Drop ${stashItem.stash.hash}`,
+                    stash: stashItem.stash.hash,
+                    message: stashItem.stash.message
+                },
+                () => repository.gitService.stashDrop(stashItem.stash.hash)
+            );
             await this.stashProvider.refresh();
             vscode.window.showInformationMessage(`Dropped ${stashItem.stash.hash}`);
         } catch (error) {
@@ -887,8 +1168,13 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         try {
-            const diff = await this.gitService.getStashDiff(stashItem.stash.hash);
+            const diff = await repository.gitService.getStashDiff(stashItem.stash.hash);
             const doc = await vscode.workspace.openTextDocument({
                 content: diff,
                 language: 'diff'
@@ -903,7 +1189,12 @@ export class CommandRegistry {
     }
 
     private async unstashChanges(): Promise<void> {
-        const stashes = await this.gitService.getStashList();
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
+        const stashes = await repository.gitService.getStashList();
         if (stashes.length === 0) {
             vscode.window.showInformationMessage('No stashes available');
             return;
@@ -935,12 +1226,12 @@ export class CommandRegistry {
 
         try {
             if (mode.action === 'apply') {
-                await this.gitService.stashApply(pick.stash.hash);
+                await repository.gitService.stashApply(pick.stash.hash);
             } else {
-                await this.gitService.stashPop(pick.stash.hash);
+                await repository.gitService.stashPop(pick.stash.hash);
             }
             await Promise.all([
-                this.localChangesProvider.refresh(),
+                repository.localChangesProvider.refresh(),
                 this.stashProvider.refresh()
             ]);
             vscode.window.showInformationMessage(`Restored stash ${pick.stash.hash}`);
@@ -949,69 +1240,90 @@ export class CommandRegistry {
         }
     }
 
-    private async showFileHistory(): Promise<void> {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            vscode.window.showWarningMessage('No active editor');
+    private async showFileHistory(resource?: vscode.Uri): Promise<void> {
+        // 资源管理器右键会传入 Uri，编辑器内调用时使用当前文件
+        const uri = resource instanceof vscode.Uri ? resource : vscode.window.activeTextEditor?.document.uri;
+        if (!uri || uri.scheme !== 'file') {
+            vscode.window.showWarningMessage('No file selected');
             return;
         }
 
-        const filePath = editor.document.uri.fsPath;
-        try {
-            const commits = await this.gitService.getFileLog(filePath);
-            // Show commits in a quick pick
-            const items = commits.map(c => ({
-                label: `$(git-commit) ${c.abbrevHash}`,
-                description: c.message,
-                detail: `${c.author} · ${c.date.toLocaleString()}`,
-                commit: c
-            }));
-
-            const selected = await vscode.window.showQuickPick(items, {
-                placeHolder: 'Select commit to view',
-                matchOnDescription: true,
-                matchOnDetail: true
-            });
+        const filePath = uri.fsPath;
+        const repository = this.requireRepository(filePath);
+        if (!repository) {
+            return;
+        }
 
-            if (selected) {
-                await this.showCommitDetails(selected.commit);
-            }
+        try {
+            await this.fileHistoryPanel.show(repository, filePath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to show file history: ${error}`);
         }
     }
 
-    private async showCommitDetails(commit: any): Promise<void> {
-        try {
-            const diff = await this.gitService.getCommitDiff(commit.hash);
-            
-            const doc = await vscode.workspace.openTextDocument({
-                content: diff,
-                language: 'diff'
-            });
+    private async showCommitDetails(commit: any, repositoryRoot?: string): Promise<void> {
+        const repository = this.getItemRepository({ repositoryRoot });
+        const hash = typeof commit === 'string' ? commit : commit?.hash;
+        if (!repository || !hash) {
+            return;
+        }
 
-            await vscode.window.showTextDocument(doc, {
-                preview: true,
-                viewColumn: vscode.ViewColumn.Beside
-            });
+        try {
+            await this.commitDetailsPanel.show(repository, hash);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to show commit details: ${error}`);
         }
     }
 
-    private async showBranchDetails(branch: GitBranch | { branch?: GitBranch } | undefined): Promise<void> {
+    private async showBranchDetails(
+        branch: GitBranch | { branch?: GitBranch; repositoryRoot?: string } | undefined,
+        repositoryRoot?: string
+    ): Promise<void> {
         const target = (branch as any)?.branch ?? branch;
         if (!target || !target.name) {
             return;
         }
 
+        const repository = this.getItemRepository({ repositoryRoot: repositoryRoot ?? (branch as any)?.repositoryRoot });
+        if (!repository) {
+            return;
+        }
+
         try {
-            await this.branchDetailsPanel.show(target);
+            await this.branchDetailsPanel.show(target, repository);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to open branch details: ${error}`);
         }
     }
 
+    private async showLog(item?: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const branch: GitBranch | undefined = item?.branch;
+        try {
+            await this.logPanel.show(repository, branch ? { branch: branch.name } : {});
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open log: ${error}`);
+        }
+    }
+
+    private async showReflog(item?: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const branch: GitBranch | undefined = item?.branch;
+        try {
+            await this.reflogPanel.show(repository, branch && !branch.remote ? branch.name : undefined);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open reflog: ${error}`);
+        }
+    }
+
     private async annotate(): Promise<void> {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
@@ -1019,19 +1331,52 @@ export class CommandRegistry {
             return;
         }
 
+        // 历史版本文档不在工作区内，关闭其注解时无需查找仓库
+        if (AnnotateHelper.isAnnotated(editor.document)) {
+            AnnotateHelper.clearAnnotations(editor.document);
+            return;
+        }
+
+        const repository = this.requireRepository(editor.document.uri.fsPath);
+        if (!repository) {
+            return;
+        }
+
         try {
-            await AnnotateHelper.showAnnotations(this.gitService, editor);
+            await AnnotateHelper.showAnnotations(repository.gitService, editor);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to annotate: ${error}`);
         }
     }
 
+    private async annotatePreviousRevision(uri?: string, line?: number): Promise<void> {
+        // 悬停链接会传入文档 Uri 与行号，命令面板调用时使用当前编辑器与光标行
+        const editor = uri
+            ? vscode.window.visibleTextEditors.find(item => item.document.uri.toString() === uri)
+            : vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor');
+            return;
+        }
+
+        try {
+            await AnnotateHelper.annotatePreviousRevision(editor, typeof line === 'number' ? line : undefined);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to annotate previous revision: ${error}`);
+        }
+    }
+
     private async checkoutBranch(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         let branchName: string | undefined =
             typeof item === 'string' ? item : item?.branch?.name;
 
         if (!branchName) {
-            const branches = await this.gitService.getBranches();
+            const branches = await repository.gitService.getBranches();
             const pick = await vscode.window.showQuickPick(
                 branches.map(branch => ({
                     label: branch.name,
@@ -1054,22 +1399,43 @@ export class CommandRegistry {
         }
 
         try {
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Checking out ${branchName}...`,
-                cancellable: false
-            }, async () => {
-                await this.gitService.checkoutBranch(branchName);
-            });
+            // 在检出前保存离开分支的上下文，此时编辑器仍对应原分支的文件
+            const previousBranch = await repository.gitService.getCurrentBranch();
+            repository.taskContextManager.saveContext('branch', previousBranch);
+
+            if (!(await SmartCheckoutHelper.checkout(repository, branchName))) {
+                return;
+            }
 
             await this.refresh();
-            vscode.window.showInformationMessage(`Checked out: ${branchName}`);
+            const restored = previousBranch !== branchName
+                && await this.restoreTaskContext(repository, 'branch', branchName);
+            vscode.window.showInformationMessage(
+                restored ? `Checked out: ${branchName}, context restored` : `Checked out: ${branchName}`
+            );
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to checkout: ${error}`);
         }
     }
 
+    /**
+     * 上下文恢复失败不影响切换本身，只提示警告。
+     */
+    private async restoreTaskContext(repository: Repository, kind: TaskContextKind, name: string): Promise<boolean> {
+        try {
+            return await repository.taskContextManager.restoreContext(kind, name);
+        } catch (error) {
+            vscode.window.showWarningMessage(`Failed to restore ${kind} context: ${error}`);
+            return false;
+        }
+    }
+
     private async newBranch(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         const branchName = await vscode.window.showInputBox({
             prompt: 'Enter new branch name',
             placeHolder: 'Branch name',
@@ -1089,7 +1455,7 @@ export class CommandRegistry {
         }
 
         try {
-            await this.gitService.createBranch(branchName);
+            await repository.gitService.createBranch(branchName);
             await this.branchesProvider.refresh();
             vscode.window.showInformationMessage(`Created and checked out: ${branchName}`);
         } catch (error) {
@@ -1102,6 +1468,11 @@ export class CommandRegistry {
             return;
         }
 
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         const branchName = item.branch.name;
         const confirm = await vscode.window.showWarningMessage(
             `Delete branch "${branchName}"?`,
@@ -1116,7 +1487,10 @@ export class CommandRegistry {
 
         try {
             const force = confirm === 'Force Delete';
-            await this.gitService.deleteBranch(branchName, force);
+            await repository.operationJournal.run(
+                { kind: 'branchDelete', label: `Delete branch ${branchName}`, branch: branchName, upstream: item.branch.upstream },
+                () => repository.gitService.deleteBranch(branchName, force)
+            );
             await this.branchesProvider.refresh();
             vscode.window.showInformationMessage(`Deleted branch: ${branchName}`);
         } catch (error) {
@@ -1125,10 +1499,15 @@ export class CommandRegistry {
     }
 
     private async mergeBranch(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         let branchName: string | undefined = item?.branch?.name;
 
         if (!branchName) {
-            const branches = (await this.gitService.getBranches())
+            const branches = (await repository.gitService.getBranches())
                 .filter(branch => !branch.current && !branch.remote);
             const pick = await vscode.window.showQuickPick(
                 branches.map(branch => ({
@@ -1153,20 +1532,28 @@ export class CommandRegistry {
 
         if (confirm === 'Merge') {
             try {
-                await this.gitService.mergeBranch(branchName);
+                await repository.gitService.mergeBranch(branchName);
                 await this.refresh();
                 vscode.window.showInformationMessage(`Merged: ${branchName}`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to merge: ${error}`);
+                await this.refresh();
+                if (!(await ConflictHelper.notifyIfConflicted(repository.gitService, 'Merge', repository.root))) {
+                    vscode.window.showErrorMessage(`Failed to merge: ${error}`);
+                }
             }
         }
     }
 
     private async rebaseBranch(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         let branchName: string | undefined = item?.branch?.name;
 
         if (!branchName) {
-            const branches = (await this.gitService.getBranches())
+            const branches = (await repository.gitService.getBranches())
                 .filter(branch => !branch.current && !branch.remote);
             const pick = await vscode.window.showQuickPick(
                 branches.map(branch => ({
@@ -1191,20 +1578,78 @@ export class CommandRegistry {
 
         if (confirm === 'Rebase') {
             try {
-                await this.gitService.rebase(branchName);
+                await repository.gitService.rebase(branchName);
                 await this.refresh();
                 vscode.window.showInformationMessage(`Rebased onto: ${branchName}`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to rebase: ${error}`);
+                await this.refresh();
+                if (!(await ConflictHelper.notifyIfConflicted(repository.gitService, 'Rebase', repository.root))) {
+                    vscode.window.showErrorMessage(`Failed to rebase: ${error}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * 打开交互式 rebase：分支项以该分支为基准，提交项（来自 Branch Details）则从该提交开始重写。
+     */
+    private async interactiveRebase(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        if (await repository.gitService.isRebaseInProgress()) {
+            await this.interactiveRebasePanel.show(repository, undefined, 'current rebase');
+            return;
+        }
+
+        const commit: GitCommit | undefined = item?.commit;
+        if (commit?.hash) {
+            if (!(await repository.gitService.isAncestor(commit.hash, 'HEAD'))) {
+                vscode.window.showWarningMessage(`Commit ${commit.abbrevHash} is not part of the current branch`);
+                return;
             }
+            const parent = commit.parents?.[0];
+            await this.interactiveRebasePanel.show(repository, parent, parent ? parent.substring(0, 7) : 'root');
+            return;
+        }
+
+        let branchName: string | undefined = item?.branch?.name;
+        if (!branchName) {
+            const branches = (await repository.gitService.getBranches()).filter(branch => !branch.current);
+            const pick = await vscode.window.showQuickPick(
+                branches.map(branch => ({
+                    label: branch.name,
+                    description: branch.remote ? 'remote' : branch.upstream ? `tracking ${branch.upstream}` : '',
+                    branch
+                })),
+                { placeHolder: 'Select branch to rebase onto interactively' }
+            );
+            branchName = pick?.branch.name;
+        }
+
+        if (!branchName) {
+            return;
+        }
+
+        try {
+            await this.interactiveRebasePanel.show(repository, branchName, branchName);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start interactive rebase: ${error}`);
         }
     }
 
     private async pushBranch(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
         let branch: GitBranch | undefined = item?.branch;
 
         if (!branch) {
-            const localBranches = (await this.gitService.getBranches()).filter(b => !b.remote);
+            const localBranches = (await repository.gitService.getBranches()).filter(b => !b.remote);
             if (localBranches.length === 0) {
                 vscode.window.showWarningMessage('No local branches available to push.');
                 return;
@@ -1231,7 +1676,7 @@ export class CommandRegistry {
         }
 
         try {
-            await this.pushDialog.show(branch);
+            await this.pushDialog.show(branch, repository);
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             vscode.window.showErrorMessage(`Failed to open push dialog: ${message}`);
@@ -1243,7 +1688,15 @@ export class CommandRegistry {
         await vscode.commands.executeCommand('vigit.branches.focus');
     }
 
-    private async createTag(): Promise<void> {
+    /**
+     * 创建轻量、附注或签名标签；附注与签名标签需要填写说明。
+     */
+    private async createTag(item?: any): Promise<void> {
+        const repository = this.getItemRepository(item?.repository ? { repositoryRoot: item.repository.root } : item);
+        if (!repository) {
+            return;
+        }
+
         const tagName = await vscode.window.showInputBox({
             prompt: 'Enter tag name',
             placeHolder: 'v1.0.0',
@@ -1258,23 +1711,732 @@ export class CommandRegistry {
             prompt: 'Create tag at (leave empty for HEAD)',
             placeHolder: 'HEAD, commit hash, branch name'
         });
-
-        try {
-            await this.gitService.createTag(tagName.trim(), startPoint?.trim() || undefined);
-            vscode.window.showInformationMessage(`Created tag ${tagName.trim()}`);
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to create tag: ${error}`);
+        if (startPoint === undefined) {
+            return;
         }
-    }
+
+        const kind = await vscode.window.showQuickPick(
+            [
+                { label: 'Lightweight', description: 'Name only, no message', annotated: false, sign: false },
+                { label: 'Annotated', description: 'Records tagger, date and message', annotated: true, sign: false },
+                { label: 'Signed', description: 'Annotated tag signed with your GPG key', annotated: true, sign: true }
+            ],
+            { placeHolder: 'Select tag type' }
+        );
+        if (!kind) {
+            return;
+        }
+
+        let message: string | undefined;
+        if (kind.annotated) {
+            message = await vscode.window.showInputBox({
+                prompt: `Enter message for tag ${tagName.trim()}`,
+                validateInput: (value) => !value?.trim() ? 'Tag message cannot be empty' : null
+            });
+            if (!message) {
+                return;
+            }
+        }
+
+        try {
+            await repository.gitService.createTag(tagName.trim(), startPoint.trim() || undefined, {
+                message: message?.trim(),
+                sign: kind.sign
+            });
+            await this.tagsProvider.refresh();
+            vscode.window.showInformationMessage(`Created ${kind.label.toLowerCase()} tag ${tagName.trim()}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create tag: ${error}`);
+        }
+    }
+
+    /**
+     * 从已有分支、提交或新分支创建工作树；从 Branches 视图调用时直接使用该分支。
+     */
+    private async addWorktree(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        let source: GitWorktreeSource | undefined;
+        const itemBranch: GitBranch | undefined = item?.branch;
+        if (itemBranch && !itemBranch.remote) {
+            source = { kind: 'branch', branch: itemBranch.name };
+        } else {
+            source = await this.pickWorktreeSource(repository, itemBranch);
+        }
+        if (!source) {
+            return;
+        }
+
+        const name = source.kind === 'commit' ? source.commit.substring(0, 7) : source.branch;
+        const defaultPath = path.join(
+            path.dirname(repository.root),
+            `${path.basename(repository.root)}-${name.replace(/[\\/:*?"<>|\s]+/g, '-')}`
+        );
+        const worktreePath = await vscode.window.showInputBox({
+            prompt: 'Enter worktree location',
+            value: defaultPath,
+            valueSelection: [path.dirname(defaultPath).length + 1, defaultPath.length],
+            validateInput: (value) => !value?.trim() ? 'Location cannot be empty' : null
+        });
+        if (!worktreePath) {
+            return;
+        }
+
+        const target = path.resolve(repository.root, worktreePath.trim());
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Creating worktree ${path.basename(target)}...`,
+                cancellable: false
+            }, async () => {
+                await repository.gitService.addWorktree(target, source!);
+            });
+            await Promise.all([this.worktreesProvider.refresh(), this.branchesProvider.refresh()]);
+            const choice = await vscode.window.showInformationMessage(
+                `Created worktree at ${target}`,
+                'Open in New Window'
+            );
+            if (choice === 'Open in New Window') {
+                await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(target), { forceNewWindow: true });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create worktree: ${error}`);
+        }
+    }
+
+    private async pickWorktreeSource(repository: Repository, remoteBranch?: GitBranch): Promise<GitWorktreeSource | undefined> {
+        const kind = remoteBranch
+            ? 'newBranch'
+            : (await vscode.window.showQuickPick([
+                { label: 'Existing Branch', description: 'Check out a local branch in the new worktree', source: 'branch' as const },
+                { label: 'New Branch', description: 'Create a branch for the new worktree', source: 'newBranch' as const },
+                { label: 'Commit', description: 'Detached HEAD at a commit, tag or other revision', source: 'commit' as const }
+            ], { placeHolder: 'Create worktree from' }))?.source;
+
+        if (kind === 'branch') {
+            // 同一分支不能同时在两个工作树中检出
+            const branches = (await repository.gitService.getBranches())
+                .filter(branch => !branch.remote && !branch.current && !branch.worktree);
+            if (branches.length === 0) {
+                vscode.window.showInformationMessage('Every local branch is already checked out in a worktree');
+                return undefined;
+            }
+            const pick = await vscode.window.showQuickPick(
+                branches.map(branch => ({ label: branch.name, description: branch.commit })),
+                { placeHolder: 'Select branch to check out in the new worktree' }
+            );
+            return pick ? { kind: 'branch', branch: pick.label } : undefined;
+        }
+
+        if (kind === 'commit') {
+            const revision = await vscode.window.showInputBox({
+                prompt: 'Enter the revision to check out',
+                placeHolder: 'Commit hash, tag or branch name',
+                validateInput: (value) => !value?.trim() ? 'Revision cannot be empty' : null
+            });
+            if (!revision) {
+                return undefined;
+            }
+            const commit = await repository.gitService.resolveCommit(revision.trim());
+            if (!commit) {
+                vscode.window.showErrorMessage(`Unknown revision: ${revision.trim()}`);
+                return undefined;
+            }
+            return { kind: 'commit', commit };
+        }
+
+        if (kind === 'newBranch') {
+            const suggested = remoteBranch?.name.replace(/^remotes\/[^/]+\//, '');
+            const branchName = await vscode.window.showInputBox({
+                prompt: 'Enter new branch name',
+                placeHolder: 'Branch name',
+                value: suggested,
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Branch name cannot be empty';
+                    }
+                    if (!/^[a-zA-Z0-9/_.-]+$/.test(value)) {
+                        return 'Invalid branch name';
+                    }
+                    return null;
+                }
+            });
+            if (!branchName) {
+                return undefined;
+            }
+            const startPoint = remoteBranch?.name ?? await vscode.window.showInputBox({
+                prompt: 'Create branch from (leave empty for HEAD)',
+                placeHolder: 'HEAD, commit hash, branch name'
+            });
+            if (startPoint === undefined) {
+                return undefined;
+            }
+            return { kind: 'newBranch', branch: branchName.trim(), startPoint: startPoint.trim() || 'HEAD' };
+        }
+
+        return undefined;
+    }
+
+    private async removeWorktree(item: any): Promise<void> {
+        const worktreeItem = item as WorktreeTreeItem;
+        if (!worktreeItem?.worktree) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const { worktree } = worktreeItem;
+        const confirm = await vscode.window.showWarningMessage(
+            `Remove worktree "${path.basename(worktree.path)}"?`,
+            {
+                modal: true,
+                detail: `${worktree.path} will be deleted.${worktree.branch ? ` Branch "${worktree.branch}" is kept.` : ''}`
+            },
+            'Remove'
+        );
+        if (confirm !== 'Remove') {
+            return;
+        }
+
+        try {
+            try {
+                await repository.gitService.removeWorktree(worktree.path);
+            } catch (error) {
+                // 有未提交改动或未跟踪文件时 git 拒绝删除，确认后强制删除
+                if (!/modified or untracked files|use --force/i.test(String(error))) {
+                    throw error;
+                }
+                const force = await vscode.window.showWarningMessage(
+                    `Worktree "${path.basename(worktree.path)}" has uncommitted changes or untracked files`,
+                    { modal: true, detail: 'Force removing discards them permanently.' },
+                    'Force Remove'
+                );
+                if (force !== 'Force Remove') {
+                    return;
+                }
+                await repository.gitService.removeWorktree(worktree.path, true);
+            }
+            await Promise.all([this.worktreesProvider.refresh(), this.branchesProvider.refresh()]);
+            vscode.window.showInformationMessage(`Removed worktree ${path.basename(worktree.path)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to remove worktree: ${error}`);
+        }
+    }
+
+    private async lockWorktree(item: any): Promise<void> {
+        const worktreeItem = item as WorktreeTreeItem;
+        if (!worktreeItem?.worktree) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const reason = await vscode.window.showInputBox({
+            prompt: 'Lock reason (optional)',
+            placeHolder: 'e.g. on a removable drive'
+        });
+        if (reason === undefined) {
+            return;
+        }
+
+        try {
+            await repository.gitService.lockWorktree(worktreeItem.worktree.path, reason.trim() || undefined);
+            await this.worktreesProvider.refresh();
+            vscode.window.showInformationMessage(`Locked worktree ${path.basename(worktreeItem.worktree.path)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to lock worktree: ${error}`);
+        }
+    }
+
+    private async unlockWorktree(item: any): Promise<void> {
+        const worktreeItem = item as WorktreeTreeItem;
+        if (!worktreeItem?.worktree) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        try {
+            await repository.gitService.unlockWorktree(worktreeItem.worktree.path);
+            await this.worktreesProvider.refresh();
+            vscode.window.showInformationMessage(`Unlocked worktree ${path.basename(worktreeItem.worktree.path)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to unlock worktree: ${error}`);
+        }
+    }
+
+    private async pruneWorktrees(item: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        try {
+            const pruned = await repository.gitService.pruneWorktrees();
+            await Promise.all([this.worktreesProvider.refresh(), this.branchesProvider.refresh()]);
+            vscode.window.showInformationMessage(
+                pruned.length > 0
+                    ? `Pruned ${pruned.length} stale worktree${pruned.length === 1 ? '' : 's'}`
+                    : 'No stale worktrees to prune'
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to prune worktrees: ${error}`);
+        }
+    }
+
+    private async openWorktree(item: any): Promise<void> {
+        const worktreeItem = item as WorktreeTreeItem;
+        if (!worktreeItem?.worktree) {
+            return;
+        }
+        await vscode.commands.executeCommand(
+            'vscode.openFolder',
+            vscode.Uri.file(worktreeItem.worktree.path),
+            { forceNewWindow: true }
+        );
+    }
+
+    /**
+     * 从子模块视图调用时作用于该子模块，从视图标题栏调用时作用于仓库的全部子模块。
+     */
+    private async runSubmoduleCommand(item: any, action: 'init' | 'update' | 'sync'): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const submodule: GitSubmodule | undefined = (item as SubmoduleTreeItem)?.submodule;
+        const paths = submodule ? [submodule.path] : [];
+        const target = submodule ? submodule.path : 'all submodules';
+        const titles = { init: 'Initializing', update: 'Updating', sync: 'Synchronizing' };
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `${titles[action]} ${target}...`,
+                cancellable: false
+            }, async () => {
+                if (action === 'init') {
+                    await repository.gitService.initSubmodules(paths);
+                } else if (action === 'update') {
+                    await repository.gitService.updateSubmodules(paths);
+                } else {
+                    await repository.gitService.syncSubmodules(paths);
+                }
+            });
+            await this.refreshSubmodules(repository);
+            const done = { init: 'Initialized', update: 'Updated', sync: 'Synchronized' };
+            vscode.window.showInformationMessage(`${done[action]} ${target}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${action} ${target}: ${error}`);
+        }
+    }
+
+    private async deinitSubmodule(item: any): Promise<void> {
+        const submodule: GitSubmodule | undefined = (item as SubmoduleTreeItem)?.submodule;
+        if (!submodule) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Deinitialize submodule "${submodule.path}"?`,
+            {
+                modal: true,
+                detail: 'Its working tree is removed. The submodule stays registered in .gitmodules and can be updated again later.'
+            },
+            'Deinit'
+        );
+        if (confirm !== 'Deinit') {
+            return;
+        }
+
+        try {
+            try {
+                await repository.gitService.deinitSubmodules([submodule.path]);
+            } catch (error) {
+                if (!/local modifications/i.test(String(error))) {
+                    throw error;
+                }
+                const force = await vscode.window.showWarningMessage(
+                    `Submodule "${submodule.path}" has local modifications`,
+                    { modal: true, detail: 'Force deinit discards them permanently.' },
+                    'Force Deinit'
+                );
+                if (force !== 'Force Deinit') {
+                    return;
+                }
+                await repository.gitService.deinitSubmodules([submodule.path], true);
+            }
+            await this.refreshSubmodules(repository);
+            vscode.window.showInformationMessage(`Deinitialized ${submodule.path}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to deinit submodule: ${error}`);
+        }
+    }
+
+    /**
+     * 列出子模块指针从父仓库 HEAD 记录的提交移到当前检出提交所跨越的提交，选中后在子模块仓库中查看详情。
+     */
+    private async showSubmoduleSummary(item: any): Promise<void> {
+        const repository = this.getItemRepository({ repositoryRoot: item?.repositoryRoot });
+        if (!repository) {
+            return;
+        }
+
+        try {
+            let submodule: GitSubmodule | undefined = (item as SubmoduleTreeItem)?.submodule;
+            if (!submodule && typeof item?.filePath === 'string') {
+                const relativePath = path.relative(repository.root, item.filePath).split(path.sep).join('/');
+                submodule = (await repository.gitService.getSubmodules()).find(candidate => candidate.path === relativePath);
+            }
+            if (!submodule) {
+                return;
+            }
+            if (!submodule.checkedOutCommit) {
+                vscode.window.showInformationMessage(`Submodule ${submodule.path} is not initialized`);
+                return;
+            }
+
+            const from = submodule.recordedCommit;
+            const to = submodule.checkedOutCommit;
+            const range = `${from?.substring(0, 7) ?? 'new'} → ${to.substring(0, 7)}`;
+            if (from === to) {
+                vscode.window.showInformationMessage(`Submodule ${submodule.path} is at the recorded commit ${to.substring(0, 7)}`);
+                return;
+            }
+
+            const commits = await repository.gitService.getSubmoduleCommits(submodule.path, from, to);
+            if (commits.length === 0) {
+                vscode.window.showInformationMessage(`Submodule ${submodule.path}: no commits between ${range}`);
+                return;
+            }
+
+            const added = commits.filter(commit => commit.direction === 'added').length;
+            const removed = commits.length - added;
+            const pick = await vscode.window.showQuickPick(
+                commits.map(commit => ({
+                    label: `$(${commit.direction === 'added' ? 'add' : 'remove'}) ${commit.message}`,
+                    description: commit.abbrevHash,
+                    detail: commit.direction === 'removed' ? 'Removed by this pointer change' : undefined,
+                    commit
+                })),
+                {
+                    title: `Submodule ${submodule.path}: ${range} (${added} added${removed > 0 ? `, ${removed} removed` : ''})`,
+                    placeHolder: 'Select a commit to show its details',
+                    matchOnDescription: true
+                }
+            );
+            if (!pick) {
+                return;
+            }
+
+            const submoduleRepository = await this.repositoryManager.openRepository(path.join(repository.root, submodule.path));
+            if (submoduleRepository) {
+                await this.commitDetailsPanel.show(submoduleRepository, pick.commit.hash);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to summarize submodule changes: ${error}`);
+        }
+    }
+
+    private async openSubmoduleRepository(item: any): Promise<void> {
+        const submodule: GitSubmodule | undefined = (item as SubmoduleTreeItem)?.submodule;
+        if (!submodule) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const submoduleRepository = await this.repositoryManager.openRepository(path.join(repository.root, submodule.path));
+        if (!submoduleRepository) {
+            vscode.window.showErrorMessage(`Failed to open submodule ${submodule.path}: not a Git repository`);
+            return;
+        }
+        this.repositoryManager.setActiveRepository(submoduleRepository.root);
+        await this.focusCommitPanel();
+        vscode.window.showInformationMessage(`Active repository: ${submoduleRepository.name}`);
+    }
+
+    /**
+     * 仅当路径是其上层仓库登记的子模块时返回该上层仓库。
+     */
+    private async findSubmoduleOwner(filePath: string): Promise<Repository | undefined> {
+        const owner = this.repositoryManager.getRepositoryForPath(path.dirname(filePath));
+        if (!owner) {
+            return undefined;
+        }
+        const relativePath = path.relative(owner.root, filePath).split(path.sep).join('/');
+        const submodulePaths = await owner.gitService.getSubmodulePaths().catch(() => [] as string[]);
+        return submodulePaths.includes(relativePath) ? owner : undefined;
+    }
+
+    /**
+     * init/update/deinit 会让子模块仓库出现或消失，重新扫描仓库列表。
+     */
+    private async refreshSubmodules(repository: Repository): Promise<void> {
+        await this.repositoryManager.discoverRepositories();
+        await Promise.all([
+            this.submodulesProvider.refresh(),
+            repository.localChangesProvider.refresh()
+        ]);
+    }
+
+    private async deleteTag(item: any): Promise<void> {
+        const tag: GitTag | undefined = (item as TagTreeItem)?.tag;
+        if (!tag) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete tag "${tag.name}"?`,
+            { modal: true, detail: 'Only the local tag is deleted. Tags already pushed stay on the remote.' },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        try {
+            await repository.gitService.deleteTag(tag.name);
+            await this.tagsProvider.refresh();
+            vscode.window.showInformationMessage(`Deleted tag ${tag.name}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete tag: ${error}`);
+        }
+    }
+
+    private async deleteRemoteTag(item: any): Promise<void> {
+        const tag: GitTag | undefined = (item as TagTreeItem)?.tag;
+        if (!tag) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        try {
+            const remote = await this.pickTagRemote(repository, `Select remote to delete tag ${tag.name} from`);
+            if (!remote) {
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete tag "${tag.name}" from ${remote}?`,
+                { modal: true, detail: 'Other clones keep the tag until they prune it. The local tag is not changed.' },
+                'Delete'
+            );
+            if (confirm !== 'Delete') {
+                return;
+            }
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Deleting tag ${tag.name} from ${remote}...`,
+                cancellable: false
+            }, async () => {
+                await repository.gitService.deleteRemoteTag(remote, tag.name);
+            });
+            vscode.window.showInformationMessage(`Deleted tag ${tag.name} from ${remote}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete remote tag: ${error}`);
+        }
+    }
+
+    private async pushTag(item: any): Promise<void> {
+        const tag: GitTag | undefined = (item as TagTreeItem)?.tag;
+        if (!tag) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        try {
+            const remote = await this.pickTagRemote(repository, `Select remote to push tag ${tag.name} to`);
+            if (!remote) {
+                return;
+            }
+
+            const pushed = await GitHooksHelper.run(repository, 'push', 'Push', async (noVerify, onOutput) => {
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Pushing tag ${tag.name} to ${remote}...`,
+                    cancellable: false
+                }, async () => {
+                    await repository.gitService.push(remote, `refs/tags/${tag.name}`, { noVerify, onOutput });
+                });
+            });
+
+            if (pushed) {
+                vscode.window.showInformationMessage(`Pushed tag ${tag.name} to ${remote}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to push tag: ${error}`);
+        }
+    }
+
+    /**
+     * 只有一个远程时直接使用，多个时让用户选择；没有远程时提示并返回 undefined。
+     */
+    private async pickTagRemote(repository: Repository, placeHolder: string): Promise<string | undefined> {
+        const remotes = await repository.gitService.getRemotes();
+        if (remotes.length === 0) {
+            vscode.window.showWarningMessage('No remotes configured');
+            return undefined;
+        }
+        if (remotes.length === 1) {
+            return remotes[0].name;
+        }
+        return vscode.window.showQuickPick(remotes.map(remote => remote.name), { placeHolder });
+    }
+
+    /**
+     * 检出标签得到游离 HEAD，冲突的本地改动交给 Smart Checkout 处理。
+     */
+    private async checkoutTag(item: any): Promise<void> {
+        const tag: GitTag | undefined = (item as TagTreeItem)?.tag;
+        if (!tag) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        try {
+            if (!(await SmartCheckoutHelper.checkout(repository, `tags/${tag.name}`))) {
+                return;
+            }
+            await Promise.all([
+                repository.localChangesProvider.refresh(),
+                this.branchesProvider.refresh()
+            ]);
+            vscode.window.showInformationMessage(`Checked out tag ${tag.name} (detached HEAD)`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to checkout tag: ${error}`);
+        }
+    }
+
+    /**
+     * 比较两个标签：以较早的标签为基准，列出两者之间的提交与变更文件。
+     */
+    private async compareTags(item: any): Promise<void> {
+        const tag: GitTag | undefined = (item as TagTreeItem)?.tag;
+        if (!tag) {
+            return;
+        }
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const others = this.tagsProvider.getTags(repository.root).filter(candidate => candidate.name !== tag.name);
+        if (others.length === 0) {
+            vscode.window.showInformationMessage('No other tags to compare with');
+            return;
+        }
+        const pick = await vscode.window.showQuickPick(
+            others.map(other => ({
+                label: other.name,
+                description: [other.commit.substring(0, 7), other.date?.toLocaleDateString()].filter(Boolean).join(' · '),
+                detail: other.message?.split('\n')[0],
+                tag: other
+            })),
+            { placeHolder: `Compare ${tag.name} with...`, matchOnDescription: true }
+        );
+        if (!pick) {
+            return;
+        }
+
+        const [base, head] = (pick.tag.date?.getTime() ?? 0) <= (tag.date?.getTime() ?? 0)
+            ? [pick.tag, tag]
+            : [tag, pick.tag];
+
+        try {
+            const [commits, files] = await Promise.all([
+                repository.gitService.getCommitsBetween(base.name, head.name),
+                repository.gitService.getDiffSummaryBetween(base.name, head.name)
+            ]);
+            if (commits.length === 0 && files.length === 0) {
+                vscode.window.showInformationMessage(`${base.name} and ${head.name} point to the same content`);
+                return;
+            }
+
+            type CompareItem = vscode.QuickPickItem & { commitHash?: string; file?: { status: string; path: string } };
+            const items: CompareItem[] = [
+                { label: `Commits (${commits.length})`, kind: vscode.QuickPickItemKind.Separator },
+                ...commits.map(commit => ({
+                    label: commit.message,
+                    description: `${commit.abbrevHash} · ${commit.author}`,
+                    commitHash: commit.hash
+                })),
+                { label: `Files (${files.length})`, kind: vscode.QuickPickItemKind.Separator },
+                ...files.map(file => ({
+                    label: file.path,
+                    description: file.status,
+                    file
+                }))
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                title: `${base.name} → ${head.name}`,
+                placeHolder: 'Select a commit to show its details or a file to show its diff',
+                matchOnDescription: true
+            });
+            if (selected?.commitHash) {
+                await this.commitDetailsPanel.show(repository, selected.commitHash);
+            } else if (selected?.file) {
+                const [previousPath, currentPath] = selected.file.path.split(' → ');
+                await DiffViewHelper.showCommitFileDiff(
+                    repository.gitService,
+                    head.commit,
+                    base.commit,
+                    {
+                        path: currentPath ?? previousPath,
+                        status: selected.file.status,
+                        previousPath: currentPath ? previousPath : undefined
+                    },
+                    { compareWithWorkingTree: false }
+                );
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to compare tags: ${error}`);
+        }
+    }
 
     private async pull(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         try {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Pulling from remote...',
                 cancellable: false
             }, async () => {
-                await this.gitService.pull();
+                await repository.gitService.pull();
             });
 
             await this.refresh();
@@ -1285,29 +2447,43 @@ export class CommandRegistry {
     }
 
     private async push(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         try {
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: 'Pushing to remote...',
-                cancellable: false
-            }, async () => {
-                await this.gitService.push();
+            const pushed = await GitHooksHelper.run(repository, 'push', 'Push', async (noVerify, onOutput) => {
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Pushing to remote...',
+                    cancellable: false
+                }, async () => {
+                    await repository.gitService.push(undefined, undefined, { noVerify, onOutput });
+                });
             });
 
-            vscode.window.showInformationMessage('Push completed');
+            if (pushed) {
+                vscode.window.showInformationMessage('Push completed');
+            }
         } catch (error) {
             vscode.window.showErrorMessage(`Push failed: ${error}`);
         }
     }
 
     private async fetch(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         try {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Fetching from remote...',
                 cancellable: false
             }, async () => {
-                await this.gitService.fetch();
+                await repository.gitService.fetch();
             });
 
             await this.branchesProvider.refresh();
@@ -1318,6 +2494,11 @@ export class CommandRegistry {
     }
 
     private async cherryPick(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         const commitHash = await vscode.window.showInputBox({
             prompt: 'Enter commit hash to cherry-pick',
             placeHolder: 'Commit hash'
@@ -1328,15 +2509,23 @@ export class CommandRegistry {
         }
 
         try {
-            await this.gitService.cherryPick(commitHash);
+            await repository.gitService.cherryPick(commitHash);
             await this.refresh();
             vscode.window.showInformationMessage(`Cherry-picked: ${commitHash}`);
         } catch (error) {
-            vscode.window.showErrorMessage(`Cherry-pick failed: ${error}`);
+            await this.refresh();
+            if (!(await ConflictHelper.notifyIfConflicted(repository.gitService, 'Cherry-pick', repository.root))) {
+                vscode.window.showErrorMessage(`Cherry-pick failed: ${error}`);
+            }
         }
     }
 
     private async resetHead(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         const modes = [
             { label: 'Soft', description: 'Keep changes in index', mode: 'soft' as const },
             { label: 'Mixed', description: 'Keep changes in working directory', mode: 'mixed' as const },
@@ -1369,7 +2558,10 @@ export class CommandRegistry {
 
         if (confirm === 'Reset') {
             try {
-                await this.gitService.reset(selectedMode.mode, target);
+                await repository.operationJournal.run(
+                    { kind: 'reset', label: `Reset HEAD to ${target} (${selectedMode.label})`, mode: selectedMode.mode },
+                    () => repository.gitService.reset(selectedMode.mode, target)
+                );
                 await this.refresh();
                 vscode.window.showInformationMessage(`Reset to: ${target}`);
             } catch (error) {
@@ -1378,9 +2570,106 @@ export class CommandRegistry {
         }
     }
 
+    private async undoLastOperation(): Promise<void> {
+        const pick = await this.pickJournalEntry(false);
+        if (pick) {
+            await this.undoOperation(pick.repository, pick.entry);
+        }
+    }
+
+    private async redoLastOperation(): Promise<void> {
+        const pick = await this.pickJournalEntry(true);
+        if (pick) {
+            await this.redoOperation(pick.repository, pick.entry);
+        }
+    }
+
+    /**
+     * 从所有仓库的撤销（或重做）列表中选择一条记录，最新的排在最前。
+     */
+    private async pickJournalEntry(redo: boolean): Promise<{ repository: Repository; entry: JournalEntry } | undefined> {
+        const repositories = this.repositoryManager.getRepositories();
+        const entries = repositories
+            .flatMap(repository => (redo ? repository.operationJournal.getRedoEntries() : repository.operationJournal.getEntries())
+                .map(entry => ({ repository, entry })))
+            .sort((a, b) => b.entry.date.getTime() - a.entry.date.getTime());
+
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(redo ? 'No undone operations to redo' : 'No operations to undo');
+            return undefined;
+        }
+
+        return vscode.window.showQuickPick(
+            entries.map(({ repository, entry }, index) => ({
+                label: entry.label,
+                description: [
+                    index === 0 ? (redo ? 'Last undo' : 'Last operation') : undefined,
+                    repositories.length > 1 ? repository.name : undefined,
+                    entry.date.toLocaleString()
+                ].filter(Boolean).join(' · '),
+                detail: repository.operationJournal.describe(entry),
+                repository,
+                entry
+            })),
+            {
+                placeHolder: redo ? 'Select an undone operation to redo' : 'Select an operation to undo',
+                matchOnDescription: true,
+                matchOnDetail: true
+            }
+        );
+    }
+
+    private async undoOperation(repository: Repository, entry: JournalEntry, force: boolean = false): Promise<void> {
+        try {
+            await repository.operationJournal.undo(entry, force);
+            await this.refresh();
+            vscode.window.showInformationMessage(`Undone: ${entry.label}`);
+        } catch (error) {
+            if (error instanceof JournalConflictError && !force) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `${error.message}. Undo anyway?`,
+                    { modal: true },
+                    'Undo Anyway'
+                );
+                if (confirm === 'Undo Anyway') {
+                    await this.undoOperation(repository, entry, true);
+                }
+                return;
+            }
+            vscode.window.showErrorMessage(`Failed to undo: ${error}`);
+        }
+    }
+
+    private async redoOperation(repository: Repository, entry: JournalEntry, force: boolean = false): Promise<void> {
+        try {
+            await repository.operationJournal.redo(entry, force);
+            await this.refresh();
+            vscode.window.showInformationMessage(`Redone: ${entry.label}`);
+        } catch (error) {
+            if (error instanceof JournalConflictError && !force) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `${error.message}. Redo anyway?`,
+                    { modal: true },
+                    'Redo Anyway'
+                );
+                if (confirm === 'Redo Anyway') {
+                    await this.redoOperation(repository, entry, true);
+                }
+                return;
+            }
+            vscode.window.showErrorMessage(`Failed to redo: ${error}`);
+        }
+    }
+
     private async compareWithBranch(resource?: vscode.Uri, resources?: vscode.Uri[]): Promise<void> {
-        const branches = await this.gitService.getBranches();
-        const tags = await this.gitService.getTags();
+        const targetUri = this.resolveResource(resource, resources) ?? vscode.window.activeTextEditor?.document.uri;
+        const repository = this.requireRepository(targetUri?.fsPath);
+        if (!repository) {
+            return;
+        }
+
+        const branches = await repository.gitService.getBranches();
+        const tags = await repository.gitService.getTags();
 
         const items = [
             ...branches.map(branch => ({
@@ -1408,10 +2697,8 @@ export class CommandRegistry {
             return;
         }
 
-        const targetUri = this.resolveResource(resource, resources) ?? vscode.window.activeTextEditor?.document.uri;
-
         try {
-            const diff = await this.gitService.compareWithBranch(selected.ref, targetUri?.fsPath);
+            const diff = await repository.gitService.compareWithBranch(selected.ref, targetUri?.fsPath);
             if (!diff.trim()) {
                 vscode.window.showInformationMessage('No differences found');
                 return;
@@ -1432,6 +2719,11 @@ export class CommandRegistry {
     }
 
     private async manageRemotes(): Promise<void> {
+        const repository = this.requireRepository();
+        if (!repository) {
+            return;
+        }
+
         const action = await vscode.window.showQuickPick([
             { label: 'Add Remote...', action: 'add' as const },
             { label: 'Change Remote URL...', action: 'update' as const },
@@ -1444,7 +2736,7 @@ export class CommandRegistry {
             return;
         }
 
-        const remotes = await this.gitService.getRemotes();
+        const remotes = await repository.gitService.getRemotes();
 
         const pickRemote = async (placeholder: string) => {
             if (remotes.length === 0) {
@@ -1482,7 +2774,7 @@ export class CommandRegistry {
                 if (!url) {
                     return;
                 }
-                await this.gitService.addRemote(name.trim(), url.trim());
+                await repository.gitService.addRemote(name.trim(), url.trim());
                 vscode.window.showInformationMessage(`Added remote ${name.trim()}`);
             } else if (action.action === 'update') {
                 const remote = await pickRemote('Select remote to update');
@@ -1497,7 +2789,7 @@ export class CommandRegistry {
                 if (!url) {
                     return;
                 }
-                await this.gitService.updateRemote(remote.name, url.trim());
+                await repository.gitService.updateRemote(remote.name, url.trim());
                 vscode.window.showInformationMessage(`Updated remote ${remote.name}`);
             } else if (action.action === 'remove') {
                 const remote = await pickRemote('Select remote to remove');
@@ -1512,7 +2804,7 @@ export class CommandRegistry {
                 if (confirm !== 'Remove') {
                     return;
                 }
-                await this.gitService.removeRemote(remote.name);
+                await repository.gitService.removeRemote(remote.name);
                 vscode.window.showInformationMessage(`Removed remote ${remote.name}`);
             }
         } catch (error) {
@@ -1556,13 +2848,13 @@ export class CommandRegistry {
         return uris;
     }
 
-    private collectFilesFromItem(item: any): string[] {
+    private collectFilesFromItem(repository: Repository, item: any): string[] {
         if (!item) {
             return [];
         }
 
         if (Array.isArray(item)) {
-            return item.flatMap(child => this.collectFilesFromItem(child));
+            return item.flatMap(child => this.collectFilesFromItem(repository, child));
         }
 
         if (item.filePath) {
@@ -1571,32 +2863,327 @@ export class CommandRegistry {
 
         if (item.folderPath && item.changelistId) {
             const folder = this.normalizeFsPath(item.folderPath);
-            return this.changelistManager
+            return repository.changelistManager
                 .getFilesInChangelist(item.changelistId)
                 .filter(file => this.normalizeFsPath(file).startsWith(folder));
         }
 
         if (item.folderPath) {
-            const status = this.localChangesProvider.getGitStatus();
+            const status = repository.localChangesProvider.getGitStatus();
             if (status) {
                 const folder = this.normalizeFsPath(item.folderPath);
                 return status.untracked
-                    .map(rel => path.join(this.gitService.getWorkspaceRoot(), rel))
+                    .map(rel => path.join(repository.gitService.getWorkspaceRoot(), rel))
                     .filter(file => this.normalizeFsPath(file).startsWith(folder));
             }
         }
 
         if (item.changelistId) {
-            return this.changelistManager.getFilesInChangelist(item.changelistId);
+            return repository.changelistManager.getFilesInChangelist(item.changelistId);
         }
 
         if (item.children && Array.isArray(item.children)) {
-            return item.children.flatMap((child: any) => this.collectFilesFromItem(child));
+            return item.children.flatMap((child: any) => this.collectFilesFromItem(repository, child));
         }
 
         return [];
     }
 
+    /**
+     * 解析树节点所属的仓库：优先使用节点携带的仓库根目录，其次是文件路径或 changelist。
+     */
+    /**
+     * 列出所有冲突文件：选中即打开三栏合并窗口，行内按钮可直接整体接受某一方。
+     */
+    private async resolveConflicts(item?: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const conflicts = await repository.gitService.getConflictedFiles();
+        if (conflicts.length === 0) {
+            vscode.window.showInformationMessage('No conflicts to resolve');
+            return;
+        }
+
+        type ConflictPick = vscode.QuickPickItem & { filePath: string };
+        const acceptYours: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('arrow-left'),
+            tooltip: 'Accept Yours'
+        };
+        const acceptTheirs: vscode.QuickInputButton = {
+            iconPath: new vscode.ThemeIcon('arrow-right'),
+            tooltip: 'Accept Theirs'
+        };
+
+        const quickPick = vscode.window.createQuickPick<ConflictPick>();
+        quickPick.title = this.repositoryManager.hasMultipleRepositories()
+            ? `Resolve Conflicts · ${repository.name}`
+            : 'Resolve Conflicts';
+        quickPick.placeholder = 'Select a file to merge, or accept one side with the buttons';
+        const updateItems = (files: string[]) => {
+            quickPick.items = files.map(filePath => ({
+                label: path.basename(filePath),
+                description: path.relative(repository.root, path.dirname(filePath)).replace(/\\/g, '/'),
+                buttons: [acceptYours, acceptTheirs],
+                filePath
+            }));
+        };
+        updateItems(conflicts);
+
+        quickPick.onDidTriggerItemButton(async event => {
+            const side = event.button === acceptYours ? 'ours' : 'theirs';
+            try {
+                await repository.gitService.acceptConflictSide(event.item.filePath, side);
+                await this.refresh();
+                const remaining = await repository.gitService.getConflictedFiles();
+                if (remaining.length === 0) {
+                    quickPick.hide();
+                    vscode.window.showInformationMessage('All conflicts are resolved');
+                    return;
+                }
+                updateItems(remaining);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to resolve conflict: ${error}`);
+            }
+        });
+        quickPick.onDidAccept(async () => {
+            const selected = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (selected) {
+                await this.openMergeConflict(repository, selected.filePath);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    private async mergeConflict(item: any): Promise<void> {
+        const filePath = this.getConflictItemPath(item);
+        if (!filePath) {
+            await this.resolveConflicts(item);
+            return;
+        }
+
+        const repository = this.requireRepository(filePath);
+        if (!repository) {
+            return;
+        }
+
+        const conflicts = await repository.gitService.getConflictedFiles();
+        if (!conflicts.some(conflict => path.normalize(conflict) === path.normalize(filePath))) {
+            await this.resolveConflicts({ repositoryRoot: repository.root });
+            return;
+        }
+        await this.openMergeConflict(repository, filePath);
+    }
+
+    private async openMergeConflict(repository: Repository, filePath: string): Promise<void> {
+        try {
+            await this.mergeConflictPanel.show(repository, filePath);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open merge view: ${error}`);
+        }
+    }
+
+    private async acceptConflictSide(item: any, side: 'ours' | 'theirs'): Promise<void> {
+        const filePath = this.getConflictItemPath(item);
+        const repository = filePath ? this.requireRepository(filePath) : undefined;
+        if (!filePath || !repository) {
+            return;
+        }
+
+        try {
+            await repository.gitService.acceptConflictSide(filePath, side);
+            await this.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to resolve conflict: ${error}`);
+        }
+    }
+
+    private async markConflictResolved(item: any): Promise<void> {
+        const filePath = this.getConflictItemPath(item);
+        const repository = filePath ? this.requireRepository(filePath) : undefined;
+        if (!filePath || !repository) {
+            return;
+        }
+
+        try {
+            const content = await fs.readFile(filePath, 'utf8').catch(() => '');
+            if (/^(<{7}|>{7}) /m.test(content)) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `${path.basename(filePath)} still contains conflict markers. Mark it as resolved anyway?`,
+                    { modal: true },
+                    'Mark as Resolved'
+                );
+                if (confirm !== 'Mark as Resolved') {
+                    return;
+                }
+            }
+            await repository.gitService.markResolved(filePath);
+            await this.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to mark conflict as resolved: ${error}`);
+        }
+    }
+
+    private async showOperationActions(item?: any): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const state = await repository.gitService.getOperationState();
+        if (!state) {
+            vscode.window.showInformationMessage('No merge, rebase, cherry-pick, revert or bisect in progress');
+            await this.refresh();
+            return;
+        }
+
+        type OperationPick = vscode.QuickPickItem & { action: GitOperationAction | 'resolve' };
+        const items: OperationPick[] = [];
+        const conflicts = await repository.gitService.getConflictedFiles();
+        if (conflicts.length > 0) {
+            items.push({
+                label: '$(git-merge) Resolve Conflicts...',
+                description: `${conflicts.length} conflicted file${conflicts.length === 1 ? '' : 's'}`,
+                action: 'resolve'
+            });
+        }
+        for (const action of state.actions) {
+            const icon = action === 'continue' ? 'debug-continue' : action === 'skip' ? 'debug-step-over' : 'discard';
+            items.push({ label: `$(${icon}) ${OperationHelper.getActionLabel(state, action)}`, action });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: this.repositoryManager.hasMultipleRepositories()
+                ? `${OperationHelper.describe(state)} · ${repository.name}`
+                : OperationHelper.describe(state),
+            placeHolder: 'Select an action'
+        });
+        if (!selected) {
+            return;
+        }
+
+        if (selected.action === 'resolve') {
+            await this.resolveConflicts({ repositoryRoot: repository.root });
+        } else {
+            await this.runOperationAction({ repositoryRoot: repository.root }, selected.action);
+        }
+    }
+
+    private async runOperationAction(item: any, action: GitOperationAction): Promise<void> {
+        const repository = this.getItemRepository(item);
+        if (!repository) {
+            return;
+        }
+
+        const state = await repository.gitService.getOperationState();
+        if (!state) {
+            vscode.window.showInformationMessage('No merge, rebase, cherry-pick, revert or bisect in progress');
+            await this.refresh();
+            return;
+        }
+
+        const label = OperationHelper.getActionLabel(state, action);
+        const name = OperationHelper.getName(state.kind);
+        if (!state.actions.includes(action)) {
+            vscode.window.showWarningMessage(`${label} is not available`);
+            return;
+        }
+
+        if (action === 'abort') {
+            const confirm = await vscode.window.showWarningMessage(
+                `${label}? Changes made since it started will be discarded.`,
+                { modal: true },
+                label
+            );
+            if (confirm !== label) {
+                return;
+            }
+        }
+
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `${label}...` },
+                async () => {
+                    if (action === 'continue') {
+                        await repository.gitService.continueOperation(state.kind);
+                    } else if (action === 'skip') {
+                        await repository.gitService.skipOperation(state.kind);
+                    } else {
+                        await repository.gitService.abortOperation(state.kind);
+                    }
+                }
+            );
+            await this.refresh();
+
+            const next = await repository.gitService.getOperationState();
+            if (!next) {
+                vscode.window.showInformationMessage(action === 'abort' ? `${name} aborted` : `${name} completed`);
+            } else if (!(await ConflictHelper.notifyIfConflicted(repository.gitService, name, repository.root))) {
+                vscode.window.showInformationMessage(`${name} stopped: ${OperationHelper.describe(next)}`);
+            }
+        } catch (error) {
+            await this.refresh();
+            if (!(await ConflictHelper.notifyIfConflicted(repository.gitService, name, repository.root))) {
+                vscode.window.showErrorMessage(`${label} failed: ${error}`);
+            }
+        }
+    }
+
+    private getConflictItemPath(item: any): string | undefined {
+        if (item instanceof vscode.Uri) {
+            return item.fsPath;
+        }
+        if (typeof item?.filePath === 'string') {
+            return item.filePath;
+        }
+        const editorUri = vscode.window.activeTextEditor?.document.uri;
+        return !item && editorUri?.scheme === 'file' ? editorUri.fsPath : undefined;
+    }
+
+    private getItemRepository(item: any): Repository | undefined {
+        if (typeof item?.repositoryRoot === 'string') {
+            const repository = this.repositoryManager.getRepository(item.repositoryRoot);
+            if (repository) {
+                return repository;
+            }
+        }
+
+        const itemPath: string | undefined = item?.filePath ?? item?.folderPath;
+        if (itemPath) {
+            return this.requireRepository(itemPath);
+        }
+
+        if (item?.changelistId) {
+            const owner = this.repositoryManager
+                .getRepositories()
+                .find(repository => repository.changelistManager.getChangelist(item.changelistId));
+            if (owner) {
+                return owner;
+            }
+        }
+
+        return this.requireRepository();
+    }
+
+    private requireRepository(fsPath?: string): Repository | undefined {
+        const repository = this.repositoryManager.resolveRepository(fsPath);
+        if (!repository) {
+            vscode.window.showWarningMessage('No Git repository found');
+        }
+        return repository;
+    }
+
+    private async selectRepository(): Promise<void> {
+        const repository = await this.repositoryManager.pickRepository('Select active repository');
+        if (repository) {
+            this.repositoryManager.setActiveRepository(repository.root);
+        }
+    }
+
     private normalizeFsPath(filePath: string): string {
         return path.normalize(filePath);
     }
@@ -1612,18 +3199,18 @@ export class CommandRegistry {
         }
     }
 
-    private async generatePatchForFiles(files: string[]): Promise<string> {
+    private async generatePatchForFiles(repository: Repository, files: string[]): Promise<string> {
         const uniqueFiles = Array.from(new Set(files));
         const diffs = await Promise.all(uniqueFiles.map(async file => {
-            const diff = await this.gitService.getDiff(file);
+            const diff = await repository.gitService.getDiff(file);
             return diff;
         }));
 
         return diffs.filter(Boolean).join('\n');
     }
 
-    private buildUmlDiagram(files: string[], status: GitStatus): string {
-        const workspaceRoot = this.gitService.getWorkspaceRoot();
+    private buildUmlDiagram(repository: Repository, files: string[], status: GitStatus): string {
+        const workspaceRoot = repository.gitService.getWorkspaceRoot();
         const title = `Local Changes (${files.length} file${files.length !== 1 ? 's' : ''})`;
         const lines: string[] = ['@startuml', `title ${title}`, `package "${path.basename(workspaceRoot)}" {`];
 
@@ -1642,6 +3229,9 @@ export class CommandRegistry {
     private getStatusLabelForFile(relativePath: string, status: GitStatus): string {
         const normalized = relativePath.replace(/\\/g, '/');
 
+        if (status.conflicted.includes(normalized)) {
+            return 'Conflicted';
+        }
         if (status.untracked.includes(normalized)) {
             return 'Untracked';
         }
@@ -1660,13 +3250,13 @@ export class CommandRegistry {
         return 'Changed';
     }
 
-    private getFilesFromShelvedChange(change: ShelvedChange): string[] {
+    private getFilesFromShelvedChange(repository: Repository, change: ShelvedChange): string[] {
         if (change.files && change.files.length > 0) {
             return change.files;
         }
 
         try {
-            const patch = this.shelfManager.getPatchContent(change.id);
+            const patch = repository.shelfManager.getPatchContent(change.id);
             const files = new Set<string>();
             const regex = /^\+\+\+\s+b\/(.+)$/gm;
             let match: RegExpExecArray | null;
@@ -1676,7 +3266,7 @@ export class CommandRegistry {
                 if (!relative || relative === '/dev/null') {
                     continue;
                 }
-                files.add(path.join(this.gitService.getWorkspaceRoot(), relative.replace(/\//g, path.sep)));
+                files.add(path.join(repository.gitService.getWorkspaceRoot(), relative.replace(/\//g, path.sep)));
             }
 
             return Array.from(files);
@@ -1,17 +1,27 @@
 import * as vscode from 'vscode';
-import { GitService } from './services/gitService';
-import { LocalChangesProvider } from './providers/localChangesProvider';
 import { ShelfProvider } from './providers/shelfProvider';
 import { BranchesProvider } from './providers/branchesProvider';
 import { StashProvider } from './providers/stashProvider';
-import { ChangelistManager } from './managers/changelistManager';
-import { ShelfManager } from './managers/shelfManager';
+import { WorktreesProvider } from './providers/worktreesProvider';
+import { SubmodulesProvider } from './providers/submodulesProvider';
+import { TagsProvider } from './providers/tagsProvider';
+import { RepositoryManager } from './managers/repositoryManager';
 import { CommitDialog } from './ui/commitDialog';
 import { CommitPanelProvider } from './ui/commitPanelProvider';
 import { BranchDetailsPanel } from './ui/branchDetailsPanel';
 import { PushDialog } from './ui/pushDialog';
+import { InteractiveRebasePanel } from './ui/interactiveRebasePanel';
+import { MergeConflictPanel } from './ui/mergeConflictPanel';
+import { OperationStatusBar } from './ui/operationStatusBar';
+import { LogPanel } from './ui/logPanel';
+import { CommitDetailsPanel } from './ui/commitDetailsPanel';
+import { FileHistoryPanel } from './ui/fileHistoryPanel';
+import { GitConsolePanel } from './ui/gitConsolePanel';
+import { ReflogPanel } from './ui/reflogPanel';
+import { CurrentLineBlame } from './ui/currentLineBlame';
 import { FileSystemWatcher } from './watchers/fileSystemWatcher';
 import { CommandRegistry } from './commands/commandRegistry';
+import { GitHooksHelper } from './helpers/gitHooksHelper';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('ViGit extension is now active!');
@@ -23,26 +33,21 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-
     try {
-        // Initialize core services
-        const gitService = new GitService(workspaceRoot);
-        await gitService.initialize();
-
-        // Initialize managers
-        const changelistManager = new ChangelistManager(context, workspaceRoot);
-        const shelfManager = new ShelfManager(context, workspaceRoot, gitService);
+        // Discover every repository in the workspace (folders, nested repos, submodules)
+        const repositoryManager = new RepositoryManager(context);
+        const repositories = await repositoryManager.discoverRepositories();
+        if (repositories.length === 0) {
+            vscode.window.showWarningMessage('ViGit: No Git repository found in the workspace');
+        }
 
         // Initialize tree view providers
-        const localChangesProvider = new LocalChangesProvider(
-            workspaceRoot,
-            gitService,
-            changelistManager
-        );
-        const shelfProvider = new ShelfProvider(shelfManager);
-        const branchesProvider = new BranchesProvider(workspaceRoot, gitService);
-        const stashProvider = new StashProvider(gitService);
+        const shelfProvider = new ShelfProvider(repositoryManager);
+        const branchesProvider = new BranchesProvider(repositoryManager);
+        const stashProvider = new StashProvider(repositoryManager);
+        const worktreesProvider = new WorktreesProvider(repositoryManager);
+        const submodulesProvider = new SubmodulesProvider(repositoryManager);
+        const tagsProvider = new TagsProvider(repositoryManager);
 
         // Register tree views
         const branchesView = vscode.window.createTreeView('vigit.branches', {
@@ -55,58 +60,95 @@ export async function activate(context: vscode.ExtensionContext) {
             showCollapseAll: true
         });
 
+        const worktreesView = vscode.window.createTreeView('vigit.worktrees', {
+            treeDataProvider: worktreesProvider,
+            showCollapseAll: true
+        });
+
+        const submodulesView = vscode.window.createTreeView('vigit.submodules', {
+            treeDataProvider: submodulesProvider,
+            showCollapseAll: true
+        });
+
+        const tagsView = vscode.window.createTreeView('vigit.tags', {
+            treeDataProvider: tagsProvider,
+            showCollapseAll: true
+        });
+
         // Register file system watcher
-        const fileWatcher = new FileSystemWatcher(
-            workspaceRoot,
-            gitService,
-            localChangesProvider,
-            changelistManager
-        );
+        const fileWatcher = new FileSystemWatcher(repositoryManager);
 
         // Initialize commit dialog
-        const commitDialog = new CommitDialog(
-            context,
-            gitService,
-            changelistManager,
-            localChangesProvider
-        );
+        const commitDialog = new CommitDialog(context, repositoryManager);
 
         const commitPanelProvider = new CommitPanelProvider(
             context,
-            gitService,
-            changelistManager,
-            localChangesProvider,
+            repositoryManager,
             commitDialog
         );
-        const branchDetailsPanel = new BranchDetailsPanel(gitService);
-        const pushDialog = new PushDialog(gitService, branchesProvider);
+        const branchDetailsPanel = new BranchDetailsPanel(repositoryManager);
+        const logPanel = new LogPanel(repositoryManager, branchDetailsPanel);
+        const commitDetailsPanel = new CommitDetailsPanel(branchDetailsPanel);
+        const fileHistoryPanel = new FileHistoryPanel(repositoryManager);
+        const gitConsolePanel = new GitConsolePanel(repositoryManager);
+        const reflogPanel = new ReflogPanel(repositoryManager);
+        const pushDialog = new PushDialog(branchesProvider);
+        const interactiveRebasePanel = new InteractiveRebasePanel();
+        const mergeConflictPanel = new MergeConflictPanel();
+        const operationStatusBar = new OperationStatusBar(repositoryManager);
+        const currentLineBlame = new CurrentLineBlame(repositoryManager);
 
         // Register all commands
         const commandRegistry = new CommandRegistry(
             context,
-            gitService,
-            changelistManager,
-            shelfManager,
-            localChangesProvider,
+            repositoryManager,
             shelfProvider,
             branchesProvider,
             stashProvider,
+            worktreesProvider,
+            submodulesProvider,
+            tagsProvider,
             commitDialog,
             branchDetailsPanel,
-            pushDialog
+            pushDialog,
+            interactiveRebasePanel,
+            mergeConflictPanel,
+            logPanel,
+            commitDetailsPanel,
+            fileHistoryPanel,
+            gitConsolePanel,
+            reflogPanel
         );
         commandRegistry.registerAllCommands();
 
         // Add to subscriptions
         context.subscriptions.push(
+            repositoryManager,
             branchesView,
             stashView,
+            worktreesView,
+            submodulesView,
+            tagsView,
             fileWatcher,
             commitPanelProvider,
             branchDetailsPanel,
             pushDialog,
+            interactiveRebasePanel,
+            mergeConflictPanel,
+            operationStatusBar,
+            currentLineBlame,
+            logPanel,
+            commitDetailsPanel,
+            fileHistoryPanel,
+            gitConsolePanel,
+            reflogPanel,
+            { dispose: () => GitHooksHelper.dispose() },
             vscode.window.registerWebviewViewProvider(CommitPanelProvider.viewId, commitPanelProvider),
-            vscode.window.registerWebviewViewProvider(BranchDetailsPanel.viewId, branchDetailsPanel)
+            vscode.window.registerWebviewViewProvider(BranchDetailsPanel.viewId, branchDetailsPanel),
+            vscode.window.registerWebviewViewProvider(LogPanel.viewId, logPanel),
+            vscode.window.registerWebviewViewProvider(FileHistoryPanel.viewId, fileHistoryPanel),
+            vscode.window.registerWebviewViewProvider(GitConsolePanel.viewId, gitConsolePanel),
+            vscode.window.registerWebviewViewProvider(ReflogPanel.viewId, reflogPanel)
         );
 
         vscode.window.showInformationMessage('ViGit: Ready for Git version control!');
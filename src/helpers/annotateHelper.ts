@@ -1,133 +1,328 @@
 import * as vscode from 'vscode';
-import { GitService } from '../services/gitService';
-
-interface BlameInfo {
-    line: number;
-    hash: string;
-    author: string;
-    date: string;
-    message: string;
+import * as path from 'path';
+import { GitBlame, GitBlameCommit, GitService } from '../services/gitService';
+import { DiffViewHelper } from './diffViewHelper';
+import { IssueLinkHelper } from './issueLinkHelper';
+
+interface AnnotationState {
+    gitService: GitService;
+    filePath: string;
+    revision?: string;
+    blame: GitBlame;
+    messages: Map<string, string>;
+    decorationType: vscode.TextEditorDecorationType;
+    refreshTimer?: NodeJS.Timeout;
 }
 
+const BAND_COLORS = ['#4ec9b0', '#6e97ff', '#d7ba7d', '#c586c0', '#f48771', '#9cdcfe', '#b5cea8', '#ce9178'];
+const AUTHOR_WIDTH = 15;
+const REFRESH_DELAY = 400;
+
+/**
+ * 编辑器左侧的 blame 注解。状态按文档保存，多个编辑器可以同时注解；
+ * 对工作区文件的未保存修改会通过 `--contents` 重新计算，保持行号一致。
+ */
 export class AnnotateHelper {
-    private static decorationType: vscode.TextEditorDecorationType | null = null;
-    private static isAnnotating: boolean = false;
+    private static readonly annotations = new Map<string, AnnotationState>();
+    private static listeners: vscode.Disposable[] = [];
 
+    /**
+     * 切换编辑器的注解；revision 用于对历史版本的只读文档做注解，此时 filePath 为该版本中的文件路径。
+     */
     static async showAnnotations(
         gitService: GitService,
-        editor: vscode.TextEditor
+        editor: vscode.TextEditor,
+        options?: { filePath?: string; revision?: string }
     ): Promise<void> {
-        const filePath = editor.document.uri.fsPath;
-
-        if (this.isAnnotating) {
-            // Toggle off
-            this.clearAnnotations();
+        const key = editor.document.uri.toString();
+        if (this.annotations.has(key)) {
+            this.clearAnnotations(editor.document);
             return;
         }
 
+        const filePath = options?.filePath ?? editor.document.uri.fsPath;
         try {
-            const blameOutput = await gitService.getBlame(filePath);
-            const blameInfo = this.parseBlameOutput(blameOutput);
-
-            this.decorationType = vscode.window.createTextEditorDecorationType({
-                isWholeLine: false,
-                before: {
-                    margin: '0 1em 0 0',
-                    color: new vscode.ThemeColor('editorLineNumber.foreground')
-                }
+            const blame = await gitService.getBlame(filePath, {
+                revision: options?.revision,
+                contents: !options?.revision && editor.document.isDirty ? editor.document.getText() : undefined
             });
+            const messages = await this.loadMessages(gitService, blame);
 
-            const decorations: vscode.DecorationOptions[] = [];
-
-            for (const info of blameInfo) {
-                const line = editor.document.lineAt(info.line);
-                const decoration: vscode.DecorationOptions = {
-                    range: new vscode.Range(info.line, 0, info.line, 0),
-                    renderOptions: {
-                        before: {
-                            contentText: this.formatBlameInfo(info),
-                            color: new vscode.ThemeColor('editorLineNumber.foreground')
-                        }
-                    },
-                    hoverMessage: this.createHoverMessage(info)
-                };
-
-                decorations.push(decoration);
-            }
-
-            editor.setDecorations(this.decorationType, decorations);
-            this.isAnnotating = true;
-
-            // Auto-clear when editor changes
-            const disposable = vscode.window.onDidChangeActiveTextEditor(() => {
-                this.clearAnnotations();
-                disposable.dispose();
-            });
+            const state: AnnotationState = {
+                gitService,
+                filePath,
+                revision: options?.revision,
+                blame,
+                messages,
+                decorationType: vscode.window.createTextEditorDecorationType({
+                    before: {
+                        margin: '0 1em 0 0',
+                        color: new vscode.ThemeColor('editorLineNumber.foreground')
+                    }
+                })
+            };
+            this.annotations.set(key, state);
+            this.ensureListeners();
+            this.applyToVisibleEditors(key);
+            this.updateContext();
         } catch (error) {
             throw new Error(`Failed to get blame information: ${error}`);
         }
     }
 
-    private static parseBlameOutput(output: string): BlameInfo[] {
-        const lines = output.split('\n');
-        const blameInfo: BlameInfo[] = [];
+    static isAnnotated(document: vscode.TextDocument): boolean {
+        return this.annotations.has(document.uri.toString());
+    }
+
+    /**
+     * 打开光标所在行对应提交之前的文件版本并继续注解，便于逐层追溯一行代码的来历。
+     */
+    static async annotatePreviousRevision(editor: vscode.TextEditor, line: number = editor.selection.active.line): Promise<void> {
+        const state = this.annotations.get(editor.document.uri.toString());
+        if (!state) {
+            vscode.window.showWarningMessage('Annotate the file first to navigate to previous revisions');
+            return;
+        }
+
+        const commit = state.blame.commits.get(state.blame.lines[line]);
+        if (!commit || commit.uncommitted) {
+            vscode.window.showInformationMessage('This line has not been committed yet');
+            return;
+        }
+        if (!commit.previous) {
+            vscode.window.showInformationMessage(`${commit.hash.substring(0, 7)} is the first revision of this file`);
+            return;
+        }
+
+        const previousEditor = await DiffViewHelper.showFileAtRevision(
+            state.gitService,
+            commit.previous.hash,
+            commit.previous.path,
+            { preview: false }
+        );
+        await this.showAnnotations(state.gitService, previousEditor, {
+            filePath: path.join(state.gitService.getWorkspaceRoot(), commit.previous.path),
+            revision: commit.previous.hash
+        });
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            if (!line.trim()) {
+    /**
+     * 不传参数时清除全部注解。
+     */
+    static clearAnnotations(document?: vscode.TextDocument): void {
+        const keys = document ? [document.uri.toString()] : Array.from(this.annotations.keys());
+        for (const key of keys) {
+            const state = this.annotations.get(key);
+            if (!state) {
                 continue;
             }
+            if (state.refreshTimer) {
+                clearTimeout(state.refreshTimer);
+            }
+            state.decorationType.dispose();
+            this.annotations.delete(key);
+        }
+
+        if (this.annotations.size === 0) {
+            this.listeners.forEach(listener => listener.dispose());
+            this.listeners = [];
+        }
+        this.updateContext();
+    }
 
-            // Git blame format: hash (author date lineNumber) content
-            const match = line.match(/^([0-9a-f]+)\s+\((.*?)\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\s+[+-]\d{4})\s+(\d+)\)/);
-            
-            if (match) {
-                const [, hash, author, date, lineNum] = match;
-                blameInfo.push({
-                    line: parseInt(lineNum) - 1, // Convert to 0-based
-                    hash: hash.substring(0, 8),
-                    author: author.trim(),
-                    date: this.formatDate(date),
-                    message: ''
+    private static ensureListeners(): void {
+        if (this.listeners.length > 0) {
+            return;
+        }
+
+        this.listeners.push(
+            // 编辑器重新可见时 VS Code 会创建新的 TextEditor，需要重新应用装饰
+            vscode.window.onDidChangeVisibleTextEditors(editors => {
+                editors.forEach(editor => {
+                    const key = editor.document.uri.toString();
+                    const state = this.annotations.get(key);
+                    if (state) {
+                        this.applyDecorations(editor, state);
+                    }
                 });
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateContext()),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleRefresh(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.scheduleRefresh(document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (this.isAnnotated(document)) {
+                    this.clearAnnotations(document);
+                }
+            })
+        );
+    }
+
+    /**
+     * 控制编辑器右键菜单中 "Annotate Previous Revision" 的可见性。
+     */
+    private static updateContext(): void {
+        const document = vscode.window.activeTextEditor?.document;
+        void vscode.commands.executeCommand('setContext', 'vigit.annotated', !!document && this.isAnnotated(document));
+    }
+
+    private static scheduleRefresh(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const state = this.annotations.get(key);
+        if (!state || state.revision) {
+            return;
+        }
+
+        if (state.refreshTimer) {
+            clearTimeout(state.refreshTimer);
+        }
+        state.refreshTimer = setTimeout(() => {
+            state.refreshTimer = undefined;
+            void this.refresh(document, state);
+        }, REFRESH_DELAY);
+    }
+
+    private static async refresh(document: vscode.TextDocument, state: AnnotationState): Promise<void> {
+        try {
+            const blame = await state.gitService.getBlame(state.filePath, {
+                contents: document.isDirty ? document.getText() : undefined
+            });
+            const missing = Array.from(blame.commits.keys()).filter(hash => !state.messages.has(hash));
+            if (missing.length > 0) {
+                const messages = await state.gitService.getCommitMessages(missing);
+                messages.forEach((message, hash) => state.messages.set(hash, message));
+            }
+
+            // 等待期间注解可能已被关闭
+            if (this.annotations.get(document.uri.toString()) !== state) {
+                return;
             }
+            state.blame = blame;
+            this.applyToVisibleEditors(document.uri.toString());
+        } catch (error) {
+            console.warn('ViGit: unable to refresh blame annotations', error);
         }
+    }
 
-        return blameInfo;
+    private static async loadMessages(gitService: GitService, blame: GitBlame): Promise<Map<string, string>> {
+        try {
+            return await gitService.getCommitMessages(Array.from(blame.commits.keys()));
+        } catch (error) {
+            console.warn('ViGit: unable to load commit messages for blame', error);
+            return new Map();
+        }
     }
 
-    private static formatBlameInfo(info: BlameInfo): string {
-        const author = info.author.length > 15 
-            ? info.author.substring(0, 12) + '...'
-            : info.author.padEnd(15);
-        
-        return `${info.hash} ${author} ${info.date}`;
+    private static applyToVisibleEditors(key: string): void {
+        const state = this.annotations.get(key);
+        if (!state) {
+            return;
+        }
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document.uri.toString() === key)
+            .forEach(editor => this.applyDecorations(editor, state));
     }
 
-    private static createHoverMessage(info: BlameInfo): vscode.MarkdownString {
-        const markdown = new vscode.MarkdownString();
-        markdown.appendMarkdown(`**Commit:** \`${info.hash}\`\n\n`);
-        markdown.appendMarkdown(`**Author:** ${info.author}\n\n`);
-        markdown.appendMarkdown(`**Date:** ${info.date}\n\n`);
-        return markdown;
+    private static applyDecorations(editor: vscode.TextEditor, state: AnnotationState): void {
+        const { blame } = state;
+        const times = Array.from(blame.commits.values())
+            .filter(commit => !commit.uncommitted)
+            .map(commit => commit.authorTime.getTime());
+        const oldest = Math.min(...times);
+        const newest = Math.max(...times);
+
+        const decorations: vscode.DecorationOptions[] = [];
+        const lineCount = Math.min(editor.document.lineCount, blame.lines.length);
+        for (let line = 0; line < lineCount; line++) {
+            const commit = blame.commits.get(blame.lines[line]);
+            if (!commit) {
+                continue;
+            }
+
+            // 同一提交的连续行只在首行显示文字，颜色条贯穿整个区块
+            const continued = line > 0 && blame.lines[line - 1] === commit.hash;
+            const label = this.formatLabel(commit);
+            decorations.push({
+                range: new vscode.Range(line, 0, line, 0),
+                renderOptions: {
+                    before: {
+                        contentText: (continued ? '' : label).padEnd(label.length).replace(/ /g, '\u00a0'),
+                        backgroundColor: this.getAgeShade(commit, oldest, newest),
+                        textDecoration: `none; border-left: 3px solid ${this.getBandColor(commit)}; padding-left: 4px`
+                    }
+                },
+                hoverMessage: this.createHoverMessage(commit, state, editor.document.uri, line)
+            });
+        }
+
+        editor.setDecorations(state.decorationType, decorations);
     }
 
-    private static formatDate(dateStr: string): string {
-        try {
-            const date = new Date(dateStr);
-            return date.toISOString().split('T')[0]; // YYYY-MM-DD
-        } catch {
-            return dateStr.substring(0, 10);
+    private static formatLabel(commit: GitBlameCommit): string {
+        if (commit.uncommitted) {
+            return 'Not Committed Yet'.padEnd(8 + AUTHOR_WIDTH + 1 + 10);
         }
+
+        const author = commit.author.length > AUTHOR_WIDTH
+            ? commit.author.substring(0, AUTHOR_WIDTH - 3) + '...'
+            : commit.author.padEnd(AUTHOR_WIDTH);
+        return `${commit.hash.substring(0, 7)} ${author} ${this.formatDate(commit.authorTime)}`;
     }
 
-    static clearAnnotations(): void {
-        if (this.decorationType) {
-            this.decorationType.dispose();
-            this.decorationType = null;
+    private static getBandColor(commit: GitBlameCommit): string {
+        if (commit.uncommitted) {
+            return 'transparent';
         }
-        this.isAnnotating = false;
+        return BAND_COLORS[parseInt(commit.hash.substring(0, 6), 16) % BAND_COLORS.length];
+    }
+
+    /**
+     * 越新的提交底色越深，便于一眼看出最近修改过的区域。
+     */
+    private static getAgeShade(commit: GitBlameCommit, oldest: number, newest: number): string {
+        if (commit.uncommitted) {
+            return 'rgba(244, 135, 113, 0.25)';
+        }
+        const age = newest > oldest ? (commit.authorTime.getTime() - oldest) / (newest - oldest) : 1;
+        return `rgba(110, 151, 255, ${(0.04 + age * 0.26).toFixed(2)})`;
     }
-}
 
+    private static createHoverMessage(
+        commit: GitBlameCommit,
+        state: AnnotationState,
+        uri: vscode.Uri,
+        line: number
+    ): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        if (commit.uncommitted) {
+            markdown.appendMarkdown('**Not Committed Yet**');
+            return markdown;
+        }
+
+        markdown.isTrusted = true;
+        markdown.appendMarkdown(`**${commit.hash.substring(0, 7)}** · `);
+        markdown.appendText(`${commit.author} <${commit.authorEmail}> · ${commit.authorTime.toLocaleString()}`);
+        markdown.appendMarkdown('\n\n');
+        const message = state.messages.get(commit.hash) ?? commit.summary;
+        markdown.appendCodeblock(message, 'text');
+        IssueLinkHelper.appendMarkdownLinks(markdown, message);
 
+        const links = [
+            `[Show Commit Details](command:vigit.showCommitDetails?${encodeURIComponent(JSON.stringify([
+                { hash: commit.hash },
+                state.gitService.getWorkspaceRoot()
+            ]))})`
+        ];
+        if (commit.previous) {
+            links.push(`[Annotate Previous Revision](command:vigit.annotatePreviousRevision?${encodeURIComponent(JSON.stringify([
+                uri.toString(),
+                line
+            ]))})`);
+        }
+        markdown.appendMarkdown(links.join(' · '));
+        return markdown;
+    }
+
+    private static formatDate(date: Date): string {
+        return Number.isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+    }
+}
@@ -0,0 +1,408 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { GitHunkSelection } from '../services/gitService';
+import { Repository } from '../managers/repositoryManager';
+
+export type BeforeCommitSeverity = 'error' | 'warning';
+
+export interface BeforeCommitProblem {
+    check: string;
+    severity: BeforeCommitSeverity;
+    message: string;
+    filePath?: string;
+    /** 0 起始的行号 */
+    line?: number;
+}
+
+export interface BeforeCommitContext {
+    repository: Repository;
+    files: string[];
+    /** 只提交部分 hunk 的文件，扫描时只看选中的 hunk，且不做格式化 */
+    hunks: Map<string, GitHunkSelection[]>;
+}
+
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})(\s|$)/;
+const TODO_PATTERN = /\b(TODO|FIXME)\b/;
+const MAX_PROBLEMS_PER_CHECK = 50;
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * 提交前检查流水线（对应 IDEA 的 Before Commit）：先执行会修改文件的格式化与整理 import，
+ * 再运行配置的任务，最后扫描待提交内容。各步骤由 `vigit.beforeCommit.*` 配置开关。
+ */
+export class BeforeCommitHelper {
+    static async run(context: BeforeCommitContext): Promise<BeforeCommitProblem[]> {
+        const config = vscode.workspace.getConfiguration('vigit.beforeCommit');
+        const existingFiles = await this.filterExisting(context.files);
+        // 部分提交的文件若被格式化，已选 hunk 会与新内容错位
+        const wholeFiles = existingFiles.filter(file => !context.hunks.has(file));
+
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Running before-commit checks...',
+            cancellable: true
+        }, async (progress, token) => {
+            const problems: BeforeCommitProblem[] = [];
+
+            if (config.get<boolean>('reformatCode', false) && wholeFiles.length > 0) {
+                progress.report({ message: 'Reformatting code' });
+                problems.push(...await this.reformat(wholeFiles));
+            }
+            if (config.get<boolean>('optimizeImports', false) && wholeFiles.length > 0) {
+                progress.report({ message: 'Optimizing imports' });
+                problems.push(...await this.optimizeImports(wholeFiles));
+            }
+
+            const taskName = config.get<string>('runTask', '').trim();
+            if (taskName) {
+                progress.report({ message: `Running task "${taskName}"` });
+                const timeoutSeconds = config.get<number>('runTaskTimeoutSeconds', 300);
+                problems.push(...await this.runTask(taskName, timeoutSeconds * 1000, token));
+            }
+
+            const checkTodo = config.get<boolean>('checkTodo', true);
+            const checkConflictMarkers = config.get<boolean>('checkConflictMarkers', true);
+            if (checkTodo || checkConflictMarkers) {
+                progress.report({ message: 'Analyzing changes' });
+                problems.push(...await this.scanAddedLines(context, { checkTodo, checkConflictMarkers }));
+            }
+
+            const threshold = config.get<number>('largeFileThresholdKB', 1024);
+            if (threshold > 0) {
+                problems.push(...await this.checkLargeBinaries(existingFiles, threshold * 1024));
+            }
+
+            return problems;
+        });
+    }
+
+    static describe(problem: BeforeCommitProblem, repositoryRoot?: string): string {
+        const location = this.formatLocation(problem, repositoryRoot);
+        return location ? `${location} — ${problem.message}` : problem.message;
+    }
+
+    static formatLocation(problem: BeforeCommitProblem, repositoryRoot?: string): string | undefined {
+        if (!problem.filePath) {
+            return undefined;
+        }
+        const file = repositoryRoot ? path.relative(repositoryRoot, problem.filePath) : path.basename(problem.filePath);
+        return problem.line !== undefined ? `${file}:${problem.line + 1}` : file;
+    }
+
+    /**
+     * 非面板提交（Commit 对话框）的交互：模态提示后可选择继续提交或逐项查看。
+     */
+    static async confirm(problems: BeforeCommitProblem[], repositoryRoot?: string): Promise<boolean> {
+        const errors = problems.filter(problem => problem.severity === 'error').length;
+        const warnings = problems.length - errors;
+        const summary = [
+            errors > 0 ? `${errors} error${errors === 1 ? '' : 's'}` : '',
+            warnings > 0 ? `${warnings} warning${warnings === 1 ? '' : 's'}` : ''
+        ].filter(Boolean).join(' and ');
+        const detail = problems.slice(0, 10).map(problem => this.describe(problem, repositoryRoot)).join('\n')
+            + (problems.length > 10 ? `\n… and ${problems.length - 10} more` : '');
+
+        const choice = await vscode.window.showWarningMessage(
+            `Before-commit checks found ${summary}`,
+            { modal: true, detail },
+            'Commit Anyway',
+            'Review'
+        );
+        if (choice === 'Commit Anyway') {
+            return true;
+        }
+        if (choice === 'Review') {
+            await this.review(problems, repositoryRoot);
+        }
+        return false;
+    }
+
+    static async openProblem(problem: BeforeCommitProblem): Promise<void> {
+        if (!problem.filePath) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(problem.filePath);
+        const position = new vscode.Position(Math.min(problem.line ?? 0, document.lineCount - 1), 0);
+        await vscode.window.showTextDocument(document, {
+            preview: false,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    static async review(problems: BeforeCommitProblem[], repositoryRoot?: string): Promise<void> {
+        const picked = await vscode.window.showQuickPick(
+            problems.map(problem => ({
+                label: `$(${problem.severity === 'error' ? 'error' : 'warning'}) ${problem.message}`,
+                description: this.formatLocation(problem, repositoryRoot) ?? problem.check,
+                problem
+            })),
+            { placeHolder: 'Select a problem to review' }
+        );
+        if (picked) {
+            await this.openProblem(picked.problem);
+        }
+    }
+
+    private static async filterExisting(files: string[]): Promise<string[]> {
+        const result: string[] = [];
+        for (const file of files) {
+            try {
+                if ((await fs.stat(file)).isFile()) {
+                    result.push(file);
+                }
+            } catch {
+                // 删除的文件无需检查
+            }
+        }
+        return result;
+    }
+
+    private static async reformat(files: string[]): Promise<BeforeCommitProblem[]> {
+        const problems: BeforeCommitProblem[] = [];
+        for (const file of files) {
+            try {
+                if (await this.isBinary(file)) {
+                    continue;
+                }
+                const document = await vscode.workspace.openTextDocument(file);
+                // 未保存的编辑不会进入本次提交，格式化后保存会把它们一并写入
+                if (document.isDirty) {
+                    continue;
+                }
+                const editorConfig = vscode.workspace.getConfiguration('editor', document.uri);
+                const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+                    'vscode.executeFormatDocumentProvider',
+                    document.uri,
+                    {
+                        tabSize: editorConfig.get<number>('tabSize', 4),
+                        insertSpaces: editorConfig.get<boolean>('insertSpaces', true)
+                    }
+                );
+                if (edits && edits.length > 0) {
+                    const workspaceEdit = new vscode.WorkspaceEdit();
+                    workspaceEdit.set(document.uri, edits);
+                    await vscode.workspace.applyEdit(workspaceEdit);
+                    await document.save();
+                }
+            } catch (error) {
+                problems.push({
+                    check: 'Reformat code',
+                    severity: 'warning',
+                    message: `Unable to reformat: ${error instanceof Error ? error.message : String(error)}`,
+                    filePath: file
+                });
+            }
+        }
+        return problems;
+    }
+
+    private static async optimizeImports(files: string[]): Promise<BeforeCommitProblem[]> {
+        const problems: BeforeCommitProblem[] = [];
+        for (const file of files) {
+            try {
+                if (await this.isBinary(file)) {
+                    continue;
+                }
+                const document = await vscode.workspace.openTextDocument(file);
+                if (document.isDirty) {
+                    continue;
+                }
+                const fullRange = new vscode.Range(0, 0, document.lineCount, 0);
+                const actions = await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[]>(
+                    'vscode.executeCodeActionProvider',
+                    document.uri,
+                    fullRange,
+                    vscode.CodeActionKind.SourceOrganizeImports.value
+                );
+                for (const action of actions ?? []) {
+                    // 提供方可能直接返回 Command，也可能返回带 edit/command 的 CodeAction
+                    if (typeof action.command === 'string') {
+                        const command = action as vscode.Command;
+                        await vscode.commands.executeCommand(command.command, ...(command.arguments ?? []));
+                        continue;
+                    }
+                    const codeAction = action as vscode.CodeAction;
+                    if (codeAction.edit) {
+                        await vscode.workspace.applyEdit(codeAction.edit);
+                    }
+                    if (codeAction.command) {
+                        await vscode.commands.executeCommand(codeAction.command.command, ...(codeAction.command.arguments ?? []));
+                    }
+                }
+                if (document.isDirty) {
+                    await document.save();
+                }
+            } catch (error) {
+                problems.push({
+                    check: 'Optimize imports',
+                    severity: 'warning',
+                    message: `Unable to optimize imports: ${error instanceof Error ? error.message : String(error)}`,
+                    filePath: file
+                });
+            }
+        }
+        return problems;
+    }
+
+    /**
+     * 运行 tasks.json 或扩展提供的任务，名称可写作 "build" 或 "npm: build"；非零退出码视为失败。
+     * 后台（watch）任务不会结束，直接报告；超时或用户取消时终止任务并报告未完成，
+     * 用户仍可选择忽略问题继续提交。timeoutMs 为 0 表示不限时。
+     */
+    private static async runTask(
+        name: string,
+        timeoutMs: number,
+        token: vscode.CancellationToken
+    ): Promise<BeforeCommitProblem[]> {
+        const check = 'Run task';
+        const tasks = await vscode.tasks.fetchTasks();
+        const task = tasks.find(item => item.name === name || `${item.source}: ${item.name}` === name);
+        if (!task) {
+            return [{ check, severity: 'error', message: `Task "${name}" not found` }];
+        }
+        if (task.isBackground) {
+            return [{ check, severity: 'error', message: `Task "${name}" is a background task and never finishes` }];
+        }
+
+        type TaskOutcome = { exitCode?: number } | { unfinished: 'timeout' | 'cancelled' };
+        let execution: vscode.TaskExecution | undefined;
+        let stopRequested = false;
+        const outcome = await new Promise<TaskOutcome>(resolve => {
+            const matches = (candidate: vscode.TaskExecution) => execution
+                ? candidate === execution
+                : candidate.task.name === task.name && candidate.task.source === task.source;
+            const disposables: vscode.Disposable[] = [];
+            let settled = false;
+            const finish = (result: TaskOutcome) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                disposables.forEach(d => d.dispose());
+                resolve(result);
+            };
+            disposables.push(
+                vscode.tasks.onDidEndTaskProcess(event => {
+                    if (matches(event.execution)) {
+                        finish({ exitCode: event.exitCode });
+                    }
+                }),
+                // 非进程类任务（CustomExecution）不会触发 onDidEndTaskProcess
+                vscode.tasks.onDidEndTask(event => {
+                    if (matches(event.execution)) {
+                        finish({});
+                    }
+                }),
+                token.onCancellationRequested(() => finish({ unfinished: 'cancelled' }))
+            );
+            if (timeoutMs > 0) {
+                const timer = setTimeout(() => finish({ unfinished: 'timeout' }), timeoutMs);
+                disposables.push({ dispose: () => clearTimeout(timer) });
+            }
+            vscode.tasks.executeTask(task).then(started => {
+                execution = started;
+                if (stopRequested) {
+                    started.terminate();
+                }
+            }, error => {
+                console.warn('ViGit: unable to run before-commit task', error);
+                finish({ exitCode: -1 });
+            });
+        });
+
+        if ('unfinished' in outcome) {
+            stopRequested = true;
+            execution?.terminate();
+            const reason = outcome.unfinished === 'timeout'
+                ? `within ${Math.round(timeoutMs / 1000)} seconds and was stopped`
+                : 'before the checks were cancelled';
+            return [{ check, severity: 'error', message: `Task "${name}" did not finish ${reason}` }];
+        }
+        if (outcome.exitCode !== undefined && outcome.exitCode !== 0) {
+            return [{ check, severity: 'error', message: `Task "${name}" failed with exit code ${outcome.exitCode}` }];
+        }
+        return [];
+    }
+
+    private static async scanAddedLines(
+        context: BeforeCommitContext,
+        options: { checkTodo: boolean; checkConflictMarkers: boolean }
+    ): Promise<BeforeCommitProblem[]> {
+        const todos: BeforeCommitProblem[] = [];
+        const markers: BeforeCommitProblem[] = [];
+
+        for (const file of context.files) {
+            const diff = await context.repository.gitService.getFileHunks(file, 'head');
+            if (!diff) {
+                continue;
+            }
+
+            const selections = context.hunks.get(file);
+            const selectedHunks = selections ? new Set(selections.map(selection => selection.hunkIndex)) : undefined;
+            for (const hunk of diff.hunks) {
+                if (selectedHunks && !selectedHunks.has(hunk.index)) {
+                    continue;
+                }
+                for (const line of hunk.lines) {
+                    if (line.type !== 'add' || line.newLine === undefined) {
+                        continue;
+                    }
+                    if (options.checkConflictMarkers && CONFLICT_MARKER.test(line.content)) {
+                        markers.push({
+                            check: 'Conflict markers',
+                            severity: 'error',
+                            message: 'Leftover conflict marker',
+                            filePath: file,
+                            line: line.newLine - 1
+                        });
+                    }
+                    const todo = options.checkTodo ? TODO_PATTERN.exec(line.content) : null;
+                    if (todo) {
+                        todos.push({
+                            check: 'TODO',
+                            severity: 'warning',
+                            message: `New ${todo[1]}: ${line.content.trim()}`,
+                            filePath: file,
+                            line: line.newLine - 1
+                        });
+                    }
+                }
+            }
+        }
+
+        return [...markers.slice(0, MAX_PROBLEMS_PER_CHECK), ...todos.slice(0, MAX_PROBLEMS_PER_CHECK)];
+    }
+
+    private static async checkLargeBinaries(files: string[], thresholdBytes: number): Promise<BeforeCommitProblem[]> {
+        const problems: BeforeCommitProblem[] = [];
+        for (const file of files) {
+            try {
+                const stat = await fs.stat(file);
+                if (stat.size <= thresholdBytes || !(await this.isBinary(file))) {
+                    continue;
+                }
+                problems.push({
+                    check: 'Large files',
+                    severity: 'warning',
+                    message: `Large binary file (${(stat.size / 1024 / 1024).toFixed(1)} MB)`,
+                    filePath: file
+                });
+            } catch (error) {
+                console.warn('ViGit: unable to inspect file size', error);
+            }
+        }
+        return problems;
+    }
+
+    private static async isBinary(file: string): Promise<boolean> {
+        const handle = await fs.open(file, 'r');
+        try {
+            const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+            const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+            return buffer.subarray(0, bytesRead).includes(0);
+        } finally {
+            await handle.close();
+        }
+    }
+}
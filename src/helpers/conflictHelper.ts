@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/gitService';
+
+export class ConflictHelper {
+    /**
+     * 在 merge/rebase/cherry-pick 等操作失败后检查是否留下了冲突，
+     * 若有则提示并提供打开冲突列表的入口；返回 false 表示失败与冲突无关。
+     */
+    static async notifyIfConflicted(
+        gitService: GitService,
+        operation: string,
+        repositoryRoot?: string
+    ): Promise<boolean> {
+        let conflicts: string[];
+        try {
+            conflicts = await gitService.getConflictedFiles();
+        } catch (error) {
+            console.warn('ViGit: unable to read conflicted files', error);
+            return false;
+        }
+
+        if (conflicts.length === 0) {
+            return false;
+        }
+
+        const label = `${conflicts.length} conflicted file${conflicts.length === 1 ? '' : 's'}`;
+        void vscode.window.showWarningMessage(`${operation} stopped with ${label}`, 'Resolve Conflicts')
+            .then(choice => {
+                if (choice === 'Resolve Conflicts') {
+                    void vscode.commands.executeCommand('vigit.resolveConflicts', { repositoryRoot });
+                }
+            });
+        return true;
+    }
+}
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+
+export type CommitLintLevel = 0 | 1 | 2;
+export type CommitLintRule = [CommitLintLevel, ('always' | 'never')?, unknown?];
+
+export interface CommitLintViolation {
+    rule: string;
+    level: CommitLintLevel;
+    message: string;
+}
+
+export interface ConventionalCommitParts {
+    type: string;
+    scope: string;
+    breaking: boolean;
+    breakingDescription: string;
+    subject: string;
+    body: string;
+    references: string;
+    referenceKeyword: string;
+    /** 无法归入上述字段的其他 footer，原样保留 */
+    footers: string[];
+}
+
+const DEFAULT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'];
+
+const TYPE_DESCRIPTIONS: Record<string, string> = {
+    feat: 'A new feature',
+    fix: 'A bug fix',
+    docs: 'Documentation only changes',
+    style: 'Formatting, white-space, missing semicolons',
+    refactor: 'A code change that neither fixes a bug nor adds a feature',
+    perf: 'A code change that improves performance',
+    test: 'Adding or correcting tests',
+    build: 'Build system or external dependencies',
+    ci: 'CI configuration files and scripts',
+    chore: 'Other changes that do not modify source or test files',
+    revert: 'Reverts a previous commit'
+};
+
+/** 对应 @commitlint/config-conventional 的默认值 */
+const DEFAULT_RULES: Record<string, CommitLintRule> = {
+    'type-enum': [2, 'always'],
+    'type-case': [2, 'always', 'lower-case'],
+    'type-empty': [2, 'never'],
+    'scope-case': [2, 'always', 'lower-case'],
+    'subject-empty': [2, 'never'],
+    'subject-full-stop': [2, 'never', '.'],
+    'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+    'header-max-length': [2, 'always', 100],
+    'body-leading-blank': [1, 'always'],
+    'body-max-line-length': [2, 'always', 100],
+    'footer-leading-blank': [1, 'always'],
+    'footer-max-line-length': [2, 'always', 100]
+};
+
+const HEADER_PATTERN = /^(\w[\w-]*)(?:\(([^()\r\n]*)\))?(!)?: (.*)$/;
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[\w-]+)(?:: | #)/;
+const REFERENCE_KEYWORDS = ['Refs', 'Closes', 'Fixes', 'Resolves'];
+const REFERENCE_PATTERN = /(?:^|[\s(,])(?:#\d+|[A-Z][A-Z0-9]+-\d+)\b/;
+/** 这些目录本身没有语义，推荐 scope 时取其下一级 */
+const GENERIC_DIRECTORIES = new Set(['src', 'lib', 'app', 'apps', 'packages', 'modules', 'source', 'main', 'java', 'kotlin', 'test', 'tests']);
+
+/**
+ * Conventional Commits 的解析与 commitlint 风格的校验。
+ * 规则格式与 commitlint 相同：`[level, 'always' | 'never', value]`，level 0 关闭、1 警告、2 错误。
+ */
+export class ConventionalCommitHelper {
+    static isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('vigit.conventionalCommits').get<boolean>('enabled', false);
+    }
+
+    static getTypes(): Array<{ type: string; description: string }> {
+        const types = vscode.workspace.getConfiguration('vigit.conventionalCommits').get<string[]>('types', DEFAULT_TYPES);
+        return types.map(type => ({ type, description: TYPE_DESCRIPTIONS[type] ?? '' }));
+    }
+
+    static getRules(): Record<string, CommitLintRule> {
+        const configured = vscode.workspace.getConfiguration('vigit.conventionalCommits').get<Record<string, CommitLintRule>>('rules', {});
+        const rules: Record<string, CommitLintRule> = { ...DEFAULT_RULES, ...configured };
+        if (rules['type-enum'] && rules['type-enum'][2] === undefined) {
+            rules['type-enum'] = [rules['type-enum'][0], rules['type-enum'][1] ?? 'always', this.getTypes().map(entry => entry.type)];
+        }
+        return rules;
+    }
+
+    static parse(message: string): ConventionalCommitParts {
+        const lines = message.replace(/\r\n/g, '\n').split('\n');
+        const header = HEADER_PATTERN.exec(lines[0] ?? '');
+        const parts: ConventionalCommitParts = {
+            type: header?.[1] ?? '',
+            scope: header?.[2] ?? '',
+            breaking: !!header?.[3],
+            breakingDescription: '',
+            subject: header ? header[4] : (lines[0] ?? ''),
+            body: '',
+            references: '',
+            referenceKeyword: 'Refs',
+            footers: []
+        };
+
+        const { body, footer } = this.splitBody(lines.slice(1));
+        parts.body = body.join('\n').trim();
+        for (const line of footer) {
+            const match = /^(BREAKING[ -]CHANGE): (.*)$/.exec(line);
+            if (match) {
+                parts.breaking = true;
+                parts.breakingDescription = match[2];
+                continue;
+            }
+            const reference = /^(\w+): (.*)$/.exec(line);
+            const keyword = reference && REFERENCE_KEYWORDS.find(entry => entry.toLowerCase() === reference[1].toLowerCase());
+            if (reference && keyword && !parts.references) {
+                parts.referenceKeyword = keyword;
+                parts.references = reference[2];
+                continue;
+            }
+            parts.footers.push(line);
+        }
+        return parts;
+    }
+
+    static lint(message: string, rules: Record<string, CommitLintRule> = this.getRules()): CommitLintViolation[] {
+        const violations: CommitLintViolation[] = [];
+        const lines = message.replace(/\r\n/g, '\n').replace(/\s+$/, '').split('\n');
+        const header = lines[0] ?? '';
+        const parsed = HEADER_PATTERN.exec(header);
+        const type = parsed?.[1] ?? '';
+        const scope = parsed?.[2] ?? '';
+        const subject = parsed?.[4] ?? '';
+        const { body, footer, bodyLeadingBlank, footerLeadingBlank } = this.splitBody(lines.slice(1));
+
+        const check = (name: string, test: (when: 'always' | 'never', value: unknown) => string | undefined) => {
+            const rule = rules[name];
+            if (!rule || rule[0] === 0) {
+                return;
+            }
+            const problem = test(rule[1] ?? 'always', rule[2]);
+            if (problem) {
+                violations.push({ rule: name, level: rule[0], message: problem });
+            }
+        };
+        const list = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : value ? [String(value)] : [];
+        const negate = (when: 'always' | 'never', result: boolean) => when === 'never' ? !result : result;
+
+        check('header-max-length', (_, value) => header.length > Number(value)
+            ? `header must not be longer than ${value} characters (currently ${header.length})` : undefined);
+        check('header-min-length', (_, value) => header.length < Number(value)
+            ? `header must not be shorter than ${value} characters` : undefined);
+
+        check('type-empty', when => negate(when, !type) ? undefined
+            : when === 'never' ? 'type may not be empty — use "type(scope): subject"' : 'type must be empty');
+        if (type) {
+            check('type-enum', (when, value) => negate(when, list(value).includes(type)) ? undefined
+                : `type must ${when === 'never' ? 'not ' : ''}be one of [${list(value).join(', ')}]`);
+            check('type-case', (when, value) => this.matchesCase(type, list(value), when) ? undefined
+                : `type must ${when === 'never' ? 'not ' : ''}be ${list(value).join(', ')}`);
+        }
+
+        check('scope-empty', when => negate(when, !scope) ? undefined
+            : when === 'never' ? 'scope may not be empty' : 'scope must be empty');
+        if (scope) {
+            const scopes = scope.split(/[,/]/).map(entry => entry.trim());
+            check('scope-enum', (when, value) => list(value).length === 0 || negate(when, scopes.every(entry => list(value).includes(entry)))
+                ? undefined : `scope must ${when === 'never' ? 'not ' : ''}be one of [${list(value).join(', ')}]`);
+            check('scope-case', (when, value) => scopes.every(entry => this.matchesCase(entry, list(value), when)) ? undefined
+                : `scope must ${when === 'never' ? 'not ' : ''}be ${list(value).join(', ')}`);
+        }
+
+        check('subject-empty', when => negate(when, !subject) ? undefined
+            : when === 'never' ? 'subject may not be empty' : 'subject must be empty');
+        if (subject) {
+            check('subject-case', (when, value) => this.matchesCase(subject, list(value), when) ? undefined
+                : `subject must ${when === 'never' ? 'not ' : ''}be ${list(value).join(', ')}`);
+            check('subject-full-stop', (when, value) => negate(when, subject.endsWith(String(value ?? '.'))) ? undefined
+                : `subject must ${when === 'never' ? 'not ' : ''}end with "${value ?? '.'}"`);
+            check('subject-max-length', (_, value) => subject.length > Number(value)
+                ? `subject must not be longer than ${value} characters` : undefined);
+        }
+
+        const hasBody = body.some(line => line.trim());
+        check('body-empty', when => negate(when, !hasBody) ? undefined
+            : when === 'never' ? 'body may not be empty' : 'body must be empty');
+        if (hasBody) {
+            check('body-leading-blank', when => negate(when, bodyLeadingBlank) ? undefined
+                : `body must ${when === 'never' ? 'not ' : ''}have a leading blank line`);
+            check('body-max-line-length', (_, value) => body.some(line => line.length > Number(value) && !/^\S+$/.test(line))
+                ? `body's lines must not be longer than ${value} characters` : undefined);
+        }
+        if (footer.length > 0) {
+            check('footer-leading-blank', when => negate(when, footerLeadingBlank) ? undefined
+                : `footer must ${when === 'never' ? 'not ' : ''}have a leading blank line`);
+            check('footer-max-line-length', (_, value) => footer.some(line => line.length > Number(value))
+                ? `footer's lines must not be longer than ${value} characters` : undefined);
+        }
+
+        check('references-empty', when => negate(when, !REFERENCE_PATTERN.test(lines.slice(1).join('\n'))) ? undefined
+            : when === 'never' ? 'references may not be empty — reference an issue, e.g. "Refs: #123"' : 'references must be empty');
+
+        return violations.sort((a, b) => b.level - a.level);
+    }
+
+    static hasErrors(violations: CommitLintViolation[]): boolean {
+        return violations.some(violation => violation.level === 2);
+    }
+
+    /**
+     * 根据改动文件的路径推荐 scope：跳过 src、packages 等通用目录，取第一个有语义的目录名，按出现次数排序。
+     */
+    static suggestScopes(relativePaths: string[]): string[] {
+        const counts = new Map<string, number>();
+        for (const relativePath of relativePaths) {
+            const directories = relativePath.split('/').slice(0, -1);
+            const scope = directories.find(directory => !GENERIC_DIRECTORIES.has(directory.toLowerCase()));
+            if (scope && !scope.startsWith('.')) {
+                const normalized = scope.toLowerCase();
+                counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+            }
+        }
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .map(([scope]) => scope);
+    }
+
+    /**
+     * 末尾一段若每行都是 `Token: value` / `Token #value` 形式则视为 footer。
+     * rest 为标题之后的各行，两个布尔值表示正文与 footer 前是否有空行。
+     */
+    private static splitBody(rest: string[]): {
+        body: string[];
+        footer: string[];
+        bodyLeadingBlank: boolean;
+        footerLeadingBlank: boolean;
+    } {
+        let end = rest.length;
+        while (end > 0 && !rest[end - 1].trim()) {
+            end--;
+        }
+        let start = end;
+        while (start > 0 && rest[start - 1].trim()) {
+            start--;
+        }
+
+        const lastParagraph = rest.slice(start, end);
+        const isFooter = lastParagraph.length > 0 && lastParagraph.every(line => FOOTER_PATTERN.test(line));
+        const bodyLines = rest.slice(0, isFooter ? start : end);
+        const firstBodyLine = bodyLines.findIndex(line => line.trim());
+        return {
+            body: firstBodyLine >= 0 ? bodyLines.slice(firstBodyLine) : [],
+            footer: isFooter ? lastParagraph : [],
+            bodyLeadingBlank: firstBodyLine > 0 && !rest[firstBodyLine - 1].trim(),
+            footerLeadingBlank: start > 0 && !rest[start - 1].trim()
+        };
+    }
+
+    private static matchesCase(value: string, cases: string[], when: 'always' | 'never'): boolean {
+        if (cases.length === 0) {
+            return true;
+        }
+        const matches = cases.some(entry => this.isCase(value, entry));
+        return when === 'never' ? !matches : matches;
+    }
+
+    private static isCase(value: string, name: string): boolean {
+        switch (name) {
+            case 'lower-case':
+                return value === value.toLowerCase();
+            case 'upper-case':
+                return value === value.toUpperCase();
+            case 'sentence-case':
+                return /^[A-Z]/.test(value) && value.substring(1) === value.substring(1).toLowerCase();
+            case 'start-case':
+                return value.split(/\s+/).every(word => /^[A-Z]/.test(word)) && /\s/.test(value);
+            case 'pascal-case':
+                return /^[A-Z][a-zA-Z0-9]*$/.test(value) && /[a-z]/.test(value);
+            case 'camel-case':
+                return /^[a-z][a-zA-Z0-9]*$/.test(value);
+            case 'kebab-case':
+                return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value);
+            case 'snake-case':
+                return /^[a-z0-9]+(?:_[a-z0-9]+)*$/.test(value);
+            default:
+                return true;
+        }
+    }
+}
@@ -106,7 +106,8 @@ export class DiffViewHelper {
         gitService: GitService,
         commitHash: string,
         parentHash: string | undefined,
-        change: CommitFileChange
+        change: CommitFileChange,
+        options?: { compareWithWorkingTree?: boolean; viewColumn?: vscode.ViewColumn }
     ): Promise<void> {
         await DiffViewHelper.ensureDiffEditorConfig();
         const statusCode = change.status.charAt(0);
@@ -119,7 +120,9 @@ export class DiffViewHelper {
             change.previousPath ?? change.path
         );
 
-        const workspaceFileExists = await DiffViewHelper.fileExists(currentFsPath);
+        const workspaceFileExists = options?.compareWithWorkingTree !== false
+            && await DiffViewHelper.fileExists(currentFsPath);
+        const viewColumn = options?.viewColumn ?? vscode.ViewColumn.Active;
 
         // Prefer comparing against the workspace copy so the user sees local impact immediately
         if (workspaceFileExists) {
@@ -146,7 +149,7 @@ export class DiffViewHelper {
                     commitUri,
                     vscode.Uri.file(currentFsPath),
                     `${path.basename(change.path)} (${commitHash.substring(0, 7)} -> Working Tree)`,
-                    { preview: false, viewColumn: vscode.ViewColumn.Active }
+                    { preview: false, viewColumn }
                 );
             } finally {
                 setTimeout(() => commitRegistration.dispose(), 100);
@@ -197,7 +200,7 @@ export class DiffViewHelper {
                 leftUri,
                 rightUri,
                 `${path.basename(change.path)} (${commitHash.substring(0, 7)})`,
-                { preview: false, viewColumn: vscode.ViewColumn.Active }
+                { preview: false, viewColumn }
             );
         } finally {
             setTimeout(() => {
@@ -207,6 +210,76 @@ export class DiffViewHelper {
         }
     }
 
+    /**
+     * 以只读文档打开文件在某个版本中的内容；revisionPath 为该版本中的仓库相对路径。
+     */
+    static async showFileAtRevision(
+        gitService: GitService,
+        revision: string,
+        revisionPath: string,
+        options?: { viewColumn?: vscode.ViewColumn; preview?: boolean }
+    ): Promise<vscode.TextEditor> {
+        const content = await gitService.getFileContent(
+            path.join(gitService.getWorkspaceRoot(), revisionPath),
+            revision
+        );
+        const scheme = `vigit-revision-${Date.now()}`;
+        const registration = vscode.workspace.registerTextDocumentContentProvider(
+            scheme,
+            new DiffContentProvider(content)
+        );
+
+        try {
+            // 保留原文件名，编辑器才能按扩展名推断语言
+            const uri = vscode.Uri.from({
+                scheme,
+                path: `/${revisionPath.replace(/\\/g, '/')}`,
+                query: revision.substring(0, 7)
+            });
+            const document = await vscode.workspace.openTextDocument(uri);
+            return await vscode.window.showTextDocument(document, {
+                preview: options?.preview ?? true,
+                viewColumn: options?.viewColumn ?? vscode.ViewColumn.Active
+            });
+        } finally {
+            setTimeout(() => registration.dispose(), 100);
+        }
+    }
+
+    /**
+     * 对比某个版本与当前工作区文件；文件被重命名过时 revisionPath 与 filePath 不同。
+     */
+    static async showRevisionWithWorkingTree(
+        gitService: GitService,
+        revision: string,
+        revisionPath: string,
+        filePath: string,
+        options?: { viewColumn?: vscode.ViewColumn }
+    ): Promise<void> {
+        await DiffViewHelper.ensureDiffEditorConfig();
+        const content = await gitService.getFileContent(
+            path.join(gitService.getWorkspaceRoot(), revisionPath),
+            revision
+        );
+        const scheme = `vigit-revision-${Date.now()}`;
+        const registration = vscode.workspace.registerTextDocumentContentProvider(
+            scheme,
+            new DiffContentProvider(content)
+        );
+
+        try {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.from({ scheme, path: `/${revisionPath.replace(/\\/g, '/')}` }),
+                vscode.Uri.file(filePath),
+                `${path.basename(revisionPath)} (${revision.substring(0, 7)}) ↔ ${path.basename(filePath)} (Working Tree)`,
+                { preview: false, viewColumn: options?.viewColumn ?? vscode.ViewColumn.Active }
+            );
+        } finally {
+            setTimeout(() => registration.dispose(), 100);
+        }
+    }
+
     static async showBranchDiff(
         gitService: GitService,
         branchName: string,
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { GitCommandError, GitHooksInfo, GitOutputListener } from '../services/gitService';
+import { Repository } from '../managers/repositoryManager';
+import { BeforeCommitHelper, BeforeCommitProblem } from './beforeCommitHelper';
+
+export type GitHookTrigger = 'commit' | 'push';
+
+const TRIGGERED_HOOKS: Record<GitHookTrigger, string[]> = {
+    commit: ['pre-commit', 'prepare-commit-msg', 'commit-msg', 'post-commit'],
+    push: ['pre-push']
+};
+
+/** hook 工具常输出颜色控制序列，写入输出通道与解析前去掉 */
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g');
+/** `file:line[:col] message`，涵盖 eslint unix/compact、tsc --pretty、flake8、mypy、golangci-lint 等 */
+const COLON_LOCATION = /((?:[A-Za-z]:[\\/])?[^\s:'"()<>[\]]+):(\d+)(?::(\d+))?(?:[:\s-]+(.*))?$/;
+/** tsc 非 pretty 输出：`file(line,col): error TS1234: message` */
+const PAREN_LOCATION = /((?:[A-Za-z]:[\\/])?[^\s:'"()<>[\]]+)\((\d+),(\d+)\):\s*(.*)$/;
+/** eslint stylish：文件路径单独一行，其后为缩进的 `line:col  severity  message  rule` */
+const STYLISH_ROW = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.*)$/;
+const MAX_PROBLEMS = 50;
+
+const HOOK_CHECK = 'Hooks';
+
+/**
+ * 提交与推送时的 git hook 支持：检测已安装的 hook（core.hooksPath、husky、lefthook、pre-commit），
+ * 把输出实时写入 "ViGit Hooks" 输出通道，失败时解析出文件位置并提供以 --no-verify 重试。
+ */
+export class GitHooksHelper {
+    private static channel: vscode.OutputChannel | undefined;
+
+    /**
+     * 执行会触发 hook 的操作。仓库未安装相应 hook 时直接执行，错误照常抛出；
+     * hook 导致的失败在这里处理（onProblems 或错误通知），返回 false 表示未完成。
+     * task 的 onOutput 仅在有 hook 运行时提供。
+     */
+    static async run(
+        repository: Repository,
+        trigger: GitHookTrigger,
+        label: string,
+        task: (noVerify: boolean, onOutput?: GitOutputListener) => Promise<void>,
+        options: {
+            noVerify?: boolean;
+            onProblems?: (problems: BeforeCommitProblem[], repository: Repository) => Promise<boolean>;
+        } = {}
+    ): Promise<boolean> {
+        const info = options.noVerify ? undefined : await this.detectHooks(repository);
+        const hooks = info?.hooks.filter(hook => TRIGGERED_HOOKS[trigger].includes(hook)) ?? [];
+        if (!info || hooks.length === 0) {
+            await task(!!options.noVerify);
+            return true;
+        }
+
+        const channel = this.getChannel();
+        channel.appendLine(
+            `[${new Date().toLocaleTimeString()}] ${label} in ${repository.name}: running ${hooks.join(', ')}`
+            + (info.managers.length > 0 ? ` (${info.managers.join(', ')})` : '')
+        );
+        if (this.getRevealMode() === 'always') {
+            channel.show(true);
+        }
+
+        try {
+            await task(false, text => channel.append(text.replace(ANSI_ESCAPE, '')));
+            channel.appendLine(`${label} succeeded`);
+            return true;
+        } catch (error) {
+            if (!(error instanceof GitCommandError) || !this.isHookFailure(error.output)) {
+                channel.appendLine(`${label} failed`);
+                throw error;
+            }
+            channel.appendLine(`${label} failed: exit code ${error.exitCode ?? 'unknown'}`);
+            if (this.getRevealMode() !== 'never') {
+                channel.show(true);
+            }
+
+            const problems = await this.parseProblems(error.output, repository.root);
+            const summary = `${hooks.join(', ')} hook${hooks.length === 1 ? '' : 's'} failed`;
+            if (options.onProblems) {
+                const lastLine = this.getLastLine(error.output);
+                const proceed = await options.onProblems([
+                    { check: HOOK_CHECK, severity: 'error', message: lastLine ? `${summary}: ${lastLine}` : summary },
+                    ...problems
+                ], repository);
+                return proceed && await this.retry(task, label);
+            }
+            return await this.offerRetry(task, label, summary, problems, repository.root);
+        }
+    }
+
+    /**
+     * 从 hook 输出中解析 `file:line` 位置，只保留仓库中确实存在的文件。
+     */
+    static async parseProblems(output: string, repositoryRoot: string): Promise<BeforeCommitProblem[]> {
+        const candidates: { file: string; line: number; message: string; severity: 'error' | 'warning' }[] = [];
+        let stylishFile: string | undefined;
+
+        for (const rawLine of output.replace(ANSI_ESCAPE, '').split(/\r?\n/)) {
+            const stylish = STYLISH_ROW.exec(rawLine);
+            if (stylish && stylishFile) {
+                candidates.push({
+                    file: stylishFile,
+                    line: Number(stylish[1]),
+                    message: stylish[4].trim().replace(/\s{2,}/g, ' '),
+                    severity: stylish[3] === 'warning' ? 'warning' : 'error'
+                });
+                continue;
+            }
+
+            const location = PAREN_LOCATION.exec(rawLine) ?? COLON_LOCATION.exec(rawLine);
+            if (location) {
+                const message = (location[4] ?? '').trim() || rawLine.trim();
+                candidates.push({
+                    file: location[1],
+                    line: Number(location[2]),
+                    message,
+                    severity: /\bwarn(?:ing)?\b/i.test(message) && !/\berror\b/i.test(message) ? 'warning' : 'error'
+                });
+                continue;
+            }
+
+            // 顶格且不含空白的行可能是 stylish 的文件头
+            stylishFile = /^\S+$/.test(rawLine) ? rawLine : undefined;
+        }
+
+        const problems: BeforeCommitProblem[] = [];
+        const seen = new Set<string>();
+        const existing = new Map<string, Promise<boolean>>();
+        for (const candidate of candidates) {
+            const filePath = path.resolve(repositoryRoot, candidate.file);
+            const key = `${filePath}:${candidate.line}:${candidate.message}`;
+            if (seen.has(key) || candidate.line < 1) {
+                continue;
+            }
+            if (!existing.has(filePath)) {
+                existing.set(filePath, fs.stat(filePath).then(stat => stat.isFile(), () => false));
+            }
+            if (!(await existing.get(filePath))) {
+                continue;
+            }
+            seen.add(key);
+            problems.push({
+                check: HOOK_CHECK,
+                severity: candidate.severity,
+                message: candidate.message,
+                filePath,
+                line: candidate.line - 1
+            });
+            if (problems.length >= MAX_PROBLEMS) {
+                break;
+            }
+        }
+        return problems;
+    }
+
+    static showOutput(): void {
+        this.getChannel().show();
+    }
+
+    static dispose(): void {
+        this.channel?.dispose();
+        this.channel = undefined;
+    }
+
+    private static async detectHooks(repository: Repository): Promise<GitHooksInfo | undefined> {
+        try {
+            return await repository.gitService.getHooksInfo();
+        } catch (error) {
+            console.warn('ViGit: unable to detect git hooks', error);
+            return undefined;
+        }
+    }
+
+    private static async offerRetry(
+        task: (noVerify: boolean, onOutput?: GitOutputListener) => Promise<void>,
+        label: string,
+        summary: string,
+        problems: BeforeCommitProblem[],
+        repositoryRoot: string
+    ): Promise<boolean> {
+        const actions = ['Retry with --no-verify', 'Show Output', ...(problems.length > 0 ? ['Review Problems'] : [])];
+        const count = problems.length > 0 ? ` (${problems.length} problem${problems.length === 1 ? '' : 's'})` : '';
+        const choice = await vscode.window.showErrorMessage(`${label} failed: ${summary}${count}`, ...actions);
+        if (choice === 'Retry with --no-verify') {
+            return await this.retry(task, label);
+        }
+        if (choice === 'Show Output') {
+            this.showOutput();
+        } else if (choice === 'Review Problems') {
+            await BeforeCommitHelper.review(problems, repositoryRoot);
+        }
+        return false;
+    }
+
+    private static async retry(
+        task: (noVerify: boolean, onOutput?: GitOutputListener) => Promise<void>,
+        label: string
+    ): Promise<boolean> {
+        this.getChannel().appendLine(`Retrying ${label.toLowerCase()} with --no-verify`);
+        await task(true);
+        return true;
+    }
+
+    /**
+     * git 自身的失败（无可提交内容、推送被拒、签名失败等）不应提示跳过 hook。
+     * hook 的输出格式无法穷举，这里只排除可识别的 git 错误。
+     */
+    private static isHookFailure(output: string): boolean {
+        return !/^fatal: /m.test(output)
+            && !/\[(?:remote )?rejected\]/.test(output)
+            && !/nothing (?:added )?to commit|no changes added to commit/.test(output);
+    }
+
+    private static getLastLine(output: string): string | undefined {
+        const lines = output.replace(ANSI_ESCAPE, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+        return lines[lines.length - 1];
+    }
+
+    private static getRevealMode(): 'always' | 'onFailure' | 'never' {
+        return vscode.workspace.getConfiguration('vigit.gitHooks').get<'always' | 'onFailure' | 'never'>('revealOutput', 'onFailure');
+    }
+
+    private static getChannel(): vscode.OutputChannel {
+        if (!this.channel) {
+            this.channel = vscode.window.createOutputChannel('ViGit Hooks');
+        }
+        return this.channel;
+    }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+
+export interface IssueReference {
+    key: string;
+    url: string;
+    index: number;
+    length: number;
+}
+
+/** 下发给 webview 的匹配规则；点击后由扩展侧生成 URL，webview 不直接打开任意地址 */
+export interface IssueLinkWebviewOptions {
+    pattern: string;
+    flags: string;
+}
+
+/** 与 package.json 中 issuePattern / branchPatterns 的默认值保持一致 */
+const DEFAULT_ISSUE_PATTERN = '\\b([A-Z][A-Z0-9]+-\\d+)\\b';
+// 分支名中任务号后常紧跟 _ 等单词字符（ABC-123_fix），因此不要求单词边界
+const DEFAULT_BRANCH_PATTERN = '([A-Z][A-Z0-9]+-\\d+)';
+
+/**
+ * 基于正则与 URL 模板的 issue 链接：从分支名解析任务号预填提交信息，
+ * 并把提交信息中的任务号渲染为链接。不访问任何 issue tracker 服务。
+ */
+export class IssueLinkHelper {
+    /**
+     * 按 `vigit.issueTracker.branchPatterns` 依次匹配，取第一个捕获组（没有捕获组时取整个匹配）。
+     */
+    static extractFromBranch(branch: string | undefined): string | undefined {
+        if (!branch) {
+            return undefined;
+        }
+        const patterns = this.getConfig().get<string[]>('branchPatterns', [DEFAULT_BRANCH_PATTERN]);
+        for (const source of patterns) {
+            const pattern = this.compile(source, '');
+            const match = pattern?.exec(branch);
+            if (match) {
+                return match[1] ?? match[0];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 当前仓库应使用的任务号：changelist 上关联的任务号优先，其次从当前分支名解析。
+     */
+    static async resolveIssueKey(
+        gitService: { getCurrentBranch(): Promise<string> },
+        changelistTicket?: string
+    ): Promise<string | undefined> {
+        if (changelistTicket) {
+            return changelistTicket;
+        }
+        try {
+            return this.extractFromBranch(await gitService.getCurrentBranch());
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 普通提交信息按 `vigit.issueTracker.messagePrefix` 加前缀；消息中已包含该任务号时保持不变。
+     */
+    static applyPrefix(message: string, key: string | undefined): string {
+        if (!key || message.includes(key)) {
+            return message;
+        }
+        const template = this.getConfig().get<string>('messagePrefix', '{key}: ');
+        return template ? template.replace(/\{key\}/g, key) + message : message;
+    }
+
+    /**
+     * Commit 面板空消息时的预填内容；Conventional Commits 下任务号写在 Refs footer 中，保持标题可校验。
+     */
+    static createMessagePrefill(key: string, conventional: boolean): string {
+        return conventional ? `\n\nRefs: ${key}` : this.applyPrefix('', key);
+    }
+
+    static getUrl(key: string): string | undefined {
+        const template = this.getConfig().get<string>('urlTemplate', '');
+        if (!template) {
+            return undefined;
+        }
+        return template.replace(/\{key\}/g, encodeURIComponent(key));
+    }
+
+    static findReferences(text: string): IssueReference[] {
+        const options = this.getWebviewOptions();
+        const pattern = options && this.compile(options.pattern, options.flags);
+        if (!pattern) {
+            return [];
+        }
+
+        const references: IssueReference[] = [];
+        for (const match of text.matchAll(pattern)) {
+            if (!match[0]) {
+                continue;
+            }
+            const key = match[1] ?? match[0];
+            const url = this.getUrl(key);
+            if (url) {
+                references.push({ key, url, index: match.index ?? 0, length: match[0].length });
+            }
+        }
+        return references;
+    }
+
+    /**
+     * 悬停提示中的代码块无法包含链接，单独追加一行 issue 链接。
+     */
+    static appendMarkdownLinks(markdown: vscode.MarkdownString, text: string): void {
+        const seen = new Set<string>();
+        const links = this.findReferences(text)
+            .filter(reference => !seen.has(reference.key) && seen.add(reference.key))
+            .map(reference => `[${reference.key}](${reference.url})`);
+        if (links.length > 0) {
+            markdown.appendMarkdown(`Issues: ${links.join(', ')}\n\n`);
+        }
+    }
+
+    /**
+     * 未配置 URL 模板时返回 undefined，webview 不做链接化。
+     */
+    static getWebviewOptions(): IssueLinkWebviewOptions | undefined {
+        const config = this.getConfig();
+        if (!config.get<string>('urlTemplate', '')) {
+            return undefined;
+        }
+        const pattern = config.get<string>('issuePattern', DEFAULT_ISSUE_PATTERN) || DEFAULT_ISSUE_PATTERN;
+        return this.compile(pattern, 'g') ? { pattern, flags: 'g' } : undefined;
+    }
+
+    /**
+     * webview 中把任务号渲染为链接的脚本片段，定义 appendLinkified(element, text)。
+     * 依赖所在作用域中的 vscode（acquireVsCodeApi 的结果）与 issueLinks（getWebviewOptions 的结果），
+     * 点击后向扩展发送 openIssue 消息，URL 由扩展侧按模板生成。
+     */
+    static getWebviewScript(): string {
+        return `const appendLinkified = (element, text) => {
+                if (!issueLinks) {
+                    element.appendChild(document.createTextNode(text));
+                    return;
+                }
+                const pattern = new RegExp(issueLinks.pattern, issueLinks.flags);
+                let last = 0;
+                let match;
+                while ((match = pattern.exec(text)) !== null) {
+                    if (!match[0]) {
+                        pattern.lastIndex++;
+                        continue;
+                    }
+                    element.appendChild(document.createTextNode(text.substring(last, match.index)));
+                    const key = match[1] || match[0];
+                    const link = document.createElement('a');
+                    link.className = 'issue-link';
+                    link.textContent = match[0];
+                    link.title = 'Open ' + key;
+                    link.addEventListener('click', event => {
+                        event.stopPropagation();
+                        vscode.postMessage({ type: 'openIssue', payload: { key } });
+                    });
+                    element.appendChild(link);
+                    last = match.index + match[0].length;
+                }
+                element.appendChild(document.createTextNode(text.substring(last)));
+            };`;
+    }
+
+    static async openIssue(key: string): Promise<void> {
+        const url = this.getUrl(key);
+        if (url) {
+            await vscode.env.openExternal(vscode.Uri.parse(url));
+        }
+    }
+
+    private static compile(source: string, flags: string): RegExp | undefined {
+        try {
+            return new RegExp(source, flags);
+        } catch (error) {
+            console.warn(`ViGit: invalid issue tracker pattern ${source}`, error);
+            return undefined;
+        }
+    }
+
+    private static getConfig(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('vigit.issueTracker');
+    }
+}
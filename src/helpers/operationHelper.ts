@@ -0,0 +1,47 @@
+import { GitOperationAction, GitOperationKind, GitOperationState } from '../services/gitService';
+
+const OPERATION_TITLES: Record<GitOperationKind, string> = {
+    'merge': 'Merging',
+    'rebase': 'Rebasing',
+    'cherry-pick': 'Cherry-picking',
+    'revert': 'Reverting',
+    'bisect': 'Bisecting'
+};
+
+const OPERATION_NAMES: Record<GitOperationKind, string> = {
+    'merge': 'Merge',
+    'rebase': 'Rebase',
+    'cherry-pick': 'Cherry-pick',
+    'revert': 'Revert',
+    'bisect': 'Bisect'
+};
+
+export class OperationHelper {
+    /**
+     * 生成 Commit 面板与状态栏共用的描述，例如 "Rebasing main (2/5)"。
+     */
+    static describe(state: GitOperationState): string {
+        const parts = [OPERATION_TITLES[state.kind]];
+        if (state.kind === 'rebase' && state.branch) {
+            parts.push(state.branch);
+        } else if (state.target) {
+            parts.push(state.target);
+        }
+        if (state.progress && state.progress.total > 0) {
+            parts.push(`(${state.progress.step}/${state.progress.total})`);
+        }
+        return parts.join(' ');
+    }
+
+    static getName(kind: GitOperationKind): string {
+        return OPERATION_NAMES[kind];
+    }
+
+    static getActionLabel(state: GitOperationState, action: GitOperationAction): string {
+        if (state.kind === 'bisect' && action === 'abort') {
+            return 'Reset Bisect';
+        }
+        const verb = action === 'continue' ? 'Continue' : action === 'skip' ? 'Skip' : 'Abort';
+        return `${verb} ${OPERATION_NAMES[state.kind]}`;
+    }
+}
@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Repository } from '../managers/repositoryManager';
+import { BeforeCommitProblem } from './beforeCommitHelper';
+
+interface SecretRule {
+    id: string;
+    description: string;
+    pattern: RegExp;
+}
+
+interface CustomSecretRule {
+    id?: string;
+    description?: string;
+    pattern?: string;
+    flags?: string;
+}
+
+/**
+ * 内置规则，可通过 `vigit.secretScanning.disabledRules` 按 id 关闭。
+ */
+const BUILTIN_RULES: SecretRule[] = [
+    {
+        id: 'private-key',
+        description: 'Private key',
+        pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/
+    },
+    { id: 'aws-access-key', description: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+    {
+        id: 'aws-secret-key',
+        description: 'AWS secret access key',
+        pattern: /aws.{0,20}(?:secret|access).{0,20}['"=:]\s*['"]?[0-9a-zA-Z/+]{40}\b/i
+    },
+    { id: 'gcp-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+    { id: 'github-token', description: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+    { id: 'gitlab-token', description: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/ },
+    { id: 'slack-token', description: 'Slack token', pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}\b/ },
+    { id: 'stripe-key', description: 'Stripe live key', pattern: /\b(?:sk|rk)_live_[0-9a-zA-Z]{24,}\b/ },
+    { id: 'azure-storage-key', description: 'Azure storage account key', pattern: /AccountKey=[A-Za-z0-9+/=]{80,}/ },
+    { id: 'npm-token', description: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+    { id: 'jwt', description: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+    {
+        id: 'credential-assignment',
+        description: 'hard-coded credential',
+        pattern: /\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)\b["']?\s*[:=]\s*["'][^"'\s$]{8,}["']/i
+    }
+];
+
+/** .env 文件本身就不应提交，示例模板除外 */
+const ENV_FILE = /^\.env(?:\..+)?$/;
+const ENV_TEMPLATE = /\.(?:example|sample|template|dist)$/;
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{20,}/g;
+
+/**
+ * 扫描暂存区即将提交的新增内容，查找私钥、云服务密钥、令牌、.env 文件与高熵字符串。
+ * 发现的问题一律按 error 处理，默认阻止提交。
+ */
+export class SecretScanHelper {
+    static async scanStaged(repository: Repository): Promise<BeforeCommitProblem[]> {
+        const config = vscode.workspace.getConfiguration('vigit.secretScanning');
+        if (!config.get<boolean>('enabled', true)) {
+            return [];
+        }
+
+        const diff = await repository.gitService.getStagedDiff(config.get<string[]>('excludePaths', []));
+        return this.scanDiff(diff, repository.root, {
+            rules: this.getRules(config),
+            entropyThreshold: config.get<number>('entropyThreshold', 4.5)
+        });
+    }
+
+    static scanDiff(
+        diff: string,
+        repositoryRoot: string,
+        options: { rules: SecretRule[]; entropyThreshold: number }
+    ): BeforeCommitProblem[] {
+        const problems: BeforeCommitProblem[] = [];
+        let currentFile: string | undefined;
+        let newLine = 0;
+        // 只有文件头（diff --git 之后、第一个 @@ 之前）中的 +++ 才是目标路径，hunk 内可能是以 "++ " 开头的新增行
+        let inHunk = false;
+
+        for (const line of diff.split('\n')) {
+            if (line.startsWith('diff --git ')) {
+                inHunk = false;
+                continue;
+            }
+            if (!inHunk && line.startsWith('+++ ')) {
+                const target = line.substring(4).replace(/^"|"$/g, '');
+                currentFile = target === '/dev/null' ? undefined : target.replace(/^b\//, '');
+                if (currentFile && this.isEnvFile(currentFile)) {
+                    problems.push({
+                        check: 'Secrets',
+                        severity: 'error',
+                        message: 'Environment file (.env) should not be committed',
+                        filePath: path.join(repositoryRoot, currentFile)
+                    });
+                }
+                continue;
+            }
+
+            const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+            if (hunk) {
+                inHunk = true;
+                newLine = Number(hunk[1]);
+                continue;
+            }
+
+            if (!currentFile || !line.startsWith('+')) {
+                continue;
+            }
+
+            const content = line.substring(1);
+            const finding = this.findSecret(content, options);
+            if (finding) {
+                problems.push({
+                    check: 'Secrets',
+                    severity: 'error',
+                    message: finding,
+                    filePath: path.join(repositoryRoot, currentFile),
+                    line: newLine - 1
+                });
+            }
+            newLine++;
+        }
+
+        return problems;
+    }
+
+    private static getRules(config: vscode.WorkspaceConfiguration): SecretRule[] {
+        const disabled = new Set(config.get<string[]>('disabledRules', []));
+        const rules = BUILTIN_RULES.filter(rule => !disabled.has(rule.id));
+
+        for (const custom of config.get<CustomSecretRule[]>('rules', [])) {
+            if (!custom?.pattern) {
+                continue;
+            }
+            try {
+                rules.push({
+                    id: custom.id ?? custom.pattern,
+                    description: custom.description ?? custom.id ?? 'Custom secret rule',
+                    // 规则会对每一行重复 exec，g/y 标志会保留 lastIndex 导致漏检
+                    pattern: new RegExp(custom.pattern, custom.flags?.replace(/[gy]/g, ''))
+                });
+            } catch (error) {
+                console.warn(`ViGit: invalid secret scanning rule ${custom.pattern}`, error);
+            }
+        }
+        return rules;
+    }
+
+    private static findSecret(content: string, options: { rules: SecretRule[]; entropyThreshold: number }): string | undefined {
+        for (const rule of options.rules) {
+            const match = rule.pattern.exec(content);
+            if (match) {
+                return `Possible ${rule.description}: ${this.mask(match[0])}`;
+            }
+        }
+
+        if (options.entropyThreshold > 0) {
+            for (const candidate of content.match(ENTROPY_CANDIDATE) ?? []) {
+                // 只看同时含字母和数字的串，排除长标识符与路径
+                if (!/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate)) {
+                    continue;
+                }
+                const entropy = this.shannonEntropy(candidate);
+                if (entropy >= options.entropyThreshold) {
+                    return `High-entropy string (${entropy.toFixed(1)} bits/char): ${this.mask(candidate)}`;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private static isEnvFile(filePath: string): boolean {
+        const name = path.posix.basename(filePath);
+        return ENV_FILE.test(name) && !ENV_TEMPLATE.test(name);
+    }
+
+    private static shannonEntropy(value: string): number {
+        const counts = new Map<string, number>();
+        for (const char of value) {
+            counts.set(char, (counts.get(char) ?? 0) + 1);
+        }
+        let entropy = 0;
+        counts.forEach(count => {
+            const probability = count / value.length;
+            entropy -= probability * Math.log2(probability);
+        });
+        return entropy;
+    }
+
+    /**
+     * 结果会显示在面板与通知中，只保留首尾几个字符，避免再次泄露。
+     */
+    private static mask(value: string): string {
+        const trimmed = value.length > 60 ? value.substring(0, 60) : value;
+        if (trimmed.length <= 12) {
+            return `${trimmed.substring(0, 2)}…`;
+        }
+        return `${trimmed.substring(0, 6)}…${trimmed.substring(trimmed.length - 4)}`;
+    }
+}
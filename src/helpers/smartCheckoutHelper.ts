@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Repository } from '../managers/repositoryManager';
+
+const SHELVE_ACTION = 'Shelve and Checkout';
+const STASH_ACTION = 'Stash and Checkout';
+
+/**
+ * Smart Checkout：本地改动与目标分支冲突时，先把会被覆盖的文件搁置（shelf 或 stash），
+ * 检出后再重新应用，并保持这些文件原来所属的 changelist。
+ */
+export class SmartCheckoutHelper {
+    /**
+     * 检出分支；用户取消时返回 false，其余失败抛出错误。
+     */
+    static async checkout(repository: Repository, branchName: string): Promise<boolean> {
+        let overwritten: string[];
+        try {
+            await this.runCheckout(repository, branchName);
+            return true;
+        } catch (error) {
+            const reported = this.parseOverwrittenFiles(String(error))
+                .map(relativePath => path.join(repository.root, relativePath));
+            if (reported.length === 0) {
+                throw error;
+            }
+            // git 只报告了其中一类文件（已暂存或未暂存），补齐其余会冲突的文件
+            const computed = await repository.gitService.getCheckoutConflicts(branchName).catch(() => [] as string[]);
+            overwritten = Array.from(new Set([...reported, ...computed]));
+        }
+
+        const names = overwritten.map(filePath => path.relative(repository.root, filePath));
+        const choice = await vscode.window.showWarningMessage(
+            `Checking out ${branchName} would overwrite local changes`,
+            {
+                modal: true,
+                detail: `${names.join('\n')}\n\nThe changes will be set aside, the branch checked out, and then the changes re-applied.`
+            },
+            SHELVE_ACTION,
+            STASH_ACTION
+        );
+        if (!choice) {
+            return false;
+        }
+
+        const membership = repository.changelistManager.captureMembership();
+        try {
+            if (choice === SHELVE_ACTION) {
+                await this.checkoutWithShelf(repository, branchName, overwritten);
+            } else {
+                await this.checkoutWithStash(repository, branchName, overwritten);
+            }
+        } finally {
+            repository.changelistManager.restoreMembership(membership);
+        }
+        return true;
+    }
+
+    private static async checkoutWithShelf(repository: Repository, branchName: string, files: string[]): Promise<void> {
+        const { gitService, shelfManager } = repository;
+        // shelf 只记录工作区相对索引的差异，先取消暂存让补丁包含全部改动
+        await gitService.unstageFiles(files);
+        const shelf = await shelfManager.shelveChanges(
+            `Smart checkout to ${branchName}`,
+            files,
+            `Local changes set aside while checking out ${branchName}`
+        );
+
+        try {
+            await this.runCheckout(repository, branchName);
+        } catch (error) {
+            await shelfManager.unshelveChanges(shelf.id, true).catch(restoreError =>
+                console.warn('ViGit: unable to restore shelved changes after failed checkout', restoreError)
+            );
+            throw error;
+        }
+
+        let applyError: unknown;
+        try {
+            await shelfManager.unshelveChanges(shelf.id, true, true);
+        } catch (error) {
+            applyError = error;
+        }
+        // --3way 会同时更新索引，把干净应用的文件恢复为未暂存的改动，冲突文件保持未合并状态
+        const conflicts = new Set(await gitService.getConflictedFiles().catch(() => [] as string[]));
+        await gitService.unstageFiles(files.filter(filePath => !conflicts.has(filePath)));
+        if (applyError && !(await this.reportConflicts(repository, branchName, `Shelf "${shelf.name}" was kept.`))) {
+            throw new Error(`Checked out ${branchName}, but the shelved changes could not be re-applied: ${applyError}`);
+        }
+    }
+
+    private static async checkoutWithStash(repository: Repository, branchName: string, files: string[]): Promise<void> {
+        const { gitService } = repository;
+        // 未跟踪文件先加入索引作为新文件进入 stash，重新应用时与目标分支的同名文件按合并处理，
+        // 否则 pop 会因 "already exists" 拒绝恢复
+        const untracked = await gitService.getUntrackedPaths(files);
+        if (untracked.length > 0) {
+            await gitService.stageFiles(untracked);
+        }
+        const stash = await gitService.stashFiles(`Smart checkout to ${branchName}`, files);
+
+        try {
+            await this.runCheckout(repository, branchName);
+        } catch (error) {
+            await gitService.stashPop(stash).catch(restoreError =>
+                console.warn('ViGit: unable to restore stashed changes after failed checkout', restoreError)
+            );
+            throw error;
+        }
+
+        let applyError: unknown;
+        try {
+            await gitService.stashPop(stash);
+        } catch (error) {
+            applyError = error;
+        }
+        // pop 遇到冲突时不一定以错误结束，需要直接检查未合并的文件
+        const conflicts = new Set(await gitService.getConflictedFiles().catch(() => [] as string[]));
+        if (conflicts.size > 0) {
+            await gitService.unstageFiles(files.filter(filePath => !conflicts.has(filePath)));
+        } else if (untracked.length > 0) {
+            await gitService.unstageFiles(untracked);
+        }
+        if (!(await this.reportConflicts(repository, branchName, `Stash ${stash.substring(0, 7)} was kept.`)) && applyError) {
+            throw new Error(`Checked out ${branchName}, but the stashed changes could not be re-applied: ${applyError}`);
+        }
+    }
+
+    /**
+     * 逐个文件列出重新应用时产生的冲突；没有冲突时返回 false。
+     */
+    private static async reportConflicts(repository: Repository, branchName: string, note: string): Promise<boolean> {
+        const conflicts = await repository.gitService.getConflictedFiles().catch(() => [] as string[]);
+        if (conflicts.length === 0) {
+            return false;
+        }
+
+        const names = conflicts.map(filePath => path.relative(repository.root, filePath));
+        void vscode.window.showWarningMessage(
+            `Checked out ${branchName}; re-applying local changes conflicted in ${names.length} file${names.length === 1 ? '' : 's'}`,
+            { modal: true, detail: `${names.join('\n')}\n\n${note}` },
+            'Resolve Conflicts'
+        ).then(choice => {
+            if (choice === 'Resolve Conflicts') {
+                void vscode.commands.executeCommand('vigit.resolveConflicts', { repositoryRoot: repository.root });
+            }
+        });
+        return true;
+    }
+
+    private static async runCheckout(repository: Repository, branchName: string): Promise<void> {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Checking out ${branchName}...`,
+            cancellable: false
+        }, async () => {
+            await repository.gitService.checkoutBranch(branchName);
+        });
+    }
+
+    /**
+     * 从 git 的错误输出中取出会被检出覆盖的文件（相对仓库根目录），包括本地改动与未跟踪文件两类提示。
+     */
+    private static parseOverwrittenFiles(message: string): string[] {
+        const files: string[] = [];
+        let inList = false;
+        for (const line of message.split(/\r?\n/)) {
+            if (/(?:Your local changes to the following files|The following untracked working tree files) would be (?:overwritten|removed) by checkout/.test(line)) {
+                inList = true;
+            } else if (inList && line.startsWith('\t')) {
+                files.push(line.trim());
+            } else {
+                inList = false;
+            }
+        }
+        return files;
+    }
+}
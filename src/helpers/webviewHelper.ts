@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+
+/**
+ * 各 webview 面板共用的 HTML 片段：CSP、脚本 nonce 与内联状态的序列化。
+ */
+export class WebviewHelper {
+    static getNonce(): string {
+        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        let result = '';
+        for (let i = 0; i < 32; i++) {
+            result += chars.charAt(Math.floor(Math.random() * chars.length));
+        }
+        return result;
+    }
+
+    /**
+     * 供嵌入 `<script>` 的 JSON；转义 `<`，避免数据中的 `</script>` 提前结束脚本。
+     */
+    static serializeState(value: unknown): string {
+        return JSON.stringify(value).replace(/</g, '\\u003c');
+    }
+
+    /**
+     * Content-Security-Policy 的 meta 标签。没有 nonce 时不允许任何脚本；
+     * imageSources 为额外允许的图片来源（如头像需要的 `https:`）。
+     */
+    static getCspMeta(webview: vscode.Webview, nonce?: string, imageSources?: string[]): string {
+        const directives = ["default-src 'none'"];
+        if (imageSources) {
+            directives.push(`img-src ${[webview.cspSource, ...imageSources].join(' ')}`);
+        }
+        directives.push(`style-src ${webview.cspSource} 'unsafe-inline'`);
+        if (nonce) {
+            directives.push(`script-src 'nonce-${nonce}'`);
+        }
+        return `<meta http-equiv="Content-Security-Policy" content="${directives.join('; ')};" />`;
+    }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { GitDiffHunk, GitHunkSelection } from '../services/gitService';
 
 export interface Changelist {
     id: string;
@@ -7,6 +9,28 @@ export interface Changelist {
     files: string[];
     active: boolean;
     description?: string;
+    /** 关联的任务号（如 PROJ-123），提交该 changelist 时优先于分支名预填 */
+    ticket?: string;
+    hunks?: ChangelistHunk[];
+}
+
+/**
+ * 被显式分配到某个 changelist 的 hunk。锚点只依赖内容而非行号：
+ * changeAnchor 来自增删行，contextAnchor 来自 hunk 首尾的上下文行。
+ */
+export interface ChangelistHunk {
+    filePath: string;
+    changeAnchor: string;
+    contextAnchor: string;
+}
+
+/**
+ * 某个 changelist 拥有的文件与 hunk，用于在检出等暂时清空改动的操作后恢复归属。
+ */
+export interface ChangelistMembership {
+    changelistId: string;
+    files: string[];
+    hunks: ChangelistHunk[];
 }
 
 export class ChangelistManager {
@@ -27,7 +51,8 @@ export class ChangelistManager {
         const config = vscode.workspace.getConfiguration('vigit');
         const defaultChangelistName = config.get<string>('defaultChangelist', 'Default');
         
-        const stored = this.context.workspaceState.get<Changelist[]>(this.STORAGE_KEY, []);
+        const stored = this.context.workspaceState.get<Changelist[]>(this.getStorageKey())
+            ?? this.loadLegacyChangelists();
         
         if (stored.length === 0) {
             // Create default changelist
@@ -45,9 +70,28 @@ export class ChangelistManager {
         this.saveChangelists();
     }
 
+    /**
+     * Changelists used to be stored under a single workspace key; keep the entries
+     * that belong to this repository so upgrading does not lose them.
+     */
+    private loadLegacyChangelists(): Changelist[] {
+        const legacy = this.context.workspaceState.get<Changelist[]>(this.STORAGE_KEY, []);
+        const root = this.normalizeFsPath(this.workspaceRoot);
+        const prefix = root.endsWith('/') ? root : `${root}/`;
+
+        return legacy.map(cl => ({
+            ...cl,
+            files: cl.files.filter(file => this.normalizeFsPath(file).startsWith(prefix))
+        }));
+    }
+
     private saveChangelists(): void {
         const changelistsArray = Array.from(this.changelists.values());
-        this.context.workspaceState.update(this.STORAGE_KEY, changelistsArray);
+        this.context.workspaceState.update(this.getStorageKey(), changelistsArray);
+    }
+
+    private getStorageKey(): string {
+        return `${this.STORAGE_KEY}:${this.normalizeFsPath(this.workspaceRoot)}`;
     }
 
     private generateId(): string {
@@ -166,6 +210,7 @@ export class ChangelistManager {
         // Remove file from all other changelists
         this.changelists.forEach(cl => {
             cl.files = cl.files.filter(f => f !== filePath);
+            cl.hunks = cl.hunks?.filter(hunk => hunk.filePath !== filePath);
         });
 
         // Add to target changelist
@@ -184,19 +229,26 @@ export class ChangelistManager {
         }
 
         changelist.files = changelist.files.filter(f => f !== filePath);
+        changelist.hunks = changelist.hunks?.filter(hunk => hunk.filePath !== filePath);
         this.saveChangelists();
     }
 
+    /**
+     * 返回文件的归属 changelist：未被显式分配的 hunk 都属于它。
+     * 同一文件出现在多个 changelist 时，优先选择没有为该文件分配 hunk 的那个。
+     */
     getChangelistForFile(filePath: string): Changelist | undefined {
-        return Array.from(this.changelists.values()).find(cl => 
+        const listing = Array.from(this.changelists.values()).filter(cl =>
             cl.files.includes(filePath)
         );
+        return listing.find(cl => !this.hasHunksForFile(cl, filePath)) ?? listing[0];
     }
 
     moveFileToChangelist(filePath: string, targetChangelistId: string): void {
         // Remove from current changelist
         this.changelists.forEach(cl => {
             cl.files = cl.files.filter(f => f !== filePath);
+            cl.hunks = cl.hunks?.filter(hunk => hunk.filePath !== filePath);
         });
 
         // Add to target changelist
@@ -219,17 +271,181 @@ export class ChangelistManager {
         return true;
     }
 
+    captureMembership(): ChangelistMembership[] {
+        return this.getChangelists().map(cl => ({
+            changelistId: cl.id,
+            files: [...cl.files],
+            hunks: [...(cl.hunks ?? [])]
+        }));
+    }
+
+    /**
+     * 恢复快照中的归属。期间刷新可能已把文件移出或自动分配到活动 changelist，
+     * 这里先清除快照涉及的文件在各 changelist 中的记录，再按快照放回。
+     */
+    restoreMembership(membership: ChangelistMembership[]): void {
+        const files = new Set(membership.flatMap(entry => [...entry.files, ...entry.hunks.map(hunk => hunk.filePath)]));
+        this.changelists.forEach(cl => {
+            cl.files = cl.files.filter(f => !files.has(f));
+            cl.hunks = cl.hunks?.filter(hunk => !files.has(hunk.filePath));
+        });
+        membership.forEach(entry => {
+            const changelist = this.changelists.get(entry.changelistId);
+            if (!changelist) {
+                return;
+            }
+            changelist.files.push(...entry.files);
+            if (entry.hunks.length > 0) {
+                changelist.hunks = [...(changelist.hunks ?? []), ...entry.hunks];
+            }
+        });
+        this.saveChangelists();
+    }
+
     clearEmptyFiles(existingFiles: Set<string>): void {
         // Remove files that no longer exist from all changelists
         this.changelists.forEach(cl => {
             cl.files = cl.files.filter(f => existingFiles.has(f));
+            cl.hunks = cl.hunks?.filter(hunk => existingFiles.has(hunk.filePath));
         });
         this.saveChangelists();
     }
 
+    static createHunkAnchor(filePath: string, hunk: GitDiffHunk): ChangelistHunk {
+        const digest = (lines: string[]) => lines.length > 0
+            ? createHash('sha1').update(lines.join('\n')).digest('hex')
+            : '';
+
+        const changes = hunk.lines
+            .filter(line => line.type === 'add' || line.type === 'remove')
+            .map(line => `${line.type === 'add' ? '+' : '-'}${line.content.trimEnd()}`);
+        const firstChange = hunk.lines.findIndex(line => line.type === 'add' || line.type === 'remove');
+        const lastChange = hunk.lines.length - 1 - [...hunk.lines].reverse()
+            .findIndex(line => line.type === 'add' || line.type === 'remove');
+        const context = hunk.lines
+            .filter((line, index) => line.type === 'context' && (index < firstChange || index > lastChange))
+            .map(line => line.content.trimEnd());
+
+        return {
+            filePath,
+            changeAnchor: digest(changes),
+            contextAnchor: digest(context)
+        };
+    }
+
+    hasHunkAssignments(filePath: string): boolean {
+        return Array.from(this.changelists.values()).some(cl => this.hasHunksForFile(cl, filePath));
+    }
+
+    /**
+     * 查找 hunk 所属的 changelist：先匹配显式分配的锚点，否则归属文件所在的 changelist。
+     * fileHunks 是该文件当前的全部 hunk，用于判断上下文锚点是否唯一。
+     */
+    getHunkChangelist(filePath: string, hunk: GitDiffHunk, fileHunks: GitDiffHunk[]): Changelist | undefined {
+        const anchor = ChangelistManager.createHunkAnchor(filePath, hunk);
+        const entry = ChangelistManager.findMatchingHunk(
+            this.getHunkEntries(filePath),
+            anchor,
+            fileHunks.map(fileHunk => ChangelistManager.createHunkAnchor(filePath, fileHunk))
+        );
+        const claimed = entry
+            ? Array.from(this.changelists.values()).find(cl => cl.hunks?.includes(entry))
+            : undefined;
+        return claimed ?? this.getChangelistForFile(filePath);
+    }
+
+    /**
+     * 在已分配的 hunk 中查找与锚点对应的一项：增删内容必须一致。
+     * hunk 内容被编辑过时才退回按上下文匹配，且要求该上下文在已分配的 hunk 与文件当前的 hunk
+     * （fileAnchors）中都唯一，并且那一项没有被其他当前 hunk 按内容认领。
+     */
+    static findMatchingHunk(
+        entries: ChangelistHunk[],
+        anchor: ChangelistHunk,
+        fileAnchors: ChangelistHunk[]
+    ): ChangelistHunk | undefined {
+        const sameFile = entries.filter(entry => entry.filePath === anchor.filePath);
+        const exact = sameFile.find(entry => entry.changeAnchor === anchor.changeAnchor);
+        if (exact || anchor.contextAnchor === '') {
+            return exact;
+        }
+
+        const sameContext = (list: ChangelistHunk[]) => list.filter(entry =>
+            entry.filePath === anchor.filePath && entry.contextAnchor === anchor.contextAnchor
+        );
+        const stored = sameContext(sameFile);
+        if (stored.length !== 1 || sameContext(fileAnchors).length !== 1) {
+            return undefined;
+        }
+        return fileAnchors.some(current => current.changeAnchor === stored[0].changeAnchor)
+            ? undefined
+            : stored[0];
+    }
+
+    /**
+     * fileHunks 是该文件当前的全部 hunk，hunks 为其中要移动的部分。
+     */
+    moveHunksToChangelist(
+        filePath: string,
+        hunks: GitDiffHunk[],
+        targetChangelistId: string,
+        fileHunks: GitDiffHunk[]
+    ): void {
+        const target = this.changelists.get(targetChangelistId);
+        if (!target || hunks.length === 0) {
+            return;
+        }
+
+        const anchors = hunks.map(hunk => ChangelistManager.createHunkAnchor(filePath, hunk));
+        const owner = this.getChangelistForFile(filePath);
+        const entries = this.getHunkEntries(filePath);
+        const fileAnchors = fileHunks.map(hunk => ChangelistManager.createHunkAnchor(filePath, hunk));
+        const moved = new Set(anchors
+            .map(anchor => ChangelistManager.findMatchingHunk(entries, anchor, fileAnchors))
+            .filter((entry): entry is ChangelistHunk => entry !== undefined));
+
+        this.changelists.forEach(cl => {
+            const hadHunks = this.hasHunksForFile(cl, filePath);
+            cl.hunks = cl.hunks?.filter(entry => !moved.has(entry));
+            // A changelist that only held moved hunks no longer has anything of this file
+            if (cl !== owner && hadHunks && !this.hasHunksForFile(cl, filePath)) {
+                cl.files = cl.files.filter(f => f !== filePath);
+            }
+        });
+
+        if (owner && owner.id !== target.id) {
+            target.hunks = [...(target.hunks ?? []), ...anchors];
+        }
+        if (!target.files.includes(filePath)) {
+            target.files.push(filePath);
+        }
+
+        this.saveChangelists();
+    }
+
+    /**
+     * 计算提交某个 changelist 时该文件应包含的 hunk。
+     * 返回 undefined 表示整文件都属于该 changelist，空数组表示没有属于它的改动。
+     */
+    getHunkSelectionsForChangelist(
+        filePath: string,
+        hunks: GitDiffHunk[],
+        changelistId: string
+    ): GitHunkSelection[] | undefined {
+        if (!this.hasHunkAssignments(filePath)) {
+            return undefined;
+        }
+
+        const owned = hunks.filter(hunk => this.getHunkChangelist(filePath, hunk, hunks)?.id === changelistId);
+        if (owned.length === hunks.length) {
+            return undefined;
+        }
+        return owned.map(hunk => ({ hunkIndex: hunk.index, header: hunk.header }));
+    }
+
     updateChangelist(
         id: string,
-        updates: Partial<Pick<Changelist, 'name' | 'description'>>
+        updates: Partial<Pick<Changelist, 'name' | 'description' | 'ticket'>>
     ): boolean {
         const changelist = this.changelists.get(id);
         if (!changelist) {
@@ -242,6 +458,9 @@ export class ChangelistManager {
         if (typeof updates.description === 'string') {
             changelist.description = updates.description;
         }
+        if ('ticket' in updates) {
+            changelist.ticket = updates.ticket || undefined;
+        }
 
         this.saveChangelists();
         return true;
@@ -272,6 +491,16 @@ export class ChangelistManager {
         });
     }
 
+    private hasHunksForFile(changelist: Changelist, filePath: string): boolean {
+        return Boolean(changelist.hunks?.some(hunk => hunk.filePath === filePath));
+    }
+
+    private getHunkEntries(filePath: string): ChangelistHunk[] {
+        return Array.from(this.changelists.values())
+            .flatMap(cl => cl.hunks ?? [])
+            .filter(entry => entry.filePath === filePath);
+    }
+
     private normalizeFsPath(fsPath: string): string {
         return path.resolve(fsPath).replace(/\\/g, '/');
     }
@@ -0,0 +1,438 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { GitService } from '../services/gitService';
+
+/**
+ * 破坏性操作的描述，由调用方在执行前提供。
+ */
+export type JournalOperation =
+    | { kind: 'reset'; label: string; mode: 'soft' | 'mixed' | 'hard' }
+    | { kind: 'revert'; label: string; paths: string[] }
+    | { kind: 'delete'; label: string; paths: string[] }
+    | { kind: 'stashDrop'; label: string; stash: string; message: string }
+    | { kind: 'branchDelete'; label: string; branch: string; upstream?: string }
+    | { kind: 'branchMove'; label: string; branch: string };
+
+export interface JournalFileSnapshot {
+    /** 相对仓库根目录的路径 */
+    path: string;
+    /** 操作前工作区内容的 blob，文件原本不存在时为空 */
+    before?: string;
+    /** 操作后内容的哈希，撤销前据此判断文件是否又被修改过 */
+    after?: string;
+}
+
+export type JournalEntry = { id: string; label: string; date: Date } & (
+    | {
+        kind: 'reset';
+        mode: 'soft' | 'mixed' | 'hard';
+        /** 操作前 HEAD 指向的提交（即 reflog 中的上一个位置） */
+        head: string;
+        headAfter?: string;
+        /** mixed 重置前的索引 tree */
+        index?: string;
+        /** hard 重置前 `git stash create` 保存的未提交改动 */
+        worktree?: string;
+    }
+    | { kind: 'files'; files: JournalFileSnapshot[] }
+    /** remove 为 true 时表示重做 Drop Stash：把 stash 再从列表中移除 */
+    | { kind: 'stash'; stash: string; message: string; remove?: boolean }
+    /** remove 为 true 时表示重做删除分支 */
+    | { kind: 'branch'; branch: string; commit: string; upstream?: string; remove?: boolean }
+    /** 移动未检出分支前的指向，撤销时把分支移回 commit */
+    | { kind: 'branchTip'; branch: string; commit: string; commitAfter?: string }
+);
+
+/**
+ * 撤销时发现仓库状态在操作之后又发生了变化；调用方确认后可以强制撤销。
+ */
+export class JournalConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JournalConflictError';
+    }
+}
+
+const MAX_ENTRIES = 50;
+/** 快照都是无引用的对象，git gc 默认会清理两周前的这类对象 */
+const MAX_AGE = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * 每个仓库的操作日志：在重置、回滚、删除文件、丢弃 stash、删除或移动分支之前保存受影响的状态，
+ * 以便撤销。快照保存在仓库自身的对象库中，日志只记录哈希。
+ * 撤销前同样保存当前状态并放入重做栈，重做即恢复这份快照；执行新的操作会清空重做栈。
+ */
+export class OperationJournal {
+    private entries: JournalEntry[] = [];
+    private redoEntries: JournalEntry[] = [];
+    private readonly STORAGE_KEY = 'vigit.operationJournal';
+    private readonly REDO_STORAGE_KEY = 'vigit.operationJournal.redo';
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly workspaceRoot: string,
+        private readonly gitService: GitService
+    ) {
+        this.loadEntries();
+    }
+
+    /**
+     * 由新到旧排列。
+     */
+    getEntries(): JournalEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * 可重做的撤销，由新到旧排列。
+     */
+    getRedoEntries(): JournalEntry[] {
+        return [...this.redoEntries];
+    }
+
+    /**
+     * 保存快照后执行操作；操作成功才写入日志。快照失败不阻止操作本身。
+     */
+    async run(operation: JournalOperation, task: () => Promise<void>): Promise<void> {
+        const entry = await this.capture(operation).catch(error => {
+            console.warn('ViGit: unable to record operation for undo', error);
+            return undefined;
+        });
+
+        await task();
+
+        if (!entry) {
+            return;
+        }
+        try {
+            await this.captureAfter(entry);
+        } catch (error) {
+            console.warn('ViGit: unable to record state after operation', error);
+        }
+        this.entries.unshift(entry);
+        this.entries.splice(MAX_ENTRIES);
+        this.redoEntries = [];
+        this.saveEntries();
+    }
+
+    /**
+     * 撤销一条记录。状态已被后续操作改变时抛出 JournalConflictError，force 为 true 时跳过该检查。
+     */
+    async undo(entry: JournalEntry, force: boolean = false): Promise<void> {
+        const inverse = await this.captureInverse(entry);
+        await this.restore(entry, force, false);
+        await this.completeInverse(inverse);
+
+        this.entries = this.entries.filter(candidate => candidate.id !== entry.id);
+        if (inverse) {
+            this.redoEntries.unshift(inverse);
+            this.redoEntries.splice(MAX_ENTRIES);
+        }
+        this.saveEntries();
+    }
+
+    /**
+     * 重做一次撤销：恢复撤销前保存的状态，并把重做前的状态重新放回撤销列表。
+     */
+    async redo(entry: JournalEntry, force: boolean = false): Promise<void> {
+        const inverse = await this.captureInverse(entry);
+        // 重做 hard 重置会覆盖撤销时恢复的改动，它们已保存在 inverse 的快照中
+        await this.restore(entry, force, inverse?.kind === 'reset' && inverse.worktree !== undefined);
+        await this.completeInverse(inverse);
+
+        this.redoEntries = this.redoEntries.filter(candidate => candidate.id !== entry.id);
+        if (inverse) {
+            this.entries.unshift(inverse);
+            this.entries.splice(MAX_ENTRIES);
+        }
+        this.saveEntries();
+    }
+
+    /**
+     * 恢复记录中保存的状态。discardChanges 为 true 表示当前未提交的改动已另存快照，
+     * hard 重置可以直接覆盖它们。
+     */
+    private async restore(entry: JournalEntry, force: boolean, discardChanges: boolean): Promise<void> {
+        switch (entry.kind) {
+            case 'reset': {
+                const head = await this.gitService.resolveCommit('HEAD');
+                if (!force && entry.headAfter && head !== entry.headAfter) {
+                    throw new JournalConflictError(`HEAD has moved since "${entry.label}"`);
+                }
+                if (entry.mode === 'hard') {
+                    // 撤销 hard 重置需要再次 reset --hard，不能覆盖之后新产生的改动
+                    if (!discardChanges && await this.gitService.hasTrackedChanges()) {
+                        throw new Error('Commit or stash your changes before undoing a hard reset');
+                    }
+                    await this.gitService.reset('hard', entry.head);
+                    if (entry.worktree) {
+                        await this.requireObject(entry.worktree);
+                        await this.gitService.applyStashSnapshot(entry.worktree);
+                    }
+                } else {
+                    await this.gitService.reset('soft', entry.head);
+                    if (entry.mode === 'mixed' && entry.index) {
+                        await this.requireObject(entry.index);
+                        await this.gitService.readIndexTree(entry.index);
+                    }
+                }
+                break;
+            }
+            case 'files': {
+                for (const file of entry.files) {
+                    if (file.before) {
+                        await this.requireObject(file.before);
+                    }
+                }
+                if (!force) {
+                    const changed = await this.getChangedFiles(entry.files);
+                    if (changed.length > 0) {
+                        throw new JournalConflictError(`${changed.join(', ')} changed since "${entry.label}"`);
+                    }
+                }
+                for (const file of entry.files) {
+                    const filePath = path.join(this.workspaceRoot, file.path);
+                    if (file.before) {
+                        await fs.mkdir(path.dirname(filePath), { recursive: true });
+                        await fs.writeFile(filePath, await this.gitService.readBlob(file.before));
+                    } else {
+                        await fs.rm(filePath, { force: true });
+                    }
+                }
+                break;
+            }
+            case 'stash': {
+                const listed = (await this.gitService.getStashHashes()).includes(entry.stash);
+                if (entry.remove) {
+                    if (!listed) {
+                        throw new Error('The stash is no longer in the stash list');
+                    }
+                    await this.gitService.stashDrop(entry.stash);
+                    break;
+                }
+                if (listed) {
+                    throw new Error('The stash is already in the stash list');
+                }
+                await this.requireObject(entry.stash);
+                await this.gitService.stashStore(entry.stash, entry.message);
+                break;
+            }
+            case 'branch': {
+                const tip = await this.gitService.resolveCommit(`refs/heads/${entry.branch}`);
+                if (entry.remove) {
+                    if (!tip) {
+                        throw new Error(`Branch "${entry.branch}" no longer exists`);
+                    }
+                    if (!force && tip !== entry.commit) {
+                        throw new JournalConflictError(`Branch "${entry.branch}" has moved since "${entry.label}" was undone`);
+                    }
+                    await this.gitService.deleteBranch(entry.branch, true);
+                    break;
+                }
+                if (tip) {
+                    throw new Error(`Branch "${entry.branch}" already exists`);
+                }
+                await this.gitService.createBranchAtCommit(entry.branch, entry.commit);
+                if (entry.upstream) {
+                    await this.gitService.setUpstream(entry.branch, entry.upstream).catch(error =>
+                        console.warn(`ViGit: unable to restore upstream of ${entry.branch}`, error)
+                    );
+                }
+                break;
+            }
+            case 'branchTip': {
+                const tip = await this.gitService.resolveCommit(`refs/heads/${entry.branch}`);
+                if (!force && tip !== entry.commitAfter) {
+                    throw new JournalConflictError(`Branch "${entry.branch}" has moved since "${entry.label}"`);
+                }
+                await this.requireObject(entry.commit);
+                await this.gitService.moveBranch(entry.branch, entry.commit);
+                break;
+            }
+        }
+    }
+
+    /**
+     * 历史列表中显示的快照摘要。
+     */
+    describe(entry: JournalEntry): string {
+        switch (entry.kind) {
+            case 'reset':
+                return `HEAD was ${entry.head.substring(0, 7)}`
+                    + (entry.worktree ? ', uncommitted changes saved' : '');
+            case 'files': {
+                const names = entry.files.map(file => path.basename(file.path));
+                return names.length > 3 ? `${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : names.join(', ');
+            }
+            case 'stash':
+                return `${entry.remove ? 'Drop ' : ''}${entry.stash.substring(0, 7)}: ${entry.message}`;
+            case 'branch':
+                return `${entry.remove ? 'Delete ' : ''}${entry.branch} at ${entry.commit.substring(0, 7)}`;
+            case 'branchTip':
+                return `${entry.branch} was at ${entry.commit.substring(0, 7)}`;
+        }
+    }
+
+    private async capture(operation: JournalOperation): Promise<JournalEntry | undefined> {
+        const base = { id: this.generateId(), label: operation.label, date: new Date() };
+        switch (operation.kind) {
+            case 'reset': {
+                const head = await this.gitService.resolveCommit('HEAD');
+                if (!head) {
+                    return undefined;
+                }
+                return {
+                    ...base,
+                    kind: 'reset',
+                    mode: operation.mode,
+                    head,
+                    index: operation.mode === 'mixed' ? await this.gitService.writeIndexTree() : undefined,
+                    worktree: operation.mode === 'hard' ? await this.gitService.createStashSnapshot() : undefined
+                };
+            }
+            case 'revert':
+            case 'delete': {
+                // checkout -- 只会丢掉工作区相对索引的改动；删除则可能针对未跟踪的文件
+                const candidates = operation.kind === 'revert'
+                    ? await this.gitService.getUnstagedPaths(operation.paths)
+                    : operation.paths;
+                const blobs = await this.hashPaths(candidates, true);
+                const files: JournalFileSnapshot[] = candidates
+                    .map((filePath, index) => ({ path: path.relative(this.workspaceRoot, filePath), before: blobs[index] }))
+                    .filter(file => file.before || operation.kind === 'revert');
+                return files.length > 0 ? { ...base, kind: 'files', files } : undefined;
+            }
+            case 'stashDrop': {
+                const stash = await this.gitService.resolveCommit(operation.stash);
+                return stash ? { ...base, kind: 'stash', stash, message: operation.message } : undefined;
+            }
+            case 'branchDelete': {
+                const commit = await this.gitService.resolveCommit(`refs/heads/${operation.branch}`);
+                return commit
+                    ? { ...base, kind: 'branch', branch: operation.branch, commit, upstream: operation.upstream }
+                    : undefined;
+            }
+            case 'branchMove': {
+                const commit = await this.gitService.resolveCommit(`refs/heads/${operation.branch}`);
+                return commit ? { ...base, kind: 'branchTip', branch: operation.branch, commit } : undefined;
+            }
+        }
+    }
+
+    /**
+     * 恢复 entry 之前保存当前状态，得到的记录恢复后即回到现在的状态；快照失败时返回 undefined，
+     * 恢复照常进行，只是无法再重做（或重新撤销）。
+     */
+    private async captureInverse(entry: JournalEntry): Promise<JournalEntry | undefined> {
+        const base = { id: this.generateId(), label: entry.label, date: new Date() };
+        try {
+            switch (entry.kind) {
+                case 'reset':
+                    return await this.capture({ kind: 'reset', label: entry.label, mode: entry.mode });
+                case 'files': {
+                    // 与 revert/delete 不同，当前不存在的文件也要记录，恢复时据此删除
+                    const paths = entry.files.map(file => path.join(this.workspaceRoot, file.path));
+                    const blobs = await this.hashPaths(paths, true);
+                    const files = entry.files.map((file, index) => ({ path: file.path, before: blobs[index] }));
+                    return { ...base, kind: 'files', files };
+                }
+                case 'stash':
+                    return { ...base, kind: 'stash', stash: entry.stash, message: entry.message, remove: !entry.remove };
+                case 'branch': {
+                    const tip = await this.gitService.resolveCommit(`refs/heads/${entry.branch}`);
+                    return {
+                        ...base,
+                        kind: 'branch',
+                        branch: entry.branch,
+                        commit: tip ?? entry.commit,
+                        upstream: entry.upstream,
+                        remove: !entry.remove
+                    };
+                }
+                case 'branchTip':
+                    return await this.capture({ kind: 'branchMove', label: entry.label, branch: entry.branch });
+            }
+        } catch (error) {
+            console.warn('ViGit: unable to record state before undo', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 在 restore 之后调用，失败只影响之后的冲突检查。
+     */
+    private async completeInverse(entry: JournalEntry | undefined): Promise<void> {
+        if (!entry) {
+            return;
+        }
+        try {
+            await this.captureAfter(entry);
+        } catch (error) {
+            console.warn('ViGit: unable to record state after undo', error);
+        }
+    }
+
+    private async captureAfter(entry: JournalEntry): Promise<void> {
+        if (entry.kind === 'reset') {
+            entry.headAfter = await this.gitService.resolveCommit('HEAD');
+        } else if (entry.kind === 'branchTip') {
+            entry.commitAfter = await this.gitService.resolveCommit(`refs/heads/${entry.branch}`);
+        } else if (entry.kind === 'files') {
+            const hashes = await this.hashPaths(entry.files.map(file => path.join(this.workspaceRoot, file.path)));
+            entry.files.forEach((file, index) => {
+                file.after = hashes[index];
+            });
+        }
+    }
+
+    private async getChangedFiles(files: JournalFileSnapshot[]): Promise<string[]> {
+        const hashes = await this.hashPaths(files.map(file => path.join(this.workspaceRoot, file.path)));
+        return files.filter((file, index) => hashes[index] !== file.after).map(file => file.path);
+    }
+
+    /**
+     * 与 filePaths 一一对应的内容哈希，文件不存在时为 undefined。
+     */
+    private async hashPaths(filePaths: string[], write: boolean = false): Promise<(string | undefined)[]> {
+        const exists = await Promise.all(filePaths.map(filePath => this.isFile(filePath)));
+        const hashes = await this.gitService.hashFiles(filePaths.filter((_, index) => exists[index]), write);
+        return exists.map(fileExists => (fileExists ? hashes.shift() : undefined));
+    }
+
+    private async requireObject(hash: string): Promise<void> {
+        if (!(await this.gitService.objectExists(hash))) {
+            throw new Error(`Snapshot ${hash.substring(0, 7)} is no longer available; it may have been pruned by git gc`);
+        }
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            return (await fs.stat(filePath)).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    private loadEntries(): void {
+        const now = Date.now();
+        const load = (key: string) => this.context.workspaceState.get<JournalEntry[]>(this.getStorageKey(key), [])
+            .map(entry => ({ ...entry, date: new Date(entry.date) }))
+            .filter(entry => now - entry.date.getTime() < MAX_AGE);
+        this.entries = load(this.STORAGE_KEY);
+        this.redoEntries = load(this.REDO_STORAGE_KEY);
+    }
+
+    private saveEntries(): void {
+        void this.context.workspaceState.update(this.getStorageKey(this.STORAGE_KEY), this.entries);
+        void this.context.workspaceState.update(this.getStorageKey(this.REDO_STORAGE_KEY), this.redoEntries);
+    }
+
+    private getStorageKey(key: string): string {
+        return `${key}:${this.workspaceRoot.replace(/\\/g, '/')}`;
+    }
+
+    private generateId(): string {
+        return `op-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
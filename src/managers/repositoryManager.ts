@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs, Dirent } from 'fs';
+import { GitService } from '../services/gitService';
+import { ChangelistManager } from './changelistManager';
+import { ShelfManager } from './shelfManager';
+import { OperationJournal } from './operationJournal';
+import { TaskContextManager } from './taskContextManager';
+import { LocalChangesProvider } from '../providers/localChangesProvider';
+
+export interface Repository {
+    root: string;
+    name: string;
+    gitService: GitService;
+    changelistManager: ChangelistManager;
+    shelfManager: ShelfManager;
+    operationJournal: OperationJournal;
+    taskContextManager: TaskContextManager;
+    localChangesProvider: LocalChangesProvider;
+}
+
+export class RepositoryManager implements vscode.Disposable {
+    private repositories: Map<string, Repository>;
+    private activeRoot?: string;
+    private context: vscode.ExtensionContext;
+    private disposables: vscode.Disposable[] = [];
+    private readonly ACTIVE_REPOSITORY_KEY = 'vigit.activeRepository';
+    private readonly IGNORED_FOLDERS = new Set(['node_modules', 'out', 'dist', 'build']);
+
+    private _onDidChangeRepositories = new vscode.EventEmitter<Repository[]>();
+    readonly onDidChangeRepositories: vscode.Event<Repository[]> = this._onDidChangeRepositories.event;
+
+    private _onDidChangeActiveRepository = new vscode.EventEmitter<Repository | undefined>();
+    readonly onDidChangeActiveRepository: vscode.Event<Repository | undefined> =
+        this._onDidChangeActiveRepository.event;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.repositories = new Map();
+        this.activeRoot = context.workspaceState.get<string>(this.ACTIVE_REPOSITORY_KEY);
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                void this.discoverRepositories();
+            })
+        );
+    }
+
+    /**
+     * 扫描所有工作区文件夹，登记其所属仓库、嵌套仓库以及已初始化的子模块。
+     */
+    async discoverRepositories(): Promise<Repository[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const config = vscode.workspace.getConfiguration('vigit');
+        const maxDepth = config.get<number>('repositoryScanMaxDepth', 3);
+        const roots = new Set<string>();
+
+        for (const folder of folders) {
+            const folderPath = folder.uri.fsPath;
+            const enclosingRoot = await GitService.findRepositoryRoot(folderPath);
+            if (enclosingRoot) {
+                roots.add(path.normalize(enclosingRoot));
+            }
+
+            const nestedRoots = await this.scanForNestedRoots(folderPath, maxDepth);
+            nestedRoots.forEach(root => roots.add(path.normalize(root)));
+        }
+
+        for (const root of Array.from(roots)) {
+            const submodules = await GitService.listSubmoduleRoots(root);
+            submodules.forEach(submodule => roots.add(path.normalize(submodule)));
+        }
+
+        const removed = Array.from(this.repositories.keys()).filter(root => !roots.has(root));
+        removed.forEach(root => {
+            this.disposeRepository(this.repositories.get(root));
+            this.repositories.delete(root);
+        });
+
+        for (const root of this.sortRoots(Array.from(roots))) {
+            if (!this.repositories.has(root)) {
+                await this.openRepository(root, false);
+            }
+        }
+
+        if (!this.activeRoot || !this.repositories.has(this.activeRoot)) {
+            this.activeRoot = this.getRepositories()[0]?.root;
+        }
+
+        this.notifyRepositoriesChanged();
+        this._onDidChangeActiveRepository.fire(this.getActiveRepository());
+        return this.getRepositories();
+    }
+
+    async openRepository(root: string, notify: boolean = true): Promise<Repository | undefined> {
+        const normalizedRoot = path.normalize(root);
+        const existing = this.repositories.get(normalizedRoot);
+        if (existing) {
+            return existing;
+        }
+
+        try {
+            const gitService = new GitService(normalizedRoot);
+            await gitService.initialize();
+
+            const changelistManager = new ChangelistManager(this.context, normalizedRoot);
+            const shelfManager = new ShelfManager(this.context, normalizedRoot, gitService);
+            const operationJournal = new OperationJournal(this.context, normalizedRoot, gitService);
+            const taskContextManager = new TaskContextManager(this.context, normalizedRoot);
+            const localChangesProvider = new LocalChangesProvider(
+                normalizedRoot,
+                gitService,
+                changelistManager
+            );
+
+            const repository: Repository = {
+                root: normalizedRoot,
+                name: this.createDisplayName(normalizedRoot),
+                gitService,
+                changelistManager,
+                shelfManager,
+                operationJournal,
+                taskContextManager,
+                localChangesProvider
+            };
+            this.repositories.set(normalizedRoot, repository);
+
+            if (notify) {
+                this.notifyRepositoriesChanged();
+            }
+            return repository;
+        } catch (error) {
+            console.warn(`ViGit: unable to open repository at ${normalizedRoot}`, error);
+            return undefined;
+        }
+    }
+
+    getRepositories(): Repository[] {
+        return this.sortRoots(Array.from(this.repositories.keys()))
+            .map(root => this.repositories.get(root))
+            .filter((repository): repository is Repository => Boolean(repository));
+    }
+
+    getRepository(root: string): Repository | undefined {
+        return this.repositories.get(path.normalize(root));
+    }
+
+    hasMultipleRepositories(): boolean {
+        return this.repositories.size > 1;
+    }
+
+    getActiveRepository(): Repository | undefined {
+        if (this.activeRoot) {
+            const active = this.repositories.get(this.activeRoot);
+            if (active) {
+                return active;
+            }
+        }
+        return this.getRepositories()[0];
+    }
+
+    setActiveRepository(root: string): boolean {
+        const repository = this.getRepository(root);
+        if (!repository) {
+            return false;
+        }
+
+        if (this.activeRoot !== repository.root) {
+            this.activeRoot = repository.root;
+            this.context.workspaceState.update(this.ACTIVE_REPOSITORY_KEY, repository.root);
+            this._onDidChangeActiveRepository.fire(repository);
+        }
+        return true;
+    }
+
+    /**
+     * 返回包含该路径的最内层仓库，使嵌套仓库与子模块优先于外层仓库。
+     */
+    getRepositoryForPath(fsPath: string): Repository | undefined {
+        const target = this.normalizeFsPath(fsPath);
+        let match: Repository | undefined;
+
+        for (const repository of this.repositories.values()) {
+            const root = this.normalizeFsPath(repository.root);
+            const prefix = root.endsWith('/') ? root : `${root}/`;
+            if (target === root || target.startsWith(prefix)) {
+                if (!match || repository.root.length > match.root.length) {
+                    match = repository;
+                }
+            }
+        }
+
+        return match;
+    }
+
+    /**
+     * 按资源、当前编辑器、活动仓库的顺序解析命令应作用的仓库。
+     */
+    resolveRepository(fsPath?: string): Repository | undefined {
+        if (fsPath) {
+            const byPath = this.getRepositoryForPath(fsPath);
+            if (byPath) {
+                return byPath;
+            }
+        }
+
+        const editorUri = vscode.window.activeTextEditor?.document.uri;
+        if (!fsPath && editorUri?.scheme === 'file') {
+            const byEditor = this.getRepositoryForPath(editorUri.fsPath);
+            if (byEditor) {
+                return byEditor;
+            }
+        }
+
+        return this.getActiveRepository();
+    }
+
+    async pickRepository(placeHolder: string = 'Select repository'): Promise<Repository | undefined> {
+        const repositories = this.getRepositories();
+        if (repositories.length <= 1) {
+            return repositories[0];
+        }
+
+        const active = this.getActiveRepository();
+        const pick = await vscode.window.showQuickPick(
+            repositories.map(repository => ({
+                label: repository.name,
+                description: repository.root === active?.root ? '(active)' : '',
+                detail: repository.root,
+                repository
+            })),
+            { placeHolder }
+        );
+
+        return pick?.repository;
+    }
+
+    /**
+     * 将文件按所属仓库分组，不属于任何仓库的文件会被忽略。
+     */
+    groupPathsByRepository(filePaths: string[]): Map<Repository, string[]> {
+        const groups = new Map<Repository, string[]>();
+        for (const filePath of filePaths) {
+            const repository = this.getRepositoryForPath(filePath);
+            if (!repository) {
+                continue;
+            }
+            const bucket = groups.get(repository) ?? [];
+            bucket.push(filePath);
+            groups.set(repository, bucket);
+        }
+        return groups;
+    }
+
+    async refreshAll(): Promise<void> {
+        await Promise.all(this.getRepositories().map(repository => repository.localChangesProvider.refresh()));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.repositories.forEach(repository => this.disposeRepository(repository));
+        this.repositories.clear();
+        this._onDidChangeRepositories.dispose();
+        this._onDidChangeActiveRepository.dispose();
+    }
+
+    /**
+     * 释放仓库持有的资源；其余管理器只保存数据，随仓库对象一起回收。
+     */
+    private disposeRepository(repository: Repository | undefined): void {
+        repository?.localChangesProvider.dispose();
+    }
+
+    private notifyRepositoriesChanged(): void {
+        void vscode.commands.executeCommand('setContext', 'vigit.hasMultipleRepositories', this.hasMultipleRepositories());
+        this._onDidChangeRepositories.fire(this.getRepositories());
+    }
+
+    private async scanForNestedRoots(folderPath: string, maxDepth: number): Promise<string[]> {
+        const results: string[] = [];
+
+        const walk = async (dir: string, depth: number): Promise<void> => {
+            let entries: Dirent[];
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            // 子模块与 worktree 的 .git 是文件，普通仓库是目录
+            if (entries.some(entry => entry.name === '.git')) {
+                results.push(dir);
+            }
+
+            if (depth >= maxDepth) {
+                return;
+            }
+
+            for (const entry of entries) {
+                if (!entry.isDirectory() || entry.name.startsWith('.') || this.IGNORED_FOLDERS.has(entry.name)) {
+                    continue;
+                }
+                await walk(path.join(dir, entry.name), depth + 1);
+            }
+        };
+
+        await walk(folderPath, 0);
+        return results;
+    }
+
+    private createDisplayName(root: string): string {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+        const baseName = path.basename(root) || root;
+        if (!folder) {
+            return baseName;
+        }
+
+        const relative = path.relative(folder.uri.fsPath, root).replace(/\\/g, '/');
+        if (!relative) {
+            return folder.name;
+        }
+        return relative.startsWith('..') ? baseName : `${folder.name}/${relative}`;
+    }
+
+    private sortRoots(roots: string[]): string[] {
+        return roots.sort((a, b) => this.normalizeFsPath(a).localeCompare(this.normalizeFsPath(b)));
+    }
+
+    private normalizeFsPath(fsPath: string): string {
+        return path.resolve(fsPath).replace(/\\/g, '/');
+    }
+}
@@ -37,7 +37,11 @@ export class ShelfManager {
     }
 
     private loadShelvedChanges(): void {
-        const stored = this.context.workspaceState.get<ShelvedChange[]>(this.STORAGE_KEY, []);
+        // Older versions kept every shelf under one workspace key; the patch files
+        // themselves always lived in the repository's shelf directory.
+        const stored = this.context.workspaceState.get<ShelvedChange[]>(this.getStorageKey())
+            ?? this.context.workspaceState.get<ShelvedChange[]>(this.STORAGE_KEY, [])
+                .filter(sc => fs.existsSync(this.getShelfFilePath(sc.id)));
         stored.forEach(sc => {
             // Convert date string back to Date object
             sc.date = new Date(sc.date);
@@ -47,7 +51,11 @@ export class ShelfManager {
 
     private saveShelvedChanges(): void {
         const changesArray = Array.from(this.shelvedChanges.values());
-        this.context.workspaceState.update(this.STORAGE_KEY, changesArray);
+        this.context.workspaceState.update(this.getStorageKey(), changesArray);
+    }
+
+    private getStorageKey(): string {
+        return `${this.STORAGE_KEY}:${this.workspaceRoot.replace(/\\/g, '/')}`;
     }
 
     private generateId(): string {
@@ -62,9 +70,12 @@ export class ShelfManager {
         try {
             // Generate patches for the files
             const patches: string[] = [];
-            
+            const untracked = new Set(await this.gitService.getUntrackedPaths(files));
+
             for (const file of files) {
-                const diff = await this.gitService.getDiff(file, false);
+                const diff = untracked.has(file)
+                    ? await this.gitService.getUntrackedFileDiff(file)
+                    : await this.gitService.getDiff(file, false);
                 if (diff) {
                     patches.push(diff);
                 }
@@ -92,6 +103,10 @@ export class ShelfManager {
             // Revert the changes in working directory
             for (const file of files) {
                 try {
+                    if (untracked.has(file)) {
+                        fs.unlinkSync(file);
+                        continue;
+                    }
                     await this.gitService.revertFile(file);
                 } catch (error) {
                     console.error(`Error reverting file ${file}:`, error);
@@ -104,7 +119,11 @@ export class ShelfManager {
         }
     }
 
-    async unshelveChanges(id: string, removeAfterApply: boolean = false): Promise<ShelvedChange> {
+    /**
+     * threeWay 为 true 时使用 `git apply --3way`：无法干净应用的文件留下冲突标记并记为未合并，
+     * 而不是整体失败；此时仍会抛出错误且保留该 shelf。
+     */
+    async unshelveChanges(id: string, removeAfterApply: boolean = false, threeWay: boolean = false): Promise<ShelvedChange> {
         const shelvedChange = this.shelvedChanges.get(id);
         if (!shelvedChange) {
             throw new Error('Shelved change not found');
@@ -112,28 +131,12 @@ export class ShelfManager {
 
         try {
             const patch = this.getPatchContent(id);
-            
-            // Write patch to temp file and apply
-            const tempPatchFile = path.join(this.workspaceRoot, '.vigit-temp.patch');
-            fs.writeFileSync(tempPatchFile, patch, 'utf8');
 
+            // 经由 GitService 执行，git apply 同样记录到 Git Console
             try {
-                // Apply patch using git apply
-                const { exec } = require('child_process');
-                await new Promise<void>((resolve, reject) => {
-                    exec(`git apply "${tempPatchFile}"`, { cwd: this.workspaceRoot }, (error: any) => {
-                        if (error) {
-                            reject(new Error(`Failed to apply patch: ${error.message}`));
-                        } else {
-                            resolve();
-                        }
-                    });
-                });
-            } finally {
-                // Clean up temp file
-                if (fs.existsSync(tempPatchFile)) {
-                    fs.unlinkSync(tempPatchFile);
-                }
+                await this.gitService.applyPatch(patch, { threeWay });
+            } catch (error) {
+                throw new Error(`Failed to apply patch: ${error instanceof Error ? error.message : error}`);
             }
 
             if (removeAfterApply) {
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+
+export type TaskContextKind = 'changelist' | 'branch';
+
+export interface TaskContextEditor {
+    /** 相对仓库根目录的路径 */
+    path: string;
+    viewColumn: number;
+    pinned: boolean;
+    /** 是否为所在编辑器组中的活动标签 */
+    active: boolean;
+    line?: number;
+    character?: number;
+}
+
+export interface TaskContextBreakpoint {
+    path: string;
+    line: number;
+    character: number;
+    enabled: boolean;
+    condition?: string;
+    hitCondition?: string;
+    logMessage?: string;
+}
+
+export interface TaskContext {
+    /** 按编辑器组、组内标签顺序排列 */
+    editors: TaskContextEditor[];
+    /** 保存时获得焦点的编辑器在 editors 中的下标 */
+    focused?: number;
+    breakpoints: TaskContextBreakpoint[];
+    savedAt: Date;
+}
+
+/**
+ * 任务上下文：切换 changelist 或分支时保存当前仓库内打开的编辑器（顺序、光标、固定状态）
+ * 与断点，并恢复切换目标上次保存的上下文。只处理位于本仓库中的文件，其他编辑器保持不变。
+ */
+export class TaskContextManager {
+    private contexts: Map<string, TaskContext>;
+    private readonly STORAGE_KEY = 'vigit.taskContexts';
+
+    constructor(private readonly context: vscode.ExtensionContext, private readonly workspaceRoot: string) {
+        this.contexts = new Map();
+        this.loadContexts();
+    }
+
+    isEnabled(kind: TaskContextKind): boolean {
+        const config = vscode.workspace.getConfiguration('vigit.taskContexts');
+        return kind === 'changelist'
+            ? config.get<boolean>('changelists', true)
+            : config.get<boolean>('branches', false);
+    }
+
+    /**
+     * 保存当前上下文；对应设置关闭时什么也不做。
+     */
+    saveContext(kind: TaskContextKind, name: string): void {
+        if (!name || !this.isEnabled(kind)) {
+            return;
+        }
+        this.contexts.set(this.getKey(kind, name), this.capture());
+        this.saveContexts();
+    }
+
+    /**
+     * 恢复上次保存的上下文，没有保存过时保持当前编辑器不变并返回 false。
+     */
+    async restoreContext(kind: TaskContextKind, name: string): Promise<boolean> {
+        const saved = this.isEnabled(kind) ? this.contexts.get(this.getKey(kind, name)) : undefined;
+        if (!saved) {
+            return false;
+        }
+        await this.restoreEditors(saved);
+        this.restoreBreakpoints(saved.breakpoints);
+        return true;
+    }
+
+    deleteContext(kind: TaskContextKind, name: string): void {
+        if (this.contexts.delete(this.getKey(kind, name))) {
+            this.saveContexts();
+        }
+    }
+
+    private capture(): TaskContext {
+        // 只有可见编辑器能读到光标位置；其余文件沿用上次保存的位置
+        const previous = new Map<string, TaskContextEditor>();
+        this.contexts.forEach(saved => saved.editors.forEach(editor => previous.set(editor.path, editor)));
+        const selections = new Map<string, vscode.Position>();
+        vscode.window.visibleTextEditors.forEach(editor => {
+            selections.set(`${editor.viewColumn}:${editor.document.uri.fsPath}`, editor.selection.active);
+        });
+
+        const editors: TaskContextEditor[] = [];
+        let focused: number | undefined;
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                const uri = tab.input instanceof vscode.TabInputText ? tab.input.uri : undefined;
+                if (!uri || uri.scheme !== 'file' || !this.contains(uri.fsPath)) {
+                    continue;
+                }
+                const relativePath = this.toRelativePath(uri.fsPath);
+                const position = selections.get(`${group.viewColumn}:${uri.fsPath}`);
+                const last = previous.get(relativePath);
+                if (tab.isActive && group.isActive) {
+                    focused = editors.length;
+                }
+                editors.push({
+                    path: relativePath,
+                    viewColumn: group.viewColumn,
+                    pinned: tab.isPinned,
+                    active: tab.isActive,
+                    line: position?.line ?? last?.line,
+                    character: position?.character ?? last?.character
+                });
+            }
+        }
+
+        const breakpoints: TaskContextBreakpoint[] = vscode.debug.breakpoints
+            .filter((breakpoint): breakpoint is vscode.SourceBreakpoint =>
+                breakpoint instanceof vscode.SourceBreakpoint && this.contains(breakpoint.location.uri.fsPath))
+            .map(breakpoint => ({
+                path: this.toRelativePath(breakpoint.location.uri.fsPath),
+                line: breakpoint.location.range.start.line,
+                character: breakpoint.location.range.start.character,
+                enabled: breakpoint.enabled,
+                condition: breakpoint.condition,
+                hitCondition: breakpoint.hitCondition,
+                logMessage: breakpoint.logMessage
+            }));
+
+        return { editors, focused, breakpoints, savedAt: new Date() };
+    }
+
+    private async restoreEditors(saved: TaskContext): Promise<void> {
+        // 有未保存修改的标签保留，避免弹出保存确认
+        const stale = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputText
+                && tab.input.uri.scheme === 'file'
+                && this.contains(tab.input.uri.fsPath)
+                && !tab.isDirty);
+        if (stale.length > 0) {
+            await vscode.window.tabGroups.close(stale, true);
+        }
+
+        const opened: (TaskContextEditor | undefined)[] = [];
+        for (const editor of saved.editors) {
+            const filePath = path.join(this.workspaceRoot, editor.path);
+            if (!(await this.fileExists(filePath))) {
+                opened.push(undefined);
+                continue;
+            }
+            try {
+                await this.showEditor(editor);
+                if (editor.pinned) {
+                    await vscode.commands.executeCommand('workbench.action.pinEditor');
+                }
+                opened.push(editor);
+            } catch (error) {
+                console.warn(`ViGit: unable to restore editor ${editor.path}`, error);
+                opened.push(undefined);
+            }
+        }
+
+        // 依次激活各组原先的活动标签，最后聚焦保存时的焦点编辑器
+        const activeEditors = opened.filter((editor): editor is TaskContextEditor => !!editor?.active);
+        const focused = saved.focused !== undefined ? opened[saved.focused] : undefined;
+        for (const editor of [...activeEditors.filter(editor => editor !== focused), ...(focused ? [focused] : [])]) {
+            await this.showEditor(editor).catch(error => console.warn(`ViGit: unable to focus editor ${editor.path}`, error));
+        }
+    }
+
+    private async showEditor(editor: TaskContextEditor): Promise<void> {
+        const position = editor.line !== undefined ? new vscode.Position(editor.line, editor.character ?? 0) : undefined;
+        await vscode.window.showTextDocument(vscode.Uri.file(path.join(this.workspaceRoot, editor.path)), {
+            viewColumn: editor.viewColumn,
+            preview: false,
+            selection: position ? new vscode.Range(position, position) : undefined
+        });
+    }
+
+    private restoreBreakpoints(breakpoints: TaskContextBreakpoint[]): void {
+        const existing = vscode.debug.breakpoints.filter(breakpoint =>
+            breakpoint instanceof vscode.SourceBreakpoint && this.contains(breakpoint.location.uri.fsPath));
+        if (existing.length > 0) {
+            vscode.debug.removeBreakpoints(existing);
+        }
+        if (breakpoints.length > 0) {
+            vscode.debug.addBreakpoints(breakpoints.map(breakpoint => new vscode.SourceBreakpoint(
+                new vscode.Location(
+                    vscode.Uri.file(path.join(this.workspaceRoot, breakpoint.path)),
+                    new vscode.Position(breakpoint.line, breakpoint.character)
+                ),
+                breakpoint.enabled,
+                breakpoint.condition,
+                breakpoint.hitCondition,
+                breakpoint.logMessage
+            )));
+        }
+    }
+
+    private contains(filePath: string): boolean {
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        return !!relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+
+    private toRelativePath(filePath: string): string {
+        return path.relative(this.workspaceRoot, filePath).split(path.sep).join('/');
+    }
+
+    private async fileExists(filePath: string): Promise<boolean> {
+        try {
+            return (await fs.stat(filePath)).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    private loadContexts(): void {
+        const stored = this.context.workspaceState.get<Record<string, TaskContext>>(this.getStorageKey(), {});
+        Object.entries(stored).forEach(([key, saved]) => {
+            this.contexts.set(key, { ...saved, savedAt: new Date(saved.savedAt) });
+        });
+    }
+
+    private saveContexts(): void {
+        void this.context.workspaceState.update(this.getStorageKey(), Object.fromEntries(this.contexts));
+    }
+
+    private getStorageKey(): string {
+        return `${this.STORAGE_KEY}:${this.workspaceRoot.replace(/\\/g, '/')}`;
+    }
+
+    private getKey(kind: TaskContextKind, name: string): string {
+        return `${kind}:${name}`;
+    }
+}
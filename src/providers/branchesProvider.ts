@@ -1,13 +1,17 @@
 import * as vscode from 'vscode';
-import { GitService, GitBranch } from '../services/gitService';
+import * as path from 'path';
+import { GitBranch } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 
 export class BranchTreeItem extends vscode.TreeItem {
+    repositoryRoot?: string;
+
     constructor(
         public label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly branch?: GitBranch,
         public readonly isCategory: boolean = false,
-        public readonly categoryType?: 'local' | 'remote',
+        public readonly categoryType?: 'local' | 'remote' | 'repository',
         public readonly remoteName?: string,
         private readonly useInlineIcon: boolean = false,
         private readonly inlinePadding: string = ''
@@ -51,6 +55,17 @@ export class BranchTreeItem extends vscode.TreeItem {
         return `${padding}$(${iconId}) ${label}`;
     }
 
+    /**
+     * Ties the item to a repository so commands and the branch details view act on it.
+     */
+    bindRepository(repositoryRoot: string): this {
+        this.repositoryRoot = repositoryRoot;
+        if (this.command && this.branch) {
+            this.command.arguments = [this.branch, repositoryRoot];
+        }
+        return this;
+    }
+
     private static getIconId(branch?: GitBranch, isCategory?: boolean): string | undefined {
         if (isCategory) {
             return 'folder';
@@ -61,6 +76,9 @@ export class BranchTreeItem extends vscode.TreeItem {
         if (branch.current) {
             return 'check';
         }
+        if (branch.worktree) {
+            return 'folder-active';
+        }
         if (branch.remote) {
             return 'cloud';
         }
@@ -81,6 +99,9 @@ export class BranchTreeItem extends vscode.TreeItem {
         if (this.branch.current) {
             lines.push('Current branch');
         }
+        if (this.branch.worktree) {
+            lines.push(`Checked out in worktree: ${this.branch.worktree}`);
+        }
         if (this.branch.upstream) {
             lines.push(`Upstream: ${this.branch.upstream}`);
         }
@@ -102,6 +123,8 @@ export class BranchTreeItem extends vscode.TreeItem {
 
         if (this.branch.current) {
             return new vscode.ThemeIcon('check', new vscode.ThemeColor('charts.green'));
+        } else if (this.branch.worktree) {
+            return new vscode.ThemeIcon('folder-active');
         } else if (this.branch.remote) {
             return new vscode.ThemeIcon('cloud');
         } else {
@@ -116,25 +139,30 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
     readonly onDidChangeTreeData: vscode.Event<BranchTreeItem | undefined | null> = 
         this._onDidChangeTreeData.event;
 
-    private branches: GitBranch[] = [];
-    private workspaceRoot: string;
-    private gitService: GitService;
+    private branches: Map<string, GitBranch[]> = new Map();
+    private repositoryManager: RepositoryManager;
     // 子节点左侧留白，使图标距离边缘更远（约 50px）
     // 保持整体左边距，但减小图标与文字间距（缩短前置空格）
     private readonly childIconPadding = ' ';
-    constructor(workspaceRoot: string, gitService: GitService) {
-        this.workspaceRoot = workspaceRoot;
-        this.gitService = gitService;
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
+        this.repositoryManager.onDidChangeRepositories(() => {
+            void this.refresh();
+        });
         this.refresh();
     }
 
     async refresh(): Promise<void> {
-        try {
-            this.branches = await this.gitService.getBranches();
-            this._onDidChangeTreeData.fire(undefined);
-        } catch (error) {
-            console.error('Error refreshing branches:', error);
+        const next = new Map<string, GitBranch[]>();
+        for (const repository of this.repositoryManager.getRepositories()) {
+            try {
+                next.set(repository.root, await repository.gitService.getBranches());
+            } catch (error) {
+                console.error(`Error refreshing branches for ${repository.root}:`, error);
+            }
         }
+        this.branches = next;
+        this._onDidChangeTreeData.fire(undefined);
     }
 
     getTreeItem(element: BranchTreeItem): vscode.TreeItem {
@@ -143,22 +171,33 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
 
     async getChildren(element?: BranchTreeItem): Promise<BranchTreeItem[]> {
         if (element) {
-            if (element.isCategory) {
-                if (element.categoryType === 'local') {
-                    const branches = this.branches
-                        .filter(b => !b.remote)
-                        .sort((a, b) => {
-                            if (a.current !== b.current) {
-                                return a.current ? -1 : 1;
-                            }
-                            return a.name.localeCompare(b.name);
-                        });
-
-                    return branches.map(branch => {
+            const repositoryRoot = element.repositoryRoot;
+            if (!element.isCategory || !repositoryRoot) {
+                return [];
+            }
+
+            const branches = this.branches.get(repositoryRoot) ?? [];
+
+            if (element.categoryType === 'repository') {
+                return this.getCategoryItems(repositoryRoot, branches);
+            }
+
+            if (element.categoryType === 'local') {
+                return branches
+                    .filter(b => !b.remote)
+                    .sort((a, b) => {
+                        if (a.current !== b.current) {
+                            return a.current ? -1 : 1;
+                        }
+                        return a.name.localeCompare(b.name);
+                    })
+                    .map(branch => {
                         const tracking = this.formatTracking(branch);
                         const labelCore = branch.current
                             ? `${branch.name} (current)`
-                            : branch.name;
+                            : branch.worktree
+                                ? `${branch.name} (worktree: ${path.basename(branch.worktree)})`
+                                : branch.name;
                         const label = tracking ? `${labelCore} ${tracking}` : labelCore;
 
                         const paddedLabel = `${this.childIconPadding}${label}`;
@@ -166,49 +205,74 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
                             paddedLabel,
                             vscode.TreeItemCollapsibleState.None,
                             branch
-                        );
+                        ).bindRepository(repositoryRoot);
                     });
-                }
-
-                if (element.categoryType === 'remote' && !element.remoteName) {
-                    const remotes = this.getRemoteGroups();
-                    return remotes.map(remote => new BranchTreeItem(
-                        `${this.childIconPadding}${remote}`,
-                        vscode.TreeItemCollapsibleState.Expanded,
-                        undefined,
-                        true,
-                        'remote',
-                        remote
-                    ));
-                }
-
-                if (element.categoryType === 'remote' && element.remoteName) {
-                    const branches = this.branches
-                        .filter(b => b.remote)
-                        .filter(b => this.getRemoteName(b.name) === element.remoteName)
-                        .sort((a, b) => {
-                            const aShort = this.getRemoteBranchName(a.name);
-                            const bShort = this.getRemoteBranchName(b.name);
-                            return aShort.localeCompare(bShort);
-                        });
-
-                    return branches.map(branch => {
+            }
+
+            if (element.categoryType === 'remote' && !element.remoteName) {
+                const remotes = this.getRemoteGroups(branches);
+                return remotes.map(remote => new BranchTreeItem(
+                    `${this.childIconPadding}${remote}`,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    undefined,
+                    true,
+                    'remote',
+                    remote
+                ).bindRepository(repositoryRoot));
+            }
+
+            if (element.categoryType === 'remote' && element.remoteName) {
+                return branches
+                    .filter(b => b.remote)
+                    .filter(b => this.getRemoteName(b.name) === element.remoteName)
+                    .sort((a, b) => {
+                        const aShort = this.getRemoteBranchName(a.name);
+                        const bShort = this.getRemoteBranchName(b.name);
+                        return aShort.localeCompare(bShort);
+                    })
+                    .map(branch => {
                         const displayName = this.getRemoteBranchName(branch.name);
                         const paddedLabel = `${this.childIconPadding}${displayName}`;
                         return new BranchTreeItem(
                             paddedLabel,
                             vscode.TreeItemCollapsibleState.None,
                             branch
-                        );
+                        ).bindRepository(repositoryRoot);
                     });
-                }
             }
             return [];
         }
 
-        // Root level - show categories
-        const localBranches = this.branches.filter(b => !b.remote);
-        const remoteBranches = this.branches.filter(b => b.remote);
+        // Root level - group by repository when the workspace has several roots
+        const repositories = this.repositoryManager.getRepositories();
+        if (repositories.length === 1) {
+            const root = repositories[0].root;
+            return this.getCategoryItems(root, this.branches.get(root) ?? []);
+        }
+
+        return repositories.map(repository => this.createRepositoryItem(repository));
+    }
+
+    private createRepositoryItem(repository: Repository): BranchTreeItem {
+        const branches = this.branches.get(repository.root) ?? [];
+        const current = branches.find(branch => branch.current);
+        const item = new BranchTreeItem(
+            repository.name,
+            vscode.TreeItemCollapsibleState.Expanded,
+            undefined,
+            true,
+            'repository'
+        ).bindRepository(repository.root);
+        item.contextValue = 'repository';
+        item.description = current?.name;
+        item.tooltip = repository.root;
+        item.iconPath = new vscode.ThemeIcon('repo');
+        return item;
+    }
+
+    private getCategoryItems(repositoryRoot: string, branches: GitBranch[]): BranchTreeItem[] {
+        const localBranches = branches.filter(b => !b.remote);
+        const remoteBranches = branches.filter(b => b.remote);
 
         const items: BranchTreeItem[] = [];
 
@@ -219,7 +283,7 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
                 undefined,
                 true,
                 'local'
-            ));
+            ).bindRepository(repositoryRoot));
         }
 
         if (remoteBranches.length > 0) {
@@ -229,14 +293,15 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
                 undefined,
                 true,
                 'remote'
-            ));
+            ).bindRepository(repositoryRoot));
         }
 
         return items;
     }
 
-    getBranches(): GitBranch[] {
-        return this.branches;
+    getBranches(repositoryRoot?: string): GitBranch[] {
+        const root = repositoryRoot ?? this.repositoryManager.getActiveRepository()?.root;
+        return root ? this.branches.get(root) ?? [] : [];
     }
 
     private formatTracking(branch: GitBranch): string {
@@ -267,9 +332,9 @@ export class BranchesProvider implements vscode.TreeDataProvider<BranchTreeItem>
         return index === -1 ? stripped : stripped.slice(index + 1);
     }
 
-    private getRemoteGroups(): string[] {
+    private getRemoteGroups(branches: GitBranch[]): string[] {
         const set = new Set<string>();
-        this.branches.forEach(branch => {
+        branches.forEach(branch => {
             if (branch.remote) {
                 set.add(this.getRemoteName(branch.name));
             }
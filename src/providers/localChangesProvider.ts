@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService, GitStatus } from '../services/gitService';
+import { GitOperationState, GitService, GitStatus } from '../services/gitService';
 import { ChangelistManager, Changelist } from '../managers/changelistManager';
 
 interface FileNode {
@@ -21,6 +21,8 @@ interface StatusIndex {
     modified: Set<string>;
     deleted: Set<string>;
     untracked: Set<string>;
+    conflicted: Set<string>;
+    submodules: Set<string>;
     renamed: { from: string; to: string }[];
 }
 
@@ -91,13 +93,14 @@ export class LocalChangesTreeItem extends vscode.TreeItem {
     }
 }
 
-export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChangesTreeItem> {
+export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChangesTreeItem>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<LocalChangesTreeItem | undefined | null> = 
         new vscode.EventEmitter<LocalChangesTreeItem | undefined | null>();
     readonly onDidChangeTreeData: vscode.Event<LocalChangesTreeItem | undefined | null> = 
         this._onDidChangeTreeData.event;
 
     private gitStatus: GitStatus | null = null;
+    private operationState: GitOperationState | undefined;
     private workspaceRoot: string;
     private gitService: GitService;
     private changelistManager: ChangelistManager;
@@ -113,16 +116,25 @@ export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChange
         this.refresh();
     }
 
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+
     async refresh(): Promise<void> {
         try {
             this.gitStatus = await this.gitService.getStatus();
+            this.operationState = await this.gitService.getOperationState().catch(error => {
+                console.warn('ViGit: unable to detect in-progress operation', error);
+                return undefined;
+            });
             
             // Update changelists with current files
             const allChangedFiles = new Set([
                 ...this.gitStatus.modified,
                 ...this.gitStatus.staged,
                 ...this.gitStatus.untracked,
-                ...this.gitStatus.deleted
+                ...this.gitStatus.deleted,
+                ...this.gitStatus.conflicted
             ].map(f => path.join(this.workspaceRoot, f)));
 
             const config = vscode.workspace.getConfiguration('vigit');
@@ -207,6 +219,9 @@ export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChange
             if (changelist.description) {
                 item.tooltip = `${changelist.name}\n${changelist.description}`;
             }
+            if (changelist.ticket) {
+                item.description = changelist.ticket;
+            }
 
             items.push(item);
         }
@@ -386,6 +401,18 @@ export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChange
         }
 
         const normalized = this.normalizeRelativePath(relativePath);
+        if (statusIndex.conflicted.has(normalized)) {
+            return {
+                suffix: 'Conflicted',
+                icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.red'))
+            };
+        }
+        if (statusIndex.submodules.has(normalized)) {
+            return {
+                suffix: 'Submodule',
+                icon: new vscode.ThemeIcon('file-submodule', new vscode.ThemeColor('charts.blue'))
+            };
+        }
         if (statusIndex.untracked.has(normalized)) {
             return {
                 suffix: 'Untracked',
@@ -426,6 +453,8 @@ export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChange
             modified: new Set(this.gitStatus.modified.map(rel => this.normalizeRelativePath(rel))),
             deleted: new Set(this.gitStatus.deleted.map(rel => this.normalizeRelativePath(rel))),
             untracked: new Set(this.gitStatus.untracked.map(rel => this.normalizeRelativePath(rel))),
+            conflicted: new Set(this.gitStatus.conflicted.map(rel => this.normalizeRelativePath(rel))),
+            submodules: new Set(this.gitStatus.submodules.map(rel => this.normalizeRelativePath(rel))),
             renamed: this.gitStatus.renamed.map(entry => ({
                 from: this.normalizeRelativePath(entry.from),
                 to: this.normalizeRelativePath(entry.to)
@@ -452,6 +481,10 @@ export class LocalChangesProvider implements vscode.TreeDataProvider<LocalChange
     getGitStatus(): GitStatus | null {
         return this.gitStatus;
     }
+
+    getOperationState(): GitOperationState | undefined {
+        return this.operationState;
+    }
 }
 
 
@@ -1,11 +1,13 @@
 import * as vscode from 'vscode';
-import { ShelfManager, ShelvedChange } from '../managers/shelfManager';
+import { ShelvedChange } from '../managers/shelfManager';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 
 export class ShelfTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly shelvedChange?: ShelvedChange
+        public readonly shelvedChange?: ShelvedChange,
+        public readonly repositoryRoot?: string
     ) {
         super(label, collapsibleState);
         
@@ -69,10 +71,10 @@ export class ShelfProvider implements vscode.TreeDataProvider<ShelfTreeItem> {
     readonly onDidChangeTreeData: vscode.Event<ShelfTreeItem | undefined | null> = 
         this._onDidChangeTreeData.event;
 
-    private shelfManager: ShelfManager;
+    private repositoryManager: RepositoryManager;
 
-    constructor(shelfManager: ShelfManager) {
-        this.shelfManager = shelfManager;
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
     }
 
     refresh(): void {
@@ -84,12 +86,36 @@ export class ShelfProvider implements vscode.TreeDataProvider<ShelfTreeItem> {
     }
 
     async getChildren(element?: ShelfTreeItem): Promise<ShelfTreeItem[]> {
+        const repositories = this.repositoryManager.getRepositories();
+
         if (element) {
-            return [];
+            const repository = !element.shelvedChange && element.repositoryRoot
+                ? this.repositoryManager.getRepository(element.repositoryRoot)
+                : undefined;
+            return repository ? this.getShelfItems(repository) : [];
+        }
+
+        // Root level - show shelved changes, grouped by repository when needed
+        if (repositories.length > 1) {
+            return repositories.map(repository => {
+                const item = new ShelfTreeItem(
+                    repository.name,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    undefined,
+                    repository.root
+                );
+                item.contextValue = 'repository';
+                item.tooltip = repository.root;
+                item.iconPath = new vscode.ThemeIcon('repo');
+                return item;
+            });
         }
 
-        // Root level - show shelved changes
-        const shelvedChanges = this.shelfManager.getShelvedChanges();
+        return repositories.length === 1 ? this.getShelfItems(repositories[0]) : [];
+    }
+
+    private getShelfItems(repository: Repository): ShelfTreeItem[] {
+        const shelvedChanges = repository.shelfManager.getShelvedChanges();
         
         if (shelvedChanges.length === 0) {
             const emptyItem = new ShelfTreeItem(
@@ -104,10 +130,9 @@ export class ShelfProvider implements vscode.TreeDataProvider<ShelfTreeItem> {
             return new ShelfTreeItem(
                 sc.name,
                 vscode.TreeItemCollapsibleState.None,
-                sc
+                sc,
+                repository.root
             );
         });
     }
 }
-
-
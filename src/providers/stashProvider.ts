@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
-import { GitService, GitStashEntry } from '../services/gitService';
+import { GitStashEntry } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 
 export class StashTreeItem extends vscode.TreeItem {
     constructor(
-        public readonly stash: GitStashEntry
+        public readonly stash: GitStashEntry,
+        public readonly repositoryRoot?: string
     ) {
         super(stash.hash, vscode.TreeItemCollapsibleState.None);
         this.contextValue = 'stash';
@@ -40,16 +42,23 @@ export class StashProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> =
         this._onDidChangeTreeData.event;
 
-    private gitService: GitService;
-    private stashes: GitStashEntry[] = [];
+    private repositoryManager: RepositoryManager;
+    private stashes: Map<string, GitStashEntry[]> = new Map();
 
-    constructor(gitService: GitService) {
-        this.gitService = gitService;
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
+        this.repositoryManager.onDidChangeRepositories(() => {
+            void this.refresh();
+        });
     }
 
     async refresh(): Promise<void> {
+        const next = new Map<string, GitStashEntry[]>();
         try {
-            this.stashes = await this.gitService.getStashList();
+            for (const repository of this.repositoryManager.getRepositories()) {
+                next.set(repository.root, await repository.gitService.getStashList());
+            }
+            this.stashes = next;
             this._onDidChangeTreeData.fire(undefined);
         } catch (error) {
             console.error('Error loading stash list:', error);
@@ -63,16 +72,45 @@ export class StashProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
 
     async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
         if (element) {
+            if (element instanceof RepositoryStashItem) {
+                return this.getStashItems(element.repository);
+            }
             return [];
         }
 
-        if (this.stashes.length === 0) {
+        const repositories = this.repositoryManager.getRepositories();
+        if (repositories.length > 1) {
+            return repositories.map(repository => new RepositoryStashItem(
+                repository,
+                this.stashes.get(repository.root)?.length ?? 0
+            ));
+        }
+
+        return repositories.length === 1 ? this.getStashItems(repositories[0]) : [];
+    }
+
+    private getStashItems(repository: Repository): vscode.TreeItem[] {
+        const stashes = this.stashes.get(repository.root) ?? [];
+        if (stashes.length === 0) {
             const item = new vscode.TreeItem('No stashes', vscode.TreeItemCollapsibleState.None);
             item.contextValue = 'stash-empty';
             item.iconPath = new vscode.ThemeIcon('inbox');
             return [item];
         }
 
-        return this.stashes.map(stash => new StashTreeItem(stash));
+        return stashes.map(stash => new StashTreeItem(stash, repository.root));
+    }
+}
+
+class RepositoryStashItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: Repository,
+        stashCount: number
+    ) {
+        super(repository.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'repository';
+        this.description = `${stashCount} stash${stashCount === 1 ? '' : 'es'}`;
+        this.tooltip = repository.root;
+        this.iconPath = new vscode.ThemeIcon('repo');
     }
 }
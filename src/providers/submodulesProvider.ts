@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { GitSubmodule } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+
+export class SubmoduleTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly submodule: GitSubmodule,
+        public readonly repositoryRoot?: string
+    ) {
+        super(submodule.path, vscode.TreeItemCollapsibleState.None);
+        const changed = SubmoduleTreeItem.isChanged(submodule);
+        this.contextValue = !submodule.initialized
+            ? 'submodule-uninitialized'
+            : changed ? 'submodule-changed' : 'submodule';
+
+        this.description = this.createDescription(changed);
+        this.tooltip = this.createTooltip();
+        this.iconPath = !submodule.initialized
+            ? new vscode.ThemeIcon('file-submodule', new vscode.ThemeColor('disabledForeground'))
+            : submodule.conflicted
+                ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.red'))
+                : changed
+                    ? new vscode.ThemeIcon('file-submodule', new vscode.ThemeColor('charts.blue'))
+                    : new vscode.ThemeIcon('file-submodule');
+
+        if (changed) {
+            this.command = {
+                command: 'vigit.showSubmoduleSummary',
+                title: 'Show Submodule Summary',
+                arguments: [this]
+            };
+        }
+    }
+
+    /**
+     * 检出的提交与父仓库 HEAD 中记录的不同（无论是否已暂存）。
+     */
+    static isChanged(submodule: GitSubmodule): boolean {
+        return submodule.initialized && submodule.checkedOutCommit !== submodule.recordedCommit;
+    }
+
+    private createDescription(changed: boolean): string {
+        if (!this.submodule.initialized) {
+            return 'not initialized';
+        }
+        const checkedOut = this.submodule.checkedOutCommit?.substring(0, 7) ?? '?';
+        const parts = [changed ? `${this.submodule.recordedCommit?.substring(0, 7) ?? 'new'} → ${checkedOut}` : checkedOut];
+        if (this.submodule.conflicted) {
+            parts.push('conflict');
+        }
+        return parts.join(' · ');
+    }
+
+    private createTooltip(): string {
+        const lines = [`Submodule: ${this.submodule.name}`, `Path: ${this.submodule.path}`];
+        if (this.submodule.url) {
+            lines.push(`URL: ${this.submodule.url}`);
+        }
+        if (this.submodule.branch) {
+            lines.push(`Branch: ${this.submodule.branch}`);
+        }
+        lines.push(`Recorded: ${this.submodule.recordedCommit ?? 'not committed yet'}`);
+        if (this.submodule.stagedCommit && this.submodule.stagedCommit !== this.submodule.recordedCommit) {
+            lines.push(`Staged: ${this.submodule.stagedCommit}`);
+        }
+        lines.push(`Checked out: ${this.submodule.checkedOutCommit ?? 'not initialized'}`);
+        return lines.join('\n');
+    }
+}
+
+export class SubmodulesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null> =
+        new vscode.EventEmitter<vscode.TreeItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> =
+        this._onDidChangeTreeData.event;
+
+    private repositoryManager: RepositoryManager;
+    private submodules: Map<string, GitSubmodule[]> = new Map();
+
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
+        this.repositoryManager.onDidChangeRepositories(() => {
+            void this.refresh();
+        });
+        void this.refresh();
+    }
+
+    async refresh(): Promise<void> {
+        const next = new Map<string, GitSubmodule[]>();
+        for (const repository of this.repositoryManager.getRepositories()) {
+            try {
+                next.set(repository.root, await repository.gitService.getSubmodules());
+            } catch (error) {
+                console.error(`Error loading submodules for ${repository.root}:`, error);
+            }
+        }
+        this.submodules = next;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element) {
+            if (element instanceof RepositorySubmoduleItem) {
+                return this.getSubmoduleItems(element.repository);
+            }
+            return [];
+        }
+
+        // 子模块本身也会被登记为仓库，只列出确实含有子模块的仓库
+        const repositories = this.repositoryManager.getRepositories()
+            .filter(repository => (this.submodules.get(repository.root)?.length ?? 0) > 0);
+        if (repositories.length > 1) {
+            return repositories.map(repository => new RepositorySubmoduleItem(
+                repository,
+                this.submodules.get(repository.root)?.length ?? 0
+            ));
+        }
+
+        if (repositories.length === 1) {
+            return this.getSubmoduleItems(repositories[0]);
+        }
+        const item = new vscode.TreeItem('No submodules', vscode.TreeItemCollapsibleState.None);
+        item.contextValue = 'submodule-empty';
+        item.iconPath = new vscode.ThemeIcon('file-submodule');
+        return [item];
+    }
+
+    private getSubmoduleItems(repository: Repository): vscode.TreeItem[] {
+        return (this.submodules.get(repository.root) ?? [])
+            .map(submodule => new SubmoduleTreeItem(submodule, repository.root));
+    }
+}
+
+class RepositorySubmoduleItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: Repository,
+        submoduleCount: number
+    ) {
+        super(repository.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'repository';
+        this.description = `${submoduleCount} submodule${submoduleCount === 1 ? '' : 's'}`;
+        this.tooltip = repository.root;
+        this.iconPath = new vscode.ThemeIcon('repo');
+    }
+}
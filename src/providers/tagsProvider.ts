@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { GitTag } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+
+export class TagTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly tag: GitTag,
+        public readonly repositoryRoot?: string
+    ) {
+        super(tag.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'tag';
+
+        const descriptionParts = [tag.commit.substring(0, 7)];
+        if (tag.date) {
+            descriptionParts.push(tag.date.toLocaleDateString());
+        }
+        const subject = tag.message?.split('\n')[0];
+        if (subject) {
+            descriptionParts.push(subject);
+        }
+
+        this.description = descriptionParts.join(' · ');
+        this.tooltip = this.createTooltip();
+        this.iconPath = new vscode.ThemeIcon(tag.signed ? 'verified' : 'tag');
+        this.command = {
+            command: 'vigit.showCommitDetails',
+            title: 'Show Commit Details',
+            arguments: [tag.commit, repositoryRoot]
+        };
+    }
+
+    private createTooltip(): string {
+        const lines = [
+            `Tag: ${this.tag.name}`,
+            `Commit: ${this.tag.commit}`,
+            `Type: ${this.tag.signed ? 'signed' : this.tag.annotated ? 'annotated' : 'lightweight'}`
+        ];
+        if (this.tag.tagger) {
+            lines.push(`Tagger: ${this.tag.tagger}${this.tag.taggerEmail ? ` <${this.tag.taggerEmail}>` : ''}`);
+        }
+        if (this.tag.date) {
+            lines.push(`Date: ${this.tag.date.toLocaleString()}`);
+        }
+        if (this.tag.message) {
+            lines.push('', this.tag.message);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class TagsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null> =
+        new vscode.EventEmitter<vscode.TreeItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> =
+        this._onDidChangeTreeData.event;
+
+    private repositoryManager: RepositoryManager;
+    private tags: Map<string, GitTag[]> = new Map();
+
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
+        this.repositoryManager.onDidChangeRepositories(() => {
+            void this.refresh();
+        });
+        void this.refresh();
+    }
+
+    async refresh(): Promise<void> {
+        const next = new Map<string, GitTag[]>();
+        for (const repository of this.repositoryManager.getRepositories()) {
+            try {
+                next.set(repository.root, await repository.gitService.getTagDetails());
+            } catch (error) {
+                console.error(`Error loading tags for ${repository.root}:`, error);
+            }
+        }
+        this.tags = next;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * 供比较标签时选择另一个标签，直接复用已加载的列表。
+     */
+    getTags(repositoryRoot: string): GitTag[] {
+        return this.tags.get(repositoryRoot) ?? [];
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element) {
+            if (element instanceof RepositoryTagItem) {
+                return this.getTagItems(element.repository);
+            }
+            return [];
+        }
+
+        const repositories = this.repositoryManager.getRepositories();
+        if (repositories.length > 1) {
+            return repositories.map(repository => new RepositoryTagItem(
+                repository,
+                this.tags.get(repository.root)?.length ?? 0
+            ));
+        }
+
+        return repositories.length === 1 ? this.getTagItems(repositories[0]) : [];
+    }
+
+    private getTagItems(repository: Repository): vscode.TreeItem[] {
+        const tags = this.tags.get(repository.root) ?? [];
+        if (tags.length === 0) {
+            const item = new vscode.TreeItem('No tags', vscode.TreeItemCollapsibleState.None);
+            item.contextValue = 'tag-empty';
+            item.iconPath = new vscode.ThemeIcon('tag');
+            return [item];
+        }
+
+        return tags.map(tag => new TagTreeItem(tag, repository.root));
+    }
+}
+
+class RepositoryTagItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: Repository,
+        tagCount: number
+    ) {
+        super(repository.name, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'repository';
+        this.description = `${tagCount} tag${tagCount === 1 ? '' : 's'}`;
+        this.tooltip = repository.root;
+        this.iconPath = new vscode.ThemeIcon('repo');
+    }
+}
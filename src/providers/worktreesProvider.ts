@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitWorktree } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+
+export class WorktreeTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly worktree: GitWorktree,
+        public readonly repositoryRoot?: string
+    ) {
+        super(path.basename(worktree.path), vscode.TreeItemCollapsibleState.None);
+        this.contextValue = WorktreeTreeItem.getContextValue(worktree);
+
+        const descriptionParts: string[] = [];
+        if (worktree.bare) {
+            descriptionParts.push('bare');
+        } else {
+            descriptionParts.push(worktree.branch ?? `detached at ${worktree.head?.substring(0, 7) ?? '?'}`);
+        }
+        if (worktree.current) {
+            descriptionParts.push('current');
+        }
+        if (worktree.locked) {
+            descriptionParts.push('locked');
+        }
+        if (worktree.prunable) {
+            descriptionParts.push('prunable');
+        }
+
+        this.description = descriptionParts.join(' · ');
+        this.tooltip = this.createTooltip();
+        this.iconPath = this.getIcon();
+    }
+
+    /**
+     * 例如 worktree-unlocked、worktree-main-current-unlocked、worktree-locked-prunable，菜单按正则匹配。
+     */
+    private static getContextValue(worktree: GitWorktree): string {
+        const parts = ['worktree'];
+        if (worktree.main) {
+            parts.push('main');
+        }
+        if (worktree.current) {
+            parts.push('current');
+        }
+        parts.push(worktree.locked ? 'locked' : 'unlocked');
+        if (worktree.prunable) {
+            parts.push('prunable');
+        }
+        return parts.join('-');
+    }
+
+    private createTooltip(): string {
+        const lines = [`Path: ${this.worktree.path}`];
+        if (this.worktree.branch) {
+            lines.push(`Branch: ${this.worktree.branch}`);
+        }
+        if (this.worktree.head) {
+            lines.push(`HEAD: ${this.worktree.head}`);
+        }
+        if (this.worktree.main) {
+            lines.push('Main worktree');
+        }
+        if (this.worktree.locked) {
+            lines.push(this.worktree.lockReason ? `Locked: ${this.worktree.lockReason}` : 'Locked');
+        }
+        if (this.worktree.prunable) {
+            lines.push(this.worktree.prunableReason ? `Prunable: ${this.worktree.prunableReason}` : 'Prunable');
+        }
+        return lines.join('\n');
+    }
+
+    private getIcon(): vscode.ThemeIcon {
+        if (this.worktree.prunable) {
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        }
+        if (this.worktree.locked) {
+            return new vscode.ThemeIcon('lock');
+        }
+        if (this.worktree.current) {
+            return new vscode.ThemeIcon('check', new vscode.ThemeColor('charts.green'));
+        }
+        return new vscode.ThemeIcon('folder');
+    }
+}
+
+export class WorktreesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null> =
+        new vscode.EventEmitter<vscode.TreeItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> =
+        this._onDidChangeTreeData.event;
+
+    private repositoryManager: RepositoryManager;
+    private worktrees: Map<string, GitWorktree[]> = new Map();
+
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
+        this.repositoryManager.onDidChangeRepositories(() => {
+            void this.refresh();
+        });
+        void this.refresh();
+    }
+
+    async refresh(): Promise<void> {
+        const next = new Map<string, GitWorktree[]>();
+        for (const repository of this.repositoryManager.getRepositories()) {
+            try {
+                next.set(repository.root, await repository.gitService.getWorktrees());
+            } catch (error) {
+                console.error(`Error loading worktrees for ${repository.root}:`, error);
+            }
+        }
+        this.worktrees = next;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element) {
+            if (element instanceof RepositoryWorktreeItem) {
+                return this.getWorktreeItems(element.repository);
+            }
+            return [];
+        }
+
+        const repositories = this.repositoryManager.getRepositories();
+        if (repositories.length > 1) {
+            return repositories.map(repository => new RepositoryWorktreeItem(
+                repository,
+                this.worktrees.get(repository.root)?.length ?? 0
+            ));
+        }
+
+        return repositories.length === 1 ? this.getWorktreeItems(repositories[0]) : [];
+    }
+
+    private getWorktreeItems(repository: Repository): vscode.TreeItem[] {
+        const worktrees = this.worktrees.get(repository.root) ?? [];
+        if (worktrees.length === 0) {
+            const item = new vscode.TreeItem('No worktrees', vscode.TreeItemCollapsibleState.None);
+            item.contextValue = 'worktree-empty';
+            item.iconPath = new vscode.ThemeIcon('folder');
+            return [item];
+        }
+
+        return worktrees.map(worktree => new WorktreeTreeItem(worktree, repository.root));
+    }
+}
+
+class RepositoryWorktreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: Repository,
+        worktreeCount: number
+    ) {
+        super(repository.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'repository';
+        this.description = `${worktreeCount} worktree${worktreeCount === 1 ? '' : 's'}`;
+        this.tooltip = repository.root;
+        this.iconPath = new vscode.ThemeIcon('repo');
+    }
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SimpleGitOptions, outputHandler } from 'simple-git';
+
+export interface GitCommandRecord {
+    id: number;
+    args: string[];
+    cwd: string;
+    /** 开始时间（毫秒时间戳） */
+    startedAt: number;
+    durationMs: number;
+    /** 进程未能启动时为 null */
+    exitCode: number | null;
+    stderr: string;
+    /** 只有 Git Console 中输入的命令保留标准输出 */
+    stdout?: string;
+    fromConsole: boolean;
+}
+
+interface PendingCommand {
+    args: string[];
+    cwd: string;
+    startedAt: number;
+    /** 注入该调用 stdout 的空块，errors 回调据此找回对应的调用 */
+    marker: Buffer;
+}
+
+const MAX_RECORDS = 1000;
+const MAX_PENDING = 100;
+const MAX_STDERR_LENGTH = 8 * 1024;
+const MAX_STDOUT_LENGTH = 256 * 1024;
+const MAX_ARG_LENGTH = 120;
+
+/**
+ * 扩展发起的每一次 git 调用的记录，供 Git Console 展示。
+ * simple-git 的调用通过 outputHandler 与 errors 回调采集；直接调用 git 的路径通过 start() 上报。
+ */
+export class GitCommandLog {
+    private static readonly records: GitCommandRecord[] = [];
+    private static readonly pending: PendingCommand[] = [];
+    private static nextId = 1;
+    private static readonly onDidRecordEmitter = new vscode.EventEmitter<GitCommandRecord>();
+    static readonly onDidRecord: vscode.Event<GitCommandRecord> = GitCommandLog.onDidRecordEmitter.event;
+
+    static getRecords(): GitCommandRecord[] {
+        return [...this.records];
+    }
+
+    static clear(): void {
+        this.records.length = 0;
+    }
+
+    /**
+     * 开始一次直接调用 git 的记录，返回结束时调用的回调。
+     */
+    static start(
+        args: string[],
+        cwd: string,
+        fromConsole = false
+    ): (exitCode: number | null, stderr: string, stdout?: string) => void {
+        const startedAt = Date.now();
+        let finished = false;
+        return (exitCode, stderr, stdout) => {
+            // 进程启动失败时 error 与 close 事件都可能到达
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.add({
+                args,
+                cwd,
+                startedAt,
+                durationMs: Date.now() - startedAt,
+                exitCode,
+                stderr,
+                stdout: fromConsole ? stdout : undefined,
+                fromConsole
+            });
+        };
+    }
+
+    /**
+     * simple-git 在每个子进程启动时调用；此时只知道参数，退出码要等 errors 回调。
+     * simple-git 在调用 outputHandler 之前已为该进程挂上收集输出的监听，这里发出的空块
+     * 只会进入这一次调用的 stdOut 数组，成为它在 errors 回调中的唯一标记；空块不改变拼接后的输出。
+     */
+    static createOutputHandler(cwd: string): outputHandler {
+        return (_command, stdout, _stderr, args) => {
+            const entry: PendingCommand = { args, cwd, startedAt: Date.now(), marker: Buffer.alloc(0) };
+            stdout.emit('data', entry.marker);
+            this.pending.push(entry);
+            // 正常情况下每条都会在 errors 回调中结束，这里只防止意外堆积
+            if (this.pending.length > MAX_PENDING) {
+                this.pending.shift();
+            }
+        };
+    }
+
+    /**
+     * 作为 simple-git 的 errors 选项：只记录结果，错误判定保持 simple-git 默认行为。
+     * 回调不带命令参数，通过 outputHandler 注入的标记找回对应调用；进程未能启动时没有记录。
+     */
+    static readonly errorHandler: NonNullable<SimpleGitOptions['errors']> = (error, result) => {
+        const index = GitCommandLog.pending.findIndex(entry => result.stdOut.includes(entry.marker));
+        if (index >= 0) {
+            const [entry] = GitCommandLog.pending.splice(index, 1);
+            GitCommandLog.add({
+                args: entry.args,
+                cwd: entry.cwd,
+                startedAt: entry.startedAt,
+                durationMs: Date.now() - entry.startedAt,
+                exitCode: result.exitCode,
+                stderr: Buffer.concat(result.stdErr).toString('utf8'),
+                fromConsole: false
+            });
+        }
+        return error;
+    };
+
+    /**
+     * 单行展示用：含空白或特殊字符的参数加引号，过长的参数（如提交信息）截断。
+     */
+    static formatCommand(args: string[]): string {
+        return ['git', ...args.map(arg => {
+            const visible = arg.replace(/\r?\n/g, '\\n');
+            const shortened = visible.length > MAX_ARG_LENGTH ? `${visible.substring(0, MAX_ARG_LENGTH - 1)}…` : visible;
+            return /^[\w@%+=:,./^~-]+$/.test(shortened) ? shortened : `'${shortened.replace(/'/g, `'\\''`)}'`;
+        })].join(' ');
+    }
+
+    static formatForOutput(record: GitCommandRecord): string {
+        const time = new Date(record.startedAt).toLocaleTimeString();
+        const lines = [
+            `[${time}] ${path.basename(record.cwd)}> ${this.formatCommand(record.args)}`
+            + ` (exit ${record.exitCode ?? '-'}, ${record.durationMs} ms)`
+        ];
+        record.stderr.trim().split(/\r?\n/).filter(Boolean).forEach(line => lines.push(`    ${line}`));
+        return lines.join('\n');
+    }
+
+    private static add(record: Omit<GitCommandRecord, 'id'>): void {
+        const entry: GitCommandRecord = {
+            ...record,
+            id: this.nextId++,
+            stderr: this.truncate(record.stderr, MAX_STDERR_LENGTH),
+            stdout: record.stdout !== undefined ? this.truncate(record.stdout, MAX_STDOUT_LENGTH) : undefined
+        };
+        this.records.push(entry);
+        if (this.records.length > MAX_RECORDS) {
+            this.records.splice(0, this.records.length - MAX_RECORDS);
+        }
+        this.onDidRecordEmitter.fire(entry);
+    }
+
+    private static truncate(text: string, limit: number): string {
+        return text.length > limit ? `${text.substring(0, limit)}\n… (truncated)` : text;
+    }
+}
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import simpleGit, { SimpleGit, StatusResult, LogResult, DiffResult, BranchSummary, TagResult, RemoteWithRefs } from 'simple-git';
 import * as path from 'path';
+import * as os from 'os';
+import { promises as fs, constants as fsConstants } from 'fs';
+import { execFile, spawn } from 'child_process';
+import { TextDecoder } from 'util';
+import { GitCommandLog } from './gitCommandLog';
 
 export interface GitStatus {
     modified: string[];
@@ -8,6 +13,9 @@ export interface GitStatus {
     untracked: string[];
     deleted: string[];
     renamed: { from: string; to: string }[];
+    conflicted: string[];
+    /** 上述路径中属于子模块（指针变化）的路径 */
+    submodules: string[];
 }
 
 export interface GitCommit {
@@ -21,6 +29,47 @@ export interface GitCommit {
     refs: string[];
 }
 
+/**
+ * 对应 `%G?`：good=G，untrusted=U（签名有效但密钥未受信任），expired=X/Y，unknown=E（缺少公钥），none=N
+ */
+export type GitSignatureStatus = 'good' | 'bad' | 'untrusted' | 'expired' | 'revoked' | 'unknown' | 'none';
+
+export interface GitCommitDetails {
+    hash: string;
+    abbrevHash: string;
+    subject: string;
+    /** 完整提交信息（%B） */
+    message: string;
+    author: string;
+    authorEmail: string;
+    authorDate: Date;
+    committer: string;
+    committerEmail: string;
+    committerDate: Date;
+    parents: string[];
+    /** 查找子提交可能要遍历大量历史，getCommitDetails 不计算，按需调用 getCommitChildren */
+    children?: string[];
+    refs: string[];
+    signature: {
+        status: GitSignatureStatus;
+        signer?: string;
+        key?: string;
+    };
+}
+
+export interface GitLogFilter {
+    /** 为空时遍历所有分支（--all） */
+    branch?: string;
+    author?: string;
+    /** 相对仓库根目录的路径 */
+    path?: string;
+    /** git 可识别的日期，如 2024-01-31 */
+    since?: string;
+    until?: string;
+    /** 按提交信息过滤，忽略大小写 */
+    text?: string;
+}
+
 export interface GitBranch {
     name: string;
     current: boolean;
@@ -29,6 +78,8 @@ export interface GitBranch {
     upstream?: string;
     ahead?: number;
     behind?: number;
+    /** 本地分支在其他工作树中被检出时，该工作树的路径 */
+    worktree?: string;
 }
 
 export interface GitDiffEntry {
@@ -42,6 +93,122 @@ export interface CommitFileChange {
     previousPath?: string;
 }
 
+/**
+ * 文件历史中的一个版本：path 为该提交中文件所在路径，重命名时 previousPath 为改名前路径。
+ */
+export interface GitFileRevision {
+    commit: GitCommit;
+    path: string;
+    status: string;
+    previousPath?: string;
+}
+
+/**
+ * reflog 中的一次移动：hash 为移动后的位置，previousHash 为移动前的位置。
+ */
+export interface GitReflogEntry {
+    hash: string;
+    abbrevHash: string;
+    /** 例如 HEAD@{3}、main@{0} */
+    selector: string;
+    /** reflog 记录的动作，如 commit、commit (amend)、checkout、reset、rebase (finish) */
+    action: string;
+    message: string;
+    date: Date;
+    previousHash?: string;
+}
+
+export interface GitBlameCommit {
+    hash: string;
+    author: string;
+    authorEmail: string;
+    authorTime: Date;
+    committer: string;
+    committerTime: Date;
+    summary: string;
+    filename: string;
+    /** 该提交之前的文件版本，根提交或边界提交没有 */
+    previous?: { hash: string; path: string };
+    boundary: boolean;
+    /** 对应未提交的改动（含编辑器中尚未保存的内容） */
+    uncommitted: boolean;
+}
+
+export interface GitBlame {
+    commits: Map<string, GitBlameCommit>;
+    /** 按 0 起始的行号记录每行所属提交 */
+    lines: string[];
+}
+
+export interface GitWorktree {
+    path: string;
+    /** 裸仓库没有 HEAD */
+    head?: string;
+    /** 分支短名，分离 HEAD 时为空 */
+    branch?: string;
+    detached: boolean;
+    bare: boolean;
+    /** 主工作树，即 `git worktree list` 的第一项 */
+    main: boolean;
+    /** 当前打开的仓库所在的工作树 */
+    current: boolean;
+    locked: boolean;
+    lockReason?: string;
+    prunable: boolean;
+    prunableReason?: string;
+}
+
+export type GitWorktreeSource =
+    | { kind: 'branch'; branch: string }
+    | { kind: 'commit'; commit: string }
+    | { kind: 'newBranch'; branch: string; startPoint: string };
+
+export interface GitSubmodule {
+    name: string;
+    /** 相对仓库根目录的路径，与 .gitmodules 中一致 */
+    path: string;
+    url?: string;
+    branch?: string;
+    /** 父仓库 HEAD 中记录的提交，新添加尚未提交时为空 */
+    recordedCommit?: string;
+    /** 索引中记录的提交，即下一次提交将记录的指针 */
+    stagedCommit?: string;
+    /** 子模块中实际检出的提交，未初始化时为空 */
+    checkedOutCommit?: string;
+    initialized: boolean;
+    conflicted: boolean;
+}
+
+export interface GitSubmoduleCommit {
+    hash: string;
+    abbrevHash: string;
+    message: string;
+    /** added 为新指针才包含的提交，removed 为指针回退时移出的提交 */
+    direction: 'added' | 'removed';
+}
+
+export interface GitTag {
+    name: string;
+    /** 标签最终指向的提交 */
+    commit: string;
+    annotated: boolean;
+    signed: boolean;
+    /** 附注标签的创建者；轻量标签为空 */
+    tagger?: string;
+    taggerEmail?: string;
+    /** 附注标签的创建时间，轻量标签为所指提交的提交时间 */
+    date?: Date;
+    /** 附注标签的说明，不含签名 */
+    message?: string;
+}
+
+export interface GitTagOptions {
+    /** 提供说明时创建附注标签 */
+    message?: string;
+    /** 使用 gpg/ssh 签名（隐含附注标签） */
+    sign?: boolean;
+}
+
 export interface GitStashEntry {
     hash: string;
     message: string;
@@ -49,13 +216,202 @@ export interface GitStashEntry {
     date: Date;
 }
 
+export interface GitDiffLine {
+    type: 'context' | 'add' | 'remove' | 'noNewline';
+    content: string;
+    oldLine?: number;
+    newLine?: number;
+}
+
+export interface GitDiffHunk {
+    index: number;
+    header: string;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: GitDiffLine[];
+}
+
+export interface GitFileDiff {
+    filePath: string;
+    headerLines: string[];
+    hunks: GitDiffHunk[];
+    partialSupported: boolean;
+}
+
+export interface GitHunkSelection {
+    hunkIndex: number;
+    header?: string;
+    lineIndexes?: number[];
+}
+
+/**
+ * 提交时的附加选项。signing 为 undefined 时沿用仓库的 commit.gpgsign / gpg.format 配置；
+ * 'gpg' 只在仓库配置为 SSH 时改用 openpgp，其余情况保留已配置的格式。
+ */
+export interface GitCommitOptions {
+    /** `Name <email>` 形式 */
+    author?: string;
+    /** 作者日期，ISO 8601 */
+    date?: string;
+    signOff?: boolean;
+    coAuthors?: string[];
+    signing?: 'gpg' | 'x509' | 'ssh' | 'off';
+    noVerify?: boolean;
+}
+
+export interface GitSigningDefaults {
+    sign: boolean;
+    format: 'gpg' | 'ssh' | 'x509';
+}
+
+/** 接收 git 及其 hook 的实时输出（stdout 与 stderr 按到达顺序合并） */
+export type GitOutputListener = (text: string) => void;
+
+export interface GitPushOptions {
+    noVerify?: boolean;
+    onOutput?: GitOutputListener;
+}
+
+export interface GitHooksInfo {
+    /** 实际生效的 hooks 目录，已考虑 core.hooksPath */
+    directory: string;
+    /** 已安装的 hook：可执行且不是 .sample 示例 */
+    hooks: string[];
+    /** 检测到的 hook 管理工具：husky、lefthook、pre-commit */
+    managers: string[];
+}
+
+/**
+ * git 以非零状态退出。output 为合并后的完整输出，供解析 hook 报告的问题。
+ */
+export class GitCommandError extends Error {
+    constructor(message: string, readonly output: string, readonly exitCode: number | null) {
+        super(message);
+        this.name = 'GitCommandError';
+    }
+}
+
+const KNOWN_HOOKS = new Set([
+    'applypatch-msg', 'pre-applypatch', 'post-applypatch', 'pre-commit', 'pre-merge-commit', 'prepare-commit-msg',
+    'commit-msg', 'post-commit', 'pre-rebase', 'post-checkout', 'post-merge', 'pre-push', 'post-rewrite',
+    'reference-transaction', 'push-to-checkout', 'pre-auto-gc', 'fsmonitor-watchman', 'post-index-change'
+]);
+const LEFTHOOK_CONFIGS = ['lefthook.yml', 'lefthook.yaml', '.lefthook.yml', '.lefthook.yaml'];
+const REBASE_ACTIONS = new Set<string>(['pick', 'reword', 'edit', 'squash', 'fixup', 'drop']);
+const REBASE_HASH_PATTERN = /^[0-9a-f]{4,64}$/;
+
+/**
+ * worktree: 工作区 ↔ 暂存区；index: 暂存区 ↔ HEAD；head: 工作区 ↔ HEAD
+ */
+export type GitDiffSource = 'worktree' | 'index' | 'head';
+
+export type GitRebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface GitRebaseTodoEntry {
+    action: GitRebaseAction;
+    hash: string;
+    /** reword 时使用的新提交信息 */
+    message?: string;
+}
+
+export type GitConflictSide = 'ours' | 'theirs';
+
+export interface GitConflictChunk {
+    type: 'stable' | 'conflict';
+    /** stable 块的合并结果 */
+    text?: string;
+    ours?: string;
+    base?: string;
+    theirs?: string;
+}
+
+export interface GitConflictDetails {
+    filePath: string;
+    oursLabel: string;
+    theirsLabel: string;
+    oursDeleted: boolean;
+    theirsDeleted: boolean;
+    binary: boolean;
+    /** 某个版本不是 UTF-8（如 Latin-1、UTF-16），按文本合并后写回会改变编码，只能整体选择一方 */
+    unsupportedEncoding: boolean;
+    eol: string;
+    chunks: GitConflictChunk[];
+}
+
+export interface GitRebaseProgress {
+    step: number;
+    total: number;
+    stoppedAt?: string;
+}
+
+export type GitOperationKind = 'merge' | 'rebase' | 'cherry-pick' | 'revert' | 'bisect';
+
+export type GitOperationAction = 'continue' | 'abort' | 'skip';
+
+export interface GitOperationState {
+    kind: GitOperationKind;
+    /** 正在合入或重放的提交（短哈希） */
+    target?: string;
+    /** rebase 所在分支 */
+    branch?: string;
+    progress?: GitRebaseProgress;
+    actions: GitOperationAction[];
+}
+
 export class GitService {
     private git: SimpleGit;
     private workspaceRoot: string;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
-        this.git = simpleGit(workspaceRoot);
+        this.git = GitService.createGit(workspaceRoot);
+    }
+
+    /**
+     * 所有 simple-git 调用都记录到 Git Console。
+     */
+    private static createGit(baseDir: string): SimpleGit {
+        return simpleGit({ baseDir, errors: GitCommandLog.errorHandler })
+            .outputHandler(GitCommandLog.createOutputHandler(baseDir));
+    }
+
+    /**
+     * 校验来自 webview 的 rebase todo 项：只接受已知的动作与十六进制提交哈希，
+     * 避免任意内容被写入 todo 文件（例如 exec 行）。
+     */
+    static isRebaseTodoEntry(entry: unknown): entry is GitRebaseTodoEntry {
+        if (typeof entry !== 'object' || entry === null) {
+            return false;
+        }
+        const { action, hash, message } = entry as Record<string, unknown>;
+        return typeof action === 'string' && REBASE_ACTIONS.has(action)
+            && typeof hash === 'string' && REBASE_HASH_PATTERN.test(hash)
+            && (message === undefined || typeof message === 'string');
+    }
+
+    static async findRepositoryRoot(folderPath: string): Promise<string | undefined> {
+        try {
+            const root = await GitService.createGit(folderPath).revparse(['--show-toplevel']);
+            return root.trim() ? path.normalize(root.trim()) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    static async listSubmoduleRoots(repositoryRoot: string): Promise<string[]> {
+        try {
+            const output = await GitService.createGit(repositoryRoot).raw(['submodule', 'status', '--recursive']);
+            return output
+                .split('\n')
+                .filter(line => line.trim().length > 0 && !line.startsWith('-'))
+                .map(line => line.substring(1).trim().split(/\s+/)[1])
+                .filter((relativePath): relativePath is string => Boolean(relativePath))
+                .map(relativePath => path.join(repositoryRoot, relativePath));
+        } catch {
+            return [];
+        }
     }
 
     async initialize(): Promise<void> {
@@ -67,18 +423,104 @@ export class GitService {
     }
 
     async getStatus(): Promise<GitStatus> {
-        const status: StatusResult = await this.git.status();
-        
+        const [status, submodulePaths] = await Promise.all([
+            this.git.status() as Promise<StatusResult>,
+            this.getSubmodulePaths().catch(() => [] as string[])
+        ]);
+        const submodules = new Set(submodulePaths);
+
         return {
-            modified: [...status.modified, ...status.conflicted],
+            modified: status.modified.filter(file => !status.conflicted.includes(file)),
             staged: [...status.staged],
             untracked: status.not_added,
             deleted: status.deleted,
             renamed: status.renamed.map(r => ({
                 from: r.from,
                 to: r.to
-            }))
+            })),
+            conflicted: [...status.conflicted],
+            submodules: status.files.map(file => file.path).filter(filePath => submodules.has(filePath))
+        };
+    }
+
+    async getConflictedFiles(): Promise<string[]> {
+        const output = await this.git.raw(['diff', '--name-only', '--diff-filter=U']);
+        return Array.from(new Set(output.split('\n').map(line => line.trim()).filter(Boolean)))
+            .map(relativePath => path.join(this.workspaceRoot, relativePath));
+    }
+
+    /**
+     * 从索引的 :1/:2/:3 阶段读取 base/ours/theirs，并用 `git merge-file --diff3` 切分出冲突块。
+     * 非冲突的改动已由 git 自动合并，作为 stable 块返回。
+     */
+    async getConflictDetails(filePath: string): Promise<GitConflictDetails> {
+        const gitPath = this.toGitPath(filePath);
+        const stages = await Promise.all([1, 2, 3].map(stage => this.readIndexStage(gitPath, stage)));
+        if (stages[1] === undefined && stages[2] === undefined) {
+            throw new Error(`${gitPath} has no conflict stages`);
+        }
+
+        const present = stages.filter((content): content is Buffer => content !== undefined);
+        const unsupportedEncoding = present.some(content => this.hasUtf16Bom(content) || !this.isUtf8(content));
+        const binary = !unsupportedEncoding && present.some(content => content.includes(0));
+        // 只有 UTF-8 文本按内容合并；其余情况只整体选择一方，由 git 按原始字节检出
+        const [base, ours, theirs] = stages.map(content =>
+            content === undefined ? undefined : unsupportedEncoding || binary ? '' : content.toString('utf8'));
+
+        const details: GitConflictDetails = {
+            filePath,
+            oursLabel: await this.describeConflictRef(['HEAD']),
+            theirsLabel: await this.describeConflictRef(['MERGE_HEAD', 'REBASE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD']),
+            oursDeleted: ours === undefined,
+            theirsDeleted: theirs === undefined,
+            binary,
+            unsupportedEncoding,
+            eol: [ours, theirs, base].some(content => content?.includes('\r\n')) ? '\r\n' : '\n',
+            chunks: []
         };
+
+        if (binary || unsupportedEncoding || ours === undefined || theirs === undefined) {
+            details.chunks = [{ type: 'conflict', ours: ours ?? '', base: base ?? '', theirs: theirs ?? '' }];
+            return details;
+        }
+
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vigit-merge-'));
+        try {
+            const files = ['ours', 'base', 'theirs'].map(name => path.join(workDir, name));
+            await Promise.all([stages[1], stages[0] ?? Buffer.alloc(0), stages[2]]
+                .map((content, index) => fs.writeFile(files[index], content as Buffer)));
+            const merged = await this.git.raw([
+                'merge-file', '-p', '--diff3', '-L', 'ours', '-L', 'base', '-L', 'theirs', ...files
+            ]);
+            details.chunks = this.parseConflictChunks(merged);
+        } finally {
+            await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+        }
+        return details;
+    }
+
+    /**
+     * 写入合并结果并暂存，从而把文件标记为已解决。
+     */
+    async resolveConflict(filePath: string, content: string): Promise<void> {
+        await fs.writeFile(filePath, content, 'utf8');
+        await this.markResolved(filePath);
+    }
+
+    async acceptConflictSide(filePath: string, side: GitConflictSide): Promise<void> {
+        const gitPath = this.toGitPath(filePath);
+        const stage = await this.readIndexStage(gitPath, side === 'ours' ? 2 : 3);
+        if (stage === undefined) {
+            // 被选中的一方删除了该文件
+            await this.git.raw(['rm', '-q', '--', gitPath]);
+            return;
+        }
+        await this.git.raw(['checkout', `--${side}`, '--', gitPath]);
+        await this.markResolved(filePath);
+    }
+
+    async markResolved(filePath: string): Promise<void> {
+        await this.git.raw(['add', '-A', '--', this.toGitPath(filePath)]);
     }
 
     async getDiff(filePath: string, staged: boolean = false): Promise<string> {
@@ -95,6 +537,60 @@ export class GitService {
         }
     }
 
+    /**
+     * 将单个文件的 diff 解析为 hunk 与行，未跟踪文件会生成一个 new file 形式的 diff。
+     */
+    async getFileHunks(filePath: string, source: GitDiffSource = 'worktree'): Promise<GitFileDiff | undefined> {
+        const gitPath = this.toGitPath(filePath);
+
+        try {
+            if (source !== 'index' && !(await this.isTracked(gitPath))) {
+                return await this.buildUntrackedFileDiff(filePath, gitPath);
+            }
+
+            const args = ['--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+            if (source === 'index') {
+                args.push('--cached');
+            } else if (source === 'head') {
+                args.push('HEAD');
+            }
+            const raw = await this.git.diff([...args, '--', gitPath]);
+            return raw.trim() ? this.parseFileDiff(gitPath, raw) : undefined;
+        } catch (error) {
+            console.warn(`ViGit: unable to load hunks for ${gitPath}`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 通过 git apply --cached 只暂存选中的 hunk/行。
+     * replaceIndex 为 true 时先把该文件的暂存区恢复到 HEAD，再按相对 HEAD 的选择暂存，
+     * 使暂存区恰好等于所选内容（提交面板部分提交使用）。
+     */
+    async stageHunks(
+        filePath: string,
+        selections: GitHunkSelection[],
+        options: { replaceIndex?: boolean } = {}
+    ): Promise<void> {
+        const diff = await this.getFileHunks(filePath, options.replaceIndex ? 'head' : 'worktree');
+        if (!diff) {
+            throw new Error(`No changes to stage in ${path.basename(filePath)}`);
+        }
+
+        if (!diff.partialSupported) {
+            await this.stageFile(filePath);
+            return;
+        }
+
+        const patch = this.buildPartialPatch(diff, selections);
+        if (options.replaceIndex) {
+            await this.resetIndexEntry(diff.filePath);
+        }
+        if (patch) {
+            await this.applyPatchToIndex(patch);
+        }
+    }
+
     async stageFile(filePath: string): Promise<void> {
         const relativePath = path.relative(this.workspaceRoot, filePath);
         await this.git.add(relativePath);
@@ -130,24 +626,164 @@ export class GitService {
         await this.git.checkout(['--', ...relativePaths]);
     }
 
-    async commit(message: string, files?: string[]): Promise<void> {
+    async commit(
+        message: string,
+        files?: string[],
+        options: GitCommitOptions = {},
+        onOutput?: GitOutputListener
+    ): Promise<void> {
         if (files && files.length > 0) {
             const relativePaths = files.map(p => path.relative(this.workspaceRoot, p));
             await this.git.add(relativePaths);
         }
-        await this.git.commit(message);
+        await this.runCommit(message, [], options, onOutput);
+    }
+
+    /**
+     * 暂存区相对 HEAD 的零上下文 diff，即下一次提交的全部新增内容；excludeGlobs 通过 pathspec 排除。
+     */
+    async getStagedDiff(excludeGlobs: string[] = []): Promise<string> {
+        return await this.git.raw([
+            '-c', 'core.quotePath=false',
+            'diff', '--cached', '--no-color', '--no-ext-diff', '--unified=0',
+            '--', '.',
+            ...excludeGlobs.map(glob => `:(exclude,glob)${glob}`)
+        ]);
+    }
+
+    async commitAmend(message: string, options: GitCommitOptions = {}, onOutput?: GitOutputListener): Promise<void> {
+        await this.runCommit(message, ['--amend'], options, onOutput);
+    }
+
+    private async runCommit(
+        message: string,
+        extraArgs: string[],
+        options: GitCommitOptions,
+        onOutput?: GitOutputListener
+    ): Promise<void> {
+        const config: string[] = [];
+        const args = ['commit', ...extraArgs];
+        if (options.author) {
+            args.push(`--author=${options.author}`);
+        }
+        if (options.date) {
+            args.push(`--date=${options.date}`);
+        }
+        if (options.signOff) {
+            args.push('--signoff');
+        }
+        if (options.noVerify) {
+            args.push('--no-verify');
+        }
+        if (options.signing === 'off') {
+            args.push('--no-gpg-sign');
+        } else if (options.signing) {
+            const format = options.signing === 'gpg'
+                ? ((await this.getSigningDefaults()).format === 'ssh' ? 'openpgp' : undefined)
+                : options.signing;
+            if (format) {
+                config.push('-c', `gpg.format=${format}`);
+            }
+            args.push('-S');
+        }
+
+        const fullMessage = this.appendTrailers(
+            message,
+            (options.coAuthors ?? []).map(coAuthor => `Co-authored-by: ${coAuthor}`)
+        );
+        await this.runStreamingCommand([...config, ...args, '-m', fullMessage], onOutput);
+    }
+
+    /**
+     * 末段已是 trailer 时直接续在其后，否则另起一段；已存在的行不重复添加。
+     */
+    private appendTrailers(message: string, trailers: string[]): string {
+        const trimmed = message.replace(/\s+$/, '');
+        const missing = trailers.filter(trailer => !trimmed.split('\n').includes(trailer));
+        if (missing.length === 0) {
+            return trimmed;
+        }
+        const paragraphs = trimmed.split(/\n\s*\n/);
+        const last = paragraphs[paragraphs.length - 1];
+        const endsWithTrailers = paragraphs.length > 1 && last.split('\n').every(line => /^[\w-]+: /.test(line));
+        return `${trimmed}${endsWithTrailers ? '\n' : '\n\n'}${missing.join('\n')}`;
     }
 
-    async commitAmend(message: string): Promise<void> {
-        await this.git.commit(message, ['--amend']);
+    /**
+     * 仓库（含全局）配置中的签名默认值，供提交面板显示。
+     */
+    async getSigningDefaults(): Promise<GitSigningDefaults> {
+        const read = async (key: string): Promise<string> => {
+            try {
+                return (await this.git.raw(['config', '--get', key])).trim();
+            } catch {
+                // 未设置时 git config 以非零状态退出
+                return '';
+            }
+        };
+        const [sign, format] = await Promise.all([read('commit.gpgsign'), read('gpg.format')]);
+        return {
+            sign: sign === 'true',
+            format: format === 'ssh' || format === 'x509' ? format : 'gpg'
+        };
     }
 
-    async push(remote: string = 'origin', branch?: string): Promise<void> {
+    async push(remote: string = 'origin', branch?: string, options: GitPushOptions = {}): Promise<void> {
+        const args = ['push'];
+        if (options.noVerify) {
+            args.push('--no-verify');
+        }
         if (branch) {
-            await this.git.push(remote, branch);
-        } else {
-            await this.git.push();
+            args.push(remote, branch);
+        }
+        await this.runStreamingCommand(args, options.onOutput);
+    }
+
+    /**
+     * 检测实际生效的 hooks。husky 9 把 core.hooksPath 指向 `.husky/_`，其中为每种 hook 都生成了包装脚本，
+     * 只有 `.husky/` 下存在同名脚本的才算已安装。
+     */
+    async getHooksInfo(): Promise<GitHooksInfo> {
+        // --git-path 会按 core.hooksPath 解析
+        const directory = await this.resolveGitPath('hooks');
+        const huskyWrapper = path.basename(directory) === '_' && path.basename(path.dirname(directory)) === '.husky';
+        const entries = await fs.readdir(directory).catch(() => [] as string[]);
+
+        const hooks: string[] = [];
+        for (const name of entries.filter(entry => KNOWN_HOOKS.has(entry)).sort()) {
+            if (!(await this.isExecutable(path.join(directory, name)))) {
+                continue;
+            }
+            if (huskyWrapper && !(await this.pathExists(path.join(path.dirname(directory), name)))) {
+                continue;
+            }
+            hooks.push(name);
+        }
+
+        const managers: string[] = [];
+        if (directory.split(/[\\/]/).includes('.husky') || await this.pathExists(path.join(this.workspaceRoot, '.husky'))) {
+            managers.push('husky');
+        }
+        for (const config of LEFTHOOK_CONFIGS) {
+            if (await this.pathExists(path.join(this.workspaceRoot, config))) {
+                managers.push('lefthook');
+                break;
+            }
+        }
+        if (await this.pathExists(path.join(this.workspaceRoot, '.pre-commit-config.yaml'))) {
+            managers.push('pre-commit');
         }
+        return { directory, hooks, managers };
+    }
+
+    /**
+     * Git Console 中输入的命令。没有终端可交互：需要编辑器的命令直接失败，凭据也不做询问。
+     */
+    async runConsoleCommand(args: string[]): Promise<void> {
+        await this.runStreamingCommand(args, undefined, {
+            fromConsole: true,
+            env: { GIT_EDITOR: 'false', GIT_SEQUENCE_EDITOR: 'false', GIT_TERMINAL_PROMPT: '0' }
+        });
     }
 
     async pushTags(remote: string = 'origin'): Promise<void> {
@@ -175,17 +811,152 @@ export class GitService {
         return log.all.map(entry => this.mapLogEntry(entry));
     }
 
-    async getFileLog(filePath: string, maxCount: number = 100): Promise<GitCommit[]> {
-        const relativePath = path.relative(this.workspaceRoot, filePath);
+    /**
+     * Log 视图分页读取提交：按日期拓扑序输出，保证子提交总在父提交之前，便于前端增量计算分支图。
+     * 带路径过滤时开启父提交改写，使图中的连线跳过被过滤掉的提交。
+     */
+    async getLogPage(filter: GitLogFilter, skip: number, maxCount: number): Promise<GitCommit[]> {
+        // --max-count 需位于 `--` 之前，因此不经由 maxCount 选项传入
+        const args = ['--date-order', `--skip=${Math.max(0, skip)}`, `--max-count=${maxCount}`];
+        if (filter.author) {
+            args.push(`--author=${filter.author}`, '--regexp-ignore-case');
+        }
+        if (filter.text) {
+            args.push(`--grep=${filter.text}`, '--regexp-ignore-case', '--fixed-strings');
+        }
+        if (filter.since) {
+            args.push(`--since=${filter.since}`);
+        }
+        if (filter.until) {
+            args.push(`--until=${filter.until}`);
+        }
+        if (filter.path) {
+            args.push('--parents');
+        }
+        args.push(filter.branch || '--all');
+        if (filter.path) {
+            args.push('--', filter.path);
+        }
+
         const log = await this.runFormattedLog({
-            file: relativePath,
-            maxCount,
             format: this.getLogFormat()
-        });
+        }, args);
 
         return log.all.map(entry => this.mapLogEntry(entry));
     }
 
+    async getFileLog(filePath: string, maxCount: number = 100): Promise<GitCommit[]> {
+        return (await this.getFileHistory(filePath, maxCount)).map(revision => revision.commit);
+    }
+
+    /**
+     * 使用 `--follow` 跟踪重命名，逐个版本返回文件在该提交中的路径，供 File History 视图与父提交对比。
+     */
+    async getFileHistory(filePath: string, maxCount: number = 500): Promise<GitFileRevision[]> {
+        const gitPath = this.toGitPath(filePath);
+        const output = await this.git.raw([
+            'log',
+            '--follow',
+            '-M',
+            '--name-status',
+            `--max-count=${maxCount}`,
+            '--format=%x1e%H%x00%aI%x00%an%x00%ae%x00%P%x00%D%x00%s',
+            '--',
+            gitPath
+        ]);
+
+        const revisions: GitFileRevision[] = [];
+        // 从新到旧遍历，遇到重命名后用旧路径继续描述更早的版本
+        let currentPath = gitPath;
+        for (const record of output.split('\x1e')) {
+            const lines = record.split('\n');
+            const [hash, date, author, email, parents, refs, message] = lines[0].split('\0');
+            if (!hash) {
+                continue;
+            }
+
+            const statusLine = lines.slice(1).find(line => line.includes('\t'));
+            const [status = 'M', ...paths] = statusLine ? statusLine.split('\t') : [];
+            const renamed = (status.startsWith('R') || status.startsWith('C')) && paths.length >= 2;
+            const revisionPath = renamed ? paths[1] : paths[0] ?? currentPath;
+            const previousPath = renamed ? paths[0] : undefined;
+
+            revisions.push({
+                commit: {
+                    hash,
+                    abbrevHash: hash.substring(0, 7),
+                    author: author ?? '',
+                    email: email ?? '',
+                    date: date ? new Date(date) : new Date(),
+                    message: message ?? '',
+                    parents: (parents ?? '').split(' ').filter(Boolean),
+                    refs: (refs ?? '').split(',').map(ref => ref.trim()).filter(Boolean)
+                },
+                path: revisionPath,
+                status: status.charAt(0),
+                previousPath
+            });
+            currentPath = previousPath ?? revisionPath;
+        }
+
+        return revisions;
+    }
+
+    /**
+     * 读取 HEAD 或分支（refs/heads/...）的 reflog，由新到旧排列。
+     */
+    async getReflog(ref: string = 'HEAD', maxCount: number = 500): Promise<GitReflogEntry[]> {
+        // 多取一条，用于得到最后一条的移动前位置；--date=unix 让 %gd 中带上 reflog 自身的时间
+        const output = await this.git.raw([
+            'log',
+            '-g',
+            `--max-count=${maxCount + 1}`,
+            '--date=unix',
+            '--format=%H%x00%gd%x00%gs%x1e',
+            ref,
+            '--'
+        ]);
+
+        const name = ref.replace(/^refs\/heads\//, '');
+        const entries: GitReflogEntry[] = [];
+        for (const record of output.split('\x1e')) {
+            const [hash, selector, subject = ''] = record.replace(/^\s+/, '').split('\0');
+            if (!hash) {
+                continue;
+            }
+            const timestamp = Number(/@\{(\d+)\}$/.exec(selector ?? '')?.[1]);
+            const separator = subject.indexOf(': ');
+            const previous = entries[entries.length - 1];
+            if (previous) {
+                previous.previousHash = hash;
+            }
+            entries.push({
+                hash,
+                abbrevHash: hash.substring(0, 7),
+                selector: `${name}@{${entries.length}}`,
+                action: separator >= 0 ? subject.substring(0, separator) : subject,
+                message: separator >= 0 ? subject.substring(separator + 2) : '',
+                date: Number.isFinite(timestamp) ? new Date(timestamp * 1000) : new Date()
+            });
+        }
+
+        return entries.slice(0, maxCount);
+    }
+
+    async getRangeDiff(fromRef: string, toRef: string): Promise<string> {
+        return await this.git.diff([fromRef, toRef]);
+    }
+
+    /**
+     * 把文件恢复为指定版本的内容（按二进制读取），仅改动工作区，不暂存。
+     * revisionPath 为该版本中的仓库相对路径，文件被重命名过时与当前路径不同。
+     */
+    async restoreFileFromRevision(filePath: string, revision: string, revisionPath: string): Promise<void> {
+        const content = await this.git.binaryCatFile(['blob', `${revision}:${revisionPath}`]);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content);
+    }
+
     async getBranchLog(branchName: string, maxCount: number = 100): Promise<GitCommit[]> {
         const log = await this.runFormattedLog({
             maxCount,
@@ -238,8 +1009,13 @@ export class GitService {
         return await this.git.show([commitHash]);
     }
 
-    async getCommitFileChanges(commitHash: string): Promise<CommitFileChange[]> {
-        const output = await this.git.show(['--name-status', '--pretty=format:', commitHash]);
+    /**
+     * parentHash 为空时使用 `git show` 的默认比较；合并提交需要指定父提交才能列出相对该父提交的改动。
+     */
+    async getCommitFileChanges(commitHash: string, parentHash?: string): Promise<CommitFileChange[]> {
+        const output = parentHash
+            ? await this.git.raw(['diff', '--name-status', '-M', parentHash, commitHash, '--'])
+            : await this.git.show(['--name-status', '--pretty=format:', commitHash]);
         const lines = output.split('\n').map(line => line.trim()).filter(line => line.length > 0);
         const changes: CommitFileChange[] = [];
 
@@ -270,6 +1046,109 @@ export class GitService {
         return changes;
     }
 
+    async getCommitMessage(commitHash: string): Promise<string> {
+        const message = await this.git.raw(['log', '-1', '--format=%B', commitHash]);
+        return message.trimEnd();
+    }
+
+    async getCommitDetails(commitHash: string): Promise<GitCommitDetails> {
+        const fields = ['%H', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%P', '%D', '%G?', '%GS', '%GK', '%B'];
+        const output = await this.git.raw(['show', '-s', `--format=${fields.join('%x00')}`, commitHash, '--']);
+        const [hash, author, authorEmail, authorDate, committer, committerEmail, committerDate, parents, refs,
+            signatureCode, signer, key, ...messageParts] = output.split('\0');
+        if (!hash) {
+            throw new Error(`Unknown commit ${commitHash}`);
+        }
+
+        const message = messageParts.join('\0').trim();
+        const signatureStatuses: Record<string, GitSignatureStatus> = {
+            G: 'good',
+            B: 'bad',
+            U: 'untrusted',
+            X: 'expired',
+            Y: 'expired',
+            R: 'revoked',
+            E: 'unknown'
+        };
+
+        return {
+            hash: hash.trim(),
+            abbrevHash: hash.trim().substring(0, 7),
+            subject: message.split('\n')[0] ?? '',
+            message,
+            author,
+            authorEmail,
+            authorDate: new Date(authorDate),
+            committer,
+            committerEmail,
+            committerDate: new Date(committerDate),
+            parents: parents.split(' ').filter(Boolean),
+            refs: refs.split(',').map(ref => ref.trim()).filter(Boolean),
+            signature: {
+                status: signatureStatuses[signatureCode] ?? 'none',
+                signer: signer || undefined,
+                key: key || undefined
+            }
+        };
+    }
+
+    /**
+     * 在所有引用中查找直接子提交：只遍历该提交的后代（--ancestry-path），再筛选父列表包含它的提交。
+     * 大仓库中的老提交几乎要遍历全部历史；指定 timeoutMs 时超时即终止 git 并返回 undefined。
+     */
+    async getCommitChildren(commitHash: string, timeoutMs?: number): Promise<string[] | undefined> {
+        const args = ['rev-list', '--all', '--parents', '--ancestry-path', `^${commitHash}`];
+        const finish = GitCommandLog.start(args, this.workspaceRoot);
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', args, { cwd: this.workspaceRoot, stdio: ['ignore', 'pipe', 'pipe'] });
+            const children: string[] = [];
+            let pending = '';
+            let stderr = '';
+            let timedOut = false;
+            const timer = timeoutMs !== undefined
+                ? setTimeout(() => {
+                    timedOut = true;
+                    child.kill();
+                }, timeoutMs)
+                : undefined;
+            // 输出可能有上百万行，逐行筛选而不是整体缓存
+            const collect = (line: string) => {
+                const [hash, ...parents] = line.trim().split(' ');
+                if (hash && parents.includes(commitHash)) {
+                    children.push(hash);
+                }
+            };
+            child.stdout.on('data', (chunk: Buffer) => {
+                const lines = (pending + chunk.toString()).split('\n');
+                pending = lines.pop() ?? '';
+                lines.forEach(collect);
+            });
+            child.stderr.on('data', (chunk: Buffer) => {
+                stderr += chunk.toString();
+            });
+            child.on('error', error => {
+                clearTimeout(timer);
+                finish(null, error.message);
+                reject(error);
+            });
+            child.on('close', code => {
+                clearTimeout(timer);
+                if (timedOut) {
+                    finish(null, `Stopped after ${timeoutMs} ms`);
+                    resolve(undefined);
+                    return;
+                }
+                finish(code, stderr);
+                if (code === 0) {
+                    collect(pending);
+                    resolve(children);
+                } else {
+                    reject(new Error(stderr.trim() || `git exited with code ${code}`));
+                }
+            });
+        });
+    }
+
     async getCommitPatch(commitHash: string): Promise<string> {
         return await this.git.raw(['format-patch', '-1', commitHash, '--stdout']);
     }
@@ -290,6 +1169,12 @@ export class GitService {
         const summary: BranchSummary = await this.git.branch(['-a']);
         const branches: GitBranch[] = [];
         const trackingMap = await this.getBranchTrackingMap();
+        const worktrees = new Map<string, string>();
+        if (Object.values(summary.branches).some(info => info.linkedWorkTree)) {
+            (await this.getWorktrees().catch(() => [] as GitWorktree[]))
+                .filter(worktree => worktree.branch && !worktree.current)
+                .forEach(worktree => worktrees.set(worktree.branch!, worktree.path));
+        }
 
         for (const [name, info] of Object.entries(summary.branches)) {
             const isRemote = name.includes('remotes/');
@@ -302,7 +1187,8 @@ export class GitService {
                 commit: info.commit,
                 upstream: tracking?.upstream,
                 ahead: tracking?.ahead,
-                behind: tracking?.behind
+                behind: tracking?.behind,
+                worktree: !isRemote ? worktrees.get(name) : undefined
             });
         }
 
@@ -314,6 +1200,47 @@ export class GitService {
         return tagResult.all;
     }
 
+    /**
+     * 按创建时间由新到旧返回标签及其目标提交、创建者、说明与附注/签名状态。
+     */
+    async getTagDetails(): Promise<GitTag[]> {
+        const fields = [
+            '%(refname:strip=2)', '%(objecttype)', '%(objectname)', '%(*objectname)',
+            '%(taggername)', '%(taggeremail)', '%(creatordate:unix)',
+            '%(contents:subject)', '%(contents:body)', '%(contents:signature)'
+        ];
+        const output = await this.git.raw([
+            'for-each-ref', '--sort=-creatordate', `--format=${fields.join('%00')}%1e`, 'refs/tags'
+        ]);
+
+        return output.split('\x1e').map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+            const [name, type, objectName, peeled, tagger, email, timestamp, subject, body, signature] = record.split('\0');
+            const annotated = type === 'tag';
+            const message = annotated ? [subject, body?.trim()].filter(Boolean).join('\n\n') : undefined;
+            return {
+                name,
+                commit: peeled || objectName,
+                annotated,
+                signed: annotated && !!signature?.trim(),
+                tagger: tagger || undefined,
+                taggerEmail: email ? email.replace(/^<|>$/g, '') : undefined,
+                date: timestamp ? new Date(Number(timestamp) * 1000) : undefined,
+                message: message || undefined
+            };
+        });
+    }
+
+    /**
+     * 返回 HEAD 的完整哈希，空仓库返回 undefined；用作 blame 缓存的版本键。
+     */
+    async getHeadRevision(): Promise<string | undefined> {
+        try {
+            return (await this.git.raw(['rev-parse', '--verify', '-q', 'HEAD'])).trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
     async getCurrentBranch(): Promise<string> {
         const summary = await this.git.branch();
         return summary.current;
@@ -335,6 +1262,13 @@ export class GitService {
         await this.git.raw(['branch', branchName, commitHash]);
     }
 
+    /**
+     * 把未检出的分支指向指定提交（`git branch -f`），不影响工作区。
+     */
+    async moveBranch(branchName: string, commitHash: string): Promise<void> {
+        await this.git.raw(['branch', '-f', branchName, commitHash]);
+    }
+
     async checkoutBranch(branchName: string): Promise<void> {
         await this.git.checkout(branchName);
     }
@@ -347,22 +1281,426 @@ export class GitService {
         }
     }
 
-    async mergeBranch(branchName: string): Promise<void> {
-        await this.git.merge([branchName]);
+    async getWorktrees(): Promise<GitWorktree[]> {
+        const [output, topLevel] = await Promise.all([
+            this.git.raw(['worktree', 'list', '--porcelain']),
+            this.git.revparse(['--show-toplevel']).catch(() => this.workspaceRoot)
+        ]);
+        const current = path.resolve(topLevel.trim());
+
+        // 每个工作树是一段以空行分隔的 "key value" 行
+        return output.split(/\n\n+/).filter(block => block.trim()).map((block, index) => {
+            const worktree: GitWorktree = {
+                path: '',
+                detached: false,
+                bare: false,
+                main: index === 0,
+                current: false,
+                locked: false,
+                prunable: false
+            };
+            for (const line of block.split('\n')) {
+                const separator = line.indexOf(' ');
+                const key = separator === -1 ? line : line.substring(0, separator);
+                const value = separator === -1 ? '' : line.substring(separator + 1);
+                switch (key) {
+                    case 'worktree':
+                        worktree.path = path.resolve(value);
+                        break;
+                    case 'HEAD':
+                        worktree.head = value;
+                        break;
+                    case 'branch':
+                        worktree.branch = value.replace(/^refs\/heads\//, '');
+                        break;
+                    case 'detached':
+                        worktree.detached = true;
+                        break;
+                    case 'bare':
+                        worktree.bare = true;
+                        break;
+                    case 'locked':
+                        worktree.locked = true;
+                        worktree.lockReason = value || undefined;
+                        break;
+                    case 'prunable':
+                        worktree.prunable = true;
+                        worktree.prunableReason = value || undefined;
+                        break;
+                }
+            }
+            worktree.current = worktree.path === current;
+            return worktree;
+        });
     }
 
-    async rebase(branchName: string): Promise<void> {
-        await this.git.rebase([branchName]);
+    async addWorktree(worktreePath: string, source: GitWorktreeSource): Promise<void> {
+        switch (source.kind) {
+            case 'branch':
+                await this.git.raw(['worktree', 'add', worktreePath, source.branch]);
+                break;
+            case 'commit':
+                await this.git.raw(['worktree', 'add', '--detach', worktreePath, source.commit]);
+                break;
+            case 'newBranch':
+                await this.git.raw(['worktree', 'add', '-b', source.branch, worktreePath, source.startPoint]);
+                break;
+        }
     }
 
-    async createTag(tagName: string, startPoint?: string): Promise<void> {
-        if (startPoint) {
-            await this.git.raw(['tag', tagName, startPoint]);
+    async removeWorktree(worktreePath: string, force: boolean = false): Promise<void> {
+        await this.git.raw(['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath]);
+    }
+
+    async lockWorktree(worktreePath: string, reason?: string): Promise<void> {
+        await this.git.raw(['worktree', 'lock', ...(reason ? ['--reason', reason] : []), worktreePath]);
+    }
+
+    async unlockWorktree(worktreePath: string): Promise<void> {
+        await this.git.raw(['worktree', 'unlock', worktreePath]);
+    }
+
+    /**
+     * 清理目录已不存在的工作树记录，返回被清理的工作树。
+     * `--verbose` 的输出写在 stderr，这里改为比较清理前后的列表。
+     */
+    async pruneWorktrees(): Promise<GitWorktree[]> {
+        const prunable = (await this.getWorktrees()).filter(worktree => worktree.prunable);
+        await this.git.raw(['worktree', 'prune']);
+        const remaining = new Set((await this.getWorktrees()).map(worktree => worktree.path));
+        return prunable.filter(worktree => !remaining.has(worktree.path));
+    }
+
+    /**
+     * .gitmodules 中登记的子模块路径（相对仓库根目录），没有 .gitmodules 时为空。
+     */
+    async getSubmodulePaths(): Promise<string[]> {
+        return (await this.readGitmodules()).map(entry => entry.path);
+    }
+
+    async getSubmodules(): Promise<GitSubmodule[]> {
+        const entries = await this.readGitmodules();
+        if (entries.length === 0) {
+            return [];
+        }
+
+        const paths = entries.map(entry => entry.path);
+        const [recorded, staged, statusOutput] = await Promise.all([
+            // 空仓库没有 HEAD
+            this.readGitlinks(['ls-tree', '-z', 'HEAD', '--', ...paths]).catch(() => new Map<string, string>()),
+            this.readGitlinks(['ls-files', '-s', '-z', '--', ...paths]),
+            this.git.raw(['submodule', 'status', '--', ...paths]).catch(() => '')
+        ]);
+
+        // 前缀：'-' 未初始化，'+' 检出的提交与索引不同，'U' 有冲突，空格为一致
+        const states = new Map<string, { prefix: string; commit: string }>();
+        statusOutput.split('\n').forEach(line => {
+            const match = line.match(/^([ +\-U])([0-9a-f]+) (.+?)(?: \(.*\))?$/);
+            if (match) {
+                states.set(match[3], { prefix: match[1], commit: match[2] });
+            }
+        });
+
+        return entries.map(entry => {
+            const state = states.get(entry.path);
+            const initialized = !!state && state.prefix !== '-';
+            return {
+                ...entry,
+                recordedCommit: recorded.get(entry.path),
+                stagedCommit: staged.get(entry.path),
+                checkedOutCommit: initialized ? state!.commit : undefined,
+                initialized,
+                conflicted: state?.prefix === 'U'
+            };
+        });
+    }
+
+    /**
+     * 子模块指针从 from 移到 to 所跨越的提交，在子模块仓库中计算；from 为空表示新添加的子模块。
+     */
+    async getSubmoduleCommits(submodulePath: string, from: string | undefined, to: string): Promise<GitSubmoduleCommit[]> {
+        const git = GitService.createGit(path.join(this.workspaceRoot, submodulePath));
+        const output = await git.raw([
+            'log', '--left-right', '--max-count=200', '--format=%m%x00%H%x00%h%x00%s',
+            from ? `${from}...${to}` : to, '--'
+        ]);
+        return output.split('\n').filter(Boolean).map(line => {
+            const [mark, hash, abbrevHash, message] = line.split('\0');
+            return { hash, abbrevHash, message: message ?? '', direction: mark === '<' ? 'removed' as const : 'added' as const };
+        });
+    }
+
+    /**
+     * paths 为空时作用于全部子模块。
+     */
+    async initSubmodules(paths: string[] = []): Promise<void> {
+        await this.git.raw(['submodule', 'init', '--', ...paths]);
+    }
+
+    async updateSubmodules(paths: string[] = []): Promise<void> {
+        await this.git.raw(['submodule', 'update', '--init', '--', ...paths]);
+    }
+
+    async syncSubmodules(paths: string[] = []): Promise<void> {
+        await this.git.raw(['submodule', 'sync', '--', ...paths]);
+    }
+
+    async deinitSubmodules(paths: string[], force: boolean = false): Promise<void> {
+        await this.git.raw(['submodule', 'deinit', ...(force ? ['--force'] : []), '--', ...paths]);
+    }
+
+    private async readGitmodules(): Promise<{ name: string; path: string; url?: string; branch?: string }[]> {
+        if (!(await this.pathExists(path.join(this.workspaceRoot, '.gitmodules')))) {
+            return [];
+        }
+
+        // 每条记录为 "submodule.<name>.<key>\n<value>"，name 中可能含有点号
+        const output = await this.git.raw(['config', '-z', '-f', '.gitmodules', '--get-regexp', '^submodule\\.']).catch(() => '');
+        const entries = new Map<string, { name: string; path?: string; url?: string; branch?: string }>();
+        output.split('\0').filter(Boolean).forEach(record => {
+            const newline = record.indexOf('\n');
+            const key = newline === -1 ? record : record.substring(0, newline);
+            const value = newline === -1 ? '' : record.substring(newline + 1);
+            const dot = key.lastIndexOf('.');
+            const name = key.substring('submodule.'.length, dot);
+            const variable = key.substring(dot + 1);
+            const entry = entries.get(name) ?? { name };
+            if (variable === 'path' || variable === 'url' || variable === 'branch') {
+                entry[variable] = value;
+            }
+            entries.set(name, entry);
+        });
+
+        return Array.from(entries.values())
+            .filter((entry): entry is { name: string; path: string; url?: string; branch?: string } => !!entry.path);
+    }
+
+    /**
+     * 解析 ls-tree / ls-files -s 的输出，返回 gitlink（mode 160000）路径到提交的映射。
+     */
+    private async readGitlinks(args: string[]): Promise<Map<string, string>> {
+        const output = await this.git.raw(args);
+        const gitlinks = new Map<string, string>();
+        output.split('\0').filter(Boolean).forEach(record => {
+            const tab = record.indexOf('\t');
+            const meta = record.substring(0, tab).split(' ');
+            if (meta[0] === '160000') {
+                const commit = meta.find(part => /^[0-9a-f]{40,64}$/.test(part));
+                if (commit) {
+                    gitlinks.set(record.substring(tab + 1), commit);
+                }
+            }
+        });
+        return gitlinks;
+    }
+
+    async mergeBranch(branchName: string): Promise<void> {
+        await this.git.merge([branchName]);
+    }
+
+    async rebase(branchName: string): Promise<void> {
+        await this.git.rebase([branchName]);
+    }
+
+    /**
+     * 以给定的 todo 列表执行 `git rebase -i`，baseRef 为空时从根提交开始。
+     * reword 通过 `exec git commit --amend -F` 写入新信息，因此全程不会弹出编辑器。
+     */
+    async interactiveRebase(baseRef: string | undefined, entries: GitRebaseTodoEntry[]): Promise<void> {
+        if (entries.length === 0) {
+            throw new Error('Nothing to rebase');
+        }
+        const invalid = entries.find(entry => !GitService.isRebaseTodoEntry(entry));
+        if (invalid) {
+            throw new Error(`Invalid rebase todo entry: ${JSON.stringify(invalid)}`);
+        }
+        if (entries[0].action === 'squash' || entries[0].action === 'fixup') {
+            throw new Error('The first commit cannot be squashed or fixed up');
+        }
+
+        const workDir = await this.resolveGitPath('vigit-rebase');
+        await fs.rm(workDir, { recursive: true, force: true });
+        await fs.mkdir(workDir, { recursive: true });
+
+        const todo: string[] = [];
+        for (const [index, entry] of entries.entries()) {
+            const message = entry.message?.trim();
+            if (entry.action === 'reword' && message) {
+                const messageFile = path.join(workDir, `message-${index}.txt`);
+                await fs.writeFile(messageFile, `${message}\n`, 'utf8');
+                todo.push(`pick ${entry.hash}`);
+                todo.push(`exec git commit --amend --allow-empty --no-verify -q -F ${this.quoteShellArg(messageFile)}`);
+            } else {
+                todo.push(`${entry.action === 'reword' ? 'pick' : entry.action} ${entry.hash}`);
+            }
+        }
+
+        const todoFile = path.join(workDir, 'git-rebase-todo');
+        await fs.writeFile(todoFile, `${todo.join('\n')}\n`, 'utf8');
+
+        const args = ['rebase', '-i', baseRef ?? '--root'];
+        try {
+            await this.runRebaseCommand(args, `cp ${this.quoteShellArg(todoFile)}`);
+        } finally {
+            await this.cleanupRebaseFiles();
+        }
+    }
+
+    async continueRebase(): Promise<void> {
+        try {
+            await this.runRebaseCommand(['rebase', '--continue']);
+        } finally {
+            await this.cleanupRebaseFiles();
+        }
+    }
+
+    async skipRebase(): Promise<void> {
+        try {
+            await this.runRebaseCommand(['rebase', '--skip']);
+        } finally {
+            await this.cleanupRebaseFiles();
+        }
+    }
+
+    async abortRebase(): Promise<void> {
+        try {
+            await this.git.raw(['rebase', '--abort']);
+        } finally {
+            await this.cleanupRebaseFiles();
+        }
+    }
+
+    async isRebaseInProgress(): Promise<boolean> {
+        return (await this.getRebaseProgress()) !== undefined;
+    }
+
+    async getRebaseProgress(): Promise<GitRebaseProgress | undefined> {
+        for (const dir of ['rebase-merge', 'rebase-apply']) {
+            const stateDir = await this.resolveGitPath(dir);
+            if (!(await this.pathExists(stateDir))) {
+                continue;
+            }
+
+            const read = async (name: string) =>
+                (await fs.readFile(path.join(stateDir, name), 'utf8').catch(() => '')).trim();
+            const step = parseInt(await read(dir === 'rebase-merge' ? 'msgnum' : 'next'), 10);
+            const total = parseInt(await read(dir === 'rebase-merge' ? 'end' : 'last'), 10);
+            const stoppedAt = await read('stopped-sha');
+            return {
+                step: Number.isNaN(step) ? 0 : step,
+                total: Number.isNaN(total) ? 0 : total,
+                stoppedAt: stoppedAt || undefined
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * 按 git status 的判断顺序读取 .git 下的标记文件，识别尚未完成的 merge/rebase/cherry-pick/revert/bisect。
+     */
+    async getOperationState(): Promise<GitOperationState | undefined> {
+        const progress = await this.getRebaseProgress();
+        if (progress) {
+            const stateDir = await this.resolveGitPath(
+                (await this.pathExists(await this.resolveGitPath('rebase-merge'))) ? 'rebase-merge' : 'rebase-apply'
+            );
+            const headName = (await fs.readFile(path.join(stateDir, 'head-name'), 'utf8').catch(() => '')).trim();
+            return {
+                kind: 'rebase',
+                target: await this.readOperationHead('REBASE_HEAD'),
+                branch: headName && headName !== 'detached HEAD' ? headName.replace(/^refs\/heads\//, '') : undefined,
+                progress,
+                actions: ['continue', 'skip', 'abort']
+            };
+        }
+
+        if (await this.pathExists(await this.resolveGitPath('MERGE_HEAD'))) {
+            return { kind: 'merge', target: await this.readOperationHead('MERGE_HEAD'), actions: ['continue', 'abort'] };
+        }
+
+        const sequencerKind = await this.readSequencerKind();
+        for (const kind of ['cherry-pick', 'revert'] as const) {
+            const headFile = kind === 'cherry-pick' ? 'CHERRY_PICK_HEAD' : 'REVERT_HEAD';
+            if (await this.pathExists(await this.resolveGitPath(headFile))) {
+                return { kind, target: await this.readOperationHead(headFile), actions: ['continue', 'skip', 'abort'] };
+            }
+            if (sequencerKind === kind) {
+                return { kind, actions: ['continue', 'skip', 'abort'] };
+            }
+        }
+
+        if (await this.pathExists(await this.resolveGitPath('BISECT_LOG'))) {
+            return { kind: 'bisect', target: await this.readOperationHead('HEAD'), actions: ['skip', 'abort'] };
+        }
+
+        return undefined;
+    }
+
+    async continueOperation(kind: GitOperationKind): Promise<void> {
+        switch (kind) {
+            case 'rebase':
+                return this.continueRebase();
+            case 'bisect':
+                throw new Error('Bisect cannot be continued; mark the commit as good, bad or skip it');
+            default:
+                await this.runRebaseCommand([kind, '--continue']);
+        }
+    }
+
+    async skipOperation(kind: GitOperationKind): Promise<void> {
+        switch (kind) {
+            case 'rebase':
+                return this.skipRebase();
+            case 'merge':
+                throw new Error('A merge cannot be skipped');
+            case 'bisect':
+                await this.git.raw(['bisect', 'skip']);
+                return;
+            default:
+                await this.runRebaseCommand([kind, '--skip']);
+        }
+    }
+
+    async abortOperation(kind: GitOperationKind): Promise<void> {
+        switch (kind) {
+            case 'rebase':
+                return this.abortRebase();
+            case 'bisect':
+                await this.git.raw(['bisect', 'reset']);
+                return;
+            default:
+                await this.git.raw([kind, '--abort']);
+        }
+    }
+
+    async isAncestor(ancestor: string, descendant: string = 'HEAD'): Promise<boolean> {
+        try {
+            await this.git.raw(['merge-base', '--is-ancestor', ancestor, descendant]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async createTag(tagName: string, startPoint?: string, options: GitTagOptions = {}): Promise<void> {
+        if (options.sign || options.message !== undefined) {
+            const args = ['tag', options.sign ? '-s' : '-a', '-m', options.message ?? '', tagName];
+            await this.git.raw(startPoint ? [...args, startPoint] : args);
+        } else if (startPoint) {
+            await this.git.raw(['tag', tagName, startPoint]);
         } else {
             await this.git.addTag(tagName);
         }
     }
 
+    async deleteTag(tagName: string): Promise<void> {
+        await this.git.raw(['tag', '-d', tagName]);
+    }
+
+    async deleteRemoteTag(remote: string, tagName: string): Promise<void> {
+        await this.git.raw(['push', remote, '--delete', `refs/tags/${tagName}`]);
+    }
+
     async cherryPick(commitHash: string): Promise<void> {
         await this.git.raw(['cherry-pick', commitHash]);
     }
@@ -371,9 +1709,171 @@ export class GitService {
         await this.git.reset([`--${mode}`, target]);
     }
 
-    async getBlame(filePath: string): Promise<string> {
-        const relativePath = path.relative(this.workspaceRoot, filePath);
-        return await this.git.raw(['blame', relativePath]);
+    /**
+     * 把引用解析为提交哈希，不存在时返回 undefined。
+     */
+    async resolveCommit(ref: string): Promise<string | undefined> {
+        try {
+            return (await this.git.raw(['rev-parse', '--verify', '-q', `${ref}^{commit}`])).trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async objectExists(hash: string): Promise<boolean> {
+        try {
+            await this.git.raw(['cat-file', '-e', hash]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 工作区相对索引有改动的已跟踪文件（含已删除的），参数可以是目录。
+     */
+    async getUnstagedPaths(filePaths: string[]): Promise<string[]> {
+        if (filePaths.length === 0) {
+            return [];
+        }
+        const output = await this.git.raw(['diff', '--name-only', '-z', '--', ...filePaths.map(p => this.toGitPath(p) || '.')]);
+        return output.split('\0').filter(Boolean).map(p => path.join(this.workspaceRoot, p));
+    }
+
+    /**
+     * 检出 target 时会被覆盖的本地改动：已跟踪文件中相对 HEAD 有改动（含已暂存），以及未忽略的未跟踪文件，
+     * 且该路径在 target 中内容不同。git 每次只报告一类冲突文件，这里一次性算出全部。
+     */
+    async getCheckoutConflicts(target: string): Promise<string[]> {
+        const [local, untracked, changed] = await Promise.all([
+            this.git.raw(['diff', '--name-only', '-z', 'HEAD', '--']),
+            this.git.raw(['ls-files', '--others', '--exclude-standard', '-z']),
+            this.git.raw(['diff', '--name-only', '-z', 'HEAD', target, '--'])
+        ]);
+        const targetPaths = new Set(changed.split('\0').filter(Boolean));
+        return [...local.split('\0'), ...untracked.split('\0')]
+            .filter(p => p && targetPaths.has(p))
+            .map(p => path.join(this.workspaceRoot, p));
+    }
+
+    /**
+     * 返回给定文件中未被跟踪的那些（不论是否被忽略）。
+     */
+    async getUntrackedPaths(filePaths: string[]): Promise<string[]> {
+        if (filePaths.length === 0) {
+            return [];
+        }
+        const output = await this.git.raw(['ls-files', '--others', '-z', '--', ...filePaths.map(p => this.toGitPath(p))]);
+        return output.split('\0').filter(Boolean).map(p => path.join(this.workspaceRoot, p));
+    }
+
+    /**
+     * 未跟踪文件以 new file 形式生成可用 `git apply` 应用的补丁：临时以 intent-to-add 登记到索引，完成后移除。
+     */
+    async getUntrackedFileDiff(filePath: string): Promise<string> {
+        const gitPath = this.toGitPath(filePath);
+        await this.git.raw(['add', '--intent-to-add', '--', gitPath]);
+        try {
+            return await this.git.diff(['--binary', '--', gitPath]);
+        } finally {
+            await this.git.raw(['rm', '--cached', '--quiet', '--', gitPath]);
+        }
+    }
+
+    /**
+     * 按文件原始字节计算 blob 哈希；write 为 true 时写入对象库。
+     * 使用 --no-filters，恢复时原样写回即可得到同样的内容。
+     */
+    async hashFiles(filePaths: string[], write: boolean = false): Promise<string[]> {
+        if (filePaths.length === 0) {
+            return [];
+        }
+        const args = ['hash-object', '--no-filters', ...(write ? ['-w'] : []), '--', ...filePaths.map(p => this.toGitPath(p))];
+        return (await this.git.raw(args)).split(/\r?\n/).filter(Boolean);
+    }
+
+    async readBlob(hash: string): Promise<Buffer> {
+        return await this.git.showBuffer([hash]);
+    }
+
+    /**
+     * 把当前索引写成 tree 对象，存在未解决冲突时返回 undefined。
+     */
+    async writeIndexTree(): Promise<string | undefined> {
+        try {
+            return (await this.git.raw(['write-tree'])).trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async readIndexTree(tree: string): Promise<void> {
+        await this.git.raw(['read-tree', tree]);
+    }
+
+    /**
+     * 以 `git stash create` 保存已跟踪文件的改动（含索引），不修改任何引用；没有改动时返回 undefined。
+     */
+    async createStashSnapshot(): Promise<string | undefined> {
+        return (await this.git.raw(['stash', 'create'])).trim() || undefined;
+    }
+
+    async applyStashSnapshot(hash: string): Promise<void> {
+        await this.git.stash(['apply', '--index', hash]);
+    }
+
+    async hasTrackedChanges(): Promise<boolean> {
+        return (await this.git.raw(['status', '--porcelain', '--untracked-files=no'])).trim().length > 0;
+    }
+
+    async setUpstream(branchName: string, upstream: string): Promise<void> {
+        await this.git.raw(['branch', `--set-upstream-to=${upstream}`, branchName]);
+    }
+
+    /**
+     * 基于 `git blame --porcelain` 解析逐行归属。
+     * revision 用于注解历史版本；contents 为编辑器中尚未保存的内容，通过 --contents 让结果与编辑同步。
+     */
+    async getBlame(filePath: string, options?: { revision?: string; contents?: string }): Promise<GitBlame> {
+        const gitPath = this.toGitPath(filePath);
+        const args = ['blame', '--porcelain'];
+        let workDir: string | undefined;
+
+        try {
+            if (options?.revision) {
+                args.push(options.revision);
+            } else if (options?.contents !== undefined) {
+                workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vigit-blame-'));
+                const contentsPath = path.join(workDir, path.basename(filePath));
+                await fs.writeFile(contentsPath, options.contents, 'utf8');
+                args.push('--contents', contentsPath);
+            }
+            args.push('--', gitPath);
+            return this.parseBlamePorcelain(await this.git.raw(args));
+        } finally {
+            if (workDir) {
+                await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+            }
+        }
+    }
+
+    /**
+     * 批量读取完整提交信息，blame 悬停提示需要 porcelain 输出之外的正文。
+     */
+    async getCommitMessages(hashes: string[]): Promise<Map<string, string>> {
+        const messages = new Map<string, string>();
+        const unique = Array.from(new Set(hashes.filter(hash => /^[0-9a-f]{7,40}$/i.test(hash) && !/^0+$/.test(hash))));
+        // 分批调用，避免提交过多时命令行超长
+        for (let i = 0; i < unique.length; i += 200) {
+            const output = await this.git.raw(['show', '-s', '--format=%H%x00%B%x1e', ...unique.slice(i, i + 200), '--']);
+            for (const record of output.split('\x1e')) {
+                const [hash, body] = record.replace(/^\s+/, '').split('\0');
+                if (hash && body !== undefined) {
+                    messages.set(hash, body.trim());
+                }
+            }
+        }
+        return messages;
     }
 
     async stash(message?: string): Promise<void> {
@@ -384,9 +1884,17 @@ export class GitService {
         }
     }
 
+    /**
+     * 只 stash 指定文件的改动（含已暂存的部分与未跟踪文件），返回新 stash 的提交哈希。
+     */
+    async stashFiles(message: string, filePaths: string[]): Promise<string> {
+        await this.git.stash(['push', '--include-untracked', '-m', message, '--', ...filePaths.map(p => this.toGitPath(p))]);
+        return (await this.git.raw(['rev-parse', 'stash@{0}'])).trim();
+    }
+
     async stashPop(stashId?: string): Promise<void> {
         if (stashId) {
-            await this.git.stash(['pop', stashId]);
+            await this.git.stash(['pop', await this.toStashRef(stashId)]);
         } else {
             await this.git.stash(['pop']);
         }
@@ -401,7 +1909,18 @@ export class GitService {
     }
 
     async stashDrop(stashId: string): Promise<void> {
-        await this.git.stash(['drop', stashId]);
+        await this.git.stash(['drop', await this.toStashRef(stashId)]);
+    }
+
+    /**
+     * 把丢弃的 stash 提交重新登记到 stash 列表顶部。
+     */
+    async stashStore(hash: string, message: string): Promise<void> {
+        await this.git.stash(['store', '-m', message, hash]);
+    }
+
+    async getStashHashes(): Promise<string[]> {
+        return (await this.git.raw(['stash', 'list', '--format=%H'])).split(/\r?\n/).filter(Boolean);
     }
 
     async getStashList(): Promise<GitStashEntry[]> {
@@ -469,6 +1988,17 @@ export class GitService {
         return new Date();
     }
 
+    /**
+     * Stash 视图传入的是 stash 提交哈希，`git stash drop/pop` 只接受 stash@{n} 形式的引用。
+     */
+    private async toStashRef(stashId: string): Promise<string> {
+        if (stashId.includes('@{')) {
+            return stashId;
+        }
+        const index = (await this.getStashHashes()).findIndex(hash => hash.startsWith(stashId));
+        return index >= 0 ? `stash@{${index}}` : stashId;
+    }
+
     private async getBranchTrackingMap(): Promise<Map<string, { upstream?: string; ahead?: number; behind?: number }>> {
         const map = new Map<string, { upstream?: string; ahead?: number; behind?: number }>();
         try {
@@ -513,6 +2043,433 @@ export class GitService {
         return map;
     }
 
+    private async readIndexStage(gitPath: string, stage: number): Promise<Buffer | undefined> {
+        try {
+            return await this.git.showBuffer([`:${stage}:${gitPath}`]);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private isUtf8(content: Buffer): boolean {
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(content);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private hasUtf16Bom(content: Buffer): boolean {
+        return content.length >= 2
+            && ((content[0] === 0xff && content[1] === 0xfe) || (content[0] === 0xfe && content[1] === 0xff));
+    }
+
+    private async describeConflictRef(refs: string[]): Promise<string> {
+        for (const ref of refs) {
+            try {
+                const hash = (await this.git.raw(['rev-parse', '--short', '--verify', '-q', ref])).trim();
+                if (hash) {
+                    return `${ref} ${hash}`;
+                }
+            } catch {
+                // 该引用不存在时继续尝试下一个
+            }
+        }
+        return refs[0];
+    }
+
+    private parseConflictChunks(merged: string): GitConflictChunk[] {
+        const chunks: GitConflictChunk[] = [];
+        const lines = merged.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+        let stable = '';
+        let current: { ours: string; base: string; theirs: string } | undefined;
+        let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+        for (const line of lines) {
+            if (!current && line.startsWith('<<<<<<< ours')) {
+                if (stable) {
+                    chunks.push({ type: 'stable', text: stable });
+                    stable = '';
+                }
+                current = { ours: '', base: '', theirs: '' };
+                section = 'ours';
+            } else if (current && section === 'ours' && line.startsWith('||||||| base')) {
+                section = 'base';
+            } else if (current && section !== 'theirs' && /^=======\r?\n?$/.test(line)) {
+                section = 'theirs';
+            } else if (current && section === 'theirs' && line.startsWith('>>>>>>> theirs')) {
+                chunks.push({ type: 'conflict', ...current });
+                current = undefined;
+            } else if (current) {
+                current[section] += line;
+            } else {
+                stable += line;
+            }
+        }
+
+        if (stable) {
+            chunks.push({ type: 'stable', text: stable });
+        }
+        return chunks;
+    }
+
+    private async isTracked(gitPath: string): Promise<boolean> {
+        const output = await this.git.raw(['ls-files', '--', gitPath]);
+        return output.trim().length > 0;
+    }
+
+    private async buildUntrackedFileDiff(filePath: string, gitPath: string): Promise<GitFileDiff | undefined> {
+        const absolutePath = path.isAbsolute(filePath) ? filePath : path.join(this.workspaceRoot, filePath);
+        const [content, stat] = await Promise.all([
+            fs.readFile(absolutePath, 'utf8'),
+            fs.stat(absolutePath)
+        ]);
+        const mode = (stat.mode & 0o111) !== 0 ? '100755' : '100644';
+        const headerLines = [
+            `diff --git a/${gitPath} b/${gitPath}`,
+            `new file mode ${mode}`,
+            '--- /dev/null',
+            `+++ b/${gitPath}`
+        ];
+
+        if (content.length === 0 || content.includes('\0')) {
+            return { filePath: gitPath, headerLines, hunks: [], partialSupported: false };
+        }
+
+        const rawLines = content.split('\n');
+        const endsWithNewline = rawLines[rawLines.length - 1] === '';
+        if (endsWithNewline) {
+            rawLines.pop();
+        }
+
+        const lines: GitDiffLine[] = rawLines.map((line, index) => ({
+            type: 'add',
+            content: line,
+            newLine: index + 1
+        }));
+        if (!endsWithNewline) {
+            lines.push({ type: 'noNewline', content: ' No newline at end of file' });
+        }
+
+        const header = `@@ -0,0 +1,${rawLines.length} @@`;
+        return {
+            filePath: gitPath,
+            headerLines,
+            hunks: [{
+                index: 0,
+                header,
+                oldStart: 0,
+                oldLines: 0,
+                newStart: 1,
+                newLines: rawLines.length,
+                lines
+            }],
+            partialSupported: true
+        };
+    }
+
+    private parseFileDiff(gitPath: string, raw: string): GitFileDiff {
+        const rawLines = raw.split('\n');
+        if (rawLines[rawLines.length - 1] === '') {
+            rawLines.pop();
+        }
+
+        const headerLines: string[] = [];
+        const hunks: GitDiffHunk[] = [];
+        let current: GitDiffHunk | undefined;
+        let oldLine = 0;
+        let newLine = 0;
+        let binary = false;
+
+        for (const line of rawLines) {
+            const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (hunkMatch) {
+                current = {
+                    index: hunks.length,
+                    header: line,
+                    oldStart: Number(hunkMatch[1]),
+                    oldLines: hunkMatch[2] !== undefined ? Number(hunkMatch[2]) : 1,
+                    newStart: Number(hunkMatch[3]),
+                    newLines: hunkMatch[4] !== undefined ? Number(hunkMatch[4]) : 1,
+                    lines: []
+                };
+                hunks.push(current);
+                oldLine = current.oldStart;
+                newLine = current.newStart;
+                continue;
+            }
+
+            if (!current) {
+                if (line.startsWith('Binary files') || line === 'GIT binary patch') {
+                    binary = true;
+                }
+                headerLines.push(line);
+                continue;
+            }
+
+            const marker = line.charAt(0);
+            const content = line.substring(1);
+            if (marker === '+') {
+                current.lines.push({ type: 'add', content, newLine: newLine++ });
+            } else if (marker === '-') {
+                current.lines.push({ type: 'remove', content, oldLine: oldLine++ });
+            } else if (marker === '\\') {
+                current.lines.push({ type: 'noNewline', content });
+            } else {
+                current.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+            }
+        }
+
+        const deleted = headerLines.some(line => line.startsWith('deleted file mode'));
+        return {
+            filePath: gitPath,
+            headerLines,
+            hunks,
+            partialSupported: !binary && !deleted && hunks.length > 0
+        };
+    }
+
+    /**
+     * 生成只包含所选行的补丁：未选中的新增行被丢弃，未选中的删除行转为上下文行，
+     * 并按已包含 hunk 的行数差重新计算 hunk 头。
+     */
+    private buildPartialPatch(diff: GitFileDiff, selections: GitHunkSelection[]): string | undefined {
+        const selectionMap = new Map(selections.map(selection => [selection.hunkIndex, selection]));
+        const output = [...diff.headerLines];
+        let delta = 0;
+        let included = 0;
+
+        for (const hunk of diff.hunks) {
+            const selection = selectionMap.get(hunk.index);
+            if (!selection) {
+                continue;
+            }
+            if (selection.header && selection.header !== hunk.header) {
+                throw new Error(`${diff.filePath} changed since its hunks were loaded, refresh and try again`);
+            }
+
+            const chosen = selection.lineIndexes ? new Set(selection.lineIndexes) : undefined;
+            const body: string[] = [];
+            let oldCount = 0;
+            let newCount = 0;
+            let changes = 0;
+            let previousKept = true;
+
+            hunk.lines.forEach((line, index) => {
+                const isChosen = !chosen || chosen.has(index);
+                switch (line.type) {
+                    case 'context':
+                        body.push(` ${line.content}`);
+                        oldCount++;
+                        newCount++;
+                        previousKept = true;
+                        break;
+                    case 'add':
+                        previousKept = isChosen;
+                        if (isChosen) {
+                            body.push(`+${line.content}`);
+                            newCount++;
+                            changes++;
+                        }
+                        break;
+                    case 'remove':
+                        if (isChosen) {
+                            body.push(`-${line.content}`);
+                            oldCount++;
+                            changes++;
+                        } else {
+                            body.push(` ${line.content}`);
+                            oldCount++;
+                            newCount++;
+                        }
+                        previousKept = true;
+                        break;
+                    case 'noNewline':
+                        if (previousKept) {
+                            body.push(`\\${line.content}`);
+                        }
+                        break;
+                }
+            });
+
+            if (changes === 0) {
+                continue;
+            }
+
+            const newStart = hunk.oldStart + delta + (oldCount === 0 ? 1 : 0) - (newCount === 0 ? 1 : 0);
+            output.push(`@@ -${hunk.oldStart},${oldCount} +${Math.max(newStart, 0)},${newCount} @@`);
+            output.push(...body);
+            delta += newCount - oldCount;
+            included++;
+        }
+
+        return included > 0 ? `${output.join('\n')}\n` : undefined;
+    }
+
+    /**
+     * 把补丁应用到工作区；threeWay 为 true 时使用 `--3way`，无法干净应用的文件留下冲突标记并记为未合并。
+     */
+    async applyPatch(patch: string, options: { threeWay?: boolean } = {}): Promise<void> {
+        const tempFile = path.join(os.tmpdir(), `vigit-${process.pid}-${Date.now()}.patch`);
+        await fs.writeFile(tempFile, patch, 'utf8');
+        try {
+            await this.git.raw(['apply', ...(options.threeWay ? ['--3way'] : []), tempFile]);
+        } finally {
+            await fs.unlink(tempFile).catch(() => undefined);
+        }
+    }
+
+    private async applyPatchToIndex(patch: string): Promise<void> {
+        const tempFile = path.join(os.tmpdir(), `vigit-${process.pid}-${Date.now()}.patch`);
+        await fs.writeFile(tempFile, patch, 'utf8');
+        try {
+            await this.git.raw(['apply', '--cached', '--whitespace=nowarn', tempFile]);
+        } finally {
+            await fs.unlink(tempFile).catch(() => undefined);
+        }
+    }
+
+    private async resetIndexEntry(gitPath: string): Promise<void> {
+        try {
+            await this.git.raw(['reset', '-q', 'HEAD', '--', gitPath]);
+        } catch {
+            // 尚无 HEAD（首个提交前）时只能把文件移出暂存区
+            await this.git.raw(['rm', '--cached', '-q', '--ignore-unmatch', '--', gitPath]);
+        }
+    }
+
+    /**
+     * 直接调用 git 以便注入编辑器环境变量；':' 让 git 接受默认的 squash/继续提交信息，避免等待编辑器。
+     * merge/cherry-pick/revert 的 --continue 同样依赖这一点。
+     */
+    private runRebaseCommand(args: string[], sequenceEditor?: string): Promise<string> {
+        const env: NodeJS.ProcessEnv = { ...process.env, GIT_EDITOR: ':' };
+        if (sequenceEditor) {
+            env.GIT_SEQUENCE_EDITOR = sequenceEditor;
+        }
+
+        const finish = GitCommandLog.start(args, this.workspaceRoot);
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd: this.workspaceRoot, env, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+                finish(error ? (typeof error.code === 'number' ? error.code : null) : 0, String(stderr));
+                if (error) {
+                    reject(new Error(String(stderr || stdout || error.message).trim()));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    /**
+     * 提交与推送会触发 hook：逐段转发输出，且任何非零退出都视为失败。
+     * simple-git 只在同时有 stderr 输出时才报错，静默失败的 hook 会被当作成功。
+     */
+    private runStreamingCommand(
+        args: string[],
+        onOutput?: GitOutputListener,
+        options: { fromConsole?: boolean; env?: NodeJS.ProcessEnv } = {}
+    ): Promise<string> {
+        const finish = GitCommandLog.start(args, this.workspaceRoot, options.fromConsole);
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', args, {
+                cwd: this.workspaceRoot,
+                env: options.env ? { ...process.env, ...options.env } : undefined,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+            let stdout = '';
+            let stderr = '';
+            let output = '';
+            const forward = (text: string) => {
+                output += text;
+                onOutput?.(text);
+            };
+            child.stdout.on('data', (chunk: Buffer) => {
+                stdout += chunk.toString();
+                forward(chunk.toString());
+            });
+            child.stderr.on('data', (chunk: Buffer) => {
+                stderr += chunk.toString();
+                forward(chunk.toString());
+            });
+            child.on('error', error => {
+                finish(null, error.message);
+                reject(error);
+            });
+            child.on('close', code => {
+                finish(code, stderr, stdout);
+                if (code === 0) {
+                    resolve(stdout);
+                } else {
+                    const message = (stderr || stdout).trim() || `git exited with code ${code}`;
+                    reject(new GitCommandError(message, output, code));
+                }
+            });
+        });
+    }
+
+    private async cleanupRebaseFiles(): Promise<void> {
+        if (await this.isRebaseInProgress()) {
+            return;
+        }
+        const workDir = await this.resolveGitPath('vigit-rebase');
+        await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    private async readOperationHead(ref: string): Promise<string | undefined> {
+        try {
+            return (await this.git.raw(['rev-parse', '--short', '--verify', '-q', ref])).trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 多提交 cherry-pick/revert 在两次停止之间只留下 sequencer/todo，需要根据其首条指令判断操作类型。
+     */
+    private async readSequencerKind(): Promise<'cherry-pick' | 'revert' | undefined> {
+        const todoFile = await this.resolveGitPath('sequencer/todo');
+        const todo = await fs.readFile(todoFile, 'utf8').catch(() => '');
+        const command = todo.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('#'))?.split(/\s+/)[0];
+        if (command === 'pick' || command === 'p') {
+            return 'cherry-pick';
+        }
+        if (command === 'revert') {
+            return 'revert';
+        }
+        return undefined;
+    }
+
+    private async resolveGitPath(name: string): Promise<string> {
+        const gitPath = (await this.git.raw(['rev-parse', '--git-path', name])).trim();
+        return path.resolve(this.workspaceRoot, gitPath);
+    }
+
+    private async pathExists(target: string): Promise<boolean> {
+        try {
+            await fs.access(target);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /** Windows 下 X_OK 等同于存在性检查，git 同样不看可执行位 */
+    private async isExecutable(target: string): Promise<boolean> {
+        try {
+            await fs.access(target, fsConstants.X_OK);
+            return (await fs.stat(target)).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    private quoteShellArg(value: string): string {
+        // git 通过 sh 执行编辑器与 exec 命令，Windows 下同样使用正斜杠路径
+        return `'${value.split(path.sep).join('/').replace(/'/g, `'\\''`)}'`;
+    }
+
     private getLogFormat(): Record<string, string> {
         return {
             hash: '%H',
@@ -529,11 +2486,12 @@ export class GitService {
         options?: Parameters<SimpleGit['log']>[0],
         customArgs?: string[]
     ): Promise<LogResult<Record<string, string>>> {
+        // simple-git 只从首个数组参数读取自定义参数，选项对象必须放在其后
         const logFn = this.git.log as unknown as (
-            options?: Parameters<SimpleGit['log']>[0],
-            customArgs?: string[]
+            customArgs: string[],
+            options?: Parameters<SimpleGit['log']>[0]
         ) => Promise<LogResult<Record<string, string>>>;
-        return logFn.call(this.git, options, customArgs);
+        return logFn.call(this.git, customArgs ?? [], options);
     }
 
     private mapLogEntry(entry: any): GitCommit {
@@ -557,6 +2515,90 @@ export class GitService {
         };
     }
 
+    private parseBlamePorcelain(output: string): GitBlame {
+        const commits = new Map<string, GitBlameCommit>();
+        const lines: string[] = [];
+        let current: GitBlameCommit | undefined;
+        let finalLine = -1;
+
+        for (const line of output.split('\n')) {
+            if (line.startsWith('\t')) {
+                // 内容行结束一个分组
+                if (current && finalLine >= 0) {
+                    lines[finalLine] = current.hash;
+                }
+                current = undefined;
+                continue;
+            }
+
+            const header = /^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/.exec(line);
+            if (header && !current) {
+                const hash = header[1];
+                finalLine = Number(header[2]) - 1;
+                current = commits.get(hash);
+                if (!current) {
+                    current = {
+                        hash,
+                        author: '',
+                        authorEmail: '',
+                        authorTime: new Date(0),
+                        committer: '',
+                        committerTime: new Date(0),
+                        summary: '',
+                        filename: '',
+                        boundary: false,
+                        uncommitted: /^0+$/.test(hash)
+                    };
+                    commits.set(hash, current);
+                }
+                continue;
+            }
+
+            if (!current) {
+                continue;
+            }
+
+            const separator = line.indexOf(' ');
+            const key = separator === -1 ? line : line.substring(0, separator);
+            const value = separator === -1 ? '' : line.substring(separator + 1);
+            switch (key) {
+                case 'author':
+                    current.author = value;
+                    break;
+                case 'author-mail':
+                    current.authorEmail = value.replace(/^<|>$/g, '');
+                    break;
+                case 'author-time':
+                    current.authorTime = new Date(Number(value) * 1000);
+                    break;
+                case 'committer':
+                    current.committer = value;
+                    break;
+                case 'committer-time':
+                    current.committerTime = new Date(Number(value) * 1000);
+                    break;
+                case 'summary':
+                    current.summary = value;
+                    break;
+                case 'filename':
+                    current.filename = value;
+                    break;
+                case 'boundary':
+                    current.boundary = true;
+                    break;
+                case 'previous': {
+                    const [hash, ...rest] = value.split(' ');
+                    current.previous = { hash, path: rest.join(' ') };
+                    break;
+                }
+                default:
+                    break;
+            }
+        }
+
+        return { commits, lines };
+    }
+
     private toGitPath(filePath: string): string {
         const relativePath = path.relative(this.workspaceRoot, filePath);
         return relativePath.split(path.sep).join(path.posix.sep);
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { ChangelistManager } from '../managers/changelistManager';
+import { GitDiffHunk } from '../services/gitService';
+
+const ROOT = '/repo';
+const FILE = '/repo/src/app.ts';
+
+function createContext(): vscode.ExtensionContext {
+    const state = new Map<string, unknown>();
+    const workspaceState = {
+        get: (key: string, defaultValue?: unknown) => state.has(key) ? state.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => {
+            state.set(key, value);
+        }
+    };
+    return { workspaceState } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * 构造一个前后上下文相同、只有增删行不同的 hunk。
+ */
+function createHunk(index: number, removed: string, added: string): GitDiffHunk {
+    return {
+        index,
+        header: `@@ -${index * 10 + 1},3 +${index * 10 + 1},3 @@`,
+        oldStart: index * 10 + 1,
+        oldLines: 3,
+        newStart: index * 10 + 1,
+        newLines: 3,
+        lines: [
+            { type: 'context', content: '    }' },
+            { type: 'remove', content: removed },
+            { type: 'add', content: added },
+            { type: 'context', content: '' }
+        ]
+    };
+}
+
+function createManager(): { manager: ChangelistManager; defaultId: string; otherId: string } {
+    const manager = new ChangelistManager(createContext(), ROOT);
+    const defaultId = manager.getActiveChangelist().id;
+    manager.addFileToChangelist(FILE, defaultId);
+    const otherId = manager.createChangelist('Other').id;
+    return { manager, defaultId, otherId };
+}
+
+test('hunks that share context but differ in changes keep separate changelists', () => {
+    const { manager, defaultId, otherId } = createManager();
+    const first = createHunk(0, '    return a;', '    return a + 1;');
+    const second = createHunk(1, '    return b;', '    return b * 2;');
+    const fileHunks = [first, second];
+
+    manager.moveHunksToChangelist(FILE, [first], otherId, fileHunks);
+
+    assert.strictEqual(manager.getHunkChangelist(FILE, first, fileHunks)?.id, otherId);
+    assert.strictEqual(manager.getHunkChangelist(FILE, second, fileHunks)?.id, defaultId);
+    assert.deepStrictEqual(
+        manager.getHunkSelectionsForChangelist(FILE, fileHunks, defaultId),
+        [{ hunkIndex: second.index, header: second.header }]
+    );
+});
+
+test('moving one of two same-context hunks leaves the other where it was', () => {
+    const { manager, defaultId, otherId } = createManager();
+    const first = createHunk(0, '    return a;', '    return a + 1;');
+    const second = createHunk(1, '    return b;', '    return b * 2;');
+    const fileHunks = [first, second];
+
+    manager.moveHunksToChangelist(FILE, [first], otherId, fileHunks);
+    manager.moveHunksToChangelist(FILE, [second], otherId, fileHunks);
+    manager.moveHunksToChangelist(FILE, [first], defaultId, fileHunks);
+
+    assert.strictEqual(manager.getHunkChangelist(FILE, first, fileHunks)?.id, defaultId);
+    assert.strictEqual(manager.getHunkChangelist(FILE, second, fileHunks)?.id, otherId);
+});
+
+test('an edited hunk follows its changelist when its context is unique', () => {
+    const { manager, otherId } = createManager();
+    const original = createHunk(0, '    return a;', '    return a + 1;');
+    const edited = createHunk(0, '    return a;', '    return a + 2;');
+
+    manager.moveHunksToChangelist(FILE, [original], otherId, [original]);
+
+    assert.strictEqual(manager.getHunkChangelist(FILE, edited, [edited])?.id, otherId);
+});
+
+test('an edited hunk falls back to the file changelist when its context is ambiguous', () => {
+    const { manager, defaultId, otherId } = createManager();
+    const first = createHunk(0, '    return a;', '    return a + 1;');
+    const second = createHunk(1, '    return b;', '    return b * 2;');
+    const edited = createHunk(0, '    return a;', '    return a + 2;');
+
+    manager.moveHunksToChangelist(FILE, [first], otherId, [first, second]);
+
+    assert.strictEqual(manager.getHunkChangelist(FILE, edited, [edited, second])?.id, defaultId);
+    assert.strictEqual(manager.getHunkChangelist(FILE, second, [edited, second])?.id, defaultId);
+});
@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * 单元测试入口：不启动 VS Code，用最小的 vscode 模块替身加载被测代码，
+ * 再载入本目录下所有 *.test.js，由 node:test 执行并设置退出码。
+ */
+const vscodeStub = {
+    workspace: {
+        getConfiguration: () => ({
+            get: <T>(_key: string, defaultValue?: T) => defaultValue
+        })
+    },
+    window: {
+        showWarningMessage: async () => undefined,
+        showInformationMessage: async () => undefined,
+        showErrorMessage: async () => undefined
+    }
+};
+
+const moduleLoader = Module as unknown as {
+    _load(request: string, parent: unknown, isMain: boolean): unknown;
+};
+const originalLoad = moduleLoader._load;
+moduleLoader._load = function (request: string, parent: unknown, isMain: boolean) {
+    return request === 'vscode' ? vscodeStub : originalLoad.call(this, request, parent, isMain);
+};
+
+fs.readdirSync(__dirname)
+    .filter(file => file.endsWith('.test.js'))
+    .sort()
+    .forEach(file => require(path.join(__dirname, file)));
@@ -2,6 +2,10 @@
 import * as path from 'path';
 import { CommitFileChange, GitBranch, GitCommit, GitService } from '../services/gitService';
 import { DiffViewHelper } from '../helpers/diffViewHelper';
+import { ConflictHelper } from '../helpers/conflictHelper';
+import { IssueLinkHelper } from '../helpers/issueLinkHelper';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { WebviewHelper } from '../helpers/webviewHelper';
 
 interface BranchCommitSummary {
     hash: string;
@@ -19,10 +23,11 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
     private view?: vscode.WebviewView;
     private viewDisposables: vscode.Disposable[] = [];
     private currentBranch?: GitBranch;
+    private currentRepository?: Repository;
     private readonly maxCommits = 200;
 
     constructor(
-        private readonly gitService: GitService
+        private readonly repositoryManager: RepositoryManager
     ) {}
 
     dispose(): void {
@@ -48,8 +53,9 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         }
     }
 
-    async show(branch: GitBranch): Promise<void> {
+    async show(branch: GitBranch, repository?: Repository): Promise<void> {
         this.currentBranch = branch;
+        this.currentRepository = repository ?? this.repositoryManager.getActiveRepository();
         await this.ensureViewVisible();
         if (!this.view) {
             vscode.window.showWarningMessage('Unable to open branch details view');
@@ -83,12 +89,11 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
     }
 
     private getEmptyStateHtml(webview: vscode.Webview): string {
-        const cspSource = webview.cspSource;
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8" />
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';" />
+    ${WebviewHelper.getCspMeta(webview)}
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <style>
         body {
@@ -123,19 +128,34 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
 </html>`;
     }
 
+    private getGitService(repository?: Repository): GitService {
+        return this.getRepository(repository).gitService;
+    }
+
+    private getRepository(repository?: Repository): Repository {
+        const target = repository ?? this.currentRepository ?? this.repositoryManager.getActiveRepository();
+        if (!target) {
+            throw new Error('No Git repository available');
+        }
+        return target;
+    }
+
     private async render(branch: GitBranch): Promise<void> {
         if (!this.view) {
             return;
         }
 
         try {
-            const commits = await this.gitService.getBranchLog(branch.name, this.maxCommits);
+            const commits = await this.getGitService().getBranchLog(branch.name, this.maxCommits);
             if (!this.view) {
                 return;
             }
             const displayName = this.getDisplayBranchName(branch);
             this.view.title = displayName;
-            this.view.description = branch.remote ? 'Remote' : 'Local';
+            const scope = branch.remote ? 'Remote' : 'Local';
+            this.view.description = this.repositoryManager.hasMultipleRepositories() && this.currentRepository
+                ? `${scope} · ${this.currentRepository.name}`
+                : scope;
             this.view.webview.html = this.getHtmlForWebview(
                 this.view.webview,
                 branch,
@@ -165,6 +185,11 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             case 'commitAction':
                 await this.handleCommitActionRequest(message.payload);
                 break;
+            case 'openIssue':
+                if (typeof message.payload?.key === 'string') {
+                    await IssueLinkHelper.openIssue(message.payload.key);
+                }
+                break;
             case 'refreshBranch':
                 if (this.currentBranch) {
                     await this.render(this.currentBranch);
@@ -181,7 +206,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         }
 
         try {
-            const files = await this.gitService.getCommitFileChanges(hash);
+            const files = await this.getGitService().getCommitFileChanges(hash);
             await this.view.webview.postMessage({
                 type: 'commitFiles',
                 payload: {
@@ -211,14 +236,17 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         }
 
         try {
-            await DiffViewHelper.showCommitFileDiff(this.gitService, hash, parentHash, change);
+            await DiffViewHelper.showCommitFileDiff(this.getGitService(), hash, parentHash, change);
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             vscode.window.showErrorMessage(`鏃犳硶鎵撳紑 diff: ${message}`);
         }
     }
 
-    private async handleCommitActionRequest(payload: any): Promise<void> {
+    /**
+     * 提交右键菜单的统一入口，Log 视图也通过它执行相同的操作；repository 缺省时使用当前分支所在仓库。
+     */
+    async handleCommitActionRequest(payload: any, repository: Repository | undefined = this.currentRepository): Promise<void> {
         const action: string | undefined = payload?.action;
         const commit: BranchCommitSummary | undefined = payload?.commit;
 
@@ -233,28 +261,34 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
                     vscode.window.showInformationMessage(`已复制提交 ${commit.abbrevHash}`);
                     break;
                 case 'createPatch':
-                    await this.createPatchForCommit(commit);
+                    await this.createPatchForCommit(commit, repository);
                     break;
                 case 'cherryPick':
-                    await this.cherryPickCommit(commit);
+                    await this.cherryPickCommit(commit, repository);
                     break;
                 case 'checkout':
-                    await this.checkoutCommit(commit);
+                    await this.checkoutCommit(commit, repository);
                     break;
                 case 'compareLocal':
-                    await DiffViewHelper.showCommitDiff(this.gitService, commit.hash);
+                    await DiffViewHelper.showCommitDiff(this.getGitService(repository), commit.hash);
                     break;
                 case 'resetHere':
-                    await this.resetBranchToCommit(commit);
+                    await this.resetBranchToCommit(commit, repository);
                     break;
                 case 'revert':
-                    await this.revertCommit(commit);
+                    await this.revertCommit(commit, repository);
+                    break;
+                case 'rebaseHere':
+                    await vscode.commands.executeCommand('vigit.interactiveRebase', {
+                        repositoryRoot: repository?.root,
+                        commit
+                    });
                     break;
                 case 'branchHere':
-                    await this.createBranchFromCommit(commit);
+                    await this.createBranchFromCommit(commit, repository);
                     break;
                 case 'tagHere':
-                    await this.createTagFromCommit(commit);
+                    await this.createTagFromCommit(commit, repository);
                     break;
                 default:
                     break;
@@ -265,10 +299,10 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         }
     }
 
-    private async createPatchForCommit(commit: BranchCommitSummary): Promise<void> {
-        const patch = await this.gitService.getCommitPatch(commit.hash);
+    private async createPatchForCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
+        const patch = await this.getGitService(repository).getCommitPatch(commit.hash);
         const defaultUri = vscode.Uri.file(
-            path.join(this.gitService.getWorkspaceRoot(), `${commit.abbrevHash}.patch`)
+            path.join(this.getGitService(repository).getWorkspaceRoot(), `${commit.abbrevHash}.patch`)
         );
 
         const target = await vscode.window.showSaveDialog({
@@ -288,7 +322,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         vscode.window.showInformationMessage(`补丁已保存到 ${target.fsPath}`);
     }
 
-    private async cherryPickCommit(commit: BranchCommitSummary): Promise<void> {
+    private async cherryPickCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const confirm = await vscode.window.showWarningMessage(
             `是否将提交 ${commit.abbrevHash} cherry-pick 到当前分支？`,
             { modal: true },
@@ -299,11 +333,19 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.cherryPick(commit.hash);
+        try {
+            await this.getGitService(repository).cherryPick(commit.hash);
+        } catch (error) {
+            await this.refreshAfterGitOperation();
+            if (await ConflictHelper.notifyIfConflicted(this.getGitService(repository), 'Cherry-pick', repository?.root)) {
+                return;
+            }
+            throw error;
+        }
         await this.refreshAfterGitOperation(`已 cherry-pick ${commit.abbrevHash}`);
     }
 
-    private async checkoutCommit(commit: BranchCommitSummary): Promise<void> {
+    private async checkoutCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const confirm = await vscode.window.showWarningMessage(
             `将以游离 HEAD 方式切换到提交 ${commit.abbrevHash}，继续？`,
             { modal: true },
@@ -314,11 +356,11 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.checkoutCommit(commit.hash);
+        await this.getGitService(repository).checkoutCommit(commit.hash);
         vscode.window.showInformationMessage(`已复制提交 ${commit.abbrevHash}`);
     }
 
-    private async resetBranchToCommit(commit: BranchCommitSummary): Promise<void> {
+    private async resetBranchToCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const confirm = await vscode.window.showWarningMessage(
             `Reset 当前分支到 ${commit.abbrevHash}? 所有未提交的更改都会丢失。`,
             { modal: true },
@@ -329,11 +371,15 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.resetToCommit(commit.hash);
+        const target = this.getRepository(repository);
+        await target.operationJournal.run(
+            { kind: 'reset', label: `Reset --hard to ${commit.abbrevHash}`, mode: 'hard' },
+            () => target.gitService.resetToCommit(commit.hash)
+        );
         await this.refreshAfterGitOperation(`已重置到 ${commit.abbrevHash}`);
     }
 
-    private async revertCommit(commit: BranchCommitSummary): Promise<void> {
+    private async revertCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const confirm = await vscode.window.showWarningMessage(
             `创建一个新的提交以还原 ${commit.abbrevHash}?`,
             { modal: true },
@@ -344,11 +390,19 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.revertCommit(commit.hash);
+        try {
+            await this.getGitService(repository).revertCommit(commit.hash);
+        } catch (error) {
+            await this.refreshAfterGitOperation();
+            if (await ConflictHelper.notifyIfConflicted(this.getGitService(repository), 'Revert', repository?.root)) {
+                return;
+            }
+            throw error;
+        }
         await this.refreshAfterGitOperation(`已 revert ${commit.abbrevHash}`);
     }
 
-    private async createBranchFromCommit(commit: BranchCommitSummary): Promise<void> {
+    private async createBranchFromCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const branchName = await vscode.window.showInputBox({
             prompt: '输入要创建的分支名称',
             placeHolder: 'feature/awesome-change',
@@ -364,11 +418,11 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.createBranchAtCommit(branchName.trim(), commit.hash);
+        await this.getGitService(repository).createBranchAtCommit(branchName.trim(), commit.hash);
         await this.refreshAfterGitOperation(`已基于 ${commit.abbrevHash} 创建分支 ${branchName.trim()}`);
     }
 
-    private async createTagFromCommit(commit: BranchCommitSummary): Promise<void> {
+    private async createTagFromCommit(commit: BranchCommitSummary, repository?: Repository): Promise<void> {
         const tagName = await vscode.window.showInputBox({
             prompt: '输入 tag 名称',
             placeHolder: 'v1.0.0',
@@ -384,7 +438,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             return;
         }
 
-        await this.gitService.createTag(tagName.trim(), commit.hash);
+        await this.getGitService(repository).createTag(tagName.trim(), commit.hash);
         vscode.window.showInformationMessage(`已在 ${commit.abbrevHash} 创建 tag ${tagName.trim()}`);
     }
 
@@ -405,8 +459,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         commits: GitCommit[],
         branchDisplayName: string
     ): string {
-        const nonce = this.getNonce();
-        const cspSource = webview.cspSource;
+        const nonce = WebviewHelper.getNonce();
         const commitData: BranchCommitSummary[] = commits.map(commit => ({
             hash: commit.hash,
             abbrevHash: commit.abbrevHash,
@@ -432,7 +485,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
 <html lang="en">
 <head>
     <meta charset="UTF-8" />
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} https: data:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';" />
+    ${WebviewHelper.getCspMeta(webview, nonce, ['https:', 'data:'])}
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <style>
         :root {
@@ -526,6 +579,13 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
             color: #6e97ff;
         }
+        .issue-link {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+        .issue-link:hover {
+            text-decoration: underline;
+        }
         .commit-message {
             font-size: 12px;
             white-space: nowrap;
@@ -802,12 +862,15 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
             const contextMenu = document.getElementById('contextMenu');
 
             const state = Object.assign({
-                commits: ${JSON.stringify(commitData)},
+                commits: ${WebviewHelper.serializeState(commitData)},
                 selected: null,
                 fileCache: {},
                 pending: new Set()
             }, vscode.getState() || {});
 
+            const issueLinks = ${WebviewHelper.serializeState(IssueLinkHelper.getWebviewOptions() ?? null)};
+            ${IssueLinkHelper.getWebviewScript()}
+
             const commitMap = new Map();
             state.commits.forEach(commit => commitMap.set(commit.hash, commit));
 
@@ -818,6 +881,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
                 { id: 'checkout', label: 'Checkout Revision' },
                 { id: 'compareLocal', label: 'Compare with Local' },
                 { id: 'resetHere', label: 'Reset Current Branch to Here...' },
+                { id: 'rebaseHere', label: 'Interactively Rebase from Here...' },
                 { id: 'revert', label: 'Revert Commit' },
                 { separator: true },
                 { id: 'branchHere', label: 'New Branch...' },
@@ -872,7 +936,7 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
 
                     const message = document.createElement('div');
                     message.className = 'commit-message';
-                    message.textContent = commit.message;
+                    appendLinkified(message, commit.message);
                     mainRow.appendChild(message);
 
                     const meta = document.createElement('div');
@@ -1206,14 +1270,5 @@ export class BranchDetailsPanel implements vscode.WebviewViewProvider, vscode.Di
         }
         return branch.name.replace(/^remotes\//, '');
     }
-
-    private getNonce(): string {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-        let result = '';
-        for (let i = 0; i < 32; i++) {
-            result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-    }
 }
 
@@ -0,0 +1,677 @@
+import * as vscode from 'vscode';
+import { CommitFileChange, GitCommitDetails } from '../services/gitService';
+import { DiffViewHelper } from '../helpers/diffViewHelper';
+import { IssueLinkHelper, IssueLinkWebviewOptions } from '../helpers/issueLinkHelper';
+import { Repository } from '../managers/repositoryManager';
+import { BranchDetailsPanel } from './branchDetailsPanel';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+interface CommitDetailsState {
+    repositoryLabel?: string;
+    details: Omit<GitCommitDetails, 'authorDate' | 'committerDate'> & { authorDate: string; committerDate: string };
+    parentHash?: string;
+    files: CommitFileChange[];
+    canGoBack: boolean;
+    issueLinks?: IssueLinkWebviewOptions;
+}
+
+interface CommitDetailsMessage {
+    type: 'openFile' | 'navigate' | 'selectParent' | 'commitAction' | 'back' | 'copy' | 'openIssue' | 'loadChildren';
+    payload?: any;
+}
+
+/** 打开详情时自动查找子提交的时间上限，超时后由用户手动触发完整查找 */
+const CHILDREN_TIMEOUT_MS = 2000;
+
+export class CommitDetailsPanel implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private details?: GitCommitDetails;
+    private parentHash?: string;
+    private history: string[] = [];
+
+    constructor(private readonly branchDetailsPanel: BranchDetailsPanel) {}
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.disposePanel();
+    }
+
+    async show(repository: Repository, commitHash: string): Promise<void> {
+        if (this.currentRepository?.root !== repository.root) {
+            this.history = [];
+        }
+        await this.load(repository, commitHash);
+    }
+
+    private async load(repository: Repository, commitHash: string, parentHash?: string): Promise<void> {
+        const details = await repository.gitService.getCommitDetails(commitHash);
+        // 合并提交默认相对第一个父提交列出改动，与 IDEA 的行为一致
+        const parent = parentHash && details.parents.includes(parentHash) ? parentHash : details.parents[0];
+        const files = await repository.gitService.getCommitFileChanges(
+            details.hash,
+            details.parents.length > 1 ? parent : undefined
+        );
+
+        if (this.details && this.details.hash !== details.hash && this.currentRepository?.root === repository.root) {
+            this.history.push(this.details.hash);
+        }
+        this.currentRepository = repository;
+        this.details = details;
+        this.parentHash = parent;
+
+        const panel = this.ensurePanel();
+        panel.title = `Commit · ${details.abbrevHash}`;
+        panel.webview.html = this.getHtml(panel.webview, {
+            repositoryLabel: repository.name,
+            details: {
+                ...details,
+                authorDate: details.authorDate.toISOString(),
+                committerDate: details.committerDate.toISOString()
+            },
+            parentHash: parent,
+            files,
+            canGoBack: this.history.length > 0,
+            issueLinks: IssueLinkHelper.getWebviewOptions()
+        });
+    }
+
+    private ensurePanel(): vscode.WebviewPanel {
+        if (this.panel) {
+            this.panel.reveal(undefined, false);
+            return this.panel;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'vigit.commitDetails',
+            'Commit',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.onDidDispose(() => this.disposePanel());
+        this.disposables.push(
+            this.panel.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message as CommitDetailsMessage);
+            })
+        );
+
+        return this.panel;
+    }
+
+    private disposePanel(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel = undefined;
+        this.details = undefined;
+        this.history = [];
+    }
+
+    private async handleMessage(message: CommitDetailsMessage): Promise<void> {
+        const repository = this.currentRepository;
+        const details = this.details;
+        if (!message || typeof message.type !== 'string' || !repository || !details) {
+            return;
+        }
+
+        try {
+            switch (message.type) {
+                case 'openFile':
+                    if (message.payload?.change) {
+                        await DiffViewHelper.showCommitFileDiff(
+                            repository.gitService,
+                            details.hash,
+                            this.parentHash,
+                            message.payload.change as CommitFileChange,
+                            {
+                                compareWithWorkingTree: !!message.payload.withLocal,
+                                viewColumn: vscode.ViewColumn.Beside
+                            }
+                        );
+                    }
+                    break;
+                case 'navigate':
+                    if (typeof message.payload?.hash === 'string') {
+                        await this.load(repository, message.payload.hash);
+                    }
+                    break;
+                case 'selectParent':
+                    if (typeof message.payload?.hash === 'string') {
+                        await this.load(repository, details.hash, message.payload.hash);
+                    }
+                    break;
+                case 'back': {
+                    const previous = this.history.pop();
+                    if (previous) {
+                        // 返回时不再把当前提交压回历史栈
+                        this.details = undefined;
+                        await this.load(repository, previous);
+                    }
+                    break;
+                }
+                case 'copy':
+                    if (typeof message.payload?.text === 'string') {
+                        await vscode.env.clipboard.writeText(message.payload.text);
+                        vscode.window.setStatusBarMessage('Copied to clipboard', 2000);
+                    }
+                    break;
+                case 'openIssue':
+                    if (typeof message.payload?.key === 'string') {
+                        await IssueLinkHelper.openIssue(message.payload.key);
+                    }
+                    break;
+                case 'loadChildren':
+                    await this.loadChildren(repository, details, !!message.payload?.unbounded);
+                    break;
+                case 'commitAction':
+                    await this.branchDetailsPanel.handleCommitActionRequest(
+                        {
+                            action: message.payload?.action,
+                            commit: {
+                                hash: details.hash,
+                                abbrevHash: details.abbrevHash,
+                                message: details.subject,
+                                author: details.author,
+                                date: details.authorDate.toISOString(),
+                                refs: details.refs,
+                                parents: details.parents
+                            }
+                        },
+                        repository
+                    );
+                    break;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show commit details: ${error}`);
+        }
+    }
+
+    /**
+     * 页面加载后再查找子提交，避免阻塞详情显示；自动查找有时间上限，超时时页面显示为未计算。
+     */
+    private async loadChildren(repository: Repository, details: GitCommitDetails, unbounded: boolean): Promise<void> {
+        const find = () => repository.gitService
+            .getCommitChildren(details.hash, unbounded ? undefined : CHILDREN_TIMEOUT_MS)
+            .catch(error => {
+                console.warn(`ViGit: unable to find children of ${details.hash}`, error);
+                return undefined;
+            });
+        const children = unbounded
+            ? await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Finding children of ${details.abbrevHash}...`,
+                cancellable: false
+            }, find)
+            : await find();
+
+        if (this.details !== details) {
+            return;
+        }
+        details.children = children;
+        void this.panel?.webview.postMessage({ type: 'children', payload: { hash: details.hash, children: children ?? null } });
+    }
+
+    private getHtml(webview: vscode.Webview, state: CommitDetailsState): string {
+        const nonce = WebviewHelper.getNonce();
+        const serializedState = WebviewHelper.serializeState(state);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: 13px;
+            color: var(--vscode-foreground);
+            margin: 0;
+            padding: 0;
+            background: var(--vscode-editor-background);
+        }
+        header {
+            padding: 12px 24px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            background: var(--vscode-sideBar-background);
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+            gap: 12px;
+        }
+        header h1 {
+            margin: 0;
+            font-size: 15px;
+            word-break: break-word;
+        }
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            justify-content: flex-end;
+        }
+        button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 3px;
+            padding: 3px 10px;
+            cursor: pointer;
+            font-size: 12px;
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        main {
+            padding: 12px 24px 24px;
+        }
+        section {
+            margin-bottom: 16px;
+        }
+        h2 {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.4px;
+            color: var(--vscode-descriptionForeground);
+            margin: 0 0 6px;
+        }
+        .message {
+            white-space: pre-wrap;
+            word-break: break-word;
+            font-family: var(--vscode-editor-font-family, monospace);
+            font-size: var(--vscode-editor-font-size, 13px);
+            margin: 0;
+            padding: 8px 12px;
+            background: var(--vscode-textCodeBlock-background, var(--vscode-sideBar-background));
+            border-radius: 3px;
+        }
+        .meta {
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 4px 16px;
+            align-items: baseline;
+        }
+        .meta dt {
+            color: var(--vscode-descriptionForeground);
+        }
+        .meta dd {
+            margin: 0;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            align-items: baseline;
+        }
+        .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+        .hash {
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            text-decoration: none;
+        }
+        a:hover {
+            text-decoration: underline;
+        }
+        .ref {
+            padding: 0 6px;
+            border-radius: 3px;
+            font-size: 11px;
+            background: rgba(110, 151, 255, 0.15);
+            color: #6e97ff;
+        }
+        .signature {
+            padding: 0 6px;
+            border-radius: 3px;
+            font-size: 11px;
+        }
+        .signature.good {
+            background: rgba(78, 201, 176, 0.2);
+            color: #4ec9b0;
+        }
+        .signature.bad,
+        .signature.revoked {
+            background: rgba(244, 135, 113, 0.2);
+            color: #f48771;
+        }
+        .signature.untrusted,
+        .signature.expired,
+        .signature.unknown {
+            background: rgba(220, 180, 80, 0.2);
+            color: #d7ba7d;
+        }
+        select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border, transparent);
+            border-radius: 3px;
+            padding: 2px 4px;
+        }
+        .files-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+        }
+        .tree-folder > summary {
+            cursor: pointer;
+            padding: 2px 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .tree-children {
+            padding-left: 16px;
+        }
+        .file-item {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 2px 4px;
+            cursor: pointer;
+            border-radius: 3px;
+        }
+        .file-item:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .file-item .file-label {
+            flex: 1;
+            min-width: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .file-item .local {
+            visibility: hidden;
+            padding: 0 6px;
+        }
+        .file-item:hover .local {
+            visibility: visible;
+        }
+        .status {
+            font-family: var(--vscode-editor-font-family, monospace);
+            font-size: 11px;
+            width: 14px;
+            text-align: center;
+        }
+        .status-A { color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b); }
+        .status-D { color: var(--vscode-gitDecoration-deletedResourceForeground, #c74e39); }
+        .status-R, .status-C { color: var(--vscode-gitDecoration-renamedResourceForeground, #73c991); }
+        .status-M { color: var(--vscode-gitDecoration-modifiedResourceForeground, #e2c08d); }
+    </style>
+</head>
+<body>
+    <header>
+        <div>
+            <h1 id="subject"></h1>
+            <div class="muted" id="headerMeta"></div>
+        </div>
+        <div class="toolbar">
+            <button id="backBtn" type="button" title="Back to the previous commit">← Back</button>
+            <button data-action="cherryPick" type="button">Cherry-Pick...</button>
+            <button data-action="revert" type="button">Revert</button>
+            <button data-action="branchHere" type="button">New Branch...</button>
+            <button data-action="tagHere" type="button">New Tag...</button>
+            <button data-action="createPatch" type="button">Create Patch...</button>
+        </div>
+    </header>
+    <main>
+        <section>
+            <h2>Message</h2>
+            <pre class="message" id="message"></pre>
+        </section>
+        <section>
+            <h2>Details</h2>
+            <dl class="meta" id="meta"></dl>
+        </section>
+        <section>
+            <div class="files-header">
+                <h2 id="filesTitle">Changed Files</h2>
+                <label id="parentPickerLabel" class="muted">Compare with
+                    <select id="parentPicker"></select>
+                </label>
+            </div>
+            <div id="fileTree"></div>
+        </section>
+    </main>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const state = ${serializedState};
+            const details = state.details;
+            const issueLinks = state.issueLinks;
+
+            const formatDate = (iso) => {
+                try {
+                    return new Date(iso).toLocaleString();
+                } catch (error) {
+                    return iso;
+                }
+            };
+
+            const el = (tag, className, text) => {
+                const element = document.createElement(tag);
+                if (className) {
+                    element.className = className;
+                }
+                if (text !== undefined) {
+                    element.textContent = text;
+                }
+                return element;
+            };
+
+            const commitLink = (hash) => {
+                const link = el('a', 'hash', hash.substring(0, 10));
+                link.title = hash;
+                link.addEventListener('click', () => vscode.postMessage({ type: 'navigate', payload: { hash } }));
+                return link;
+            };
+
+            const copyLink = (text) => {
+                const link = el('a', '', 'Copy');
+                link.addEventListener('click', () => vscode.postMessage({ type: 'copy', payload: { text } }));
+                return link;
+            };
+
+            ${IssueLinkHelper.getWebviewScript()}
+
+            const signatureLabels = {
+                good: 'Verified signature',
+                bad: 'Bad signature',
+                untrusted: 'Signed with an untrusted key',
+                expired: 'Signature or key expired',
+                revoked: 'Signed with a revoked key',
+                unknown: 'Signature cannot be checked (missing key)',
+                none: 'Not signed'
+            };
+
+            const addMeta = (label, nodes) => {
+                const meta = document.getElementById('meta');
+                meta.appendChild(el('dt', '', label));
+                const dd = el('dd');
+                nodes.forEach(node => dd.appendChild(typeof node === 'string' ? document.createTextNode(node) : node));
+                meta.appendChild(dd);
+                return dd;
+            };
+
+            appendLinkified(document.getElementById('subject'), details.subject);
+            document.getElementById('headerMeta').textContent = details.abbrevHash
+                + ' · ' + details.author + ' · ' + formatDate(details.authorDate)
+                + (state.repositoryLabel ? ' · ' + state.repositoryLabel : '');
+            appendLinkified(document.getElementById('message'), details.message);
+
+            addMeta('Commit', [el('span', 'hash', details.hash), copyLink(details.hash)]);
+            addMeta('Author', [
+                details.author + ' <' + details.authorEmail + '>',
+                el('span', 'muted', formatDate(details.authorDate))
+            ]);
+            addMeta('Committer', [
+                details.committer + ' <' + details.committerEmail + '>',
+                el('span', 'muted', formatDate(details.committerDate))
+            ]);
+            addMeta('Parents', details.parents.length
+                ? details.parents.map(commitLink)
+                : [el('span', 'muted', 'None (root commit)')]);
+            const childrenMeta = addMeta('Children', []);
+            const renderChildren = (children) => {
+                childrenMeta.innerHTML = '';
+                const nodes = children === undefined
+                    ? [el('span', 'muted', 'Computing…')]
+                    : children === null
+                        ? [el('span', 'muted', 'Not computed (history too large) · '), computeChildrenLink()]
+                        : children.length
+                            ? children.map(commitLink)
+                            : [el('span', 'muted', 'None')];
+                nodes.forEach(node => childrenMeta.appendChild(node));
+            };
+            const computeChildrenLink = () => {
+                const link = el('a', '', 'Compute');
+                link.addEventListener('click', () => {
+                    renderChildren(undefined);
+                    vscode.postMessage({ type: 'loadChildren', payload: { unbounded: true } });
+                });
+                return link;
+            };
+            renderChildren(details.children);
+            if (!details.children) {
+                vscode.postMessage({ type: 'loadChildren' });
+            }
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message && message.type === 'children' && message.payload && message.payload.hash === details.hash) {
+                    renderChildren(message.payload.children);
+                }
+            });
+            if (details.refs.length) {
+                addMeta('Refs', details.refs.map(ref => el('span', 'ref', ref.replace(/^tag: /, ''))));
+            }
+            const signature = el('span', 'signature ' + details.signature.status, signatureLabels[details.signature.status] || details.signature.status);
+            const signatureNodes = [signature];
+            if (details.signature.signer) {
+                signatureNodes.push(details.signature.signer);
+            }
+            if (details.signature.key) {
+                signatureNodes.push(el('span', 'muted hash', details.signature.key));
+            }
+            addMeta('Signature', signatureNodes);
+
+            const backBtn = document.getElementById('backBtn');
+            backBtn.disabled = !state.canGoBack;
+            backBtn.addEventListener('click', () => vscode.postMessage({ type: 'back' }));
+            document.querySelectorAll('[data-action]').forEach(button => {
+                button.addEventListener('click', () => {
+                    vscode.postMessage({ type: 'commitAction', payload: { action: button.dataset.action } });
+                });
+            });
+
+            const parentPicker = document.getElementById('parentPicker');
+            const parentPickerLabel = document.getElementById('parentPickerLabel');
+            if (details.parents.length > 1) {
+                details.parents.forEach((hash, index) => {
+                    const option = el('option', '', 'Parent ' + (index + 1) + ' (' + hash.substring(0, 7) + ')');
+                    option.value = hash;
+                    option.selected = hash === state.parentHash;
+                    parentPicker.appendChild(option);
+                });
+                parentPicker.addEventListener('change', () => {
+                    vscode.postMessage({ type: 'selectParent', payload: { hash: parentPicker.value } });
+                });
+            } else {
+                parentPickerLabel.style.display = 'none';
+            }
+
+            const files = Array.isArray(state.files) ? state.files : [];
+            document.getElementById('filesTitle').textContent = 'Changed Files (' + files.length + ')';
+
+            const buildTree = (changes) => {
+                const root = [];
+                changes.forEach(change => {
+                    const segments = (change.path || '').split('/').filter(Boolean);
+                    let level = root;
+                    segments.forEach((segment, index) => {
+                        if (index === segments.length - 1) {
+                            level.push({ type: 'file', name: segment, change });
+                            return;
+                        }
+                        let folder = level.find(item => item.type === 'folder' && item.name === segment);
+                        if (!folder) {
+                            folder = { type: 'folder', name: segment, children: [] };
+                            level.push(folder);
+                        }
+                        level = folder.children;
+                    });
+                });
+                return root;
+            };
+
+            // 只有一个子节点的目录链折叠成 a/b/c，减少层级
+            const compact = (nodes) => nodes.map(node => {
+                if (node.type !== 'folder') {
+                    return node;
+                }
+                let current = node;
+                let name = node.name;
+                while (current.children.length === 1 && current.children[0].type === 'folder') {
+                    current = current.children[0];
+                    name += '/' + current.name;
+                }
+                return { type: 'folder', name, children: compact(current.children) };
+            });
+
+            const renderNodes = (nodes, container) => {
+                nodes.slice().sort((a, b) => {
+                    if (a.type !== b.type) {
+                        return a.type === 'folder' ? -1 : 1;
+                    }
+                    return a.name.localeCompare(b.name);
+                }).forEach(node => {
+                    if (node.type === 'folder') {
+                        const folder = el('details', 'tree-folder');
+                        folder.open = true;
+                        folder.appendChild(el('summary', '', node.name));
+                        const children = el('div', 'tree-children');
+                        folder.appendChild(children);
+                        container.appendChild(folder);
+                        renderNodes(node.children, children);
+                        return;
+                    }
+
+                    const code = (node.change.status || 'M').charAt(0);
+                    const item = el('div', 'file-item');
+                    item.title = node.change.previousPath
+                        ? node.change.previousPath + ' → ' + node.change.path
+                        : node.change.path;
+                    item.appendChild(el('span', 'status status-' + code, code));
+                    item.appendChild(el('span', 'file-label', node.name));
+                    if (code !== 'D') {
+                        const local = el('a', 'local', 'Compare with Local');
+                        local.addEventListener('click', (event) => {
+                            event.stopPropagation();
+                            vscode.postMessage({ type: 'openFile', payload: { change: node.change, withLocal: true } });
+                        });
+                        item.appendChild(local);
+                    }
+                    item.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'openFile', payload: { change: node.change } });
+                    });
+                    container.appendChild(item);
+                });
+            };
+
+            const fileTree = document.getElementById('fileTree');
+            if (files.length === 0) {
+                fileTree.appendChild(el('div', 'muted', 'This commit does not change any files.'));
+            } else {
+                renderNodes(compact(buildTree(files)), fileTree);
+            }
+        })();
+    </script>
+</body>
+</html>`;
+    }
+}
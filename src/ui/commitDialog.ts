@@ -1,31 +1,39 @@
 import * as vscode from 'vscode';
-import { GitService } from '../services/gitService';
-import { ChangelistManager, Changelist } from '../managers/changelistManager';
-import { LocalChangesProvider } from '../providers/localChangesProvider';
+import { Changelist } from '../managers/changelistManager';
+import { GitCommitOptions, GitHunkSelection } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { BeforeCommitHelper, BeforeCommitProblem } from '../helpers/beforeCommitHelper';
+import { SecretScanHelper } from '../helpers/secretScanHelper';
+import { ConventionalCommitHelper } from '../helpers/conventionalCommitHelper';
+import { IssueLinkHelper } from '../helpers/issueLinkHelper';
+import { GitHooksHelper } from '../helpers/gitHooksHelper';
 
 export class CommitDialog {
     private context: vscode.ExtensionContext;
-    private gitService: GitService;
-    private changelistManager: ChangelistManager;
-    private localChangesProvider: LocalChangesProvider;
+    private repositoryManager: RepositoryManager;
     private readonly HISTORY_KEY = 'vigit.commitHistory';
     private readonly HISTORY_LIMIT = 20;
+    private readonly COMMIT_OPTIONS_KEY = 'vigit.commitOptions';
+    private readonly KNOWN_AUTHORS_KEY = 'vigit.knownCoAuthors';
+    private readonly KNOWN_AUTHORS_LIMIT = 30;
 
     constructor(
         context: vscode.ExtensionContext,
-        gitService: GitService,
-        changelistManager: ChangelistManager,
-        localChangesProvider: LocalChangesProvider
+        repositoryManager: RepositoryManager
     ) {
         this.context = context;
-        this.gitService = gitService;
-        this.changelistManager = changelistManager;
-        this.localChangesProvider = localChangesProvider;
+        this.repositoryManager = repositoryManager;
     }
 
-    async showCommitDialog(andPush: boolean = false): Promise<void> {
-        const changelists = this.changelistManager.getChangelists();
-        const activeChangelist = this.changelistManager.getActiveChangelist();
+    async showCommitDialog(andPush: boolean = false, target?: Repository): Promise<void> {
+        const repository = target ?? this.repositoryManager.resolveRepository();
+        if (!repository) {
+            vscode.window.showWarningMessage('No git repository found');
+            return;
+        }
+
+        const changelists = repository.changelistManager.getChangelists();
+        const activeChangelist = repository.changelistManager.getActiveChangelist();
 
         if (!activeChangelist || activeChangelist.files.length === 0) {
             vscode.window.showWarningMessage('No files to commit in active changelist');
@@ -76,15 +84,21 @@ export class CommitDialog {
         });
     }
 
-    async showAmendDialog(): Promise<void> {
-        const activeChangelist = this.changelistManager.getActiveChangelist();
+    async showAmendDialog(target?: Repository): Promise<void> {
+        const repository = target ?? this.repositoryManager.resolveRepository();
+        if (!repository) {
+            vscode.window.showWarningMessage('No git repository found');
+            return;
+        }
+
+        const activeChangelist = repository.changelistManager.getActiveChangelist();
 
         if (!activeChangelist || activeChangelist.files.length === 0) {
             vscode.window.showWarningMessage('No files to commit in active changelist');
             return;
         }
 
-        const log = await this.gitService.getLog(1);
+        const log = await repository.gitService.getLog(1);
         const lastCommitMessage = log.length > 0 ? log[0].message : '';
 
         const commitMessage = await this.promptCommitMessage('Amend last commit', lastCommitMessage);
@@ -93,7 +107,7 @@ export class CommitDialog {
             return;
         }
 
-        await this.executeCommit(activeChangelist.files, commitMessage, {
+        await this.executeCommit(repository, activeChangelist.files, commitMessage, {
             changelistId: activeChangelist.id,
             amend: true
         });
@@ -106,99 +120,285 @@ export class CommitDialog {
         const config = vscode.workspace.getConfiguration('vigit');
         const template = config.get<string>('commitMessageTemplate', '');
         const promptTitle = options.title ?? 'Commit message';
+        const issueKey = await this.resolveIssueKey(files, options.changelistId);
 
-        const commitMessage = await this.promptCommitMessage(promptTitle, template);
+        const commitMessage = await this.promptCommitMessage(promptTitle, IssueLinkHelper.applyPrefix(template, issueKey));
         if (!commitMessage) {
             return;
         }
-        await this.executeCommit(files, commitMessage, {
-            changelistId: options.changelistId,
-            andPush: options.andPush
-        });
+
+        // Files may span several roots; each repository gets its own commit
+        for (const [repository, repositoryFiles] of this.repositoryManager.groupPathsByRepository(files)) {
+            const committed = await this.executeCommit(repository, repositoryFiles, commitMessage, {
+                changelistId: options.changelistId,
+                andPush: options.andPush
+            });
+            if (!committed) {
+                return;
+            }
+        }
     }
 
+    /**
+     * 返回是否全部提交成功；提交前检查发现问题时交给 onProblems 处理（面板内展示），不再继续提交。
+     * 敏感信息扫描只能由 allowSecrets 跳过，skipChecks 不会绕过它。
+     */
     async commitFromPanel(request: {
         files: string[];
         message: string;
         andPush?: boolean;
         amend?: boolean;
-    }): Promise<void> {
+        hunks?: Map<string, GitHunkSelection[]>;
+        skipChecks?: boolean;
+        allowSecrets?: boolean;
+        commitOptions?: GitCommitOptions;
+        onProblems?: (problems: BeforeCommitProblem[], repository: Repository) => Promise<boolean>;
+    }): Promise<boolean> {
         const message = request.message?.trim();
         if (!message) {
             vscode.window.showWarningMessage('Commit message cannot be empty');
-            return;
+            return false;
         }
 
-        await this.executeCommit(request.files, message, {
-            andPush: request.andPush,
-            amend: request.amend
-        });
+        for (const [repository, files] of this.repositoryManager.groupPathsByRepository(request.files)) {
+            const committed = await this.executeCommit(repository, files, message, {
+                andPush: request.andPush,
+                amend: request.amend,
+                hunks: request.hunks,
+                skipChecks: request.skipChecks,
+                allowSecrets: request.allowSecrets,
+                commitOptions: request.commitOptions,
+                onProblems: request.onProblems
+            });
+            if (!committed) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * 输入框只有一行，无法写 Conventional Commits 的 Refs footer，此时不预填任务号。
+     */
+    private async resolveIssueKey(files: string[], changelistId?: string): Promise<string | undefined> {
+        const repository = this.repositoryManager.groupPathsByRepository(files).keys().next().value as Repository | undefined;
+        if (!repository || ConventionalCommitHelper.isEnabled()) {
+            return undefined;
+        }
+        const changelist = changelistId ? repository.changelistManager.getChangelist(changelistId) : undefined;
+        return IssueLinkHelper.resolveIssueKey(repository.gitService, changelist?.ticket);
+    }
+
+    private async confirmProblems(
+        problems: BeforeCommitProblem[],
+        repository: Repository,
+        onProblems?: (problems: BeforeCommitProblem[], repository: Repository) => Promise<boolean>
+    ): Promise<boolean> {
+        if (problems.length === 0) {
+            return true;
+        }
+        return onProblems
+            ? onProblems(problems, repository)
+            : BeforeCommitHelper.confirm(problems, repository.root);
     }
 
     private async executeCommit(
+        repository: Repository,
         files: string[],
         commitMessage: string,
-        options: { changelistId?: string; andPush?: boolean; amend?: boolean } = {}
-    ): Promise<void> {
+        options: {
+            changelistId?: string;
+            andPush?: boolean;
+            amend?: boolean;
+            hunks?: Map<string, GitHunkSelection[]>;
+            skipChecks?: boolean;
+            allowSecrets?: boolean;
+            /** 未指定时使用该仓库保存的提交选项 */
+            commitOptions?: GitCommitOptions;
+            onProblems?: (problems: BeforeCommitProblem[], repository: Repository) => Promise<boolean>;
+        } = {}
+    ): Promise<boolean> {
         const uniqueFiles = Array.from(new Set(files));
         if (uniqueFiles.length === 0) {
             vscode.window.showWarningMessage('No files selected');
-            return;
+            return false;
         }
 
+        // 暂存前的索引；提交未完成时用它恢复其他 changelist 的暂存内容与部分暂存状态
+        let indexSnapshot: string | undefined;
         try {
-            await this.gitService.stageFiles(uniqueFiles);
+            const hunks = new Map(options.hunks ?? []);
+            if (options.changelistId) {
+                await this.collectChangelistHunks(repository, uniqueFiles, options.changelistId, hunks);
+            }
+
+            // Files with a hunk selection are committed partially; the rest are committed whole
+            const partialFiles = uniqueFiles.filter(file => (hunks.get(file)?.length ?? 0) > 0);
+            const wholeFiles = uniqueFiles.filter(file => !hunks.has(file));
+            if (partialFiles.length + wholeFiles.length === 0) {
+                vscode.window.showWarningMessage('No changes in the selected changelist');
+                return false;
+            }
+
+            if (!options.skipChecks) {
+                const problems = await BeforeCommitHelper.run({
+                    repository,
+                    files: [...wholeFiles, ...partialFiles],
+                    hunks: new Map(partialFiles.map(file => [file, hunks.get(file) ?? []]))
+                });
+                if (!(await this.confirmProblems(problems, repository, options.onProblems))) {
+                    return false;
+                }
+            }
+
+            indexSnapshot = await repository.gitService.writeIndexTree();
+
+            // Keep already staged content of other changelists out of this commit
+            const excludedFiles = uniqueFiles.filter(file => hunks.get(file)?.length === 0);
+            if (excludedFiles.length > 0) {
+                await repository.gitService.unstageFiles(excludedFiles);
+            }
+            if (wholeFiles.length > 0) {
+                await repository.gitService.stageFiles(wholeFiles);
+            }
+            for (const file of partialFiles) {
+                await repository.gitService.stageHunks(file, hunks.get(file) ?? [], { replaceIndex: true });
+            }
+
+            // 扫描的是暂存后的完整索引，之前已暂存的其他内容同样会进入本次提交
+            if (!options.allowSecrets) {
+                const secrets = await SecretScanHelper.scanStaged(repository);
+                if (!(await this.confirmProblems(secrets, repository, options.onProblems))) {
+                    await this.restoreIndex(repository, indexSnapshot);
+                    return false;
+                }
+            }
 
-            if (options.amend) {
-                await this.gitService.commitAmend(commitMessage);
-            } else {
-                await this.gitService.commit(commitMessage, uniqueFiles);
+            const commitOptions = options.commitOptions ?? this.getCommitOptions(repository);
+            const committed = await GitHooksHelper.run(
+                repository,
+                'commit',
+                options.amend ? 'Amend' : 'Commit',
+                async (noVerify, onOutput) => {
+                    const runOptions = { ...commitOptions, noVerify: commitOptions.noVerify || noVerify };
+                    const commit = () => options.amend
+                        ? repository.gitService.commitAmend(commitMessage, runOptions, onOutput)
+                        : repository.gitService.commit(commitMessage, wholeFiles, runOptions, onOutput);
+                    // hook 可能运行较久，期间显示进度
+                    await (onOutput
+                        ? vscode.window.withProgress({
+                            location: vscode.ProgressLocation.Notification,
+                            title: 'Running commit hooks...',
+                            cancellable: false
+                        }, commit)
+                        : commit());
+                },
+                { noVerify: commitOptions.noVerify, onProblems: options.onProblems }
+            );
+            if (!committed) {
+                await this.restoreIndex(repository, indexSnapshot);
+                return false;
             }
+            indexSnapshot = undefined;
+            this.rememberAuthors([...(commitOptions.coAuthors ?? []), commitOptions.author ?? '']);
 
-            this.removeFilesFromChangelists(uniqueFiles, options.changelistId);
+            // Committing a changelist empties it, while a hand-picked selection keeps the file listed
+            const committedFiles = options.changelistId ? [...wholeFiles, ...partialFiles] : wholeFiles;
+            this.removeFilesFromChangelists(repository, committedFiles, options.changelistId);
             this.recordCommitMessage(commitMessage);
 
-            await this.localChangesProvider.refresh();
+            await repository.localChangesProvider.refresh();
 
             const actionLabel = options.amend ? 'amended' : 'committed';
-            let infoMessage = `Successfully ${actionLabel} ${uniqueFiles.length} file${uniqueFiles.length !== 1 ? 's' : ''}`;
+            const fileCount = wholeFiles.length + partialFiles.length;
+            let infoMessage = `Successfully ${actionLabel} ${fileCount} file${fileCount !== 1 ? 's' : ''}`;
+            if (this.repositoryManager.hasMultipleRepositories()) {
+                infoMessage += ` in ${repository.name}`;
+            }
 
-            if (options.andPush) {
-                await this.pushWithProgress();
+            // 推送被 pre-push hook 拒绝时提交已经完成，仍按成功处理
+            if (options.andPush && await this.pushWithProgress(repository)) {
                 infoMessage += ' and pushed to remote';
             }
 
             vscode.window.showInformationMessage(infoMessage);
+            return true;
         } catch (error) {
+            await this.restoreIndex(repository, indexSnapshot);
             const errorMessage = error instanceof Error ? error.message : String(error);
             const prefix = options.amend ? 'Amend failed' : 'Commit failed';
             vscode.window.showErrorMessage(`${prefix}: ${errorMessage}`);
+            return false;
+        }
+    }
+
+    private async restoreIndex(repository: Repository, tree: string | undefined): Promise<void> {
+        if (!tree) {
+            return;
+        }
+        try {
+            await repository.gitService.readIndexTree(tree);
+        } catch (error) {
+            console.warn('ViGit: unable to restore the index after an aborted commit', error);
         }
     }
 
-    private removeFilesFromChangelists(files: string[], changelistId?: string): void {
+    /**
+     * 对被拆分到多个 changelist 的文件，只保留属于目标 changelist 的 hunk。
+     */
+    private async collectChangelistHunks(
+        repository: Repository,
+        files: string[],
+        changelistId: string,
+        hunks: Map<string, GitHunkSelection[]>
+    ): Promise<void> {
+        for (const file of files) {
+            if (hunks.has(file) || !repository.changelistManager.hasHunkAssignments(file)) {
+                continue;
+            }
+
+            const diff = await repository.gitService.getFileHunks(file, 'head');
+            if (!diff?.partialSupported) {
+                continue;
+            }
+
+            const selections = repository.changelistManager.getHunkSelectionsForChangelist(
+                file,
+                diff.hunks,
+                changelistId
+            );
+            if (selections) {
+                hunks.set(file, selections);
+            }
+        }
+    }
+
+    private removeFilesFromChangelists(repository: Repository, files: string[], changelistId?: string): void {
+        const changelistManager = repository.changelistManager;
         if (changelistId) {
             for (const file of files) {
-                this.changelistManager.removeFileFromChangelist(file, changelistId);
+                changelistManager.removeFileFromChangelist(file, changelistId);
             }
             return;
         }
 
         for (const file of files) {
-            const changelist = this.changelistManager.getChangelistForFile(file);
+            const changelist = changelistManager.getChangelistForFile(file);
             if (changelist) {
-                this.changelistManager.removeFileFromChangelist(file, changelist.id);
+                changelistManager.removeFileFromChangelist(file, changelist.id);
             }
         }
     }
 
-    private async pushWithProgress(): Promise<void> {
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Pushing to remote...',
-            cancellable: false
-        }, async () => {
-            await this.gitService.push();
+    private async pushWithProgress(repository: Repository): Promise<boolean> {
+        return await GitHooksHelper.run(repository, 'push', 'Push', async (noVerify, onOutput) => {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Pushing to remote...',
+                cancellable: false
+            }, async () => {
+                await repository.gitService.push(undefined, undefined, { noVerify, onOutput });
+            });
         });
     }
 
@@ -206,6 +406,37 @@ export class CommitDialog {
         return this.context.workspaceState.get<string[]>(this.HISTORY_KEY, []);
     }
 
+    /**
+     * 按仓库保存的提交选项。提交日期只对单次提交有效，不会保存。
+     */
+    getCommitOptions(repository: Repository): GitCommitOptions {
+        const stored = this.context.workspaceState.get<Record<string, GitCommitOptions>>(this.COMMIT_OPTIONS_KEY, {});
+        return { ...(stored[repository.root] ?? {}) };
+    }
+
+    async saveCommitOptions(repository: Repository, options: GitCommitOptions): Promise<void> {
+        const stored = this.context.workspaceState.get<Record<string, GitCommitOptions>>(this.COMMIT_OPTIONS_KEY, {});
+        const persisted: GitCommitOptions = { ...options };
+        delete persisted.date;
+        await this.context.workspaceState.update(this.COMMIT_OPTIONS_KEY, { ...stored, [repository.root]: persisted });
+    }
+
+    /**
+     * 曾用作作者或 co-author 的 `Name <email>`，跨工作区共享，最近使用的在前。
+     */
+    getKnownAuthors(): string[] {
+        return this.context.globalState.get<string[]>(this.KNOWN_AUTHORS_KEY, []);
+    }
+
+    private rememberAuthors(entries: string[]): void {
+        const used = entries.map(entry => entry.trim()).filter(Boolean);
+        if (used.length === 0) {
+            return;
+        }
+        const known = [...used, ...this.getKnownAuthors().filter(entry => !used.includes(entry))];
+        void this.context.globalState.update(this.KNOWN_AUTHORS_KEY, known.slice(0, this.KNOWN_AUTHORS_LIMIT));
+    }
+
     private recordCommitMessage(message: string): void {
         const trimmed = message.trim();
         if (!trimmed) {
@@ -245,12 +476,31 @@ export class CommitDialog {
                 resolve(value);
             };
 
+            // 启用 Conventional Commits 时实时显示首个违规项，存在错误级别违规时不允许确认
+            const lintEnabled = ConventionalCommitHelper.isEnabled();
+            const validate = (value: string): boolean => {
+                if (!lintEnabled || !value.trim()) {
+                    input.validationMessage = undefined;
+                    return true;
+                }
+                const violations = ConventionalCommitHelper.lint(value);
+                input.validationMessage = violations.length > 0
+                    ? `${violations[0].message} [${violations[0].rule}]`
+                    : undefined;
+                return !ConventionalCommitHelper.hasErrors(violations);
+            };
+            input.onDidChangeValue(value => validate(value));
+            validate(input.value);
+
             input.onDidAccept(() => {
                 const value = input.value.trim();
                 if (!value) {
                     vscode.window.showWarningMessage('Commit message cannot be empty');
                     return;
                 }
+                if (!validate(value)) {
+                    return;
+                }
                 finalize(value);
             });
 
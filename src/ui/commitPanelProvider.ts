@@ -1,9 +1,15 @@
 ﻿import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService, GitStatus } from '../services/gitService';
-import { ChangelistManager, Changelist } from '../managers/changelistManager';
-import { LocalChangesProvider } from '../providers/localChangesProvider';
+import { GitCommitOptions, GitHunkSelection, GitOperationAction, GitStatus } from '../services/gitService';
+import { Changelist } from '../managers/changelistManager';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 import { CommitDialog } from './commitDialog';
+import { BeforeCommitHelper, BeforeCommitProblem } from '../helpers/beforeCommitHelper';
+import { CommitLintViolation, ConventionalCommitHelper } from '../helpers/conventionalCommitHelper';
+import { IssueLinkHelper } from '../helpers/issueLinkHelper';
+import { OperationHelper } from '../helpers/operationHelper';
+import { GitHooksHelper } from '../helpers/gitHooksHelper';
+import { WebviewHelper } from '../helpers/webviewHelper';
 
 interface CommitPanelFileItem {
     id: string;
@@ -18,6 +24,8 @@ interface CommitPanelFileItem {
     changelistId?: string;
     inActiveChangelist?: boolean;
     renamedFrom?: string;
+    /** 子模块指针变化，没有可展开的差异块 */
+    submodule?: boolean;
 }
 
 interface CommitPanelGroup {
@@ -28,20 +36,75 @@ interface CommitPanelGroup {
     files: CommitPanelFileItem[];
 }
 
+interface CommitPanelRepositoryOption {
+    root: string;
+    name: string;
+}
+
+interface CommitPanelOperation {
+    description: string;
+    conflicts: number;
+    actions: Array<{ id: GitOperationAction; label: string }>;
+}
+
 interface CommitPanelStatePayload {
+    repositories: CommitPanelRepositoryOption[];
+    repository?: string;
     files: CommitPanelFileItem[];
     groups: CommitPanelGroup[];
     changelist?: { id: string; name: string; count: number };
+    operation?: CommitPanelOperation;
     history: string[];
     lastCommitMessage: string;
+    conventionalCommits?: CommitPanelConventionalOptions;
+    /** 消息为空时预填的内容，来自 changelist 的任务号或分支名 */
+    issuePrefill?: string;
+    commitOptions?: CommitPanelCommitOptions;
     busy: boolean;
 }
 
+interface CommitPanelCommitOptions {
+    /** 当前仓库保存的选项 */
+    options: GitCommitOptions;
+    knownAuthors: string[];
+    /** 仓库配置中的签名默认值说明，如 "SSH, signed" */
+    signingDefault?: string;
+}
+
+/** 未启用 Conventional Commits 时不下发，面板隐藏结构化编辑器 */
+interface CommitPanelConventionalOptions {
+    types: Array<{ type: string; description: string }>;
+    scopes: string[];
+}
+
+interface CommitPanelHunkSelection {
+    file: string;
+    hunks: Array<{ index: number; header: string; lines?: number[] }>;
+}
+
+interface CommitPanelMoveHunksPayload {
+    file: string;
+    hunks: number[];
+}
+
 interface CommitRequestPayload {
     files: string[];
     message: string;
     andPush?: boolean;
     amend?: boolean;
+    hunks?: CommitPanelHunkSelection[];
+    skipChecks?: boolean;
+    allowSecrets?: boolean;
+    commitOptions?: unknown;
+}
+
+interface CommitPanelProblem {
+    check: string;
+    severity: BeforeCommitProblem['severity'];
+    message: string;
+    location?: string;
+    filePath?: string;
+    line?: number;
 }
 
 interface FileActionMessagePayload {
@@ -58,19 +121,40 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
     private view?: vscode.WebviewView;
     private isBusy = false;
     private readonly disposables: vscode.Disposable[] = [];
+    private repositoryDisposables: vscode.Disposable[] = [];
     private lastCommitMessage = '';
+    private lastCommitMessageRoot?: string;
     private lastCommitMessageFetchedAt = 0;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
-        private readonly gitService: GitService,
-        private readonly changelistManager: ChangelistManager,
-        private readonly localChangesProvider: LocalChangesProvider,
+        private readonly repositoryManager: RepositoryManager,
         private readonly commitDialog: CommitDialog
     ) {
+        this.watchRepositories();
         this.disposables.push(
-            this.localChangesProvider.onDidChangeTreeData(() => {
+            this.repositoryManager.onDidChangeRepositories(() => {
+                this.watchRepositories();
                 void this.postState();
+            }),
+            this.repositoryManager.onDidChangeActiveRepository(() => {
+                void this.refreshAndPostState();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('vigit.conventionalCommits') || event.affectsConfiguration('vigit.issueTracker')) {
+                    void this.postState();
+                }
+            })
+        );
+    }
+
+    private watchRepositories(): void {
+        this.repositoryDisposables.forEach(d => d.dispose());
+        this.repositoryDisposables = this.repositoryManager.getRepositories().map(repository =>
+            repository.localChangesProvider.onDidChangeTreeData(() => {
+                if (repository.root === this.repositoryManager.getActiveRepository()?.root) {
+                    void this.postState();
+                }
             })
         );
     }
@@ -98,6 +182,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
 
     dispose(): void {
         this.disposables.forEach(d => d.dispose());
+        this.repositoryDisposables.forEach(d => d.dispose());
     }
 
     private async handleMessage(message: any): Promise<void> {
@@ -112,6 +197,11 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             case 'refresh':
                 await this.refreshAndPostState(true);
                 break;
+            case 'selectRepository':
+                if (typeof message.payload?.root === 'string') {
+                    this.repositoryManager.setActiveRepository(message.payload.root);
+                }
+                break;
             case 'openDiff':
                 if (message.payload?.file) {
                     void vscode.commands.executeCommand('vigit.showDiff', message.payload.file, false);
@@ -125,11 +215,65 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             case 'fileAction':
                 await this.handleFileAction(message.payload as FileActionMessagePayload);
                 break;
+            case 'requestHunks':
+                if (message.payload?.file) {
+                    await this.postHunks(message.payload.file);
+                }
+                break;
+            case 'stageHunks':
+                await this.handleStageHunks(message.payload as CommitPanelHunkSelection);
+                break;
+            case 'operation':
+                await this.handleOperationAction(message.payload?.action);
+                break;
+            case 'openProblem':
+                if (message.payload?.filePath) {
+                    await this.openProblem(message.payload);
+                }
+                break;
+            case 'showHookOutput':
+                GitHooksHelper.showOutput();
+                break;
+            case 'moveHunks':
+                await this.handleMoveHunks(message.payload as CommitPanelMoveHunksPayload);
+                break;
+            case 'saveCommitOptions': {
+                const repository = typeof message.payload?.root === 'string'
+                    ? this.repositoryManager.getRepositoryForPath(message.payload.root)
+                    : undefined;
+                if (repository) {
+                    await this.commitDialog.saveCommitOptions(repository, this.toCommitOptions(message.payload.options));
+                }
+                break;
+            }
+            case 'lintMessage':
+                if (typeof message.payload?.message === 'string') {
+                    this.postLint(message.payload.message, !!message.payload.fill);
+                }
+                break;
             default:
                 break;
         }
     }
 
+    private async handleOperationAction(action: string | undefined): Promise<void> {
+        const repository = this.repositoryManager.getActiveRepository();
+        if (!repository) {
+            return;
+        }
+
+        const commands: Record<string, string> = {
+            continue: 'vigit.continueOperation',
+            skip: 'vigit.skipOperation',
+            abort: 'vigit.abortOperation',
+            resolve: 'vigit.resolveConflicts'
+        };
+        const command = action ? commands[action] : undefined;
+        if (command) {
+            await vscode.commands.executeCommand(command, { repositoryRoot: repository.root });
+        }
+    }
+
     private async openFile(filePath: string): Promise<void> {
         try {
             const document = await vscode.workspace.openTextDocument(filePath);
@@ -194,6 +338,18 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 case 'showUml':
                     await execute('vigit.showLocalChangesAsUml', treeItem);
                     break;
+                case 'resolveConflict':
+                    await execute('vigit.mergeConflict', treeItem);
+                    break;
+                case 'acceptYours':
+                    await execute('vigit.acceptConflictYours', treeItem);
+                    break;
+                case 'acceptTheirs':
+                    await execute('vigit.acceptConflictTheirs', treeItem);
+                    break;
+                case 'markResolved':
+                    await execute('vigit.markConflictResolved', treeItem);
+                    break;
                 default:
                     break;
             }
@@ -203,6 +359,78 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
         }
     }
 
+    private async postHunks(filePath: string): Promise<void> {
+        const repository = this.repositoryManager.getRepositoryForPath(filePath);
+        const diff = repository ? await repository.gitService.getFileHunks(filePath, 'head') : undefined;
+        const hunks = (diff?.hunks ?? []).map(hunk => ({
+            ...hunk,
+            changelistName: repository?.changelistManager.getHunkChangelist(filePath, hunk, diff?.hunks ?? [])?.name
+        }));
+        this.view?.webview.postMessage({
+            type: 'hunks',
+            payload: {
+                file: filePath,
+                hunks,
+                partialSupported: diff?.partialSupported ?? false
+            }
+        });
+    }
+
+    private async handleStageHunks(payload: CommitPanelHunkSelection | undefined): Promise<void> {
+        const repository = payload?.file ? this.repositoryManager.getRepositoryForPath(payload.file) : undefined;
+        if (!payload || !repository) {
+            return;
+        }
+
+        try {
+            await repository.gitService.stageHunks(payload.file, this.toHunkSelections(payload), { replaceIndex: true });
+            await repository.localChangesProvider.refresh();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to stage selected changes: ${message}`);
+        }
+        await this.postHunks(payload.file);
+    }
+
+    private async handleMoveHunks(payload: CommitPanelMoveHunksPayload | undefined): Promise<void> {
+        const repository = payload?.file ? this.repositoryManager.getRepositoryForPath(payload.file) : undefined;
+        if (!payload || !repository || !Array.isArray(payload.hunks)) {
+            return;
+        }
+
+        const diff = await repository.gitService.getFileHunks(payload.file, 'head');
+        const fileHunks = diff?.hunks ?? [];
+        const hunks = fileHunks.filter(hunk => payload.hunks.includes(hunk.index));
+        if (hunks.length === 0) {
+            return;
+        }
+
+        const current = repository.changelistManager.getHunkChangelist(payload.file, hunks[0], fileHunks);
+        const pick = await vscode.window.showQuickPick(
+            repository.changelistManager.getChangelists().map(changelist => ({
+                label: changelist.name,
+                description: changelist.id === current?.id ? '(current)' : changelist.active ? '(active)' : '',
+                changelist
+            })),
+            { placeHolder: 'Move selected change to changelist' }
+        );
+        if (!pick) {
+            return;
+        }
+
+        repository.changelistManager.moveHunksToChangelist(payload.file, hunks, pick.changelist.id, fileHunks);
+        await repository.localChangesProvider.refresh();
+        await this.postHunks(payload.file);
+    }
+
+    private toHunkSelections(selection: CommitPanelHunkSelection): GitHunkSelection[] {
+        return (selection.hunks ?? []).map(hunk => ({
+            hunkIndex: hunk.index,
+            header: hunk.header,
+            lineIndexes: Array.isArray(hunk.lines) ? hunk.lines : undefined
+        }));
+    }
+
     private async handleCommitRequest(payload: CommitRequestPayload | undefined): Promise<void> {
         if (!payload || this.isBusy) {
             return;
@@ -212,30 +440,117 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             vscode.window.showWarningMessage('Select at least one file to commit');
             return;
         }
+        if (ConventionalCommitHelper.isEnabled()
+            && ConventionalCommitHelper.hasErrors(this.postLint(payload.message ?? '', false))) {
+            vscode.window.showWarningMessage('Commit message does not satisfy the Conventional Commits rules');
+            return;
+        }
 
         this.setBusy(true);
         try {
-            await this.commitDialog.commitFromPanel({
+            const hunks = new Map<string, GitHunkSelection[]>();
+            (payload.hunks ?? []).forEach(selection => {
+                hunks.set(selection.file, this.toHunkSelections(selection));
+            });
+            const committed = await this.commitDialog.commitFromPanel({
                 files,
                 message: payload.message,
                 andPush: payload.andPush,
-                amend: payload.amend
+                amend: payload.amend,
+                hunks,
+                skipChecks: payload.skipChecks,
+                allowSecrets: payload.allowSecrets,
+                commitOptions: payload.commitOptions ? this.toCommitOptions(payload.commitOptions) : undefined,
+                onProblems: async (problems, repository) => {
+                    // 在面板中列出问题，由用户选择 Commit Anyway（带 skipChecks 重新提交）或 Review
+                    this.view?.webview.postMessage({
+                        type: 'checks',
+                        payload: problems.map(problem => this.toPanelProblem(problem, repository.root))
+                    });
+                    return false;
+                }
             });
-            this.view?.webview.postMessage({ type: 'committed' });
+            if (committed) {
+                this.view?.webview.postMessage({ type: 'committed' });
+            }
         } finally {
             this.setBusy(false);
             await this.postState();
         }
     }
 
+    /**
+     * 校验结果连同解析出的各字段一起返回；fill 表示面板需要用解析结果回填结构化编辑器。
+     */
+    private postLint(message: string, fill: boolean): CommitLintViolation[] {
+        const violations = ConventionalCommitHelper.isEnabled() && message.trim()
+            ? ConventionalCommitHelper.lint(message)
+            : [];
+        this.view?.webview.postMessage({
+            type: 'lint',
+            payload: {
+                message,
+                violations,
+                parts: fill ? ConventionalCommitHelper.parse(message) : undefined
+            }
+        });
+        return violations;
+    }
+
+    /**
+     * webview 传来的选项逐项校验，只保留已知字段。
+     */
+    private toCommitOptions(raw: any): GitCommitOptions {
+        const text = (value: unknown): string | undefined =>
+            typeof value === 'string' && value.trim() ? value.trim() : undefined;
+        const signing = raw?.signing;
+        return {
+            author: text(raw?.author),
+            date: text(raw?.date),
+            signOff: !!raw?.signOff,
+            noVerify: !!raw?.noVerify,
+            coAuthors: Array.isArray(raw?.coAuthors)
+                ? raw.coAuthors.map(text).filter((entry: string | undefined): entry is string => !!entry)
+                : [],
+            signing: ['gpg', 'x509', 'ssh', 'off'].includes(signing) ? signing : undefined
+        };
+    }
+
+    private toPanelProblem(problem: BeforeCommitProblem, repositoryRoot: string): CommitPanelProblem {
+        return {
+            check: problem.check,
+            severity: problem.severity,
+            message: problem.message,
+            location: BeforeCommitHelper.formatLocation(problem, repositoryRoot),
+            filePath: problem.filePath,
+            line: problem.line
+        };
+    }
+
+    private async openProblem(payload: { filePath: string; line?: unknown }): Promise<void> {
+        try {
+            await BeforeCommitHelper.openProblem({
+                check: '',
+                severity: 'warning',
+                message: '',
+                filePath: payload.filePath,
+                line: typeof payload.line === 'number' ? payload.line : undefined
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Unable to open file: ${errorMessage}`);
+        }
+    }
+
     private setBusy(value: boolean): void {
         this.isBusy = value;
         this.view?.webview.postMessage({ type: 'busy', payload: value });
     }
 
     private async refreshAndPostState(forceRefresh = false): Promise<void> {
-        if (forceRefresh || !this.localChangesProvider.getGitStatus()) {
-            await this.localChangesProvider.refresh();
+        const repository = this.repositoryManager.getActiveRepository();
+        if (repository && (forceRefresh || !repository.localChangesProvider.getGitStatus())) {
+            await repository.localChangesProvider.refresh();
         }
         await this.postState();
     }
@@ -245,14 +560,41 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             return;
         }
 
-        const gitStatus = this.localChangesProvider.getGitStatus() ?? await this.gitService.getStatus();
-        const activeChangelist = this.changelistManager.getActiveChangelist();
-        const files = this.buildFileItems(gitStatus, activeChangelist?.id);
-        const groups = this.buildGroups(gitStatus, files);
+        const repositories = this.repositoryManager.getRepositories().map(repository => ({
+            root: repository.root,
+            name: repository.name
+        }));
+        const repository = this.repositoryManager.getActiveRepository();
+        if (!repository) {
+            this.view.webview.postMessage({
+                type: 'state',
+                payload: {
+                    repositories,
+                    files: [],
+                    groups: [],
+                    history: this.commitDialog.getCommitHistoryEntries(),
+                    lastCommitMessage: '',
+                    busy: this.isBusy
+                } as CommitPanelStatePayload
+            });
+            return;
+        }
+
+        const gitStatus = repository.localChangesProvider.getGitStatus() ?? await repository.gitService.getStatus();
+        const activeChangelist = repository.changelistManager.getActiveChangelist();
+        const files = this.buildFileItems(repository, gitStatus, activeChangelist?.id);
+        const groups = this.buildGroups(repository, gitStatus, files);
+        void vscode.commands.executeCommand('setContext', 'vigit.hasConflicts', (gitStatus?.conflicted.length ?? 0) > 0);
         const history = this.commitDialog.getCommitHistoryEntries();
-        const lastCommitMessage = await this.getLastCommitMessage();
+        const lastCommitMessage = await this.getLastCommitMessage(repository);
+        const operationState = repository.localChangesProvider.getOperationState();
+        const conventional = ConventionalCommitHelper.isEnabled();
+        const issueKey = await IssueLinkHelper.resolveIssueKey(repository.gitService, activeChangelist?.ticket);
+        const signing = await repository.gitService.getSigningDefaults().catch(() => undefined);
 
         const payload: CommitPanelStatePayload = {
+            repositories,
+            repository: repository.root,
             files,
             groups,
             changelist: activeChangelist
@@ -262,8 +604,30 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                       count: activeChangelist.files.length
                   }
                 : undefined,
+            operation: operationState
+                ? {
+                      description: OperationHelper.describe(operationState),
+                      conflicts: gitStatus?.conflicted.length ?? 0,
+                      actions: operationState.actions.map(action => ({
+                          id: action,
+                          label: OperationHelper.getActionLabel(operationState, action)
+                      }))
+                  }
+                : undefined,
             history,
             lastCommitMessage,
+            conventionalCommits: conventional
+                ? {
+                      types: ConventionalCommitHelper.getTypes(),
+                      scopes: ConventionalCommitHelper.suggestScopes(files.map(file => file.relativePath))
+                  }
+                : undefined,
+            issuePrefill: issueKey ? IssueLinkHelper.createMessagePrefill(issueKey, conventional) : undefined,
+            commitOptions: {
+                options: this.commitDialog.getCommitOptions(repository),
+                knownAuthors: this.commitDialog.getKnownAuthors(),
+                signingDefault: signing ? `${signing.format.toUpperCase()}, ${signing.sign ? 'signed' : 'not signed'}` : undefined
+            },
             busy: this.isBusy
         };
 
@@ -273,8 +637,12 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
         });
     }
 
-    private buildFileItems(status: GitStatus | null, activeChangelistId?: string): CommitPanelFileItem[] {
-        const workspaceRoot = this.gitService.getWorkspaceRoot();
+    private buildFileItems(
+        repository: Repository,
+        status: GitStatus | null,
+        activeChangelistId?: string
+    ): CommitPanelFileItem[] {
+        const workspaceRoot = repository.root;
         const items = new Map<string, CommitPanelFileItem>();
 
         const ensureItem = (absolutePath: string, relativePath: string): CommitPanelFileItem => {
@@ -316,6 +684,11 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             status.renamed.forEach(entry =>
                 addByStatus(entry.to, 'R', 'Renamed', { renamedFrom: this.normalize(entry.from) })
             );
+            status.conflicted.forEach(rel => addByStatus(rel, 'C', 'Conflicted'));
+            status.submodules.forEach(rel => {
+                const item = ensureItem(path.join(workspaceRoot, this.normalize(rel)), this.normalize(rel));
+                item.submodule = true;
+            });
             status.staged.forEach(rel => {
                 const normalized = this.normalize(rel);
                 const absolutePath = path.join(workspaceRoot, normalized);
@@ -324,7 +697,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             });
         }
 
-        const changelists = this.changelistManager.getChangelists();
+        const changelists = repository.changelistManager.getChangelists();
         for (const changelist of changelists) {
             for (const file of changelist.files) {
                 const relative = this.normalize(path.relative(workspaceRoot, file));
@@ -352,8 +725,12 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
         });
     }
 
-    private buildGroups(status: GitStatus | null, fileItems: CommitPanelFileItem[]): CommitPanelGroup[] {
-        const workspaceRoot = this.gitService.getWorkspaceRoot();
+    private buildGroups(
+        repository: Repository,
+        status: GitStatus | null,
+        fileItems: CommitPanelFileItem[]
+    ): CommitPanelGroup[] {
+        const workspaceRoot = repository.root;
         const fileLookup = new Map(fileItems.map(item => [item.absolutePath, item]));
         const groupedPaths = new Set<string>();
         const groups: CommitPanelGroup[] = [];
@@ -367,9 +744,20 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             groups.push(group);
         };
 
-        const changelists = this.changelistManager.getChangelists();
+        // 冲突文件单独成组置顶，解决前不出现在 changelist 中
+        const conflictedFiles = fileItems.filter(item => item.statusCode === 'C');
+        pushGroup({
+            id: 'category:conflicts',
+            label: `Merge Conflicts [${conflictedFiles.length}]`,
+            description: this.describeFileCount(conflictedFiles.length),
+            active: false,
+            files: conflictedFiles
+        });
+
+        const changelists = repository.changelistManager.getChangelists();
         for (const changelist of changelists) {
             const files = changelist.files
+                .filter(file => !groupedPaths.has(file))
                 .map(file => fileLookup.get(file))
                 .filter((item): item is CommitPanelFileItem => Boolean(item));
 
@@ -442,14 +830,19 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
         return relativePath.replace(/\\/g, '/');
     }
 
-    private async getLastCommitMessage(): Promise<string> {
+    private async getLastCommitMessage(repository: Repository): Promise<string> {
         const now = Date.now();
-        if (this.lastCommitMessage && now - this.lastCommitMessageFetchedAt < 10000) {
+        if (
+            this.lastCommitMessage &&
+            this.lastCommitMessageRoot === repository.root &&
+            now - this.lastCommitMessageFetchedAt < 10000
+        ) {
             return this.lastCommitMessage;
         }
 
+        this.lastCommitMessageRoot = repository.root;
         try {
-            const log = await this.gitService.getLog(1);
+            const log = await repository.gitService.getLog(1);
             this.lastCommitMessage = log.length > 0 ? log[0].message : '';
             this.lastCommitMessageFetchedAt = now;
         } catch (error) {
@@ -462,13 +855,12 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
     }
 
     private getHtmlForWebview(webview: vscode.Webview): string {
-        const nonce = this.getNonce();
-        const cspSource = webview.cspSource;
+        const nonce = WebviewHelper.getNonce();
         return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8" />
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} https: data:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';" />
+    ${WebviewHelper.getCspMeta(webview, nonce, ['https:', 'data:'])}
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <style>
         :root {
@@ -539,6 +931,208 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             opacity: 0.5;
             cursor: default;
         }
+        .header-actions select {
+            max-width: 160px;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border, transparent);
+            border-radius: 4px;
+            padding: 2px 4px;
+        }
+        .header-actions select.hidden {
+            display: none;
+        }
+        .operation-banner {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            justify-content: space-between;
+            gap: 6px 10px;
+            padding: 6px 12px;
+            border-bottom: 1px solid var(--vigit-border);
+            background: var(--vscode-inputValidation-warningBackground, var(--vigit-surface-alt));
+            border-left: 3px solid var(--vscode-inputValidation-warningBorder, var(--vscode-editorWarning-foreground));
+        }
+        .operation-banner.hidden {
+            display: none;
+        }
+        .operation-banner.conflicted {
+            border-left-color: var(--vscode-inputValidation-errorBorder, var(--vscode-editorError-foreground));
+        }
+        .operation-label {
+            font-weight: 600;
+        }
+        .operation-label small {
+            font-weight: normal;
+            color: var(--vigit-muted);
+            margin-left: 6px;
+        }
+        .operation-actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+        }
+        .operation-actions button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 4px;
+            padding: 2px 8px;
+            cursor: pointer;
+        }
+        .operation-actions button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .operation-actions button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .checks-banner {
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 6px 12px;
+            border-bottom: 1px solid var(--vigit-border);
+            background: var(--vigit-surface-alt);
+            border-left: 3px solid var(--vscode-inputValidation-warningBorder, var(--vscode-editorWarning-foreground));
+        }
+        .checks-banner.hidden {
+            display: none;
+        }
+        .checks-banner button.hidden {
+            display: none;
+        }
+        .checks-banner.has-errors {
+            border-left-color: var(--vscode-inputValidation-errorBorder, var(--vscode-editorError-foreground));
+        }
+        .checks-header {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            justify-content: space-between;
+            gap: 6px 10px;
+        }
+        .checks-title {
+            font-weight: 600;
+        }
+        .checks-list {
+            max-height: 140px;
+            overflow: auto;
+            font-size: 12px;
+        }
+        .checks-item {
+            display: flex;
+            gap: 6px;
+            padding: 2px 0;
+            cursor: pointer;
+            white-space: nowrap;
+        }
+        .checks-item:hover {
+            background: var(--vigit-hover);
+        }
+        .checks-item .severity {
+            flex-shrink: 0;
+            width: 12px;
+            text-align: center;
+        }
+        .checks-item.error .severity {
+            color: var(--vscode-editorError-foreground);
+        }
+        .checks-item.warning .severity {
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .checks-item .location {
+            color: var(--vigit-muted);
+            flex-shrink: 0;
+        }
+        .checks-item .text {
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .composer {
+            display: grid;
+            grid-template-columns: auto 1fr;
+            gap: 6px 8px;
+            align-items: center;
+            font-size: 12px;
+        }
+        .composer.hidden,
+        .lint-list.hidden,
+        .message-actions .hidden {
+            display: none;
+        }
+        .composer input[type="text"],
+        .composer select {
+            min-width: 0;
+            padding: 3px 6px;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-input-border, transparent);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+        }
+        .composer textarea {
+            min-height: 48px;
+        }
+        .composer-row {
+            display: flex;
+            gap: 6px;
+            align-items: center;
+            min-width: 0;
+        }
+        .composer-row input[type="text"] {
+            flex: 1;
+        }
+        .composer-label {
+            color: var(--vigit-muted);
+        }
+        .lint-list {
+            font-size: 12px;
+        }
+        .lint-list .checks-item {
+            cursor: default;
+        }
+        .lint-list .checks-item:hover {
+            background: transparent;
+        }
+        .commit-options > summary {
+            cursor: pointer;
+            font-size: 11px;
+            text-transform: uppercase;
+            color: var(--vigit-muted);
+            letter-spacing: 0.4px;
+        }
+        .commit-options .composer {
+            margin-top: 6px;
+        }
+        .co-author-list {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+        }
+        .co-author-list:not(:empty) {
+            margin-bottom: 4px;
+        }
+        .co-author {
+            display: inline-flex;
+            align-items: center;
+            gap: 4px;
+            padding: 1px 6px;
+            border-radius: 3px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .co-author button {
+            border: none;
+            background: transparent;
+            color: inherit;
+            cursor: pointer;
+            padding: 0;
+        }
+        #composerToggle.active {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
         .content {
             flex: 1;
             overflow: auto;
@@ -676,6 +1270,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
         .file-name.status-D { color: #9aa0a6; }
         .file-name.status-U { color: #2db36b; }
         .file-name.status-R { color: #7e57c2; }
+        .file-name.status-C { color: #e5534b; }
         .file-path {
             font-size: 11px;
             color: var(--vigit-muted);
@@ -720,6 +1315,79 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             color: var(--vigit-muted);
             margin-left: 6px;
         }
+        .hunk-list {
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 4px 6px 6px;
+        }
+        .hunk {
+            border: 1px solid var(--vigit-border);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        .hunk-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 2px 6px;
+            background: var(--vigit-surface-alt);
+            font-family: var(--vscode-editor-font-family);
+            font-size: 11px;
+            color: var(--vigit-muted);
+        }
+        .hunk-header-text {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .hunk-changelist {
+            padding: 0 4px;
+            border: 1px solid var(--vigit-border);
+            border-radius: 3px;
+        }
+        .hunk-header button {
+            font-size: 11px;
+            padding: 0 6px;
+        }
+        .hunk-header input,
+        .hunk-line input {
+            margin: 0;
+        }
+        .hunk-line {
+            display: grid;
+            grid-template-columns: 18px 36px 1fr;
+            align-items: center;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 11px;
+            white-space: pre;
+        }
+        .hunk-line.add {
+            background: var(--vscode-diffEditor-insertedLineBackground, rgba(46, 160, 67, 0.15));
+            cursor: pointer;
+        }
+        .hunk-line.remove {
+            background: var(--vscode-diffEditor-removedLineBackground, rgba(248, 81, 73, 0.15));
+            cursor: pointer;
+        }
+        .hunk-line.excluded {
+            opacity: 0.5;
+        }
+        .hunk-line-number {
+            color: var(--vigit-muted);
+            text-align: right;
+            padding-right: 6px;
+        }
+        .hunk-line-text {
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .hunk-message {
+            padding: 4px 6px;
+            font-size: 11px;
+            color: var(--vigit-muted);
+        }
         .group-empty {
             padding: 6px 12px;
             font-size: 12px;
@@ -838,10 +1506,27 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 <p id="changelistLabel">No changelist selected</p>
             </div>
             <div class="header-actions">
+                <select id="repositoryPicker" class="hidden" title="Repository"></select>
                 <label><input type="checkbox" id="selectAll" /> Select All</label>
                 <button id="refreshBtn">Refresh</button>
             </div>
         </div>
+        <div class="operation-banner hidden" id="operationBanner">
+            <div class="operation-label" id="operationLabel"></div>
+            <div class="operation-actions" id="operationActions"></div>
+        </div>
+        <div class="checks-banner hidden" id="checksBanner">
+            <div class="checks-header">
+                <span class="checks-title" id="checksTitle"></span>
+                <div class="operation-actions" id="checksActions">
+                    <button type="button" id="commitAnywayBtn" class="primary">Commit Anyway</button>
+                    <button type="button" id="reviewChecksBtn">Review</button>
+                    <button type="button" id="hookOutputBtn" class="hidden">Show Output</button>
+                    <button type="button" id="dismissChecksBtn" title="Dismiss">×</button>
+                </div>
+            </div>
+            <div class="checks-list" id="checksList"></div>
+        </div>
         <div class="content" id="groupContainer"></div>
         <div class="message-section">
             <div class="message-toolbar">
@@ -850,10 +1535,70 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     <select id="historyPicker">
                         <option value=\"\">History...</option>
                     </select>
+                    <button type="button" id="composerToggle" class="hidden" title="Compose a Conventional Commits message">Conventional</button>
                     <label title=\"Reuse last commit message\"><input type="checkbox" id="amendToggle" /> Amend</label>
                 </div>
             </div>
+            <div class="composer hidden" id="composer">
+                <span class="composer-label">Type</span>
+                <div class="composer-row">
+                    <select id="ccType"></select>
+                    <input type="text" id="ccScope" list="ccScopes" placeholder="scope" />
+                    <datalist id="ccScopes"></datalist>
+                </div>
+                <span class="composer-label">Subject</span>
+                <input type="text" id="ccSubject" placeholder="short summary in imperative mood" />
+                <span class="composer-label">Body</span>
+                <textarea id="ccBody" placeholder="Why and what changed (optional)"></textarea>
+                <span class="composer-label">Breaking</span>
+                <div class="composer-row">
+                    <input type="checkbox" id="ccBreaking" />
+                    <input type="text" id="ccBreakingText" placeholder="BREAKING CHANGE description" />
+                </div>
+                <span class="composer-label">Issues</span>
+                <div class="composer-row">
+                    <select id="ccRefKeyword">
+                        <option>Refs</option>
+                        <option>Closes</option>
+                        <option>Fixes</option>
+                        <option>Resolves</option>
+                    </select>
+                    <input type="text" id="ccRefs" placeholder="#123, #456" />
+                </div>
+            </div>
             <textarea id="commitMessage" placeholder="Describe your changes"></textarea>
+            <div class="lint-list hidden" id="lintList"></div>
+            <details class="commit-options" id="commitOptions">
+                <summary id="commitOptionsSummary">Commit Options</summary>
+                <div class="composer">
+                    <span class="composer-label">Author</span>
+                    <input type="text" id="optAuthor" list="knownAuthors" placeholder="Name &lt;email&gt; (default: git config)" />
+                    <datalist id="knownAuthors"></datalist>
+                    <span class="composer-label">Co-authors</span>
+                    <div>
+                        <div class="co-author-list" id="coAuthorList"></div>
+                        <div class="composer-row">
+                            <input type="text" id="coAuthorInput" list="knownAuthors" placeholder="Name &lt;email&gt;" />
+                            <button type="button" id="addCoAuthorBtn">Add</button>
+                        </div>
+                    </div>
+                    <span class="composer-label">Signing</span>
+                    <select id="optSigning">
+                        <option value="" id="optSigningDefault">Repository default</option>
+                        <option value="gpg">GPG (-S)</option>
+                        <option value="x509">X.509 (-S)</option>
+                        <option value="ssh">SSH (-S)</option>
+                        <option value="off">Do not sign</option>
+                    </select>
+                    <span class="composer-label">Date</span>
+                    <input type="datetime-local" id="optDate" title="Author date for this commit only" />
+                    <span></span>
+                    <div class="composer-row">
+                        <label><input type="checkbox" id="optSignOff" /> Signed-off-by</label>
+                        <label><input type="checkbox" id="optNoVerify" /> Skip hooks (--no-verify)</label>
+                    </div>
+                </div>
+            </details>
             <div class="button-row">
                 <button id="commitBtn">Commit</button>
                 <button id="commitPushBtn">Commit &amp; Push</button>
@@ -872,11 +1617,47 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             const commitMessageInput = document.getElementById('commitMessage');
             const amendToggle = document.getElementById('amendToggle');
             const historyPicker = document.getElementById('historyPicker');
+            const repositoryPicker = document.getElementById('repositoryPicker');
+            const operationBanner = document.getElementById('operationBanner');
+            const operationLabel = document.getElementById('operationLabel');
+            const operationActions = document.getElementById('operationActions');
+            const checksBanner = document.getElementById('checksBanner');
+            const checksTitle = document.getElementById('checksTitle');
+            const checksList = document.getElementById('checksList');
+            const commitAnywayBtn = document.getElementById('commitAnywayBtn');
+            const reviewChecksBtn = document.getElementById('reviewChecksBtn');
+            const dismissChecksBtn = document.getElementById('dismissChecksBtn');
+            const hookOutputBtn = document.getElementById('hookOutputBtn');
+            const composerToggle = document.getElementById('composerToggle');
+            const composer = document.getElementById('composer');
+            const ccType = document.getElementById('ccType');
+            const ccScope = document.getElementById('ccScope');
+            const ccScopes = document.getElementById('ccScopes');
+            const ccSubject = document.getElementById('ccSubject');
+            const ccBody = document.getElementById('ccBody');
+            const ccBreaking = document.getElementById('ccBreaking');
+            const ccBreakingText = document.getElementById('ccBreakingText');
+            const ccRefKeyword = document.getElementById('ccRefKeyword');
+            const ccRefs = document.getElementById('ccRefs');
+            const lintList = document.getElementById('lintList');
+            const commitOptionsSummary = document.getElementById('commitOptionsSummary');
+            const optAuthor = document.getElementById('optAuthor');
+            const knownAuthors = document.getElementById('knownAuthors');
+            const coAuthorList = document.getElementById('coAuthorList');
+            const coAuthorInput = document.getElementById('coAuthorInput');
+            const addCoAuthorBtn = document.getElementById('addCoAuthorBtn');
+            const optSigning = document.getElementById('optSigning');
+            const optSigningDefault = document.getElementById('optSigningDefault');
+            const optDate = document.getElementById('optDate');
+            const optSignOff = document.getElementById('optSignOff');
+            const optNoVerify = document.getElementById('optNoVerify');
             const contextMenu = document.createElement('div');
             contextMenu.className = 'context-menu';
             document.body.appendChild(contextMenu);
 
             const state = {
+                repositories: [],
+                repository: null,
                 files: [],
                 groups: [],
                 selected: new Set(),
@@ -886,10 +1667,27 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 history: [],
                 lastCommitMessage: '',
                 changelist: null,
+                operation: null,
+                checks: null,
+                checksReviewed: false,
+                lastCommitAndPush: false,
+                conventional: null,
+                composerOpen: false,
+                composerFooters: [],
+                lint: [],
+                lintMessage: '',
+                issuePrefill: '',
+                issuePrefilled: null,
+                commitOptions: {},
+                commitOptionsRoot: null,
                 autoFilledFromAmend: false,
                 collapsedGroups: new Set(),
                 collapsedFolders: new Set(),
-                autoSelectEnabled: true
+                autoSelectEnabled: true,
+                expandedFiles: new Set(),
+                hunks: new Map(),
+                hunkSelections: new Map(),
+                lineAnchor: null
             };
 
             const persisted = vscode.getState() || {};
@@ -910,6 +1708,9 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                   state.amend = persisted.amend;
                   amendToggle.checked = state.amend;
               }
+              if (typeof persisted.composerOpen === 'boolean') {
+                  state.composerOpen = persisted.composerOpen;
+              }
               if (Array.isArray(persisted.collapsedGroups)) {
                   state.collapsedGroups = new Set(persisted.collapsedGroups);
               }
@@ -924,7 +1725,8 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                       amend: state.amend,
                       collapsedGroups: Array.from(state.collapsedGroups),
                       collapsedFolders: Array.from(state.collapsedFolders),
-                      autoSelectEnabled: state.autoSelectEnabled
+                      autoSelectEnabled: state.autoSelectEnabled,
+                      composerOpen: state.composerOpen
                   });
               };
 
@@ -942,6 +1744,16 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             };
 
             const getContextActions = file => {
+                if (file.statusCode === 'C') {
+                    return [
+                        { id: 'resolveConflict', label: 'Resolve Conflict...' },
+                        { id: 'acceptYours', label: 'Accept Yours' },
+                        { id: 'acceptTheirs', label: 'Accept Theirs' },
+                        'separator',
+                        { id: 'markResolved', label: 'Mark as Resolved' },
+                        { id: 'jumpToSource', label: 'Jump to Source' }
+                    ];
+                }
                 const actions = [
                     { id: 'showDiff', label: 'Show Diff' },
                     { id: 'showDiffNewTab', label: 'Show Diff in New Tab' },
@@ -950,6 +1762,9 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     file.staged
                         ? { id: 'unstage', label: 'Remove from Index' }
                         : { id: 'stage', label: 'Add to Index' },
+                    ...(state.hunkSelections.has(file.absolutePath)
+                        ? [{ id: 'stageSelection', label: 'Add Selected Changes to Index' }]
+                        : []),
                     { id: 'commitFile', label: 'Commit File...' },
                     { id: 'jumpToSource', label: 'Jump to Source' },
                     { id: 'delete', label: 'Delete from Disk...' },
@@ -990,6 +1805,10 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     item.addEventListener('click', event => {
                         event.stopPropagation();
                         hideContextMenu();
+                        if (action.id === 'stageSelection') {
+                            vscode.postMessage({ type: 'stageHunks', payload: buildHunkPayload(file.absolutePath) });
+                            return;
+                        }
                         postFileAction(action.id, file);
                     });
                     contextMenu.appendChild(item);
@@ -1034,7 +1853,10 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             };
 
             const updateButtons = () => {
-                const disable = state.busy || state.selected.size === 0 || !state.commitMessage.trim();
+                // 校验结果对应当前消息且含错误时禁止提交；服务端提交前还会再校验一次
+                const lintErrors = !!state.conventional && state.lintMessage === state.commitMessage
+                    && state.lint.some(violation => violation.level === 2);
+                const disable = state.busy || state.selected.size === 0 || !state.commitMessage.trim() || lintErrors;
                 commitBtn.disabled = disable;
                 commitPushBtn.disabled = disable;
                 selectAll.disabled = state.busy || state.files.length === 0;
@@ -1042,6 +1864,314 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 commitMessageInput.disabled = state.busy;
                 amendToggle.disabled = state.busy;
                 historyPicker.disabled = state.busy || state.history.length === 0;
+                operationActions.querySelectorAll('button').forEach(button => {
+                    button.disabled = state.busy;
+                });
+                commitAnywayBtn.disabled = disable;
+                reviewChecksBtn.disabled = state.busy;
+                [
+                    composerToggle, ccType, ccScope, ccSubject, ccBody, ccBreaking, ccBreakingText, ccRefKeyword, ccRefs,
+                    optAuthor, coAuthorInput, addCoAuthorBtn, optSigning, optDate, optSignOff, optNoVerify
+                ].forEach(element => {
+                    element.disabled = state.busy;
+                });
+            };
+
+            let lintTimer = null;
+            const requestLint = fill => {
+                if (lintTimer) {
+                    clearTimeout(lintTimer);
+                    lintTimer = null;
+                }
+                if (!state.conventional) {
+                    state.lint = [];
+                    renderLint();
+                    return;
+                }
+                lintTimer = setTimeout(() => {
+                    lintTimer = null;
+                    vscode.postMessage({ type: 'lintMessage', payload: { message: state.commitMessage, fill: !!fill } });
+                }, fill ? 0 : 200);
+            };
+
+            const renderLint = () => {
+                const violations = state.conventional && state.lintMessage === state.commitMessage ? state.lint : [];
+                lintList.innerHTML = '';
+                lintList.classList.toggle('hidden', violations.length === 0);
+                violations.forEach(violation => {
+                    const item = document.createElement('div');
+                    item.className = 'checks-item ' + (violation.level === 2 ? 'error' : 'warning');
+                    const severity = document.createElement('span');
+                    severity.className = 'severity';
+                    severity.textContent = violation.level === 2 ? '✖' : '⚠';
+                    item.appendChild(severity);
+                    const text = document.createElement('span');
+                    text.className = 'text';
+                    text.textContent = violation.message;
+                    text.title = violation.message + ' [' + violation.rule + ']';
+                    item.appendChild(text);
+                    const rule = document.createElement('span');
+                    rule.className = 'location';
+                    rule.textContent = violation.rule;
+                    item.appendChild(rule);
+                    lintList.appendChild(item);
+                });
+            };
+
+            const renderComposerOptions = () => {
+                const enabled = !!state.conventional;
+                composerToggle.classList.toggle('hidden', !enabled);
+                composerToggle.classList.toggle('active', enabled && state.composerOpen);
+                composer.classList.toggle('hidden', !enabled || !state.composerOpen);
+                if (!enabled) {
+                    return;
+                }
+                const current = ccType.value;
+                ccType.innerHTML = '';
+                const placeholder = document.createElement('option');
+                placeholder.value = '';
+                placeholder.textContent = 'type';
+                ccType.appendChild(placeholder);
+                state.conventional.types.forEach(entry => {
+                    const option = document.createElement('option');
+                    option.value = entry.type;
+                    option.textContent = entry.type;
+                    option.title = entry.description;
+                    ccType.appendChild(option);
+                });
+                setTypeValue(current);
+                ccScopes.innerHTML = '';
+                state.conventional.scopes.forEach(scope => {
+                    const option = document.createElement('option');
+                    option.value = scope;
+                    ccScopes.appendChild(option);
+                });
+            };
+
+            const setTypeValue = value => {
+                if (value && !Array.from(ccType.options).some(option => option.value === value)) {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = value;
+                    ccType.appendChild(option);
+                }
+                ccType.value = value || '';
+            };
+
+            const fillComposer = parts => {
+                setTypeValue(parts.type);
+                ccScope.value = parts.scope || '';
+                ccSubject.value = parts.subject || '';
+                ccBody.value = parts.body || '';
+                ccBreaking.checked = !!parts.breaking;
+                ccBreakingText.value = parts.breakingDescription || '';
+                ccRefKeyword.value = parts.referenceKeyword || 'Refs';
+                ccRefs.value = parts.references || '';
+                state.composerFooters = Array.isArray(parts.footers) ? parts.footers : [];
+            };
+
+            const composeMessage = () => {
+                const type = ccType.value;
+                const scope = ccScope.value.trim();
+                const subject = ccSubject.value.trim();
+                const header = type
+                    ? type + (scope ? '(' + scope + ')' : '') + (ccBreaking.checked ? '!' : '') + ': ' + subject
+                    : subject;
+                const sections = [header];
+                const body = ccBody.value.trim();
+                if (body) {
+                    sections.push(body);
+                }
+                const footers = [];
+                if (ccBreaking.checked && ccBreakingText.value.trim()) {
+                    footers.push('BREAKING CHANGE: ' + ccBreakingText.value.trim());
+                }
+                if (ccRefs.value.trim()) {
+                    footers.push(ccRefKeyword.value + ': ' + ccRefs.value.trim());
+                }
+                state.composerFooters.forEach(footer => footers.push(footer));
+                if (footers.length > 0) {
+                    sections.push(footers.join('\\n'));
+                }
+                return sections.join('\\n\\n');
+            };
+
+            // 消息被程序性修改（Amend、历史记录、提交后清空）时同步校验与结构化编辑器
+            const onMessageReplaced = () => {
+                requestLint(state.composerOpen);
+            };
+
+            // 只在消息为空时预填，同一内容只预填一次，用户清空后不会反复出现
+            const applyIssuePrefill = () => {
+                if (!state.issuePrefill || state.amend || state.commitMessage || state.issuePrefilled === state.issuePrefill) {
+                    return;
+                }
+                state.issuePrefilled = state.issuePrefill;
+                state.commitMessage = state.issuePrefill;
+                commitMessageInput.value = state.commitMessage;
+                onMessageReplaced();
+                persistState();
+            };
+
+            const renderCommitOptions = () => {
+                const options = state.commitOptions;
+                optAuthor.value = options.author || '';
+                optSigning.value = options.signing || '';
+                optSignOff.checked = !!options.signOff;
+                optNoVerify.checked = !!options.noVerify;
+                renderCoAuthors();
+                renderCommitOptionsSummary();
+            };
+
+            const renderCoAuthors = () => {
+                coAuthorList.innerHTML = '';
+                (state.commitOptions.coAuthors || []).forEach(coAuthor => {
+                    const chip = document.createElement('span');
+                    chip.className = 'co-author';
+                    chip.textContent = coAuthor;
+                    const remove = document.createElement('button');
+                    remove.type = 'button';
+                    remove.textContent = '×';
+                    remove.title = 'Remove co-author';
+                    remove.addEventListener('click', () => {
+                        state.commitOptions.coAuthors = state.commitOptions.coAuthors.filter(entry => entry !== coAuthor);
+                        onCommitOptionsChanged();
+                        renderCoAuthors();
+                    });
+                    chip.appendChild(remove);
+                    coAuthorList.appendChild(chip);
+                });
+            };
+
+            // 折叠时也能看出哪些选项生效
+            const renderCommitOptionsSummary = () => {
+                const options = state.commitOptions;
+                const active = [];
+                if (options.author) {
+                    active.push('author');
+                }
+                if (options.coAuthors && options.coAuthors.length) {
+                    active.push(options.coAuthors.length + ' co-author' + (options.coAuthors.length === 1 ? '' : 's'));
+                }
+                if (options.signOff) {
+                    active.push('sign-off');
+                }
+                if (options.signing) {
+                    active.push(options.signing === 'off' ? 'unsigned' : options.signing.toUpperCase() + ' signed');
+                }
+                if (options.noVerify) {
+                    active.push('no-verify');
+                }
+                if (optDate.value) {
+                    active.push('date');
+                }
+                commitOptionsSummary.textContent = 'Commit Options' + (active.length ? ' · ' + active.join(', ') : '');
+            };
+
+            const onCommitOptionsChanged = () => {
+                renderCommitOptionsSummary();
+                if (state.repository) {
+                    vscode.postMessage({
+                        type: 'saveCommitOptions',
+                        payload: { root: state.repository, options: state.commitOptions }
+                    });
+                }
+            };
+
+            const addCoAuthor = () => {
+                const value = coAuthorInput.value.trim();
+                if (!value) {
+                    return;
+                }
+                const coAuthors = state.commitOptions.coAuthors || [];
+                if (!coAuthors.includes(value)) {
+                    state.commitOptions.coAuthors = coAuthors.concat([value]);
+                    onCommitOptionsChanged();
+                    renderCoAuthors();
+                }
+                coAuthorInput.value = '';
+            };
+
+            const hasSecrets = () => (state.checks || []).some(problem => problem.check === 'Secrets');
+            const hasHookFailure = () => (state.checks || []).some(problem => problem.check === 'Hooks');
+
+            const renderChecks = () => {
+                const problems = state.checks;
+                checksBanner.classList.toggle('hidden', !problems);
+                checksList.innerHTML = '';
+                if (!problems) {
+                    return;
+                }
+                const errors = problems.filter(problem => problem.severity === 'error').length;
+                checksBanner.classList.toggle('has-errors', errors > 0);
+                if (hasHookFailure()) {
+                    checksTitle.textContent = 'Git hooks failed: ' + problems.length + ' problem' + (problems.length === 1 ? '' : 's');
+                } else if (hasSecrets()) {
+                    checksTitle.textContent = 'Possible secrets: ' + problems.length + ' finding' + (problems.length === 1 ? '' : 's');
+                } else {
+                    checksTitle.textContent = 'Before Commit: ' + problems.length + ' problem' + (problems.length === 1 ? '' : 's')
+                        + (errors > 0 ? ' (' + errors + ' error' + (errors === 1 ? '' : 's') + ')' : '');
+                }
+                commitAnywayBtn.textContent = hasHookFailure() ? 'Retry with --no-verify' : 'Commit Anyway';
+                commitAnywayBtn.classList.toggle('hidden', state.checksReviewed);
+                reviewChecksBtn.classList.toggle('hidden', state.checksReviewed);
+                hookOutputBtn.classList.toggle('hidden', !hasHookFailure());
+                problems.forEach(problem => {
+                    const item = document.createElement('div');
+                    item.className = 'checks-item ' + problem.severity;
+                    const severity = document.createElement('span');
+                    severity.className = 'severity';
+                    severity.textContent = problem.severity === 'error' ? '✖' : '⚠';
+                    item.appendChild(severity);
+                    if (problem.location) {
+                        const location = document.createElement('span');
+                        location.className = 'location';
+                        location.textContent = problem.location;
+                        item.appendChild(location);
+                    }
+                    const text = document.createElement('span');
+                    text.className = 'text';
+                    text.textContent = problem.message;
+                    text.title = problem.message;
+                    item.appendChild(text);
+                    if (problem.filePath) {
+                        item.addEventListener('click', () => openProblem(problem));
+                    }
+                    checksList.appendChild(item);
+                });
+            };
+
+            const openProblem = problem => {
+                vscode.postMessage({ type: 'openProblem', payload: { filePath: problem.filePath, line: problem.line } });
+            };
+
+            const renderOperation = () => {
+                const operation = state.operation;
+                operationBanner.classList.toggle('hidden', !operation);
+                operationActions.innerHTML = '';
+                if (!operation) {
+                    return;
+                }
+                operationBanner.classList.toggle('conflicted', operation.conflicts > 0);
+                operationLabel.textContent = operation.description;
+                if (operation.conflicts > 0) {
+                    const count = document.createElement('small');
+                    count.textContent = operation.conflicts + ' conflicted file' + (operation.conflicts === 1 ? '' : 's');
+                    operationLabel.appendChild(count);
+                }
+                const actions = operation.conflicts > 0
+                    ? [{ id: 'resolve', label: 'Resolve Conflicts...' }].concat(operation.actions)
+                    : operation.actions;
+                actions.forEach((action, index) => {
+                    const button = document.createElement('button');
+                    button.type = 'button';
+                    button.textContent = action.label;
+                    button.classList.toggle('primary', index === 0);
+                    button.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'operation', payload: { action: action.id } });
+                    });
+                    operationActions.appendChild(button);
+                });
             };
 
                         const renderGroups = () => {
@@ -1232,9 +2362,19 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                         container.appendChild(wrapper);
                         return;
                     }
-                    container.appendChild(renderFileRow(node.file));
+                    container.appendChild(renderFileNode(node.file));
                 });
             };
+            const renderFileNode = file => {
+                const expanded = state.expandedFiles.has(file.absolutePath);
+                const wrapper = document.createElement('div');
+                wrapper.className = 'tree-node' + (expanded ? '' : ' collapsed');
+                wrapper.appendChild(renderFileRow(file));
+                if (expanded) {
+                    wrapper.appendChild(renderHunks(file));
+                }
+                return wrapper;
+            };
             const renderFileRow = file => {
                 const row = document.createElement('div');
                 row.className = 'tree-row file-row';
@@ -1242,12 +2382,25 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 if (isSelected) {
                     row.classList.add('selected');
                 }
-                const toggle = document.createElement('span');
-                toggle.className = 'tree-toggle placeholder';
-                row.appendChild(toggle);
+                if (file.statusCode === 'D' || file.statusCode === 'C' || file.submodule) {
+                    const placeholder = document.createElement('span');
+                    placeholder.className = 'tree-toggle placeholder';
+                    row.appendChild(placeholder);
+                } else {
+                    const toggle = document.createElement('button');
+                    toggle.className = 'tree-toggle';
+                    toggle.type = 'button';
+                    toggle.title = 'Show changes';
+                    toggle.addEventListener('click', event => {
+                        event.stopPropagation();
+                        toggleFileExpanded(file.absolutePath);
+                    });
+                    row.appendChild(toggle);
+                }
                 const checkbox = document.createElement('input');
                 checkbox.type = 'checkbox';
                 checkbox.checked = isSelected;
+                checkbox.indeterminate = isSelected && state.hunkSelections.has(file.absolutePath);
                 checkbox.addEventListener('change', event => {
                     event.stopPropagation();
                     toggleSelection(file.absolutePath, checkbox.checked);
@@ -1269,6 +2422,9 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 if (file.renamedFrom) {
                     segments.push('renamed from ' + file.renamedFrom);
                 }
+                if (file.submodule) {
+                    segments.push('submodule');
+                }
                 path.textContent = segments.join(' / ');
                 info.appendChild(path);
                 if (file.staged) {
@@ -1285,12 +2441,20 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 actions.className = 'file-actions';
                 actions.style.opacity = '1';
                 actions.style.visibility = 'visible';
+                const isConflicted = file.statusCode === 'C';
+                const openFileView = () => {
+                    if (isConflicted) {
+                        postFileAction('resolveConflict', file);
+                    } else {
+                        vscode.postMessage({ type: 'openDiff', payload: { file: file.absolutePath } });
+                    }
+                };
                 const diffButton = document.createElement('button');
                 diffButton.type = 'button';
-                diffButton.textContent = 'Diff';
+                diffButton.textContent = isConflicted ? 'Merge' : file.submodule ? 'Summary' : 'Diff';
                 diffButton.addEventListener('click', event => {
                     event.stopPropagation();
-                    vscode.postMessage({ type: 'openDiff', payload: { file: file.absolutePath } });
+                    openFileView();
                 });
                 actions.appendChild(diffButton);
                 row.appendChild(actions);
@@ -1301,9 +2465,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     }
                     toggleSelection(file.absolutePath, !state.selected.has(file.absolutePath));
                 });
-                row.addEventListener('dblclick', () => {
-                    vscode.postMessage({ type: 'openDiff', payload: { file: file.absolutePath } });
-                });
+                row.addEventListener('dblclick', () => openFileView());
                 row.addEventListener('contextmenu', event => {
                     event.preventDefault();
                     event.stopPropagation();
@@ -1312,8 +2474,204 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 return row;
             };
 
+            const getChangeLineIndexes = hunk => hunk.lines
+                .map((line, index) => (line.type === 'add' || line.type === 'remove') ? index : -1)
+                .filter(index => index >= 0);
+
+            const getHunkSelection = (filePath, hunk) => {
+                const partial = state.hunkSelections.get(filePath);
+                if (partial) {
+                    return partial.get(hunk.index) || new Set();
+                }
+                return state.selected.has(filePath) ? new Set(getChangeLineIndexes(hunk)) : new Set();
+            };
+
+            const updateHunkSelection = (filePath, hunkIndex, lineIndexes, selected) => {
+                const entry = state.hunks.get(filePath);
+                if (!entry) {
+                    return;
+                }
+                const selection = new Map();
+                entry.hunks.forEach(hunk => selection.set(hunk.index, new Set(getHunkSelection(filePath, hunk))));
+                const target = selection.get(hunkIndex);
+                lineIndexes.forEach(index => {
+                    if (selected) {
+                        target.add(index);
+                    } else {
+                        target.delete(index);
+                    }
+                });
+
+                let total = 0;
+                let chosen = 0;
+                entry.hunks.forEach(hunk => {
+                    total += getChangeLineIndexes(hunk).length;
+                    chosen += selection.get(hunk.index).size;
+                });
+
+                state.autoSelectEnabled = false;
+                if (chosen === 0) {
+                    state.hunkSelections.delete(filePath);
+                    state.selected.delete(filePath);
+                } else if (chosen === total) {
+                    state.hunkSelections.delete(filePath);
+                    state.selected.add(filePath);
+                } else {
+                    state.hunkSelections.set(filePath, selection);
+                    state.selected.add(filePath);
+                }
+                persistState();
+                renderGroups();
+            };
+
+            const buildHunkPayload = filePath => {
+                const entry = state.hunks.get(filePath);
+                const selection = state.hunkSelections.get(filePath);
+                if (!entry || !selection) {
+                    return { file: filePath, hunks: [] };
+                }
+                const hunks = [];
+                entry.hunks.forEach(hunk => {
+                    const lines = selection.get(hunk.index);
+                    if (lines && lines.size > 0) {
+                        hunks.push({ index: hunk.index, header: hunk.header, lines: Array.from(lines) });
+                    }
+                });
+                return { file: filePath, hunks };
+            };
+
+            const toggleFileExpanded = filePath => {
+                if (state.expandedFiles.has(filePath)) {
+                    state.expandedFiles.delete(filePath);
+                } else {
+                    state.expandedFiles.add(filePath);
+                    vscode.postMessage({ type: 'requestHunks', payload: { file: filePath } });
+                }
+                renderGroups();
+            };
+
+            const applyHunksPayload = payload => {
+                if (!payload || !payload.file) {
+                    return;
+                }
+                const previous = state.hunks.get(payload.file);
+                const hunks = Array.isArray(payload.hunks) ? payload.hunks : [];
+                const headersChanged = !previous
+                    || previous.hunks.length !== hunks.length
+                    || previous.hunks.some((hunk, index) => hunk.header !== hunks[index].header);
+                if (headersChanged || !payload.partialSupported) {
+                    state.hunkSelections.delete(payload.file);
+                }
+                state.hunks.set(payload.file, { hunks, partialSupported: !!payload.partialSupported });
+                renderGroups();
+            };
+
+            const renderHunks = file => {
+                const container = document.createElement('div');
+                container.className = 'tree-children hunk-list';
+                const entry = state.hunks.get(file.absolutePath);
+                const addMessage = text => {
+                    const message = document.createElement('div');
+                    message.className = 'hunk-message';
+                    message.textContent = text;
+                    container.appendChild(message);
+                };
+                if (!entry) {
+                    addMessage('Loading changes...');
+                    return container;
+                }
+                if (!entry.partialSupported) {
+                    addMessage('Hunk selection is not available for this file');
+                    return container;
+                }
+
+                entry.hunks.forEach(hunk => {
+                    const changeLines = getChangeLineIndexes(hunk);
+                    const chosen = getHunkSelection(file.absolutePath, hunk);
+                    const block = document.createElement('div');
+                    block.className = 'hunk';
+
+                    const header = document.createElement('div');
+                    header.className = 'hunk-header';
+                    const hunkCheckbox = document.createElement('input');
+                    hunkCheckbox.type = 'checkbox';
+                    hunkCheckbox.checked = changeLines.length > 0 && chosen.size === changeLines.length;
+                    hunkCheckbox.indeterminate = chosen.size > 0 && chosen.size < changeLines.length;
+                    hunkCheckbox.addEventListener('change', () => {
+                        updateHunkSelection(file.absolutePath, hunk.index, changeLines, hunkCheckbox.checked);
+                    });
+                    header.appendChild(hunkCheckbox);
+                    const headerText = document.createElement('span');
+                    headerText.className = 'hunk-header-text';
+                    headerText.textContent = hunk.header;
+                    header.appendChild(headerText);
+                    if (hunk.changelistName) {
+                        const changelistTag = document.createElement('span');
+                        changelistTag.className = 'hunk-changelist';
+                        changelistTag.textContent = hunk.changelistName;
+                        header.appendChild(changelistTag);
+                    }
+                    const moveButton = document.createElement('button');
+                    moveButton.type = 'button';
+                    moveButton.textContent = 'Move...';
+                    moveButton.title = 'Move this change to another changelist';
+                    moveButton.addEventListener('click', event => {
+                        event.stopPropagation();
+                        vscode.postMessage({ type: 'moveHunks', payload: { file: file.absolutePath, hunks: [hunk.index] } });
+                    });
+                    header.appendChild(moveButton);
+                    block.appendChild(header);
+
+                    hunk.lines.forEach((line, index) => {
+                        const isChange = line.type === 'add' || line.type === 'remove';
+                        const row = document.createElement('div');
+                        row.className = 'hunk-line ' + line.type;
+                        if (isChange && !chosen.has(index)) {
+                            row.classList.add('excluded');
+                        }
+                        const gutter = document.createElement('span');
+                        if (isChange) {
+                            const lineCheckbox = document.createElement('input');
+                            lineCheckbox.type = 'checkbox';
+                            lineCheckbox.checked = chosen.has(index);
+                            gutter.appendChild(lineCheckbox);
+                        }
+                        row.appendChild(gutter);
+                        const number = document.createElement('span');
+                        number.className = 'hunk-line-number';
+                        const lineNumber = line.type === 'remove' ? line.oldLine : line.newLine;
+                        number.textContent = lineNumber !== undefined && lineNumber !== null ? String(lineNumber) : '';
+                        row.appendChild(number);
+                        const text = document.createElement('span');
+                        text.className = 'hunk-line-text';
+                        const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : line.type === 'context' ? ' ' : '';
+                        text.textContent = prefix + line.content;
+                        row.appendChild(text);
+                        if (isChange) {
+                            row.addEventListener('click', event => {
+                                event.preventDefault();
+                                const select = !chosen.has(index);
+                                const anchor = state.lineAnchor;
+                                let targets = [index];
+                                if (event.shiftKey && anchor && anchor.file === file.absolutePath && anchor.hunk === hunk.index) {
+                                    const from = Math.min(anchor.line, index);
+                                    const to = Math.max(anchor.line, index);
+                                    targets = changeLines.filter(lineIndex => lineIndex >= from && lineIndex <= to);
+                                }
+                                state.lineAnchor = { file: file.absolutePath, hunk: hunk.index, line: index };
+                                updateHunkSelection(file.absolutePath, hunk.index, targets, select);
+                            });
+                        }
+                        block.appendChild(row);
+                    });
+                    container.appendChild(block);
+                });
+                return container;
+            };
+
             const toggleSelection = (filePath, selected) => {
                 state.autoSelectEnabled = false;
+                state.hunkSelections.delete(filePath);
                 if (selected) {
                     state.selected.add(filePath);
                 } else {
@@ -1326,6 +2684,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
             const setSelection = (filePaths, selected) => {
                 state.autoSelectEnabled = false;
                 filePaths.forEach(path => {
+                    state.hunkSelections.delete(path);
                     if (selected) {
                         state.selected.add(path);
                     } else {
@@ -1349,8 +2708,27 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 state.history = Array.isArray(payload.history) ? payload.history : [];
                 state.lastCommitMessage = payload.lastCommitMessage || '';
                 state.changelist = payload.changelist || null;
+                state.operation = payload.operation || null;
+                const wasConventional = !!state.conventional;
+                state.conventional = payload.conventionalCommits || null;
+                renderComposerOptions();
+                if (!wasConventional && state.conventional) {
+                    requestLint(state.composerOpen);
+                } else if (!state.conventional) {
+                    renderLint();
+                }
 
                 const validPaths = new Set(state.files.map(file => file.absolutePath));
+                [state.expandedFiles, state.hunks, state.hunkSelections].forEach(collection => {
+                    Array.from(collection.keys()).forEach(filePath => {
+                        if (!validPaths.has(filePath)) {
+                            collection.delete(filePath);
+                        }
+                    });
+                });
+                state.expandedFiles.forEach(filePath => {
+                    vscode.postMessage({ type: 'requestHunks', payload: { file: filePath } });
+                });
                 const previousSelection = new Set(state.selected);
                 state.selected = new Set();
                 previousSelection.forEach(filePath => {
@@ -1372,6 +2750,20 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     ? state.changelist.name + ' (' + state.changelist.count + ' files)'
                     : 'No changelist selected';
 
+                state.repositories = Array.isArray(payload.repositories) ? payload.repositories : [];
+                state.repository = payload.repository || null;
+                repositoryPicker.innerHTML = '';
+                state.repositories.forEach(repository => {
+                    const option = document.createElement('option');
+                    option.value = repository.root;
+                    option.textContent = repository.name;
+                    option.title = repository.root;
+                    option.selected = repository.root === state.repository;
+                    repositoryPicker.appendChild(option);
+                });
+                repositoryPicker.classList.toggle('hidden', state.repositories.length <= 1);
+                renderOperation();
+
                 historyPicker.innerHTML = '<option value="">History...</option>';
                 state.history.forEach(entry => {
                     const option = document.createElement('option');
@@ -1384,6 +2776,26 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     state.commitMessage = state.lastCommitMessage;
                     commitMessageInput.value = state.commitMessage;
                     state.autoFilledFromAmend = true;
+                    onMessageReplaced();
+                }
+                state.issuePrefill = payload.issuePrefill || '';
+                applyIssuePrefill();
+
+                const commitOptions = payload.commitOptions || null;
+                knownAuthors.innerHTML = '';
+                (commitOptions ? commitOptions.knownAuthors : []).forEach(entry => {
+                    const option = document.createElement('option');
+                    option.value = entry;
+                    knownAuthors.appendChild(option);
+                });
+                optSigningDefault.textContent = commitOptions && commitOptions.signingDefault
+                    ? 'Repository default (' + commitOptions.signingDefault + ')'
+                    : 'Repository default';
+                // 选项只在切换仓库时从扩展侧载入，避免覆盖正在编辑的内容
+                if (commitOptions && state.commitOptionsRoot !== state.repository) {
+                    state.commitOptionsRoot = state.repository;
+                    state.commitOptions = commitOptions.options || {};
+                    renderCommitOptions();
                 }
 
                 renderGroups();
@@ -1398,17 +2810,47 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     case 'state':
                         applyStatePayload(message.payload || {});
                         break;
+                    case 'hunks':
+                        applyHunksPayload(message.payload);
+                        break;
                     case 'busy':
                         state.busy = !!message.payload;
                         updateButtons();
                         break;
+                    case 'lint':
+                        if (message.payload && message.payload.message === state.commitMessage) {
+                            state.lint = Array.isArray(message.payload.violations) ? message.payload.violations : [];
+                            state.lintMessage = message.payload.message;
+                            if (message.payload.parts) {
+                                fillComposer(message.payload.parts);
+                            }
+                            renderLint();
+                            updateButtons();
+                        }
+                        break;
+                    case 'checks':
+                        state.checks = Array.isArray(message.payload) ? message.payload : null;
+                        state.checksReviewed = false;
+                        renderChecks();
+                        updateButtons();
+                        break;
                     case 'committed':
+                        state.checks = null;
+                        renderChecks();
                         if (!state.amend) {
                             state.commitMessage = '';
                             commitMessageInput.value = '';
                             amendToggle.checked = false;
                             state.amend = false;
+                            onMessageReplaced();
+                            state.issuePrefilled = null;
+                            applyIssuePrefill();
                         }
+                        // 提交日期只用于这一次提交
+                        optDate.value = '';
+                        renderCommitOptionsSummary();
+                        state.hunkSelections.forEach((_, filePath) => state.selected.delete(filePath));
+                        state.hunkSelections.clear();
                         state.autoSelectEnabled = false;
                         persistState();
                         renderGroups();
@@ -1424,10 +2866,55 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                 if (state.autoFilledFromAmend && !state.amend) {
                     state.autoFilledFromAmend = false;
                 }
+                // 直接编辑文本时按解析结果回填结构化编辑器，保持两边一致
+                requestLint(state.composerOpen);
                 persistState();
                 updateButtons();
             });
 
+            const onComposerInput = () => {
+                state.commitMessage = composeMessage();
+                commitMessageInput.value = state.commitMessage;
+                requestLint(false);
+                persistState();
+                updateButtons();
+            };
+            [ccType, ccScope, ccSubject, ccBody, ccBreaking, ccBreakingText, ccRefKeyword, ccRefs].forEach(element => {
+                element.addEventListener(element.tagName === 'SELECT' || element.type === 'checkbox' ? 'change' : 'input', onComposerInput);
+            });
+            optAuthor.addEventListener('input', () => {
+                state.commitOptions.author = optAuthor.value.trim();
+                onCommitOptionsChanged();
+            });
+            optSigning.addEventListener('change', () => {
+                state.commitOptions.signing = optSigning.value || undefined;
+                onCommitOptionsChanged();
+            });
+            optSignOff.addEventListener('change', () => {
+                state.commitOptions.signOff = optSignOff.checked;
+                onCommitOptionsChanged();
+            });
+            optNoVerify.addEventListener('change', () => {
+                state.commitOptions.noVerify = optNoVerify.checked;
+                onCommitOptionsChanged();
+            });
+            optDate.addEventListener('change', renderCommitOptionsSummary);
+            addCoAuthorBtn.addEventListener('click', addCoAuthor);
+            coAuthorInput.addEventListener('keydown', event => {
+                if (event.key === 'Enter') {
+                    event.preventDefault();
+                    addCoAuthor();
+                }
+            });
+            composerToggle.addEventListener('click', () => {
+                state.composerOpen = !state.composerOpen;
+                renderComposerOptions();
+                if (state.composerOpen) {
+                    requestLint(true);
+                }
+                persistState();
+            });
+
             amendToggle.addEventListener('change', () => {
                 state.amend = amendToggle.checked;
                 if (state.amend && !state.commitMessage && state.lastCommitMessage) {
@@ -1440,28 +2927,58 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     commitMessageInput.value = '';
                     state.autoFilledFromAmend = false;
                 }
+                onMessageReplaced();
                 persistState();
                 updateButtons();
             });
 
-            const sendCommit = andPush => {
+            const sendCommit = (andPush, skipChecks, allowSecrets, noVerify) => {
                 if (state.busy) {
                     return;
                 }
+                state.lastCommitAndPush = andPush;
                 vscode.postMessage({
                     type: 'commit',
                     payload: {
                         files: Array.from(state.selected),
+                        hunks: Array.from(state.hunkSelections.keys())
+                            .filter(filePath => state.selected.has(filePath))
+                            .map(filePath => buildHunkPayload(filePath)),
                         message: state.commitMessage,
                         andPush,
-                        amend: state.amend
+                        amend: state.amend,
+                        skipChecks: !!skipChecks,
+                        allowSecrets: !!allowSecrets,
+                        commitOptions: Object.assign({}, state.commitOptions, {
+                            date: optDate.value ? new Date(optDate.value).toISOString() : undefined
+                        }, noVerify ? { noVerify: true } : {})
                     }
                 });
             };
 
             commitBtn.addEventListener('click', () => sendCommit(false));
             commitPushBtn.addEventListener('click', () => sendCommit(true));
+            // 敏感信息扫描在常规检查之后进行，此时覆盖需同时跳过两者；
+            // hook 失败时前面的检查均已通过，以 --no-verify 重试
+            commitAnywayBtn.addEventListener('click', () => sendCommit(state.lastCommitAndPush, true, hasSecrets(), hasHookFailure()));
+            hookOutputBtn.addEventListener('click', () => vscode.postMessage({ type: 'showHookOutput' }));
+            reviewChecksBtn.addEventListener('click', () => {
+                // Review 取消本次提交，保留问题列表供逐项查看
+                state.checksReviewed = true;
+                renderChecks();
+                const first = (state.checks || []).find(problem => problem.filePath);
+                if (first) {
+                    openProblem(first);
+                }
+            });
+            dismissChecksBtn.addEventListener('click', () => {
+                state.checks = null;
+                renderChecks();
+            });
             refreshBtn.addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+            repositoryPicker.addEventListener('change', () => {
+                vscode.postMessage({ type: 'selectRepository', payload: { root: repositoryPicker.value } });
+            });
             selectAll.addEventListener('change', () => {
                 state.autoSelectEnabled = false;
                 if (selectAll.checked) {
@@ -1477,6 +2994,7 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
                     commitMessageInput.value = historyPicker.value;
                     state.commitMessage = historyPicker.value;
                     historyPicker.selectedIndex = 0;
+                    onMessageReplaced();
                     persistState();
                     updateButtons();
                 }
@@ -1490,15 +3008,6 @@ export class CommitPanelProvider implements vscode.WebviewViewProvider, vscode.D
 </body>
 </html>`;
     }
-
-    private getNonce(): string {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-        let result = '';
-        for (let i = 0; i < 32; i++) {
-            result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-    }
 }
 
 
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { GitBlame, GitBlameCommit } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { IssueLinkHelper } from '../helpers/issueLinkHelper';
+
+interface CachedBlame {
+    blame: Promise<GitBlame | undefined>;
+    messages?: Map<string, string>;
+}
+
+const MAX_CACHE_ENTRIES = 50;
+const EDIT_DELAY = 500;
+const SUMMARY_LENGTH = 50;
+
+/**
+ * 光标所在行的 blame：行尾幽灵文本 + 状态栏。
+ * 结果按文件、HEAD 版本与文档版本缓存，移动光标只查表，不会重新运行 git blame。
+ */
+export class CurrentLineBlame implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private readonly decorationType: vscode.TextEditorDecorationType;
+    private readonly disposables: vscode.Disposable[] = [];
+    private repositoryDisposables: vscode.Disposable[] = [];
+    private readonly cache = new Map<string, CachedBlame>();
+    private readonly headRevisions = new Map<string, Promise<string | undefined>>();
+    private editTimer?: NodeJS.Timeout;
+    private decoratedEditor?: vscode.TextEditor;
+    private updateToken = 0;
+
+    constructor(private readonly repositoryManager: RepositoryManager) {
+        this.item = vscode.window.createStatusBarItem('vigit.currentLineBlame', vscode.StatusBarAlignment.Right, 200);
+        this.item.name = 'ViGit Blame';
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            after: {
+                margin: '0 0 0 3em',
+                color: new vscode.ThemeColor('editorCodeLens.foreground'),
+                fontStyle: 'italic'
+            },
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen
+        });
+
+        this.watchRepositories();
+        this.disposables.push(
+            this.repositoryManager.onDidChangeRepositories(() => {
+                this.watchRepositories();
+                this.invalidate();
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                if (event.textEditor === vscode.window.activeTextEditor) {
+                    this.update();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document !== vscode.window.activeTextEditor?.document || event.contentChanges.length === 0) {
+                    return;
+                }
+                // 编辑过程中先隐藏，停顿后再按新内容计算，避免行号错位的结果
+                this.clear();
+                if (this.editTimer) {
+                    clearTimeout(this.editTimer);
+                }
+                this.editTimer = setTimeout(() => {
+                    this.editTimer = undefined;
+                    this.update();
+                }, EDIT_DELAY);
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.forget(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('vigit.currentLineBlame')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+
+    private watchRepositories(): void {
+        this.repositoryDisposables.forEach(d => d.dispose());
+        // 提交、检出等操作都会触发 Local Changes 刷新，此时 HEAD 可能已变化
+        this.repositoryDisposables = this.repositoryManager.getRepositories().map(repository =>
+            repository.localChangesProvider.onDidChangeTreeData(() => {
+                this.headRevisions.delete(repository.root);
+                this.update();
+            })
+        );
+    }
+
+    private invalidate(): void {
+        this.cache.clear();
+        this.headRevisions.clear();
+        this.update();
+    }
+
+    private forget(uri: vscode.Uri): void {
+        const prefix = `${uri.toString()}@`;
+        Array.from(this.cache.keys())
+            .filter(key => key.startsWith(prefix))
+            .forEach(key => this.cache.delete(key));
+    }
+
+    private update(): void {
+        const token = ++this.updateToken;
+        void this.render(token).catch(error => {
+            console.warn('ViGit: unable to show current line blame', error);
+            this.clear();
+        });
+    }
+
+    private async render(token: number): Promise<void> {
+        const config = vscode.workspace.getConfiguration('vigit');
+        const showInline = config.get<boolean>('currentLineBlame.inline', true);
+        const showStatusBar = config.get<boolean>('currentLineBlame.statusBar', true);
+        const editor = vscode.window.activeTextEditor;
+        if ((!showInline && !showStatusBar) || !editor || editor.document.uri.scheme !== 'file' || this.editTimer) {
+            this.clear();
+            return;
+        }
+
+        const repository = this.repositoryManager.getRepositoryForPath(editor.document.uri.fsPath);
+        if (!repository) {
+            this.clear();
+            return;
+        }
+
+        const line = editor.selection.active.line;
+        const entry = await this.getBlame(repository, editor.document);
+        const blame = await entry?.blame;
+        // 等待期间光标或编辑器已变化
+        if (token !== this.updateToken || editor !== vscode.window.activeTextEditor) {
+            return;
+        }
+
+        const commit = blame?.commits.get(blame.lines[line]);
+        if (!entry || !commit) {
+            this.clear();
+            return;
+        }
+
+        const text = this.describe(commit);
+        if (showInline) {
+            this.clearDecoration();
+            this.decoratedEditor = editor;
+            editor.setDecorations(this.decorationType, [{
+                range: new vscode.Range(line, Number.MAX_SAFE_INTEGER, line, Number.MAX_SAFE_INTEGER),
+                renderOptions: { after: { contentText: text } }
+            }]);
+        } else {
+            this.clearDecoration();
+        }
+
+        if (!showStatusBar) {
+            this.item.hide();
+            return;
+        }
+
+        this.item.text = `$(git-commit) ${commit.uncommitted ? 'Not Committed Yet' : `${commit.author}, ${this.formatRelativeDate(commit.authorTime)}`}`;
+        this.item.tooltip = this.createTooltip(commit, entry);
+        this.item.command = commit.uncommitted
+            ? undefined
+            : {
+                title: 'Show Commit Details',
+                command: 'vigit.showCommitDetails',
+                arguments: [{ hash: commit.hash }, repository.root]
+            };
+        this.item.show();
+    }
+
+    private async getBlame(repository: Repository, document: vscode.TextDocument): Promise<CachedBlame | undefined> {
+        let head = this.headRevisions.get(repository.root);
+        if (!head) {
+            head = repository.gitService.getHeadRevision();
+            this.headRevisions.set(repository.root, head);
+        }
+        const revision = await head;
+        if (!revision) {
+            return undefined;
+        }
+
+        // 文档版本随编辑与磁盘重新加载递增，保存前后的内容差异也会反映在键上
+        const key = `${document.uri.toString()}@${revision}#${document.version}`;
+        const cached = this.cache.get(key);
+        if (cached) {
+            // 重新插入以维持 LRU 顺序
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return cached;
+        }
+
+        const entry: CachedBlame = {
+            blame: repository.gitService
+                .getBlame(document.uri.fsPath, { contents: document.isDirty ? document.getText() : undefined })
+                .catch(() => undefined)
+        };
+        // 未跟踪或被忽略的文件 blame 会失败，同样缓存结果以免反复调用
+        this.cache.set(key, entry);
+        if (this.cache.size > MAX_CACHE_ENTRIES) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+
+        const blame = await entry.blame;
+        if (blame) {
+            entry.messages = await repository.gitService
+                .getCommitMessages(Array.from(blame.commits.keys()))
+                .catch(() => undefined);
+        }
+        return entry;
+    }
+
+    private describe(commit: GitBlameCommit): string {
+        if (commit.uncommitted) {
+            return 'You, Not Committed Yet';
+        }
+        const summary = commit.summary.length > SUMMARY_LENGTH
+            ? `${commit.summary.substring(0, SUMMARY_LENGTH - 1)}…`
+            : commit.summary;
+        return `${commit.author}, ${this.formatRelativeDate(commit.authorTime)} • ${summary}`;
+    }
+
+    private createTooltip(commit: GitBlameCommit, entry: CachedBlame): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        if (commit.uncommitted) {
+            markdown.appendMarkdown('**Not Committed Yet**');
+            return markdown;
+        }
+        markdown.appendMarkdown(`**${commit.hash.substring(0, 7)}** · `);
+        markdown.appendText(`${commit.author} <${commit.authorEmail}> · ${commit.authorTime.toLocaleString()}`);
+        markdown.appendMarkdown('\n\n');
+        const message = entry.messages?.get(commit.hash) ?? commit.summary;
+        markdown.appendCodeblock(message, 'text');
+        IssueLinkHelper.appendMarkdownLinks(markdown, message);
+        markdown.appendMarkdown('Click to show commit details');
+        return markdown;
+    }
+
+    private formatRelativeDate(date: Date): string {
+        const seconds = Math.round((Date.now() - date.getTime()) / 1000);
+        const units: [number, string][] = [
+            [60 * 60 * 24 * 365, 'year'],
+            [60 * 60 * 24 * 30, 'month'],
+            [60 * 60 * 24 * 7, 'week'],
+            [60 * 60 * 24, 'day'],
+            [60 * 60, 'hour'],
+            [60, 'minute']
+        ];
+        for (const [size, unit] of units) {
+            const value = Math.floor(seconds / size);
+            if (value >= 1) {
+                return `${value} ${unit}${value === 1 ? '' : 's'} ago`;
+            }
+        }
+        return 'just now';
+    }
+
+    private clear(): void {
+        this.clearDecoration();
+        this.item.hide();
+    }
+
+    private clearDecoration(): void {
+        this.decoratedEditor?.setDecorations(this.decorationType, []);
+        this.decoratedEditor = undefined;
+    }
+
+    dispose(): void {
+        if (this.editTimer) {
+            clearTimeout(this.editTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.repositoryDisposables.forEach(d => d.dispose());
+        this.decorationType.dispose();
+        this.item.dispose();
+    }
+}
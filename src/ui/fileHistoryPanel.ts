@@ -0,0 +1,704 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitFileRevision } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { DiffViewHelper } from '../helpers/diffViewHelper';
+import { AnnotateHelper } from '../helpers/annotateHelper';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+type FileHistoryAction = 'diffParent' | 'compareLocal' | 'showRevision' | 'annotate' | 'restore' | 'openCommit' | 'copyHash';
+
+interface FileRevisionSummary {
+    hash: string;
+    abbrevHash: string;
+    message: string;
+    author: string;
+    email: string;
+    date: string;
+    refs: string[];
+    path: string;
+    status: string;
+    previousPath?: string;
+}
+
+export class FileHistoryPanel implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly viewId = 'vigit.fileHistory';
+
+    private view?: vscode.WebviewView;
+    private viewDisposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private filePath?: string;
+    private revisions: GitFileRevision[] = [];
+    private stale = false;
+    private readonly maxRevisions = 1000;
+
+    constructor(private readonly repositoryManager: RepositoryManager) {}
+
+    dispose(): void {
+        this.disposeView();
+    }
+
+    resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        webviewView.webview.options = {
+            enableScripts: true
+        };
+        webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
+
+        this.viewDisposables.push(
+            webviewView.onDidDispose(() => this.disposeView()),
+            webviewView.onDidChangeVisibility(() => {
+                if (webviewView.visible && this.stale) {
+                    void this.load();
+                }
+            }),
+            webviewView.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message);
+            })
+        );
+    }
+
+    /**
+     * 打开 File History 视图并加载指定文件的历史（跟踪重命名）。
+     */
+    async show(repository: Repository, filePath: string): Promise<void> {
+        this.currentRepository = repository;
+        this.filePath = filePath;
+        this.revisions = [];
+        await this.ensureViewVisible();
+        if (!this.view) {
+            vscode.window.showWarningMessage('Unable to open file history view');
+            return;
+        }
+
+        await this.load();
+        this.view.show?.(true);
+    }
+
+    /**
+     * 仓库状态变化后重新加载；视图不可见时延迟到下次显示。
+     */
+    refresh(): void {
+        if (!this.filePath) {
+            return;
+        }
+        if (!this.view?.visible) {
+            this.stale = true;
+            return;
+        }
+        void this.load();
+    }
+
+    private async ensureViewVisible(): Promise<void> {
+        if (this.view) {
+            return;
+        }
+
+        try {
+            await vscode.commands.executeCommand(`${FileHistoryPanel.viewId}.focus`);
+        } catch {
+            await vscode.commands.executeCommand('workbench.view.extension.vigit-panel');
+        }
+
+        for (let i = 0; i < 5 && !this.view; i++) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    private disposeView(): void {
+        this.viewDisposables.forEach(d => d.dispose());
+        this.viewDisposables = [];
+        this.view = undefined;
+    }
+
+    private getRepository(): Repository | undefined {
+        if (this.currentRepository && this.repositoryManager.getRepository(this.currentRepository.root)) {
+            return this.currentRepository;
+        }
+        return undefined;
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+            case 'refresh':
+                await this.load();
+                break;
+            case 'action':
+                await this.runAction(message.payload?.action, message.payload?.hash);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private async load(): Promise<void> {
+        if (!this.view) {
+            return;
+        }
+
+        this.stale = false;
+        const repository = this.getRepository();
+        const filePath = this.filePath;
+        if (!repository || !filePath) {
+            this.view.description = undefined;
+            await this.view.webview.postMessage({ type: 'history', payload: { revisions: [] } });
+            return;
+        }
+
+        const relativePath = path.relative(repository.root, filePath).split(path.sep).join('/');
+        this.view.description = path.basename(filePath);
+
+        try {
+            this.revisions = await repository.gitService.getFileHistory(filePath, this.maxRevisions);
+            await this.view.webview.postMessage({
+                type: 'history',
+                payload: {
+                    file: relativePath,
+                    revisions: this.revisions.map(revision => this.toSummary(revision)),
+                    truncated: this.revisions.length >= this.maxRevisions
+                }
+            });
+        } catch (error) {
+            this.revisions = [];
+            const message = error instanceof Error ? error.message : String(error);
+            await this.view.webview.postMessage({
+                type: 'history',
+                payload: { file: relativePath, revisions: [], error: message }
+            });
+        }
+    }
+
+    private async runAction(action: FileHistoryAction | undefined, hash: unknown): Promise<void> {
+        const repository = this.getRepository();
+        const filePath = this.filePath;
+        const revision = this.revisions.find(item => item.commit.hash === hash);
+        if (!action || !repository || !filePath || !revision) {
+            return;
+        }
+
+        const gitService = repository.gitService;
+        const { commit } = revision;
+        try {
+            switch (action) {
+                case 'diffParent':
+                    await DiffViewHelper.showCommitFileDiff(
+                        gitService,
+                        commit.hash,
+                        commit.parents[0],
+                        { path: revision.path, status: revision.status, previousPath: revision.previousPath },
+                        { compareWithWorkingTree: false }
+                    );
+                    break;
+                case 'compareLocal':
+                    await DiffViewHelper.showRevisionWithWorkingTree(gitService, commit.hash, revision.path, filePath);
+                    break;
+                case 'showRevision':
+                    await DiffViewHelper.showFileAtRevision(gitService, commit.hash, revision.path, { preview: false });
+                    break;
+                case 'annotate': {
+                    const editor = await DiffViewHelper.showFileAtRevision(gitService, commit.hash, revision.path, {
+                        preview: false
+                    });
+                    await AnnotateHelper.showAnnotations(gitService, editor, {
+                        filePath: path.join(repository.root, revision.path),
+                        revision: commit.hash
+                    });
+                    break;
+                }
+                case 'restore':
+                    await this.restoreRevision(repository, filePath, revision);
+                    break;
+                case 'openCommit':
+                    await vscode.commands.executeCommand('vigit.showCommitDetails', { hash: commit.hash }, repository.root);
+                    break;
+                case 'copyHash':
+                    await vscode.env.clipboard.writeText(commit.hash);
+                    vscode.window.setStatusBarMessage(`Copied ${commit.abbrevHash}`, 2000);
+                    break;
+                default:
+                    break;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run file history action: ${error}`);
+        }
+    }
+
+    private async restoreRevision(repository: Repository, filePath: string, revision: GitFileRevision): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            `Replace ${path.basename(filePath)} with its content at ${revision.commit.abbrevHash}? Local changes to this file will be lost.`,
+            { modal: true },
+            'Restore'
+        );
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        await repository.gitService.restoreFileFromRevision(filePath, revision.commit.hash, revision.path);
+        await repository.localChangesProvider.refresh();
+        vscode.window.showInformationMessage(
+            `Restored ${path.basename(filePath)} to ${revision.commit.abbrevHash}`
+        );
+    }
+
+    private toSummary(revision: GitFileRevision): FileRevisionSummary {
+        return {
+            hash: revision.commit.hash,
+            abbrevHash: revision.commit.abbrevHash,
+            message: revision.commit.message,
+            author: revision.commit.author,
+            email: revision.commit.email,
+            date: revision.commit.date.toISOString(),
+            refs: revision.commit.refs,
+            path: revision.path,
+            status: revision.status,
+            previousPath: revision.previousPath
+        };
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = WebviewHelper.getNonce();
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        :root {
+            color-scheme: var(--vscode-color-scheme);
+        }
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+            background: var(--vscode-panel-background, var(--vscode-sideBar-background));
+            color: var(--vscode-foreground);
+            overflow: hidden;
+            height: 100vh;
+        }
+        .history-panel {
+            display: flex;
+            flex-direction: column;
+            height: 100%;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .toolbar .file {
+            font-weight: 600;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .toolbar button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 3px;
+            padding: 3px 10px;
+            cursor: pointer;
+        }
+        .toolbar button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .toolbar .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .list {
+            flex: 1;
+            overflow: auto;
+            outline: none;
+        }
+        .history-row {
+            display: flex;
+            align-items: center;
+            height: 24px;
+            padding: 0 10px;
+            gap: 8px;
+            cursor: default;
+            white-space: nowrap;
+        }
+        .history-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .history-row.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .history-row.selected .history-meta {
+            color: inherit;
+        }
+        .history-subject {
+            flex: 1;
+            min-width: 0;
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            overflow: hidden;
+        }
+        .history-message {
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .rename {
+            flex-shrink: 0;
+            padding: 0 5px;
+            border-radius: 3px;
+            font-size: 10px;
+            line-height: 16px;
+            background: rgba(197, 134, 192, 0.18);
+            color: #c586c0;
+        }
+        .ref {
+            flex-shrink: 0;
+            padding: 0 5px;
+            border-radius: 3px;
+            font-size: 10px;
+            line-height: 16px;
+            background: rgba(110, 151, 255, 0.15);
+            color: #6e97ff;
+        }
+        .history-meta {
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .history-author {
+            width: 140px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .history-date {
+            width: 130px;
+        }
+        .history-hash {
+            width: 60px;
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .empty {
+            padding: 16px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .context-menu {
+            position: fixed;
+            z-index: 10;
+            min-width: 220px;
+            padding: 4px 0;
+            background: var(--vscode-menu-background, var(--vscode-editorWidget-background));
+            color: var(--vscode-menu-foreground, var(--vscode-foreground));
+            border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.35);
+        }
+        .context-menu.hidden {
+            display: none;
+        }
+        .context-item {
+            display: block;
+            width: 100%;
+            padding: 4px 16px;
+            border: none;
+            background: transparent;
+            color: inherit;
+            text-align: left;
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .context-item:hover:not(:disabled) {
+            background: var(--vscode-menu-selectionBackground, var(--vscode-list-hoverBackground));
+            color: var(--vscode-menu-selectionForeground, inherit);
+        }
+        .context-item:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .context-separator {
+            height: 1px;
+            margin: 4px 0;
+            background: var(--vscode-menu-separatorBackground, var(--vscode-panel-border));
+        }
+    </style>
+</head>
+<body>
+    <div class="history-panel">
+        <div class="toolbar">
+            <span class="file" id="fileLabel"></span>
+            <button type="button" data-action="compareLocal" title="Compare the selected revision with the working tree">Compare with Local</button>
+            <button type="button" data-action="showRevision" title="Open the file as of the selected revision">Show File</button>
+            <button type="button" data-action="annotate" title="Annotate the file as of the selected revision">Annotate</button>
+            <button type="button" data-action="restore" title="Replace the working tree file with the selected revision">Restore...</button>
+            <button type="button" id="refreshHistory">Refresh</button>
+            <span class="status" id="historyStatus"></span>
+        </div>
+        <div class="list" id="list" tabindex="0"></div>
+    </div>
+    <div id="contextMenu" class="context-menu hidden"></div>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const list = document.getElementById('list');
+            const fileLabel = document.getElementById('fileLabel');
+            const statusLabel = document.getElementById('historyStatus');
+            const contextMenu = document.getElementById('contextMenu');
+            const actionButtons = Array.from(document.querySelectorAll('.toolbar [data-action]'));
+
+            const menuItems = [
+                { id: 'diffParent', label: 'Show Diff with Parent' },
+                { id: 'compareLocal', label: 'Compare with Local' },
+                { id: 'showRevision', label: 'Show File at Revision' },
+                { id: 'annotate', label: 'Annotate at Revision' },
+                { separator: true },
+                { id: 'restore', label: 'Restore This Revision...' },
+                { separator: true },
+                { id: 'openCommit', label: 'Show Commit Details' },
+                { id: 'copyHash', label: 'Copy Revision Number' }
+            ];
+            // 删除文件的版本中没有内容可供查看或恢复
+            const needsContent = ['compareLocal', 'showRevision', 'annotate', 'restore'];
+
+            const state = {
+                file: '',
+                revisions: [],
+                selected: null
+            };
+
+            const formatDate = (iso) => {
+                const date = new Date(iso);
+                if (Number.isNaN(date.getTime())) {
+                    return iso;
+                }
+                return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            };
+
+            const getSelected = () => state.revisions.find(item => item.hash === state.selected);
+
+            const isActionEnabled = (action, revision) => {
+                return !!revision && !(revision.status === 'D' && needsContent.includes(action));
+            };
+
+            const runAction = (action, revision) => {
+                if (isActionEnabled(action, revision)) {
+                    vscode.postMessage({ type: 'action', payload: { action, hash: revision.hash } });
+                }
+            };
+
+            const updateToolbar = () => {
+                const revision = getSelected();
+                actionButtons.forEach(button => {
+                    button.disabled = !isActionEnabled(button.dataset.action, revision);
+                });
+            };
+
+            const select = (hash, reveal) => {
+                state.selected = hash;
+                list.querySelectorAll('.history-row').forEach(row => {
+                    const selected = row.dataset.hash === hash;
+                    row.classList.toggle('selected', selected);
+                    if (selected && reveal) {
+                        row.scrollIntoView({ block: 'nearest' });
+                    }
+                });
+                updateToolbar();
+            };
+
+            const createRow = (revision) => {
+                const row = document.createElement('div');
+                row.className = 'history-row';
+                row.dataset.hash = revision.hash;
+
+                const subject = document.createElement('span');
+                subject.className = 'history-subject';
+                const message = document.createElement('span');
+                message.className = 'history-message';
+                message.textContent = revision.message;
+                message.title = revision.message;
+                subject.appendChild(message);
+                if (revision.previousPath) {
+                    const rename = document.createElement('span');
+                    rename.className = 'rename';
+                    rename.textContent = 'renamed';
+                    rename.title = revision.previousPath + ' → ' + revision.path;
+                    subject.appendChild(rename);
+                } else if (revision.path !== state.file) {
+                    const rename = document.createElement('span');
+                    rename.className = 'rename';
+                    rename.textContent = revision.path;
+                    rename.title = 'File path at this revision';
+                    subject.appendChild(rename);
+                }
+                (revision.refs || []).forEach(ref => {
+                    const badge = document.createElement('span');
+                    badge.className = 'ref';
+                    badge.textContent = ref.replace(/^tag: /, '').replace(/^HEAD -> /, '');
+                    subject.appendChild(badge);
+                });
+                row.appendChild(subject);
+
+                const author = document.createElement('span');
+                author.className = 'history-meta history-author';
+                author.textContent = revision.author;
+                author.title = revision.author + (revision.email ? ' <' + revision.email + '>' : '');
+                row.appendChild(author);
+
+                const date = document.createElement('span');
+                date.className = 'history-meta history-date';
+                date.textContent = formatDate(revision.date);
+                row.appendChild(date);
+
+                const hash = document.createElement('span');
+                hash.className = 'history-meta history-hash';
+                hash.textContent = revision.abbrevHash;
+                row.appendChild(hash);
+
+                row.addEventListener('click', () => {
+                    select(revision.hash, false);
+                    runAction('diffParent', revision);
+                });
+                row.addEventListener('dblclick', () => runAction('openCommit', revision));
+                row.addEventListener('contextmenu', (event) => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    select(revision.hash, false);
+                    showContextMenu(revision, event.clientX, event.clientY);
+                });
+                return row;
+            };
+
+            const render = (payload) => {
+                state.file = payload.file || '';
+                state.revisions = Array.isArray(payload.revisions) ? payload.revisions : [];
+                if (!state.revisions.some(item => item.hash === state.selected)) {
+                    state.selected = null;
+                }
+
+                fileLabel.textContent = state.file;
+                fileLabel.title = state.file;
+                list.innerHTML = '';
+
+                if (payload.error) {
+                    statusLabel.textContent = '';
+                    const error = document.createElement('div');
+                    error.className = 'empty';
+                    error.textContent = payload.error;
+                    list.appendChild(error);
+                } else if (!state.file) {
+                    statusLabel.textContent = '';
+                    const empty = document.createElement('div');
+                    empty.className = 'empty';
+                    empty.textContent = 'Run "Show File History" on a file to see its revisions.';
+                    list.appendChild(empty);
+                } else if (state.revisions.length === 0) {
+                    statusLabel.textContent = '';
+                    const empty = document.createElement('div');
+                    empty.className = 'empty';
+                    empty.textContent = 'This file has no committed history.';
+                    list.appendChild(empty);
+                } else {
+                    statusLabel.textContent = state.revisions.length
+                        + (payload.truncated ? '+' : '')
+                        + (state.revisions.length === 1 ? ' revision' : ' revisions');
+                    state.revisions.forEach(revision => list.appendChild(createRow(revision)));
+                }
+
+                select(state.selected, false);
+            };
+
+            const showContextMenu = (revision, x, y) => {
+                contextMenu.innerHTML = '';
+                menuItems.forEach(item => {
+                    if (item.separator) {
+                        const separator = document.createElement('div');
+                        separator.className = 'context-separator';
+                        contextMenu.appendChild(separator);
+                        return;
+                    }
+                    const button = document.createElement('button');
+                    button.className = 'context-item';
+                    button.textContent = item.label;
+                    button.disabled = !isActionEnabled(item.id, revision);
+                    button.addEventListener('click', () => {
+                        hideContextMenu();
+                        runAction(item.id, revision);
+                    });
+                    contextMenu.appendChild(button);
+                });
+
+                contextMenu.classList.remove('hidden');
+                contextMenu.style.left = x + 'px';
+                contextMenu.style.top = y + 'px';
+                const rect = contextMenu.getBoundingClientRect();
+                if (rect.right > window.innerWidth) {
+                    contextMenu.style.left = Math.max(0, window.innerWidth - rect.width - 8) + 'px';
+                }
+                if (rect.bottom > window.innerHeight) {
+                    contextMenu.style.top = Math.max(0, window.innerHeight - rect.height - 8) + 'px';
+                }
+            };
+
+            const hideContextMenu = () => {
+                contextMenu.classList.add('hidden');
+            };
+
+            actionButtons.forEach(button => {
+                button.addEventListener('click', () => runAction(button.dataset.action, getSelected()));
+            });
+            document.getElementById('refreshHistory').addEventListener('click', () => {
+                vscode.postMessage({ type: 'refresh' });
+            });
+
+            list.addEventListener('keydown', (event) => {
+                if (state.revisions.length === 0) {
+                    return;
+                }
+                const index = state.revisions.findIndex(item => item.hash === state.selected);
+                if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                    event.preventDefault();
+                    const next = event.key === 'ArrowDown'
+                        ? Math.min(index + 1, state.revisions.length - 1)
+                        : Math.max(index - 1, 0);
+                    select(state.revisions[next].hash, true);
+                } else if (event.key === 'Enter' && index >= 0) {
+                    event.preventDefault();
+                    runAction('diffParent', state.revisions[index]);
+                }
+            });
+
+            document.addEventListener('click', (event) => {
+                if (!contextMenu.contains(event.target)) {
+                    hideContextMenu();
+                }
+            });
+            window.addEventListener('blur', hideContextMenu);
+            document.addEventListener('keydown', (event) => {
+                if (event.key === 'Escape') {
+                    hideContextMenu();
+                }
+            });
+
+            window.addEventListener('message', (event) => {
+                const message = event.data;
+                if (message && message.type === 'history') {
+                    render(message.payload || {});
+                }
+            });
+
+            updateToolbar();
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,661 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitCommandLog, GitCommandRecord } from '../services/gitCommandLog';
+import { RepositoryManager } from '../managers/repositoryManager';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+interface ConsoleRecordPayload extends GitCommandRecord {
+    command: string;
+    repository: string;
+}
+
+const FLUSH_DELAY = 200;
+
+/**
+ * Git Console：所有 git 调用写入 "ViGit Console" 输出通道，并在底部面板中可搜索地列出；
+ * 输入行可对当前仓库执行任意 git 命令。
+ */
+export class GitConsolePanel implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly viewId = 'vigit.console';
+
+    private view?: vscode.WebviewView;
+    private viewDisposables: vscode.Disposable[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly channel: vscode.OutputChannel;
+    private queued: GitCommandRecord[] = [];
+    private flushTimer?: NodeJS.Timeout;
+    private running = false;
+
+    constructor(private readonly repositoryManager: RepositoryManager) {
+        this.channel = vscode.window.createOutputChannel('ViGit Console');
+        // 激活过程中（仓库发现阶段）已经产生的记录
+        GitCommandLog.getRecords().forEach(record => this.channel.appendLine(GitCommandLog.formatForOutput(record)));
+
+        this.disposables.push(
+            GitCommandLog.onDidRecord(record => {
+                this.channel.appendLine(GitCommandLog.formatForOutput(record));
+                this.enqueue(record);
+            }),
+            this.repositoryManager.onDidChangeActiveRepository(() => this.postRepository()),
+            this.repositoryManager.onDidChangeRepositories(() => this.postRepository())
+        );
+    }
+
+    dispose(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+        }
+        this.disposeView();
+        this.disposables.forEach(d => d.dispose());
+        this.channel.dispose();
+    }
+
+    resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        webviewView.webview.options = {
+            enableScripts: true
+        };
+        webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
+
+        this.viewDisposables.push(
+            webviewView.onDidDispose(() => this.disposeView()),
+            webviewView.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message);
+            })
+        );
+    }
+
+    async show(): Promise<void> {
+        try {
+            await vscode.commands.executeCommand(`${GitConsolePanel.viewId}.focus`);
+        } catch {
+            await vscode.commands.executeCommand('workbench.view.extension.vigit-panel');
+        }
+    }
+
+    showOutput(): void {
+        this.channel.show();
+    }
+
+    private disposeView(): void {
+        this.viewDisposables.forEach(d => d.dispose());
+        this.viewDisposables = [];
+        this.view = undefined;
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+                this.queued = [];
+                await this.view?.webview.postMessage({
+                    type: 'records',
+                    payload: GitCommandLog.getRecords().map(record => this.toPayload(record))
+                });
+                this.postRepository();
+                this.postRunning();
+                break;
+            case 'run':
+                await this.run(message.payload?.command);
+                break;
+            case 'clear':
+                GitCommandLog.clear();
+                this.queued = [];
+                await this.view?.webview.postMessage({ type: 'records', payload: [] });
+                break;
+            case 'showOutput':
+                this.showOutput();
+                break;
+            default:
+                break;
+        }
+    }
+
+    private async run(commandLine: unknown): Promise<void> {
+        if (typeof commandLine !== 'string' || this.running) {
+            return;
+        }
+        const repository = this.repositoryManager.getActiveRepository();
+        if (!repository) {
+            vscode.window.showWarningMessage('No active repository to run git commands in');
+            return;
+        }
+
+        const args = this.parseCommandLine(commandLine);
+        if (!args) {
+            vscode.window.showWarningMessage('Unterminated quote in git command');
+            return;
+        }
+        if (args[0] === 'git') {
+            args.shift();
+        }
+        if (args.length === 0) {
+            return;
+        }
+
+        this.running = true;
+        this.postRunning();
+        try {
+            await repository.gitService.runConsoleCommand(args);
+        } catch (error) {
+            // 退出码与 stderr 已经在命令记录中展示
+            console.warn('ViGit: git console command failed', error);
+        } finally {
+            this.running = false;
+            this.postRunning();
+        }
+        // 命令可能修改了工作区、分支或 stash
+        await vscode.commands.executeCommand('vigit.refresh');
+    }
+
+    /**
+     * 按 shell 的习惯拆分参数：支持单双引号，双引号内可用反斜杠转义引号与反斜杠；
+     * 引号外的反斜杠保持原样，方便输入 Windows 路径。引号未闭合时返回 undefined。
+     */
+    private parseCommandLine(line: string): string[] | undefined {
+        const args: string[] = [];
+        let current = '';
+        let quote: string | undefined;
+        let hasToken = false;
+
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quote) {
+                if (char === quote) {
+                    quote = undefined;
+                } else if (quote === '"' && char === '\\' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+                    current += line[++i];
+                } else {
+                    current += char;
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+                hasToken = true;
+            } else if (/\s/.test(char)) {
+                if (hasToken) {
+                    args.push(current);
+                    current = '';
+                    hasToken = false;
+                }
+            } else {
+                current += char;
+                hasToken = true;
+            }
+        }
+
+        if (quote) {
+            return undefined;
+        }
+        if (hasToken) {
+            args.push(current);
+        }
+        return args;
+    }
+
+    /**
+     * 后台刷新时 git 调用很密集，合并后批量发送给 webview。
+     */
+    private enqueue(record: GitCommandRecord): void {
+        if (!this.view) {
+            return;
+        }
+        this.queued.push(record);
+        if (this.flushTimer) {
+            return;
+        }
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            const records = this.queued;
+            this.queued = [];
+            void this.view?.webview.postMessage({
+                type: 'append',
+                payload: records.map(record => this.toPayload(record))
+            });
+        }, FLUSH_DELAY);
+    }
+
+    private postRepository(): void {
+        const repository = this.repositoryManager.getActiveRepository();
+        void this.view?.webview.postMessage({
+            type: 'repository',
+            payload: repository ? { name: repository.name, root: repository.root } : null
+        });
+    }
+
+    private postRunning(): void {
+        void this.view?.webview.postMessage({ type: 'running', payload: this.running });
+    }
+
+    private toPayload(record: GitCommandRecord): ConsoleRecordPayload {
+        return {
+            ...record,
+            command: GitCommandLog.formatCommand(record.args),
+            repository: path.basename(record.cwd)
+        };
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = WebviewHelper.getNonce();
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        :root {
+            color-scheme: var(--vscode-color-scheme);
+        }
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+            background: var(--vscode-panel-background, var(--vscode-sideBar-background));
+            color: var(--vscode-foreground);
+            overflow: hidden;
+            height: 100vh;
+        }
+        .console-panel {
+            display: flex;
+            flex-direction: column;
+            height: 100%;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .toolbar input,
+        .toolbar select {
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 2px;
+            padding: 3px 6px;
+            font-size: 12px;
+        }
+        .toolbar input {
+            flex: 1;
+            min-width: 120px;
+            max-width: 360px;
+        }
+        .toolbar button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 3px;
+            padding: 3px 10px;
+            cursor: pointer;
+        }
+        .toolbar .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .list {
+            flex: 1;
+            overflow: auto;
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .record {
+            border-bottom: 1px solid transparent;
+        }
+        .record-summary {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            height: 22px;
+            padding: 0 10px;
+            white-space: nowrap;
+            cursor: pointer;
+        }
+        .record-summary:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .record.failed .record-command {
+            color: var(--vscode-errorForeground);
+        }
+        .record-status {
+            width: 12px;
+            flex-shrink: 0;
+            color: var(--vscode-testing-iconPassed, #73c991);
+        }
+        .record.failed .record-status {
+            color: var(--vscode-errorForeground);
+        }
+        .record-time,
+        .record-meta {
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .record-command {
+            flex: 1;
+            min-width: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .badge {
+            flex-shrink: 0;
+            padding: 0 5px;
+            border-radius: 3px;
+            font-size: 10px;
+            line-height: 16px;
+            background: rgba(110, 151, 255, 0.15);
+            color: #6e97ff;
+        }
+        .record-details {
+            display: none;
+            padding: 4px 10px 8px 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .record.expanded .record-details {
+            display: block;
+        }
+        .record-details pre {
+            margin: 4px 0 0;
+            padding: 6px 8px;
+            max-height: 300px;
+            overflow: auto;
+            white-space: pre-wrap;
+            word-break: break-all;
+            background: var(--vscode-textCodeBlock-background);
+            color: var(--vscode-foreground);
+        }
+        .record-details pre.stderr {
+            color: var(--vscode-errorForeground);
+        }
+        .empty {
+            padding: 16px;
+            color: var(--vscode-descriptionForeground);
+            font-family: var(--vscode-font-family);
+        }
+        .input-row {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px;
+            border-top: 1px solid var(--vscode-panel-border);
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .prompt {
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .input-row input {
+            flex: 1;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 2px;
+            padding: 3px 6px;
+            font-family: inherit;
+            font-size: 12px;
+        }
+    </style>
+</head>
+<body>
+    <div class="console-panel">
+        <div class="toolbar">
+            <input type="text" id="filterInput" placeholder="Filter commands, output or repository" />
+            <select id="scopeSelect" title="Which commands to show">
+                <option value="all">All commands</option>
+                <option value="failed">Failed only</option>
+                <option value="console">Typed in console</option>
+            </select>
+            <button type="button" id="clearBtn">Clear</button>
+            <button type="button" id="outputBtn" title="Open the ViGit Console output channel">Show Output</button>
+            <span class="status" id="consoleStatus"></span>
+        </div>
+        <div class="list" id="list"></div>
+        <div class="input-row">
+            <span class="prompt" id="prompt">git</span>
+            <input type="text" id="commandInput" placeholder="Enter a git command, e.g. status -sb" spellcheck="false" />
+        </div>
+    </div>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const list = document.getElementById('list');
+            const filterInput = document.getElementById('filterInput');
+            const scopeSelect = document.getElementById('scopeSelect');
+            const statusLabel = document.getElementById('consoleStatus');
+            const prompt = document.getElementById('prompt');
+            const commandInput = document.getElementById('commandInput');
+            const MAX_RECORDS = 1000;
+            const MAX_HISTORY = 50;
+
+            const saved = vscode.getState() || {};
+            const state = {
+                records: [],
+                expanded: new Set(),
+                history: Array.isArray(saved.history) ? saved.history : [],
+                historyIndex: -1,
+                running: false,
+                hasRepository: false
+            };
+            filterInput.value = saved.filter || '';
+            scopeSelect.value = saved.scope || 'all';
+
+            const persistState = () => {
+                vscode.setState({ history: state.history, filter: filterInput.value, scope: scopeSelect.value });
+            };
+
+            const isFailed = record => record.exitCode !== 0;
+
+            const matches = record => {
+                const scope = scopeSelect.value;
+                if ((scope === 'failed' && !isFailed(record)) || (scope === 'console' && !record.fromConsole)) {
+                    return false;
+                }
+                const query = filterInput.value.trim().toLowerCase();
+                if (!query) {
+                    return true;
+                }
+                return [record.command, record.cwd, record.stderr, record.stdout || '']
+                    .some(text => text.toLowerCase().includes(query));
+            };
+
+            const formatTime = timestamp => {
+                const date = new Date(timestamp);
+                return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+            };
+
+            const createDetails = record => {
+                const details = document.createElement('div');
+                details.className = 'record-details';
+                const meta = document.createElement('div');
+                meta.textContent = record.cwd + ' · exit ' + (record.exitCode === null ? 'n/a' : record.exitCode)
+                    + ' · ' + record.durationMs + ' ms · ' + new Date(record.startedAt).toLocaleString();
+                details.appendChild(meta);
+                if (record.stdout) {
+                    const stdout = document.createElement('pre');
+                    stdout.textContent = record.stdout;
+                    details.appendChild(stdout);
+                }
+                if (record.stderr) {
+                    const stderr = document.createElement('pre');
+                    stderr.className = 'stderr';
+                    stderr.textContent = record.stderr;
+                    details.appendChild(stderr);
+                }
+                return details;
+            };
+
+            const createRow = record => {
+                const row = document.createElement('div');
+                row.className = 'record' + (isFailed(record) ? ' failed' : '') + (state.expanded.has(record.id) ? ' expanded' : '');
+
+                const summary = document.createElement('div');
+                summary.className = 'record-summary';
+                const status = document.createElement('span');
+                status.className = 'record-status';
+                status.textContent = isFailed(record) ? '✖' : '✓';
+                summary.appendChild(status);
+                const time = document.createElement('span');
+                time.className = 'record-time';
+                time.textContent = formatTime(record.startedAt);
+                summary.appendChild(time);
+                if (record.fromConsole) {
+                    const badge = document.createElement('span');
+                    badge.className = 'badge';
+                    badge.textContent = 'console';
+                    summary.appendChild(badge);
+                }
+                const command = document.createElement('span');
+                command.className = 'record-command';
+                command.textContent = record.command;
+                command.title = record.command;
+                summary.appendChild(command);
+                const meta = document.createElement('span');
+                meta.className = 'record-meta';
+                meta.textContent = record.repository + ' · ' + record.durationMs + ' ms'
+                    + (isFailed(record) ? ' · exit ' + (record.exitCode === null ? 'n/a' : record.exitCode) : '');
+                summary.appendChild(meta);
+                summary.addEventListener('click', () => {
+                    if (state.expanded.has(record.id)) {
+                        state.expanded.delete(record.id);
+                    } else {
+                        state.expanded.add(record.id);
+                    }
+                    row.classList.toggle('expanded', state.expanded.has(record.id));
+                });
+
+                row.appendChild(summary);
+                row.appendChild(createDetails(record));
+                return row;
+            };
+
+            const isAtBottom = () => list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+
+            const updateStatus = () => {
+                const shown = list.querySelectorAll('.record').length;
+                const failed = state.records.filter(isFailed).length;
+                statusLabel.textContent = state.running
+                    ? 'Running…'
+                    : shown + ' of ' + state.records.length + ' commands' + (failed > 0 ? ' · ' + failed + ' failed' : '');
+            };
+
+            const render = () => {
+                list.innerHTML = '';
+                const visible = state.records.filter(matches);
+                if (visible.length === 0) {
+                    const empty = document.createElement('div');
+                    empty.className = 'empty';
+                    empty.textContent = state.records.length === 0 ? 'No git commands recorded yet.' : 'No commands match the filter.';
+                    list.appendChild(empty);
+                } else {
+                    visible.forEach(record => list.appendChild(createRow(record)));
+                }
+                list.scrollTop = list.scrollHeight;
+                updateStatus();
+            };
+
+            const append = records => {
+                const stick = isAtBottom();
+                state.records.push(...records);
+                if (state.records.length > MAX_RECORDS) {
+                    state.records.splice(0, state.records.length - MAX_RECORDS);
+                    render();
+                    return;
+                }
+                const visible = records.filter(matches);
+                if (visible.length > 0) {
+                    list.querySelector('.empty')?.remove();
+                    visible.forEach(record => list.appendChild(createRow(record)));
+                }
+                if (stick) {
+                    list.scrollTop = list.scrollHeight;
+                }
+                updateStatus();
+            };
+
+            const runCommand = () => {
+                const command = commandInput.value.trim();
+                if (!command || state.running) {
+                    return;
+                }
+                state.history = [command, ...state.history.filter(entry => entry !== command)].slice(0, MAX_HISTORY);
+                state.historyIndex = -1;
+                persistState();
+                commandInput.value = '';
+                // 执行结果显示在列表中，切换到能看到它的范围
+                if (scopeSelect.value === 'failed') {
+                    scopeSelect.value = 'all';
+                    render();
+                }
+                vscode.postMessage({ type: 'run', payload: { command } });
+            };
+
+            commandInput.addEventListener('keydown', event => {
+                if (event.key === 'Enter') {
+                    event.preventDefault();
+                    runCommand();
+                } else if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+                    if (state.history.length === 0) {
+                        return;
+                    }
+                    event.preventDefault();
+                    state.historyIndex = event.key === 'ArrowUp'
+                        ? Math.min(state.historyIndex + 1, state.history.length - 1)
+                        : Math.max(state.historyIndex - 1, -1);
+                    commandInput.value = state.historyIndex >= 0 ? state.history[state.historyIndex] : '';
+                }
+            });
+            filterInput.addEventListener('input', () => {
+                persistState();
+                render();
+            });
+            scopeSelect.addEventListener('change', () => {
+                persistState();
+                render();
+            });
+            document.getElementById('clearBtn').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+            document.getElementById('outputBtn').addEventListener('click', () => vscode.postMessage({ type: 'showOutput' }));
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (!message) {
+                    return;
+                }
+                switch (message.type) {
+                    case 'records':
+                        state.records = Array.isArray(message.payload) ? message.payload : [];
+                        state.expanded.clear();
+                        render();
+                        break;
+                    case 'append':
+                        append(Array.isArray(message.payload) ? message.payload : []);
+                        break;
+                    case 'repository':
+                        prompt.textContent = message.payload ? message.payload.name + '> git' : 'git';
+                        prompt.title = message.payload ? message.payload.root : 'No active repository';
+                        state.hasRepository = !!message.payload;
+                        commandInput.disabled = state.running || !state.hasRepository;
+                        break;
+                    case 'running':
+                        state.running = !!message.payload;
+                        commandInput.disabled = state.running || !state.hasRepository;
+                        if (!commandInput.disabled) {
+                            commandInput.focus();
+                        }
+                        updateStatus();
+                        break;
+                    default:
+                        break;
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+    }
+}
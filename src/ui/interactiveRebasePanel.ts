@@ -0,0 +1,785 @@
+import * as vscode from 'vscode';
+import { GitCommit, GitRebaseProgress, GitRebaseTodoEntry, GitService } from '../services/gitService';
+import { Repository } from '../managers/repositoryManager';
+import { ConflictHelper } from '../helpers/conflictHelper';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+interface RebaseCommitSummary {
+    hash: string;
+    abbrevHash: string;
+    message: string;
+    author: string;
+    date: string;
+}
+
+interface InteractiveRebaseState {
+    repositoryLabel: string;
+    baseLabel: string;
+    commits: RebaseCommitSummary[];
+    skippedMerges: number;
+    truncated: boolean;
+    progress?: GitRebaseProgress;
+}
+
+interface RebaseMessage {
+    type: 'start' | 'continue' | 'skip' | 'abort' | 'reload' | 'requestMessage' | 'resolveConflicts' | 'dismiss';
+    payload?: any;
+}
+
+export class InteractiveRebasePanel implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private baseRef?: string;
+    private baseLabel = '';
+    private busy = false;
+    private readonly maxCommits = 500;
+
+    dispose(): void {
+        this.disposePanel();
+    }
+
+    /**
+     * 打开交互式 rebase 编辑器，列出 baseRef..HEAD 之间的提交；baseRef 为空表示从根提交开始。
+     */
+    async show(repository: Repository, baseRef: string | undefined, baseLabel: string): Promise<void> {
+        this.currentRepository = repository;
+        this.baseRef = baseRef;
+        this.baseLabel = baseLabel;
+
+        const state = await this.buildState(repository);
+        if (state.truncated) {
+            // 未列出的提交会被 rebase 丢弃，因此不允许截断
+            vscode.window.showErrorMessage(`More than ${this.maxCommits} commits to rebase; choose a closer base commit`);
+            return;
+        }
+        if (!state.progress && state.commits.length === 0) {
+            vscode.window.showInformationMessage(`No commits to rebase onto ${baseLabel}`);
+            return;
+        }
+
+        const panel = this.ensurePanel();
+        panel.title = `Interactive Rebase · ${baseLabel}`;
+        panel.webview.html = this.getHtml(panel.webview, state);
+    }
+
+    private ensurePanel(): vscode.WebviewPanel {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Active, false);
+            return this.panel;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'vigit.interactiveRebase',
+            'Interactive Rebase',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.onDidDispose(() => this.disposePanel());
+        this.disposables.push(
+            this.panel.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message as RebaseMessage);
+            })
+        );
+
+        return this.panel;
+    }
+
+    private disposePanel(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel = undefined;
+    }
+
+    private async handleMessage(message: RebaseMessage): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'start':
+                await this.runStep('Rebasing...', repository =>
+                    repository.gitService.interactiveRebase(this.baseRef, this.toTodoEntries(message.payload?.entries)));
+                break;
+            case 'continue':
+                await this.runStep('Continuing rebase...', repository => repository.gitService.continueRebase());
+                break;
+            case 'skip':
+                await this.runStep('Skipping commit...', repository => repository.gitService.skipRebase());
+                break;
+            case 'abort':
+                await this.abort();
+                break;
+            case 'reload':
+                await this.postState();
+                break;
+            case 'requestMessage':
+                await this.postCommitMessage(message.payload?.hash);
+                break;
+            case 'resolveConflicts':
+                await vscode.commands.executeCommand('vigit.resolveConflicts', {
+                    repositoryRoot: this.currentRepository?.root
+                });
+                break;
+            case 'dismiss':
+                this.panel?.dispose();
+                break;
+        }
+    }
+
+    private async runStep(title: string, operation: (repository: Repository) => Promise<void>): Promise<void> {
+        const repository = this.currentRepository;
+        if (!repository || this.busy) {
+            return;
+        }
+
+        this.setBusy(true);
+        let failure: string | undefined;
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title,
+                cancellable: false
+            }, () => operation(repository));
+        } catch (error) {
+            failure = error instanceof Error ? error.message : String(error);
+        } finally {
+            this.setBusy(false);
+        }
+
+        await this.refreshViews();
+        const progress = await repository.gitService.getRebaseProgress();
+        if (!progress) {
+            if (failure) {
+                vscode.window.showErrorMessage(`Failed to rebase: ${failure}`);
+                await this.postState(failure);
+                return;
+            }
+            vscode.window.showInformationMessage(`Rebase onto ${this.baseLabel} completed`);
+            this.panel?.dispose();
+            return;
+        }
+
+        const stoppedAt = progress.stoppedAt ? ` at ${progress.stoppedAt.substring(0, 7)}` : '';
+        const reason = failure
+            ? `Rebase stopped${stoppedAt}: resolve the conflicts, then continue`
+            : `Rebase stopped${stoppedAt} for editing: amend the commit, then continue`;
+        if (!failure || !(await ConflictHelper.notifyIfConflicted(repository.gitService, 'Rebase', repository.root))) {
+            vscode.window.showWarningMessage(reason);
+        }
+        await this.postState(failure ?? reason);
+    }
+
+    private async abort(): Promise<void> {
+        const repository = this.currentRepository;
+        if (!repository || this.busy) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            'Abort the rebase and restore the branch to its original state?',
+            { modal: true },
+            'Abort Rebase'
+        );
+        if (confirm !== 'Abort Rebase') {
+            return;
+        }
+
+        try {
+            await repository.gitService.abortRebase();
+            await this.refreshViews();
+            vscode.window.showInformationMessage('Rebase aborted');
+            await this.postState();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to abort rebase: ${error}`);
+        }
+    }
+
+    /**
+     * 任何一项不合法都拒绝整个列表：静默丢弃某一项会让对应提交在 rebase 中消失。
+     */
+    private toTodoEntries(entries: unknown): GitRebaseTodoEntry[] {
+        if (!Array.isArray(entries)) {
+            throw new Error('Invalid rebase todo list');
+        }
+        return entries.map(entry => {
+            if (!GitService.isRebaseTodoEntry(entry)) {
+                throw new Error(`Invalid rebase todo entry: ${JSON.stringify(entry)}`);
+            }
+            return { action: entry.action, hash: entry.hash, message: entry.message };
+        });
+    }
+
+    private async buildState(repository: Repository): Promise<InteractiveRebaseState> {
+        const progress = await repository.gitService.getRebaseProgress();
+        let commits: GitCommit[] = [];
+        let truncated = false;
+        if (!progress) {
+            // 多取一条，只有真的超过上限时才算截断
+            commits = this.baseRef
+                ? await repository.gitService.getCommitsBetween(this.baseRef, 'HEAD', this.maxCommits + 1)
+                : await repository.gitService.getBranchLog('HEAD', this.maxCommits + 1);
+            truncated = commits.length > this.maxCommits;
+            commits = commits.slice(0, this.maxCommits);
+        }
+
+        // git rebase -i 默认会把合并提交拍平，列表中与其保持一致
+        const linear = commits.filter(commit => commit.parents.length <= 1);
+        return {
+            repositoryLabel: repository.name,
+            baseLabel: this.baseLabel,
+            commits: linear.reverse().map(commit => ({
+                hash: commit.hash,
+                abbrevHash: commit.abbrevHash,
+                message: commit.message,
+                author: commit.author,
+                date: commit.date.toISOString()
+            })),
+            skippedMerges: commits.length - linear.length,
+            truncated,
+            progress
+        };
+    }
+
+    private async postState(error?: string): Promise<void> {
+        if (!this.panel || !this.currentRepository) {
+            return;
+        }
+        const state = await this.buildState(this.currentRepository);
+        this.panel.webview.postMessage({ type: 'state', payload: { state, error } });
+    }
+
+    private async postCommitMessage(hash?: string): Promise<void> {
+        if (!hash || !this.panel || !this.currentRepository) {
+            return;
+        }
+        try {
+            const message = await this.currentRepository.gitService.getCommitMessage(hash);
+            this.panel.webview.postMessage({ type: 'commitMessage', payload: { hash, message } });
+        } catch (error) {
+            console.warn('ViGit: failed to load commit message', error);
+        }
+    }
+
+    private setBusy(busy: boolean): void {
+        this.busy = busy;
+        this.panel?.webview.postMessage({ type: 'busy', payload: busy });
+    }
+
+    private async refreshViews(): Promise<void> {
+        try {
+            await vscode.commands.executeCommand('vigit.refresh');
+        } catch (error) {
+            console.warn('ViGit: failed to refresh after rebase', error);
+        }
+    }
+
+    private getHtml(webview: vscode.Webview, state: InteractiveRebaseState): string {
+        const nonce = WebviewHelper.getNonce();
+        const serializedState = WebviewHelper.serializeState(state);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            margin: 0;
+            padding: 0;
+            background: var(--vscode-editor-background);
+            display: flex;
+            flex-direction: column;
+            height: 100vh;
+        }
+        header {
+            padding: 16px 24px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            background: var(--vscode-sideBar-background);
+        }
+        header h1 {
+            margin: 0;
+            font-size: 16px;
+        }
+        header p {
+            margin: 4px 0 0 0;
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        main {
+            flex: 1;
+            overflow: auto;
+        }
+        .todo-row {
+            display: grid;
+            grid-template-columns: 16px 90px 70px 1fr 140px 52px;
+            gap: 8px;
+            align-items: start;
+            padding: 4px 16px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            cursor: default;
+        }
+        .todo-row.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .todo-row.dragging {
+            opacity: 0.4;
+        }
+        .todo-row.drop-target {
+            border-top: 2px solid var(--vscode-focusBorder);
+        }
+        .todo-row.drop .message,
+        .todo-row.drop .hash {
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
+        .todo-row.squash .message,
+        .todo-row.fixup .message {
+            padding-left: 16px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .handle {
+            cursor: grab;
+            color: var(--vscode-descriptionForeground);
+        }
+        .hash {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+        }
+        .message {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .author {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .move-buttons {
+            display: flex;
+            gap: 2px;
+        }
+        .move-buttons button {
+            padding: 0 6px;
+            font-size: 11px;
+        }
+        select, textarea {
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            padding: 2px 6px;
+            border-radius: 3px;
+            width: 100%;
+            box-sizing: border-box;
+        }
+        textarea {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            resize: vertical;
+        }
+        footer {
+            border-top: 1px solid var(--vscode-panel-border);
+            padding: 12px 24px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 12px;
+            background: var(--vscode-sideBar-background);
+        }
+        .hint {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .footer-actions {
+            display: flex;
+            gap: 8px;
+        }
+        button {
+            border: none;
+            border-radius: 3px;
+            padding: 6px 16px;
+            cursor: pointer;
+            font-size: 13px;
+            background: transparent;
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-panel-border);
+        }
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border-color: transparent;
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .banner {
+            padding: 10px 16px;
+            margin: 12px 16px;
+            border-radius: 4px;
+            display: none;
+            white-space: pre-wrap;
+        }
+        .banner.error {
+            background: rgba(255, 0, 0, 0.15);
+            color: var(--vscode-errorForeground);
+        }
+        .banner.info {
+            background: var(--vscode-textBlockQuote-background);
+        }
+        .stopped {
+            padding: 24px;
+            display: none;
+            flex-direction: column;
+            gap: 12px;
+            align-items: flex-start;
+        }
+        .stopped .footer-actions {
+            margin-top: 8px;
+        }
+    </style>
+</head>
+<body>
+    <header>
+        <h1>Interactive Rebase · <span id="repositoryLabel"></span></h1>
+        <p id="baseLabel"></p>
+    </header>
+    <div id="errorBanner" class="banner error"></div>
+    <div id="infoBanner" class="banner info"></div>
+    <main id="todoList"></main>
+    <section id="stoppedView" class="stopped">
+        <div id="stoppedText"></div>
+        <div class="hint">Resolve conflicts or amend the current commit in the working tree, then choose how to proceed.</div>
+        <div class="footer-actions">
+            <button id="continueBtn" class="primary">Continue</button>
+            <button id="resolveBtn">Resolve Conflicts...</button>
+            <button id="skipBtn">Skip Commit</button>
+            <button id="abortBtn">Abort Rebase</button>
+        </div>
+    </section>
+    <footer id="editorFooter">
+        <span class="hint">Drag rows or use Alt+↑/↓ to reorder · P pick · R reword · E edit · S squash · F fixup · D drop</span>
+        <div class="footer-actions">
+            <button id="resetBtn">Reset</button>
+            <button id="cancelBtn">Cancel</button>
+            <button id="startBtn" class="primary">Start Rebasing</button>
+        </div>
+    </footer>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let state = ${serializedState};
+
+        const ACTIONS = ['pick', 'reword', 'edit', 'squash', 'fixup', 'drop'];
+        const KEY_ACTIONS = { p: 'pick', r: 'reword', e: 'edit', s: 'squash', f: 'fixup', d: 'drop' };
+
+        const todoList = document.getElementById('todoList');
+        const errorBanner = document.getElementById('errorBanner');
+        const infoBanner = document.getElementById('infoBanner');
+        const stoppedView = document.getElementById('stoppedView');
+        const stoppedText = document.getElementById('stoppedText');
+        const editorFooter = document.getElementById('editorFooter');
+        const startBtn = document.getElementById('startBtn');
+        const resetBtn = document.getElementById('resetBtn');
+        const cancelBtn = document.getElementById('cancelBtn');
+        const continueBtn = document.getElementById('continueBtn');
+        const skipBtn = document.getElementById('skipBtn');
+        const abortBtn = document.getElementById('abortBtn');
+        const resolveBtn = document.getElementById('resolveBtn');
+
+        let entries = [];
+        let selectedIndex = 0;
+        let dragIndex = -1;
+
+        const createEntries = () => state.commits.map(commit => ({
+            hash: commit.hash,
+            abbrevHash: commit.abbrevHash,
+            author: commit.author,
+            subject: commit.message,
+            message: commit.message,
+            messageLoaded: false,
+            action: 'pick'
+        }));
+
+        const showBanner = (element, text) => {
+            element.textContent = text || '';
+            element.style.display = text ? 'block' : 'none';
+        };
+
+        const validate = () => {
+            const first = entries.find(entry => entry.action !== 'drop');
+            if (!first) {
+                return 'All commits are dropped. Use Reset Current Branch instead.';
+            }
+            if (first.action === 'squash' || first.action === 'fixup') {
+                return 'The first commit cannot be squashed or fixed up.';
+            }
+            const emptyReword = entries.find(entry => entry.action === 'reword' && !entry.message.trim());
+            if (emptyReword) {
+                return 'Commit ' + emptyReword.abbrevHash + ' needs a message.';
+            }
+            return '';
+        };
+
+        const moveEntry = (from, to) => {
+            if (to < 0 || to >= entries.length || from === to) {
+                return;
+            }
+            const [entry] = entries.splice(from, 1);
+            entries.splice(to, 0, entry);
+            selectedIndex = to;
+            render();
+        };
+
+        const setAction = (index, action) => {
+            const entry = entries[index];
+            if (!entry || ACTIONS.indexOf(action) < 0) {
+                return;
+            }
+            entry.action = action;
+            if (action === 'reword' && !entry.messageLoaded) {
+                vscode.postMessage({ type: 'requestMessage', payload: { hash: entry.hash } });
+            }
+            render();
+            if (action === 'reword') {
+                const input = todoList.querySelector('.todo-row[data-index="' + index + '"] textarea');
+                if (input) {
+                    input.focus();
+                    input.select();
+                }
+            }
+        };
+
+        const renderRow = (entry, index) => {
+            const row = document.createElement('div');
+            row.className = 'todo-row ' + entry.action + (index === selectedIndex ? ' selected' : '');
+            row.dataset.index = String(index);
+            row.draggable = true;
+            row.tabIndex = 0;
+
+            const handle = document.createElement('span');
+            handle.className = 'handle';
+            handle.textContent = '⋮⋮';
+            row.appendChild(handle);
+
+            const select = document.createElement('select');
+            ACTIONS.forEach(action => {
+                const option = document.createElement('option');
+                option.value = action;
+                option.textContent = action;
+                select.appendChild(option);
+            });
+            select.value = entry.action;
+            select.addEventListener('change', () => setAction(index, select.value));
+            row.appendChild(select);
+
+            const hash = document.createElement('span');
+            hash.className = 'hash';
+            hash.textContent = entry.abbrevHash;
+            hash.title = entry.hash;
+            row.appendChild(hash);
+
+            if (entry.action === 'reword') {
+                const input = document.createElement('textarea');
+                input.rows = Math.min(6, Math.max(2, entry.message.split('\\n').length));
+                input.value = entry.message;
+                input.addEventListener('input', () => {
+                    entry.message = input.value;
+                    showBanner(errorBanner, '');
+                });
+                input.addEventListener('keydown', event => event.stopPropagation());
+                row.appendChild(input);
+            } else {
+                const message = document.createElement('span');
+                message.className = 'message';
+                message.textContent = entry.subject;
+                message.title = entry.subject;
+                row.appendChild(message);
+            }
+
+            const author = document.createElement('span');
+            author.className = 'author';
+            author.textContent = entry.author;
+            row.appendChild(author);
+
+            const moveButtons = document.createElement('span');
+            moveButtons.className = 'move-buttons';
+            const upButton = document.createElement('button');
+            upButton.textContent = '↑';
+            upButton.title = 'Move up (Alt+↑)';
+            upButton.disabled = index === 0;
+            upButton.addEventListener('click', () => moveEntry(index, index - 1));
+            const downButton = document.createElement('button');
+            downButton.textContent = '↓';
+            downButton.title = 'Move down (Alt+↓)';
+            downButton.disabled = index === entries.length - 1;
+            downButton.addEventListener('click', () => moveEntry(index, index + 1));
+            moveButtons.appendChild(upButton);
+            moveButtons.appendChild(downButton);
+            row.appendChild(moveButtons);
+
+            row.addEventListener('click', () => {
+                if (selectedIndex !== index) {
+                    selectedIndex = index;
+                    render();
+                }
+            });
+            row.addEventListener('dragstart', event => {
+                dragIndex = index;
+                row.classList.add('dragging');
+                event.dataTransfer.effectAllowed = 'move';
+            });
+            row.addEventListener('dragend', () => {
+                dragIndex = -1;
+                row.classList.remove('dragging');
+            });
+            row.addEventListener('dragover', event => {
+                event.preventDefault();
+                row.classList.add('drop-target');
+            });
+            row.addEventListener('dragleave', () => row.classList.remove('drop-target'));
+            row.addEventListener('drop', event => {
+                event.preventDefault();
+                row.classList.remove('drop-target');
+                if (dragIndex >= 0) {
+                    moveEntry(dragIndex, index);
+                }
+            });
+            return row;
+        };
+
+        const render = () => {
+            document.getElementById('repositoryLabel').textContent = state.repositoryLabel;
+            document.getElementById('baseLabel').textContent = 'Onto ' + state.baseLabel
+                + ' · oldest commit first, applied top to bottom';
+
+            const stopped = !!state.progress;
+            stoppedView.style.display = stopped ? 'flex' : 'none';
+            todoList.style.display = stopped ? 'none' : 'block';
+            editorFooter.style.display = stopped ? 'none' : 'flex';
+            if (stopped) {
+                const step = state.progress.total ? ' (step ' + state.progress.step + ' of ' + state.progress.total + ')' : '';
+                const at = state.progress.stoppedAt ? ' at ' + state.progress.stoppedAt.substring(0, 7) : '';
+                stoppedText.textContent = 'Rebase stopped' + at + step + '.';
+                return;
+            }
+
+            showBanner(infoBanner, state.skippedMerges
+                ? state.skippedMerges + ' merge commit(s) are not listed and will be flattened by the rebase.'
+                : '');
+
+            const focused = document.activeElement && document.activeElement.classList.contains('todo-row');
+            todoList.innerHTML = '';
+            entries.forEach((entry, index) => todoList.appendChild(renderRow(entry, index)));
+            if (focused) {
+                const row = todoList.querySelector('.todo-row[data-index="' + selectedIndex + '"]');
+                if (row) {
+                    row.focus();
+                }
+            }
+        };
+
+        const setBusy = busy => {
+            [startBtn, resetBtn, continueBtn, skipBtn, abortBtn].forEach(button => {
+                button.disabled = busy;
+            });
+        };
+
+        todoList.addEventListener('keydown', event => {
+            if (event.target instanceof HTMLTextAreaElement || event.target instanceof HTMLSelectElement) {
+                return;
+            }
+            if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+                event.preventDefault();
+                moveEntry(selectedIndex, selectedIndex + (event.key === 'ArrowUp' ? -1 : 1));
+                return;
+            }
+            if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+                event.preventDefault();
+                selectedIndex = Math.max(0, Math.min(entries.length - 1, selectedIndex + (event.key === 'ArrowUp' ? -1 : 1)));
+                render();
+                return;
+            }
+            const action = KEY_ACTIONS[event.key.toLowerCase()];
+            if (action && !event.ctrlKey && !event.metaKey && !event.altKey) {
+                event.preventDefault();
+                setAction(selectedIndex, action);
+            }
+        });
+
+        startBtn.addEventListener('click', () => {
+            const error = validate();
+            showBanner(errorBanner, error);
+            if (error) {
+                return;
+            }
+            vscode.postMessage({
+                type: 'start',
+                payload: {
+                    entries: entries.map(entry => ({
+                        action: entry.action,
+                        hash: entry.hash,
+                        message: entry.action === 'reword' ? entry.message : undefined
+                    }))
+                }
+            });
+        });
+        resetBtn.addEventListener('click', () => {
+            entries = createEntries();
+            selectedIndex = 0;
+            showBanner(errorBanner, '');
+            render();
+        });
+        cancelBtn.addEventListener('click', () => vscode.postMessage({ type: 'dismiss' }));
+        continueBtn.addEventListener('click', () => vscode.postMessage({ type: 'continue' }));
+        skipBtn.addEventListener('click', () => vscode.postMessage({ type: 'skip' }));
+        abortBtn.addEventListener('click', () => vscode.postMessage({ type: 'abort' }));
+        resolveBtn.addEventListener('click', () => vscode.postMessage({ type: 'resolveConflicts' }));
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (!message) {
+                return;
+            }
+            if (message.type === 'commitMessage' && message.payload) {
+                entries.forEach(entry => {
+                    // 仅在用户尚未修改时用完整提交信息替换标题
+                    if (entry.hash === message.payload.hash && !entry.messageLoaded && entry.message === entry.subject) {
+                        entry.message = message.payload.message;
+                        entry.messageLoaded = true;
+                    }
+                });
+                render();
+            }
+            if (message.type === 'busy') {
+                setBusy(!!message.payload);
+            }
+            if (message.type === 'state' && message.payload) {
+                const wasStopped = !!state.progress;
+                state = message.payload.state;
+                if (wasStopped && !state.progress) {
+                    entries = createEntries();
+                    selectedIndex = 0;
+                }
+                showBanner(errorBanner, message.payload.error || '');
+                render();
+            }
+        });
+
+        entries = createEntries();
+        render();
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,1070 @@
+import * as vscode from 'vscode';
+import { GitCommit, GitLogFilter } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { BranchDetailsPanel } from './branchDetailsPanel';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+interface LogCommitSummary {
+    hash: string;
+    abbrevHash: string;
+    message: string;
+    author: string;
+    email: string;
+    date: string;
+    refs: string[];
+    parents: string[];
+}
+
+interface LogPageRequest {
+    generation: number;
+    skip: number;
+    count: number;
+    filter: GitLogFilter;
+}
+
+interface LogInitPayload {
+    repository?: string;
+    branches: string[];
+    filter: GitLogFilter;
+}
+
+export class LogPanel implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly viewId = 'vigit.log';
+
+    private view?: vscode.WebviewView;
+    private viewDisposables: vscode.Disposable[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private filter: GitLogFilter = {};
+    private stale = false;
+    private readonly pageSize = 500;
+    private readonly maxPageSize = 5000;
+
+    constructor(
+        private readonly repositoryManager: RepositoryManager,
+        private readonly branchDetailsPanel: BranchDetailsPanel
+    ) {
+        this.disposables.push(
+            this.repositoryManager.onDidChangeActiveRepository(repository => {
+                if (repository && repository.root !== this.currentRepository?.root) {
+                    this.currentRepository = repository;
+                    this.filter = {};
+                    void this.postInit();
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposeView();
+    }
+
+    resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        webviewView.webview.options = {
+            enableScripts: true
+        };
+        webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
+
+        this.viewDisposables.push(
+            webviewView.onDidDispose(() => this.disposeView()),
+            webviewView.onDidChangeVisibility(() => {
+                if (webviewView.visible && this.stale) {
+                    void this.postInit();
+                }
+            }),
+            webviewView.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message);
+            })
+        );
+    }
+
+    /**
+     * 打开 Log 视图并应用给定过滤条件，例如从 Branches 视图按分支查看。
+     */
+    async show(repository?: Repository, filter: GitLogFilter = {}): Promise<void> {
+        this.currentRepository = repository ?? this.getRepository();
+        this.filter = { ...filter };
+        await this.ensureViewVisible();
+        if (!this.view) {
+            vscode.window.showWarningMessage('Unable to open log view');
+            return;
+        }
+
+        await this.postInit();
+        this.view.show?.(true);
+    }
+
+    /**
+     * 仓库状态变化后重新加载；视图不可见时延迟到下次显示。
+     */
+    refresh(): void {
+        if (!this.view?.visible) {
+            this.stale = true;
+            return;
+        }
+        void this.postInit(true);
+    }
+
+    private async ensureViewVisible(): Promise<void> {
+        if (this.view) {
+            return;
+        }
+
+        try {
+            await vscode.commands.executeCommand(`${LogPanel.viewId}.focus`);
+        } catch {
+            await vscode.commands.executeCommand('workbench.view.extension.vigit-panel');
+        }
+
+        for (let i = 0; i < 5 && !this.view; i++) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    private disposeView(): void {
+        this.viewDisposables.forEach(d => d.dispose());
+        this.viewDisposables = [];
+        this.view = undefined;
+    }
+
+    private getRepository(): Repository | undefined {
+        if (this.currentRepository && this.repositoryManager.getRepository(this.currentRepository.root)) {
+            return this.currentRepository;
+        }
+        this.currentRepository = this.repositoryManager.getActiveRepository();
+        return this.currentRepository;
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+                await this.postInit();
+                break;
+            case 'loadPage':
+                await this.handlePageRequest(message.payload);
+                break;
+            case 'openCommit':
+                await this.openCommit(message.payload?.hash);
+                break;
+            case 'commitAction':
+                await this.branchDetailsPanel.handleCommitActionRequest(message.payload, this.getRepository());
+                break;
+            case 'refresh':
+                await this.postInit(true);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private async postInit(keepPosition = false): Promise<void> {
+        if (!this.view) {
+            return;
+        }
+
+        this.stale = false;
+        const repository = this.getRepository();
+        let branches: string[] = [];
+        if (repository) {
+            try {
+                branches = (await repository.gitService.getBranches())
+                    .map(branch => branch.name)
+                    .filter(name => !name.endsWith('/HEAD'));
+            } catch (error) {
+                console.warn('ViGit: unable to list branches for log view', error);
+            }
+        }
+
+        this.view.description = this.repositoryManager.hasMultipleRepositories() && repository
+            ? repository.name
+            : undefined;
+
+        const payload: LogInitPayload = {
+            repository: repository?.root,
+            branches,
+            filter: this.filter
+        };
+        await this.view.webview.postMessage({ type: 'init', payload: { ...payload, keepPosition } });
+    }
+
+    private async handlePageRequest(request: LogPageRequest | undefined): Promise<void> {
+        const repository = this.getRepository();
+        if (!request || !this.view || !repository) {
+            return;
+        }
+
+        this.filter = this.sanitizeFilter(request.filter);
+        const count = Math.min(Math.max(Number(request.count) || this.pageSize, 1), this.maxPageSize);
+        const skip = Math.max(Number(request.skip) || 0, 0);
+
+        try {
+            const commits = await repository.gitService.getLogPage(this.toGitFilter(this.filter), skip, count);
+            await this.view?.webview.postMessage({
+                type: 'page',
+                payload: {
+                    generation: request.generation,
+                    skip,
+                    commits: commits.map(commit => this.toSummary(commit)),
+                    hasMore: commits.length === count
+                }
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await this.view?.webview.postMessage({
+                type: 'page',
+                payload: {
+                    generation: request.generation,
+                    skip,
+                    commits: [],
+                    hasMore: false,
+                    error: message
+                }
+            });
+        }
+    }
+
+    private async openCommit(hash?: string): Promise<void> {
+        const repository = this.getRepository();
+        if (!hash || !repository) {
+            return;
+        }
+
+        try {
+            await vscode.commands.executeCommand('vigit.showCommitDetails', { hash }, repository.root);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open commit: ${error}`);
+        }
+    }
+
+    private sanitizeFilter(raw: any): GitLogFilter {
+        const pick = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+        const branch = pick(raw?.branch);
+        return {
+            // 分支名会作为独立参数传给 git，拒绝以 '-' 开头的值以免被当作选项
+            branch: branch && !branch.startsWith('-') ? branch : undefined,
+            author: pick(raw?.author),
+            path: pick(raw?.path),
+            since: pick(raw?.since),
+            until: pick(raw?.until),
+            text: pick(raw?.text)
+        };
+    }
+
+    private toGitFilter(filter: GitLogFilter): GitLogFilter {
+        // 日期选择器只给出日期，until 需要包含当天
+        const until = filter.until && /^\d{4}-\d{2}-\d{2}$/.test(filter.until)
+            ? `${filter.until} 23:59:59`
+            : filter.until;
+        return { ...filter, until };
+    }
+
+    private toSummary(commit: GitCommit): LogCommitSummary {
+        return {
+            hash: commit.hash,
+            abbrevHash: commit.abbrevHash,
+            message: commit.message,
+            author: commit.author,
+            email: commit.email,
+            date: commit.date.toISOString(),
+            refs: commit.refs,
+            parents: commit.parents
+        };
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = WebviewHelper.getNonce();
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        :root {
+            color-scheme: var(--vscode-color-scheme);
+        }
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+            background: var(--vscode-panel-background, var(--vscode-sideBar-background));
+            color: var(--vscode-foreground);
+            overflow: hidden;
+            height: 100vh;
+        }
+        .log-panel {
+            display: flex;
+            flex-direction: column;
+            height: 100%;
+        }
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .toolbar input,
+        .toolbar select {
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            padding: 3px 6px;
+            font-size: 12px;
+        }
+        .toolbar input[type="search"] {
+            width: 180px;
+        }
+        .toolbar input.narrow {
+            width: 120px;
+        }
+        .toolbar select {
+            max-width: 180px;
+        }
+        .toolbar button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 3px;
+            padding: 3px 10px;
+            cursor: pointer;
+        }
+        .toolbar .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .viewport {
+            flex: 1;
+            overflow: auto;
+            position: relative;
+            outline: none;
+        }
+        .spacer {
+            width: 1px;
+        }
+        .rows {
+            position: absolute;
+            top: 0;
+            left: 0;
+            right: 0;
+        }
+        .log-row {
+            display: flex;
+            align-items: center;
+            height: 24px;
+            padding-right: 10px;
+            gap: 8px;
+            cursor: default;
+            white-space: nowrap;
+        }
+        .log-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .log-row.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .log-row.selected .log-meta {
+            color: inherit;
+        }
+        .graph {
+            flex-shrink: 0;
+            max-width: 320px;
+            overflow: hidden;
+        }
+        .graph svg {
+            display: block;
+        }
+        .log-subject {
+            flex: 1;
+            min-width: 0;
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            overflow: hidden;
+        }
+        .log-message {
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .ref {
+            flex-shrink: 0;
+            padding: 0 5px;
+            border-radius: 3px;
+            font-size: 10px;
+            line-height: 16px;
+            background: rgba(110, 151, 255, 0.15);
+            color: #6e97ff;
+        }
+        .ref.head {
+            background: rgba(78, 201, 176, 0.2);
+            color: #4ec9b0;
+            font-weight: 600;
+        }
+        .ref.tag {
+            background: rgba(220, 180, 80, 0.2);
+            color: #d7ba7d;
+        }
+        .ref.remote {
+            background: rgba(197, 134, 192, 0.18);
+            color: #c586c0;
+        }
+        .log-meta {
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .log-author {
+            width: 140px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .log-date {
+            width: 130px;
+        }
+        .log-hash {
+            width: 60px;
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .empty {
+            padding: 16px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .context-menu {
+            position: fixed;
+            z-index: 10;
+            min-width: 220px;
+            padding: 4px 0;
+            background: var(--vscode-menu-background, var(--vscode-editorWidget-background));
+            color: var(--vscode-menu-foreground, var(--vscode-foreground));
+            border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.35);
+        }
+        .context-menu.hidden {
+            display: none;
+        }
+        .context-item {
+            display: block;
+            width: 100%;
+            padding: 4px 16px;
+            border: none;
+            background: transparent;
+            color: inherit;
+            text-align: left;
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .context-item:hover:not(:disabled) {
+            background: var(--vscode-menu-selectionBackground, var(--vscode-list-hoverBackground));
+            color: var(--vscode-menu-selectionForeground, inherit);
+        }
+        .context-item:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .context-separator {
+            height: 1px;
+            margin: 4px 0;
+            background: var(--vscode-menu-separatorBackground, var(--vscode-panel-border));
+        }
+    </style>
+</head>
+<body>
+    <div class="log-panel">
+        <div class="toolbar">
+            <input id="textFilter" type="search" placeholder="Message" title="Filter by commit message" />
+            <select id="branchFilter" title="Branch">
+                <option value="">All branches</option>
+            </select>
+            <input id="authorFilter" class="narrow" list="authorList" placeholder="Author" title="Filter by author" />
+            <datalist id="authorList"></datalist>
+            <input id="pathFilter" class="narrow" placeholder="Path" title="Filter by path relative to the repository root" />
+            <input id="sinceFilter" type="date" title="Since" />
+            <input id="untilFilter" type="date" title="Until" />
+            <button id="clearFilters" type="button">Clear</button>
+            <button id="refreshLog" type="button">Refresh</button>
+            <span class="status" id="logStatus"></span>
+        </div>
+        <div class="viewport" id="viewport" tabindex="0">
+            <div class="spacer" id="spacer"></div>
+            <div class="rows" id="rows"></div>
+        </div>
+    </div>
+    <div id="contextMenu" class="context-menu hidden"></div>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const ROW_HEIGHT = 24;
+            const LANE_WIDTH = 12;
+            const PAGE_SIZE = ${this.pageSize};
+            const OVERSCAN = 15;
+            const COLORS = ['#4ec9b0', '#6e97ff', '#d7ba7d', '#c586c0', '#f48771', '#9cdcfe', '#b5cea8', '#ce9178'];
+
+            const viewport = document.getElementById('viewport');
+            const spacer = document.getElementById('spacer');
+            const rowsContainer = document.getElementById('rows');
+            const statusLabel = document.getElementById('logStatus');
+            const contextMenu = document.getElementById('contextMenu');
+            const authorList = document.getElementById('authorList');
+            const inputs = {
+                text: document.getElementById('textFilter'),
+                branch: document.getElementById('branchFilter'),
+                author: document.getElementById('authorFilter'),
+                path: document.getElementById('pathFilter'),
+                since: document.getElementById('sinceFilter'),
+                until: document.getElementById('untilFilter')
+            };
+
+            const menuItems = [
+                { id: 'copyHash', label: 'Copy Revision Number' },
+                { id: 'createPatch', label: 'Create Patch...' },
+                { id: 'cherryPick', label: 'Cherry-Pick...' },
+                { id: 'checkout', label: 'Checkout Revision' },
+                { id: 'compareLocal', label: 'Compare with Local' },
+                { id: 'resetHere', label: 'Reset Current Branch to Here...' },
+                { id: 'rebaseHere', label: 'Interactively Rebase from Here...' },
+                { id: 'revert', label: 'Revert Commit' },
+                { separator: true },
+                { id: 'branchHere', label: 'New Branch...' },
+                { id: 'tagHere', label: 'New Tag...' },
+                { separator: true },
+                { id: 'goParent', label: 'Go to Parent Commit', local: true },
+                { id: 'goChild', label: 'Go to Child Commit', local: true }
+            ];
+
+            const state = {
+                repository: null,
+                filter: {},
+                commits: [],
+                rows: [],
+                indexByHash: new Map(),
+                lanes: [],
+                graphEnabled: true,
+                hasMore: false,
+                loading: false,
+                generation: 0,
+                selected: null,
+                error: null,
+                authors: new Set()
+            };
+
+            const persisted = vscode.getState() || {};
+
+            const persistState = () => {
+                vscode.setState({ repository: state.repository, filter: state.filter, selected: state.selected });
+            };
+
+            const formatDate = (iso) => {
+                try {
+                    return new Date(iso).toLocaleString();
+                } catch (error) {
+                    return iso;
+                }
+            };
+
+            // 文本/作者过滤会跳过中间提交且父提交不会被改写，此时分支图没有意义，只显示平铺列表
+            const isGraphEnabled = (filter) => !filter.text && !filter.author;
+
+            const readFilter = () => ({
+                text: inputs.text.value.trim(),
+                branch: inputs.branch.value,
+                author: inputs.author.value.trim(),
+                path: inputs.path.value.trim(),
+                since: inputs.since.value,
+                until: inputs.until.value
+            });
+
+            const writeFilter = (filter) => {
+                inputs.text.value = filter.text || '';
+                inputs.author.value = filter.author || '';
+                inputs.path.value = filter.path || '';
+                inputs.since.value = filter.since || '';
+                inputs.until.value = filter.until || '';
+                inputs.branch.value = filter.branch || '';
+            };
+
+            /**
+             * 逐行推进泳道：lanes[i] 记录第 i 条泳道等待的下一个提交。
+             * 每行生成若干线段 [fromLane, fromY, toLane, toY]，y 取 0=顶部、1=节点、2=底部。
+             */
+            const layoutCommit = (commit) => {
+                const lanes = state.lanes;
+                const before = lanes.slice();
+                let column = lanes.indexOf(commit.hash);
+                const hasIncoming = column !== -1;
+                if (!hasIncoming) {
+                    column = lanes.indexOf(null);
+                    if (column === -1) {
+                        column = lanes.length;
+                    }
+                }
+
+                const lines = [];
+                before.forEach((hash, index) => {
+                    if (hash === commit.hash) {
+                        lines.push([index, 0, column, 1, index]);
+                        lanes[index] = null;
+                    }
+                });
+
+                const parents = Array.isArray(commit.parents) ? commit.parents : [];
+                lanes[column] = parents.length > 0 ? parents[0] : null;
+                if (parents.length > 0) {
+                    lines.push([column, 1, column, 2, column]);
+                }
+                for (let i = 1; i < parents.length; i++) {
+                    let target = lanes.indexOf(parents[i]);
+                    if (target === -1) {
+                        target = lanes.indexOf(null);
+                        if (target === -1) {
+                            target = lanes.length;
+                        }
+                        lanes[target] = parents[i];
+                    }
+                    lines.push([column, 1, target, 2, target]);
+                }
+
+                before.forEach((hash, index) => {
+                    if (hash !== null && hash !== undefined && hash !== commit.hash) {
+                        lines.push([index, 0, index, 2, index]);
+                    }
+                });
+
+                while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+                    lanes.pop();
+                }
+
+                return { column, lines, width: Math.max(before.length, lanes.length, column + 1) };
+            };
+
+            const resetRows = () => {
+                state.commits = [];
+                state.rows = [];
+                state.indexByHash = new Map();
+                state.lanes = [];
+                state.hasMore = false;
+                state.error = null;
+                state.graphEnabled = isGraphEnabled(state.filter);
+            };
+
+            const appendCommits = (commits) => {
+                commits.forEach(commit => {
+                    if (state.indexByHash.has(commit.hash)) {
+                        return;
+                    }
+                    state.indexByHash.set(commit.hash, state.commits.length);
+                    state.commits.push(commit);
+                    state.rows.push(state.graphEnabled ? layoutCommit(commit) : null);
+                    if (state.authors.size < 200 && commit.author) {
+                        state.authors.add(commit.author);
+                    }
+                });
+                authorList.innerHTML = '';
+                Array.from(state.authors).sort().forEach(author => {
+                    const option = document.createElement('option');
+                    option.value = author;
+                    authorList.appendChild(option);
+                });
+            };
+
+            const requestPage = (skip, count) => {
+                state.loading = true;
+                updateStatus();
+                vscode.postMessage({
+                    type: 'loadPage',
+                    payload: { generation: state.generation, skip, count: count || PAGE_SIZE, filter: state.filter }
+                });
+            };
+
+            const reload = (keepPosition) => {
+                const loaded = state.commits.length;
+                const scrollTop = viewport.scrollTop;
+                state.generation++;
+                resetRows();
+                if (!keepPosition) {
+                    viewport.scrollTop = 0;
+                }
+                render();
+                requestPage(0, keepPosition ? Math.max(PAGE_SIZE, loaded) : PAGE_SIZE);
+                state.pendingScrollTop = keepPosition ? scrollTop : null;
+            };
+
+            const applyFilter = () => {
+                state.filter = readFilter();
+                persistState();
+                reload(false);
+            };
+
+            let filterTimer;
+            const scheduleFilter = () => {
+                clearTimeout(filterTimer);
+                filterTimer = setTimeout(applyFilter, 400);
+            };
+
+            const updateStatus = () => {
+                if (state.error) {
+                    statusLabel.textContent = state.error;
+                    return;
+                }
+                const count = state.commits.length + (state.hasMore ? '+' : '');
+                statusLabel.textContent = state.loading
+                    ? 'Loading... ' + (state.commits.length ? count + ' commits' : '')
+                    : count + ' commit' + (state.commits.length === 1 ? '' : 's');
+            };
+
+            const refClass = (ref) => {
+                if (ref.indexOf('HEAD') === 0) {
+                    return 'ref head';
+                }
+                if (ref.indexOf('tag: ') === 0) {
+                    return 'ref tag';
+                }
+                return ref.indexOf('/') !== -1 ? 'ref remote' : 'ref';
+            };
+
+            const createSvg = (tag, attributes) => {
+                const element = document.createElementNS('http://www.w3.org/2000/svg', tag);
+                Object.keys(attributes).forEach(key => element.setAttribute(key, attributes[key]));
+                return element;
+            };
+
+            const buildGraph = (row, width) => {
+                const svg = createSvg('svg', { width: width * LANE_WIDTH + 4, height: ROW_HEIGHT });
+                const x = lane => lane * LANE_WIDTH + LANE_WIDTH / 2 + 2;
+                const y = level => level * ROW_HEIGHT / 2;
+                row.lines.forEach(line => {
+                    const x1 = x(line[0]);
+                    const y1 = y(line[1]);
+                    const x2 = x(line[2]);
+                    const y2 = y(line[3]);
+                    const middle = (y1 + y2) / 2;
+                    svg.appendChild(createSvg('path', {
+                        d: x1 === x2
+                            ? 'M' + x1 + ' ' + y1 + ' L' + x2 + ' ' + y2
+                            : 'M' + x1 + ' ' + y1 + ' C' + x1 + ' ' + middle + ' ' + x2 + ' ' + middle + ' ' + x2 + ' ' + y2,
+                        stroke: COLORS[line[4] % COLORS.length],
+                        'stroke-width': 1.6,
+                        fill: 'none'
+                    }));
+                });
+                svg.appendChild(createSvg('circle', {
+                    cx: x(row.column),
+                    cy: ROW_HEIGHT / 2,
+                    r: 3.5,
+                    fill: COLORS[row.column % COLORS.length],
+                    stroke: 'var(--vscode-editor-background)',
+                    'stroke-width': 1
+                }));
+                return svg;
+            };
+
+            const render = () => {
+                spacer.style.height = (state.commits.length * ROW_HEIGHT) + 'px';
+                rowsContainer.innerHTML = '';
+                if (state.commits.length === 0) {
+                    if (!state.loading) {
+                        const empty = document.createElement('div');
+                        empty.className = 'empty';
+                        empty.textContent = state.error ? state.error : 'No commits match the current filters.';
+                        rowsContainer.appendChild(empty);
+                    }
+                    updateStatus();
+                    return;
+                }
+
+                const first = Math.max(0, Math.floor(viewport.scrollTop / ROW_HEIGHT) - OVERSCAN);
+                const last = Math.min(
+                    state.commits.length,
+                    Math.ceil((viewport.scrollTop + viewport.clientHeight) / ROW_HEIGHT) + OVERSCAN
+                );
+                let graphWidth = 1;
+                for (let i = first; i < last; i++) {
+                    if (state.rows[i]) {
+                        graphWidth = Math.max(graphWidth, state.rows[i].width);
+                    }
+                }
+
+                rowsContainer.style.transform = 'translateY(' + (first * ROW_HEIGHT) + 'px)';
+                const fragment = document.createDocumentFragment();
+                for (let i = first; i < last; i++) {
+                    fragment.appendChild(renderRow(state.commits[i], state.rows[i], graphWidth));
+                }
+                rowsContainer.appendChild(fragment);
+                updateStatus();
+
+                if (state.hasMore && !state.loading && last >= state.commits.length - OVERSCAN * 2) {
+                    requestPage(state.commits.length);
+                }
+            };
+
+            const renderRow = (commit, row, graphWidth) => {
+                const element = document.createElement('div');
+                element.className = 'log-row';
+                element.dataset.hash = commit.hash;
+                element.title = commit.message;
+                if (commit.hash === state.selected) {
+                    element.classList.add('selected');
+                }
+
+                if (row) {
+                    const graph = document.createElement('div');
+                    graph.className = 'graph';
+                    graph.appendChild(buildGraph(row, graphWidth));
+                    element.appendChild(graph);
+                } else {
+                    element.style.paddingLeft = '10px';
+                }
+
+                const subject = document.createElement('div');
+                subject.className = 'log-subject';
+                (commit.refs || []).forEach(ref => {
+                    const badge = document.createElement('span');
+                    badge.className = refClass(ref);
+                    badge.textContent = ref.replace(/^tag: /, '');
+                    subject.appendChild(badge);
+                });
+                const message = document.createElement('span');
+                message.className = 'log-message';
+                message.textContent = commit.message;
+                subject.appendChild(message);
+                element.appendChild(subject);
+
+                const author = document.createElement('span');
+                author.className = 'log-meta log-author';
+                author.textContent = commit.author;
+                author.title = commit.author + (commit.email ? ' <' + commit.email + '>' : '');
+                element.appendChild(author);
+
+                const date = document.createElement('span');
+                date.className = 'log-meta log-date';
+                date.textContent = formatDate(commit.date);
+                element.appendChild(date);
+
+                const hash = document.createElement('span');
+                hash.className = 'log-meta log-hash';
+                hash.textContent = commit.abbrevHash;
+                element.appendChild(hash);
+
+                element.addEventListener('click', () => selectCommit(commit.hash, false));
+                element.addEventListener('dblclick', () => {
+                    vscode.postMessage({ type: 'openCommit', payload: { hash: commit.hash } });
+                });
+                element.addEventListener('contextmenu', (event) => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    selectCommit(commit.hash, false);
+                    showContextMenu(commit, event.clientX, event.clientY);
+                });
+                return element;
+            };
+
+            const selectCommit = (hash, reveal) => {
+                state.selected = hash;
+                persistState();
+                if (reveal) {
+                    const index = state.indexByHash.get(hash);
+                    if (index !== undefined) {
+                        const top = index * ROW_HEIGHT;
+                        if (top < viewport.scrollTop) {
+                            viewport.scrollTop = top;
+                        } else if (top + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+                            viewport.scrollTop = top + ROW_HEIGHT - viewport.clientHeight;
+                        }
+                    }
+                }
+                render();
+            };
+
+            const findChildCommit = (hash) => {
+                return state.commits.find(item => Array.isArray(item.parents) && item.parents.includes(hash));
+            };
+
+            const showContextMenu = (commit, x, y) => {
+                contextMenu.innerHTML = '';
+                const parentCommit = Array.isArray(commit.parents) && commit.parents.length > 0
+                    ? state.commits[state.indexByHash.get(commit.parents[0])]
+                    : undefined;
+                const childCommit = findChildCommit(commit.hash);
+
+                menuItems.forEach(item => {
+                    if (item.separator) {
+                        const separator = document.createElement('div');
+                        separator.className = 'context-separator';
+                        contextMenu.appendChild(separator);
+                        return;
+                    }
+                    const button = document.createElement('button');
+                    button.className = 'context-item';
+                    button.textContent = item.label;
+                    button.disabled =
+                        (item.id === 'goParent' && !parentCommit) ||
+                        (item.id === 'goChild' && !childCommit);
+
+                    button.addEventListener('click', () => {
+                        hideContextMenu();
+                        if (item.id === 'goParent' && parentCommit) {
+                            selectCommit(parentCommit.hash, true);
+                            return;
+                        }
+                        if (item.id === 'goChild' && childCommit) {
+                            selectCommit(childCommit.hash, true);
+                            return;
+                        }
+                        if (!item.local) {
+                            vscode.postMessage({ type: 'commitAction', payload: { action: item.id, commit } });
+                        }
+                    });
+                    contextMenu.appendChild(button);
+                });
+
+                contextMenu.classList.remove('hidden');
+                contextMenu.style.left = x + 'px';
+                contextMenu.style.top = y + 'px';
+                const rect = contextMenu.getBoundingClientRect();
+                if (rect.right > window.innerWidth) {
+                    contextMenu.style.left = Math.max(0, window.innerWidth - rect.width - 8) + 'px';
+                }
+                if (rect.bottom > window.innerHeight) {
+                    contextMenu.style.top = Math.max(0, window.innerHeight - rect.height - 8) + 'px';
+                }
+            };
+
+            const hideContextMenu = () => {
+                contextMenu.classList.add('hidden');
+            };
+
+            const applyInit = (payload) => {
+                const repositoryChanged = payload.repository !== state.repository;
+                state.repository = payload.repository || null;
+
+                const branches = Array.isArray(payload.branches) ? payload.branches : [];
+                inputs.branch.innerHTML = '';
+                const allOption = document.createElement('option');
+                allOption.value = '';
+                allOption.textContent = 'All branches';
+                inputs.branch.appendChild(allOption);
+                branches.forEach(branch => {
+                    const option = document.createElement('option');
+                    option.value = branch;
+                    option.textContent = branch.replace(/^remotes\\//, '');
+                    inputs.branch.appendChild(option);
+                });
+
+                if (repositoryChanged) {
+                    state.authors = new Set();
+                    state.selected = persisted.repository === state.repository ? persisted.selected : null;
+                }
+                const filter = payload.filter && Object.keys(payload.filter).some(key => payload.filter[key])
+                    ? payload.filter
+                    : (repositoryChanged && persisted.repository === state.repository ? persisted.filter || {} : state.filter);
+                if (filter.branch && branches.indexOf(filter.branch) === -1) {
+                    const option = document.createElement('option');
+                    option.value = filter.branch;
+                    option.textContent = filter.branch;
+                    inputs.branch.appendChild(option);
+                }
+                writeFilter(filter);
+                state.filter = readFilter();
+                persistState();
+                reload(!!payload.keepPosition && !repositoryChanged);
+            };
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (!message || typeof message.type !== 'string') {
+                    return;
+                }
+
+                switch (message.type) {
+                    case 'init':
+                        applyInit(message.payload || {});
+                        break;
+                    case 'page': {
+                        const payload = message.payload || {};
+                        if (payload.generation !== state.generation || payload.skip !== state.commits.length) {
+                            return;
+                        }
+                        state.loading = false;
+                        state.error = payload.error || null;
+                        state.hasMore = !!payload.hasMore;
+                        appendCommits(Array.isArray(payload.commits) ? payload.commits : []);
+                        if (state.pendingScrollTop !== null && state.pendingScrollTop !== undefined) {
+                            spacer.style.height = (state.commits.length * ROW_HEIGHT) + 'px';
+                            viewport.scrollTop = state.pendingScrollTop;
+                            state.pendingScrollTop = null;
+                        }
+                        render();
+                        break;
+                    }
+                    default:
+                        break;
+                }
+            });
+
+            let scrollFrame = 0;
+            viewport.addEventListener('scroll', () => {
+                hideContextMenu();
+                if (!scrollFrame) {
+                    scrollFrame = requestAnimationFrame(() => {
+                        scrollFrame = 0;
+                        render();
+                    });
+                }
+            });
+            window.addEventListener('resize', () => render());
+
+            viewport.addEventListener('keydown', (event) => {
+                const index = state.selected ? state.indexByHash.get(state.selected) : undefined;
+                if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                    event.preventDefault();
+                    const next = index === undefined
+                        ? 0
+                        : Math.min(state.commits.length - 1, Math.max(0, index + (event.key === 'ArrowDown' ? 1 : -1)));
+                    if (state.commits[next]) {
+                        selectCommit(state.commits[next].hash, true);
+                    }
+                } else if (event.key === 'Enter' && state.selected) {
+                    vscode.postMessage({ type: 'openCommit', payload: { hash: state.selected } });
+                }
+            });
+
+            ['text', 'author', 'path'].forEach(key => {
+                inputs[key].addEventListener('input', scheduleFilter);
+                inputs[key].addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter') {
+                        clearTimeout(filterTimer);
+                        applyFilter();
+                    }
+                });
+            });
+            ['branch', 'since', 'until'].forEach(key => {
+                inputs[key].addEventListener('change', applyFilter);
+            });
+            document.getElementById('clearFilters').addEventListener('click', () => {
+                writeFilter({});
+                applyFilter();
+            });
+            document.getElementById('refreshLog').addEventListener('click', () => {
+                vscode.postMessage({ type: 'refresh' });
+            });
+
+            document.addEventListener('click', hideContextMenu);
+            window.addEventListener('blur', hideContextMenu);
+
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+    }
+}
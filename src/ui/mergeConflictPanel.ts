@@ -0,0 +1,609 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitConflictDetails, GitConflictSide } from '../services/gitService';
+import { Repository } from '../managers/repositoryManager';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+interface MergeConflictState {
+    fileName: string;
+    relativePath: string;
+    repositoryLabel: string;
+    details: GitConflictDetails;
+}
+
+interface MergeMessage {
+    type: 'apply' | 'acceptSide' | 'openFile' | 'reload' | 'dismiss';
+    payload?: any;
+}
+
+export class MergeConflictPanel implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private currentFile?: string;
+    private details?: GitConflictDetails;
+
+    dispose(): void {
+        this.disposePanel();
+    }
+
+    async show(repository: Repository, filePath: string): Promise<void> {
+        const details = await repository.gitService.getConflictDetails(filePath);
+        this.currentRepository = repository;
+        this.currentFile = filePath;
+        this.details = details;
+
+        const panel = this.ensurePanel();
+        const fileName = path.basename(filePath);
+        panel.title = `Merge · ${fileName}`;
+        panel.webview.html = this.getHtml(panel.webview, {
+            fileName,
+            relativePath: path.relative(repository.root, filePath).replace(/\\/g, '/'),
+            repositoryLabel: repository.name,
+            details
+        });
+    }
+
+    private ensurePanel(): vscode.WebviewPanel {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Active, false);
+            return this.panel;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'vigit.mergeConflict',
+            'Merge Conflict',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.onDidDispose(() => this.disposePanel());
+        this.disposables.push(
+            this.panel.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message as MergeMessage);
+            })
+        );
+
+        return this.panel;
+    }
+
+    private disposePanel(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel = undefined;
+    }
+
+    private async handleMessage(message: MergeMessage): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'apply':
+                await this.applyResolution(message.payload?.resolutions);
+                break;
+            case 'acceptSide':
+                if (message.payload?.side === 'ours' || message.payload?.side === 'theirs') {
+                    await this.acceptSide(message.payload.side);
+                }
+                break;
+            case 'openFile':
+                if (this.currentFile) {
+                    await vscode.window.showTextDocument(vscode.Uri.file(this.currentFile), { preview: false });
+                }
+                break;
+            case 'reload':
+                if (this.currentRepository && this.currentFile) {
+                    await this.show(this.currentRepository, this.currentFile);
+                }
+                break;
+            case 'dismiss':
+                this.panel?.dispose();
+                break;
+        }
+    }
+
+    private async applyResolution(resolutions: unknown): Promise<void> {
+        const repository = this.currentRepository;
+        const details = this.details;
+        if (!repository || !details || !Array.isArray(resolutions)) {
+            return;
+        }
+
+        const conflictCount = details.chunks.filter(chunk => chunk.type === 'conflict').length;
+        if (resolutions.length !== conflictCount || resolutions.some(text => typeof text !== 'string')) {
+            vscode.window.showWarningMessage('Resolve every conflict before applying the result');
+            return;
+        }
+
+        let conflictIndex = 0;
+        const content = details.chunks.map(chunk => {
+            if (chunk.type === 'stable') {
+                return chunk.text ?? '';
+            }
+            // textarea 会把换行统一成 \n，写回时恢复文件原有的换行符
+            return String(resolutions[conflictIndex++]).replace(/\r?\n/g, details.eol);
+        }).join('');
+
+        try {
+            await repository.gitService.resolveConflict(details.filePath, content);
+            await this.finish(repository, details.filePath);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to resolve conflict: ${error}`);
+        }
+    }
+
+    private async acceptSide(side: GitConflictSide): Promise<void> {
+        const repository = this.currentRepository;
+        const details = this.details;
+        if (!repository || !details) {
+            return;
+        }
+
+        try {
+            await repository.gitService.acceptConflictSide(details.filePath, side);
+            await this.finish(repository, details.filePath);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to resolve conflict: ${error}`);
+        }
+    }
+
+    private async finish(repository: Repository, filePath: string): Promise<void> {
+        this.panel?.dispose();
+        await repository.localChangesProvider.refresh();
+        try {
+            await vscode.commands.executeCommand('vigit.refresh');
+        } catch (error) {
+            console.warn('ViGit: failed to refresh after resolving conflict', error);
+        }
+
+        const remaining = await repository.gitService.getConflictedFiles();
+        if (remaining.length === 0) {
+            vscode.window.showInformationMessage(`Resolved ${path.basename(filePath)}; all conflicts are resolved`);
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(
+            `Resolved ${path.basename(filePath)}; ${remaining.length} conflicted file${remaining.length === 1 ? '' : 's'} left`,
+            'Resolve Next'
+        );
+        if (choice === 'Resolve Next') {
+            await vscode.commands.executeCommand('vigit.resolveConflicts', { repositoryRoot: repository.root });
+        }
+    }
+
+    private getHtml(webview: vscode.Webview, state: MergeConflictState): string {
+        const nonce = WebviewHelper.getNonce();
+        const serializedState = WebviewHelper.serializeState(state);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            margin: 0;
+            padding: 0;
+            background: var(--vscode-editor-background);
+            display: flex;
+            flex-direction: column;
+            height: 100vh;
+        }
+        header {
+            padding: 12px 24px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            background: var(--vscode-sideBar-background);
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 12px;
+        }
+        header h1 {
+            margin: 0;
+            font-size: 15px;
+        }
+        header p {
+            margin: 4px 0 0 0;
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+        .columns {
+            display: grid;
+            grid-template-columns: 1fr 1fr 1fr;
+            gap: 1px;
+            background: var(--vscode-panel-border);
+            font-weight: 600;
+            font-size: 12px;
+        }
+        .columns > div {
+            background: var(--vscode-sideBar-background);
+            padding: 6px 12px;
+        }
+        main {
+            flex: 1;
+            overflow: auto;
+        }
+        .chunk {
+            display: grid;
+            grid-template-columns: 1fr 1fr 1fr;
+            gap: 1px;
+            background: var(--vscode-panel-border);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .chunk > div {
+            background: var(--vscode-editor-background);
+            min-width: 0;
+        }
+        .chunk.stable pre {
+            color: var(--vscode-descriptionForeground);
+        }
+        .chunk.conflict > div {
+            background: var(--vscode-merge-incomingContentBackground, rgba(64, 128, 255, 0.1));
+        }
+        .chunk.conflict > .result {
+            background: var(--vscode-merge-commonContentBackground, rgba(128, 128, 128, 0.1));
+        }
+        .chunk.conflict.resolved > div {
+            background: var(--vscode-editor-background);
+        }
+        .chunk.current {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+        pre, textarea {
+            margin: 0;
+            padding: 6px 12px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size, 12px);
+            white-space: pre;
+            overflow-x: auto;
+        }
+        textarea {
+            width: 100%;
+            box-sizing: border-box;
+            border: none;
+            resize: vertical;
+            background: transparent;
+            color: var(--vscode-editor-foreground);
+        }
+        textarea.unresolved {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+        .chunk-actions {
+            display: flex;
+            gap: 4px;
+            padding: 4px 12px;
+            flex-wrap: wrap;
+        }
+        .collapsed-toggle {
+            padding: 2px 12px;
+            font-size: 11px;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            grid-column: 1 / span 3;
+        }
+        .notice {
+            padding: 24px;
+            display: flex;
+            flex-direction: column;
+            gap: 12px;
+            align-items: flex-start;
+        }
+        footer {
+            border-top: 1px solid var(--vscode-panel-border);
+            padding: 12px 24px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            background: var(--vscode-sideBar-background);
+        }
+        .footer-actions {
+            display: flex;
+            gap: 8px;
+        }
+        button {
+            border-radius: 3px;
+            padding: 4px 12px;
+            cursor: pointer;
+            font-size: 12px;
+            background: transparent;
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-panel-border);
+        }
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border-color: transparent;
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .hint {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <header>
+        <div>
+            <h1 id="title"></h1>
+            <p id="subtitle"></p>
+        </div>
+        <div class="toolbar">
+            <button id="prevBtn" title="Previous conflict">↑</button>
+            <button id="nextBtn" title="Next conflict">↓</button>
+            <button id="acceptAllLeftBtn">Accept All Left</button>
+            <button id="acceptAllRightBtn">Accept All Right</button>
+        </div>
+    </header>
+    <div class="columns" id="columnHeaders">
+        <div id="leftHeader"></div>
+        <div>Result</div>
+        <div id="rightHeader"></div>
+    </div>
+    <main id="chunks"></main>
+    <footer>
+        <span id="progress" class="hint"></span>
+        <div class="footer-actions">
+            <button id="openFileBtn">Open File</button>
+            <button id="cancelBtn">Cancel</button>
+            <button id="applyBtn" class="primary">Apply</button>
+        </div>
+    </footer>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const state = ${serializedState};
+        const details = state.details;
+        const COLLAPSE_LINES = 8;
+
+        const chunksElement = document.getElementById('chunks');
+        const progress = document.getElementById('progress');
+        const applyBtn = document.getElementById('applyBtn');
+
+        const conflicts = [];
+        details.chunks.forEach((chunk, index) => {
+            if (chunk.type === 'conflict') {
+                conflicts.push({
+                    index,
+                    chunk,
+                    text: chunk.base || '',
+                    resolved: false
+                });
+            }
+        });
+        let currentConflict = 0;
+        const wholeFile = details.binary || details.unsupportedEncoding || details.oursDeleted || details.theirsDeleted;
+
+        const countLines = text => text ? text.split('\\n').length - (text.endsWith('\\n') ? 1 : 0) : 0;
+
+        const createPre = text => {
+            const pre = document.createElement('pre');
+            pre.textContent = text || '';
+            return pre;
+        };
+
+        const createButton = (label, handler, title) => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            if (title) {
+                button.title = title;
+            }
+            button.addEventListener('click', handler);
+            return button;
+        };
+
+        const updateProgress = () => {
+            const resolved = conflicts.filter(conflict => conflict.resolved).length;
+            progress.textContent = wholeFile
+                ? 'Choose which version of the file to keep'
+                : resolved + ' of ' + conflicts.length + ' conflict(s) resolved';
+            applyBtn.disabled = wholeFile || resolved < conflicts.length;
+        };
+
+        const resolveConflict = (conflict, text) => {
+            conflict.text = text;
+            conflict.resolved = true;
+            render();
+        };
+
+        const renderStable = chunk => {
+            const row = document.createElement('div');
+            row.className = 'chunk stable';
+            const text = chunk.text || '';
+            const lines = text.split('\\n');
+            const collapsible = countLines(text) > COLLAPSE_LINES * 2;
+            const draw = expanded => {
+                row.innerHTML = '';
+                const shown = !collapsible || expanded
+                    ? text
+                    : lines.slice(0, COLLAPSE_LINES).join('\\n') + '\\n';
+                [0, 1, 2].forEach(() => {
+                    const cell = document.createElement('div');
+                    cell.appendChild(createPre(shown));
+                    row.appendChild(cell);
+                });
+                if (collapsible && !expanded) {
+                    const toggle = document.createElement('div');
+                    toggle.className = 'collapsed-toggle';
+                    toggle.textContent = '… ' + (countLines(text) - COLLAPSE_LINES) + ' unchanged lines';
+                    toggle.addEventListener('click', () => draw(true));
+                    row.appendChild(toggle);
+                }
+            };
+            draw(false);
+            return row;
+        };
+
+        const renderConflict = (conflict, position) => {
+            const chunk = conflict.chunk;
+            const row = document.createElement('div');
+            row.className = 'chunk conflict' + (conflict.resolved ? ' resolved' : '') + (position === currentConflict ? ' current' : '');
+            row.dataset.conflict = String(position);
+
+            const left = document.createElement('div');
+            const leftActions = document.createElement('div');
+            leftActions.className = 'chunk-actions';
+            leftActions.appendChild(createButton('Accept Left ≫', () => resolveConflict(conflict, chunk.ours || '')));
+            left.appendChild(leftActions);
+            left.appendChild(createPre(chunk.ours));
+            row.appendChild(left);
+
+            const result = document.createElement('div');
+            result.className = 'result';
+            const resultActions = document.createElement('div');
+            resultActions.className = 'chunk-actions';
+            resultActions.appendChild(createButton('Left + Right', () => resolveConflict(conflict, (chunk.ours || '') + (chunk.theirs || ''))));
+            resultActions.appendChild(createButton('Right + Left', () => resolveConflict(conflict, (chunk.theirs || '') + (chunk.ours || ''))));
+            resultActions.appendChild(createButton('Reset', () => {
+                conflict.text = chunk.base || '';
+                conflict.resolved = false;
+                render();
+            }, 'Restore the common ancestor text'));
+            result.appendChild(resultActions);
+            const editor = document.createElement('textarea');
+            editor.value = conflict.text;
+            editor.rows = Math.max(2, countLines(conflict.text) + 1);
+            editor.className = conflict.resolved ? '' : 'unresolved';
+            editor.title = conflict.resolved ? 'Resolved result, edit as needed' : 'Common ancestor; accept a side or edit to resolve';
+            editor.addEventListener('input', () => {
+                conflict.text = editor.value;
+                if (!conflict.resolved) {
+                    conflict.resolved = true;
+                    editor.className = '';
+                    row.classList.add('resolved');
+                    updateProgress();
+                }
+            });
+            result.appendChild(editor);
+            row.appendChild(result);
+
+            const right = document.createElement('div');
+            const rightActions = document.createElement('div');
+            rightActions.className = 'chunk-actions';
+            rightActions.appendChild(createButton('≪ Accept Right', () => resolveConflict(conflict, chunk.theirs || '')));
+            right.appendChild(rightActions);
+            right.appendChild(createPre(chunk.theirs));
+            row.appendChild(right);
+
+            row.addEventListener('click', () => {
+                currentConflict = position;
+                document.querySelectorAll('.chunk.current').forEach(element => element.classList.remove('current'));
+                row.classList.add('current');
+            });
+            return row;
+        };
+
+        const renderWholeFile = () => {
+            const notice = document.createElement('div');
+            notice.className = 'notice';
+            const text = document.createElement('div');
+            if (details.binary) {
+                text.textContent = 'This is a binary file. Choose which version to keep.';
+            } else if (details.unsupportedEncoding) {
+                text.textContent = 'This file is not UTF-8 encoded and cannot be merged here without changing its encoding. '
+                    + 'Choose which version to keep, or resolve the conflict in the editor.';
+            } else if (details.oursDeleted) {
+                text.textContent = 'The file was deleted on the left side (' + details.oursLabel + ') and modified on the right side.';
+            } else {
+                text.textContent = 'The file was modified on the left side and deleted on the right side (' + details.theirsLabel + ').';
+            }
+            notice.appendChild(text);
+            const actions = document.createElement('div');
+            actions.className = 'footer-actions';
+            actions.appendChild(createButton(details.oursDeleted ? 'Accept Left (Delete File)' : 'Accept Left', () =>
+                vscode.postMessage({ type: 'acceptSide', payload: { side: 'ours' } })));
+            actions.appendChild(createButton(details.theirsDeleted ? 'Accept Right (Delete File)' : 'Accept Right', () =>
+                vscode.postMessage({ type: 'acceptSide', payload: { side: 'theirs' } })));
+            notice.appendChild(actions);
+            chunksElement.appendChild(notice);
+        };
+
+        const render = () => {
+            const scrollTop = chunksElement.scrollTop;
+            chunksElement.innerHTML = '';
+            if (wholeFile) {
+                renderWholeFile();
+            } else {
+                let position = 0;
+                details.chunks.forEach(chunk => {
+                    if (chunk.type === 'stable') {
+                        chunksElement.appendChild(renderStable(chunk));
+                    } else {
+                        chunksElement.appendChild(renderConflict(conflicts[position], position));
+                        position++;
+                    }
+                });
+            }
+            chunksElement.scrollTop = scrollTop;
+            updateProgress();
+        };
+
+        const revealConflict = position => {
+            if (conflicts.length === 0) {
+                return;
+            }
+            currentConflict = (position + conflicts.length) % conflicts.length;
+            render();
+            const row = chunksElement.querySelector('.chunk[data-conflict="' + currentConflict + '"]');
+            if (row) {
+                row.scrollIntoView({ block: 'center' });
+            }
+        };
+
+        document.getElementById('title').textContent = state.fileName;
+        document.getElementById('subtitle').textContent = state.repositoryLabel + ' · ' + state.relativePath;
+        document.getElementById('leftHeader').textContent = 'Yours · ' + details.oursLabel;
+        document.getElementById('rightHeader').textContent = 'Theirs · ' + details.theirsLabel;
+        document.getElementById('columnHeaders').style.display = wholeFile ? 'none' : 'grid';
+        ['prevBtn', 'nextBtn', 'acceptAllLeftBtn', 'acceptAllRightBtn'].forEach(id => {
+            document.getElementById(id).style.display = wholeFile ? 'none' : '';
+        });
+
+        document.getElementById('prevBtn').addEventListener('click', () => revealConflict(currentConflict - 1));
+        document.getElementById('nextBtn').addEventListener('click', () => revealConflict(currentConflict + 1));
+        document.getElementById('acceptAllLeftBtn').addEventListener('click', () => {
+            conflicts.forEach(conflict => {
+                conflict.text = conflict.chunk.ours || '';
+                conflict.resolved = true;
+            });
+            render();
+        });
+        document.getElementById('acceptAllRightBtn').addEventListener('click', () => {
+            conflicts.forEach(conflict => {
+                conflict.text = conflict.chunk.theirs || '';
+                conflict.resolved = true;
+            });
+            render();
+        });
+        document.getElementById('openFileBtn').addEventListener('click', () => vscode.postMessage({ type: 'openFile' }));
+        document.getElementById('cancelBtn').addEventListener('click', () => vscode.postMessage({ type: 'dismiss' }));
+        applyBtn.addEventListener('click', () => {
+            vscode.postMessage({
+                type: 'apply',
+                payload: { resolutions: conflicts.map(conflict => conflict.text) }
+            });
+        });
+
+        render();
+        if (conflicts.length > 0 && !wholeFile) {
+            revealConflict(0);
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
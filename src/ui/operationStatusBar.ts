@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { OperationHelper } from '../helpers/operationHelper';
+
+/**
+ * 在状态栏提示未完成的 merge/rebase/cherry-pick/revert/bisect，点击后弹出 Continue/Skip/Abort。
+ */
+export class OperationStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private readonly disposables: vscode.Disposable[] = [];
+    private repositoryDisposables: vscode.Disposable[] = [];
+
+    constructor(private readonly repositoryManager: RepositoryManager) {
+        this.item = vscode.window.createStatusBarItem('vigit.operation', vscode.StatusBarAlignment.Left, 50);
+        this.item.name = 'ViGit Operation';
+
+        this.watchRepositories();
+        this.disposables.push(
+            this.repositoryManager.onDidChangeRepositories(() => {
+                this.watchRepositories();
+                this.update();
+            }),
+            this.repositoryManager.onDidChangeActiveRepository(() => this.update())
+        );
+        this.update();
+    }
+
+    private watchRepositories(): void {
+        this.repositoryDisposables.forEach(d => d.dispose());
+        this.repositoryDisposables = this.repositoryManager.getRepositories().map(repository =>
+            repository.localChangesProvider.onDidChangeTreeData(() => this.update())
+        );
+    }
+
+    private update(): void {
+        const repository = this.findRepositoryInProgress();
+        const state = repository?.localChangesProvider.getOperationState();
+        void vscode.commands.executeCommand('setContext', 'vigit.operationInProgress', Boolean(state));
+
+        if (!repository || !state) {
+            this.item.hide();
+            return;
+        }
+
+        const description = OperationHelper.describe(state);
+        const conflicts = repository.localChangesProvider.getGitStatus()?.conflicted.length ?? 0;
+        const scope = this.repositoryManager.hasMultipleRepositories() ? ` · ${repository.name}` : '';
+        this.item.text = `$(${conflicts > 0 ? 'warning' : 'git-merge'}) ${description}${scope}`;
+        this.item.tooltip = conflicts > 0
+            ? `${description}: ${conflicts} conflicted file${conflicts === 1 ? '' : 's'}. Click for actions.`
+            : `${description}. Click for actions.`;
+        this.item.backgroundColor = new vscode.ThemeColor(
+            conflicts > 0 ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground'
+        );
+        this.item.command = {
+            title: 'Show Operation Actions',
+            command: 'vigit.showOperationActions',
+            arguments: [{ repositoryRoot: repository.root }]
+        };
+        this.item.show();
+    }
+
+    /**
+     * 优先显示活动仓库，其次是任意一个处于中间状态的仓库，避免在其他仓库卡住时毫无提示。
+     */
+    private findRepositoryInProgress(): Repository | undefined {
+        const active = this.repositoryManager.getActiveRepository();
+        if (active?.localChangesProvider.getOperationState()) {
+            return active;
+        }
+        return this.repositoryManager
+            .getRepositories()
+            .find(repository => repository.localChangesProvider.getOperationState());
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.repositoryDisposables.forEach(d => d.dispose());
+        this.item.dispose();
+    }
+}
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { BranchesProvider } from '../providers/branchesProvider';
-import { GitBranch, GitDiffEntry, GitService } from '../services/gitService';
+import { GitBranch, GitDiffEntry } from '../services/gitService';
+import { Repository } from '../managers/repositoryManager';
+import { GitHooksHelper } from '../helpers/gitHooksHelper';
+import { WebviewHelper } from '../helpers/webviewHelper';
 
 interface RemoteOption {
     name: string;
@@ -45,11 +47,11 @@ export class PushDialog implements vscode.Disposable {
     private panel?: vscode.WebviewPanel;
     private disposables: vscode.Disposable[] = [];
     private currentBranch?: GitBranch;
+    private currentRepository?: Repository;
     private currentRemote?: string;
     private currentRemoteBranch?: string;
 
     constructor(
-        private readonly gitService: GitService,
         private readonly branchesProvider: BranchesProvider
     ) {}
 
@@ -57,11 +59,12 @@ export class PushDialog implements vscode.Disposable {
         this.disposePanel();
     }
 
-    async show(branch: GitBranch): Promise<void> {
+    async show(branch: GitBranch, repository: Repository): Promise<void> {
         this.currentBranch = branch;
+        this.currentRepository = repository;
         const panel = this.ensurePanel();
 
-        const remotes = await this.gitService.getRemotes();
+        const remotes = await repository.gitService.getRemotes();
         const remoteOptions = remotes.map(remote => ({
             name: remote.name,
             fetch: remote.refs.fetch ?? undefined,
@@ -72,11 +75,10 @@ export class PushDialog implements vscode.Disposable {
         this.currentRemote = defaults.remote;
         this.currentRemoteBranch = defaults.remoteBranch;
 
-        const summary = await this.buildSummary(branch, defaults.remote, defaults.remoteBranch);
-        const repositoryLabel = path.basename(this.gitService.getWorkspaceRoot());
+        const summary = await this.buildSummary(repository, branch, defaults.remote, defaults.remoteBranch);
         const state: PushDialogState = {
             branchName: this.getDisplayBranchName(branch),
-            repositoryLabel,
+            repositoryLabel: repository.name,
             remote: defaults.remote,
             remoteBranch: defaults.remoteBranch,
             remotes: remoteOptions,
@@ -138,13 +140,13 @@ export class PushDialog implements vscode.Disposable {
     }
 
     private async sendSummary(remote?: string, remoteBranch?: string): Promise<void> {
-        if (!this.panel || !this.currentBranch) {
+        if (!this.panel || !this.currentBranch || !this.currentRepository) {
             return;
         }
 
         this.currentRemote = remote;
         this.currentRemoteBranch = remoteBranch;
-        const summary = await this.buildSummary(this.currentBranch, remote, remoteBranch);
+        const summary = await this.buildSummary(this.currentRepository, this.currentBranch, remote, remoteBranch);
 
         const payload: SummaryMessagePayload = {
             remote,
@@ -159,7 +161,8 @@ export class PushDialog implements vscode.Disposable {
     }
 
     private async performPush(payload: any): Promise<void> {
-        if (!this.currentBranch) {
+        const repository = this.currentRepository;
+        if (!this.currentBranch || !repository) {
             return;
         }
 
@@ -178,20 +181,27 @@ export class PushDialog implements vscode.Disposable {
                 ? this.currentBranch.name
                 : `${this.currentBranch.name}:${remoteBranch}`;
 
+        const branchName = this.currentBranch.name;
         try {
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Pushing ${this.currentBranch.name} → ${remote}/${remoteBranch}`,
-                cancellable: false
-            }, async () => {
-                await this.gitService.push(remote, branchSpec);
-                if (payload?.pushTags === 'all') {
-                    await this.gitService.pushTags(remote);
-                }
+            const pushed = await GitHooksHelper.run(repository, 'push', 'Push', async (noVerify, onOutput) => {
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Pushing ${branchName} → ${remote}/${remoteBranch}`,
+                    cancellable: false
+                }, async () => {
+                    await repository.gitService.push(remote, branchSpec, { noVerify, onOutput });
+                    if (payload?.pushTags === 'all') {
+                        await repository.gitService.pushTags(remote);
+                    }
+                });
             });
+            if (!pushed) {
+                this.postPushResult(false, 'Rejected by the pre-push hook.');
+                return;
+            }
 
             await this.branchesProvider.refresh();
-            vscode.window.showInformationMessage(`Pushed ${this.currentBranch.name} to ${remote}/${remoteBranch}.`);
+            vscode.window.showInformationMessage(`Pushed ${branchName} to ${remote}/${remoteBranch}.`);
             this.postPushResult(true);
             this.panel?.dispose();
         } catch (error) {
@@ -225,7 +235,12 @@ export class PushDialog implements vscode.Disposable {
         };
     }
 
-    private async buildSummary(branch: GitBranch, remote?: string, remoteBranch?: string): Promise<PushSummaryPayload> {
+    private async buildSummary(
+        repository: Repository,
+        branch: GitBranch,
+        remote?: string,
+        remoteBranch?: string
+    ): Promise<PushSummaryPayload> {
         if (!remote || !remoteBranch) {
             return {
                 commits: [],
@@ -237,8 +252,8 @@ export class PushDialog implements vscode.Disposable {
         const remoteRef = `${remote}/${remoteBranch}`;
 
         try {
-            const commits = await this.gitService.getCommitsBetween(remoteRef, branch.name, 200);
-            const files = await this.gitService.getDiffSummaryBetween(remoteRef, branch.name);
+            const commits = await repository.gitService.getCommitsBetween(remoteRef, branch.name, 200);
+            const files = await repository.gitService.getDiffSummaryBetween(remoteRef, branch.name);
             return {
                 commits: commits.map(commit => ({
                     hash: commit.hash,
@@ -261,15 +276,14 @@ export class PushDialog implements vscode.Disposable {
     }
 
     private getHtml(webview: vscode.Webview, state: PushDialogState): string {
-        const nonce = this.getNonce();
-        const serializedState = this.serializeState(state);
-        const cspSource = webview.cspSource;
+        const nonce = WebviewHelper.getNonce();
+        const serializedState = WebviewHelper.serializeState(state);
 
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8" />
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} https:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';" />
+    ${WebviewHelper.getCspMeta(webview, nonce, ['https:'])}
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <style>
         body {
@@ -627,20 +641,7 @@ export class PushDialog implements vscode.Disposable {
 </html>`;
     }
 
-    private serializeState(value: any): string {
-        return JSON.stringify(value).replace(/</g, '\\u003c');
-    }
-
     private getDisplayBranchName(branch: GitBranch): string {
         return branch.remote ? branch.name.replace(/^remotes\//, '') : branch.name;
     }
-
-    private getNonce(): string {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-        let result = '';
-        for (let i = 0; i < 32; i++) {
-            result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-    }
 }
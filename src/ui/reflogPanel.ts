@@ -0,0 +1,771 @@
+import * as vscode from 'vscode';
+import { GitReflogEntry } from '../services/gitService';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
+import { ConflictHelper } from '../helpers/conflictHelper';
+import { WebviewHelper } from '../helpers/webviewHelper';
+
+type ReflogAction = 'diff' | 'openCommit' | 'restoreBranch' | 'createBranch' | 'cherryPick' | 'copyHash';
+
+interface ReflogEntrySummary {
+    hash: string;
+    abbrevHash: string;
+    selector: string;
+    action: string;
+    message: string;
+    date: string;
+    previousHash?: string;
+}
+
+/**
+ * Reflog 视图：按 HEAD 或本地分支列出每一次移动，可查看移动带来的差异，
+ * 并把分支恢复到某个位置、在该位置创建分支或 cherry-pick 该提交。
+ */
+export class ReflogPanel implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly viewId = 'vigit.reflog';
+
+    private view?: vscode.WebviewView;
+    private viewDisposables: vscode.Disposable[] = [];
+    private currentRepository?: Repository;
+    private ref = 'HEAD';
+    private entries: GitReflogEntry[] = [];
+    private stale = false;
+    private readonly maxEntries = 500;
+
+    constructor(private readonly repositoryManager: RepositoryManager) {}
+
+    dispose(): void {
+        this.disposeView();
+    }
+
+    resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        webviewView.webview.options = {
+            enableScripts: true
+        };
+        webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
+
+        this.viewDisposables.push(
+            webviewView.onDidDispose(() => this.disposeView()),
+            webviewView.onDidChangeVisibility(() => {
+                if (webviewView.visible && this.stale) {
+                    void this.load();
+                }
+            }),
+            webviewView.webview.onDidReceiveMessage(message => {
+                void this.handleMessage(message);
+            })
+        );
+    }
+
+    /**
+     * 打开 Reflog 视图；branchName 为空时显示 HEAD 的 reflog。
+     */
+    async show(repository: Repository, branchName?: string): Promise<void> {
+        this.currentRepository = repository;
+        this.ref = branchName ? `refs/heads/${branchName}` : 'HEAD';
+        this.entries = [];
+        await this.ensureViewVisible();
+        if (!this.view) {
+            vscode.window.showWarningMessage('Unable to open reflog view');
+            return;
+        }
+
+        await this.load();
+        this.view.show?.(true);
+    }
+
+    /**
+     * 仓库状态变化后重新加载；视图不可见时延迟到下次显示。
+     */
+    refresh(): void {
+        if (!this.view?.visible) {
+            this.stale = true;
+            return;
+        }
+        void this.load();
+    }
+
+    private async ensureViewVisible(): Promise<void> {
+        if (this.view) {
+            return;
+        }
+
+        try {
+            await vscode.commands.executeCommand(`${ReflogPanel.viewId}.focus`);
+        } catch {
+            await vscode.commands.executeCommand('workbench.view.extension.vigit-panel');
+        }
+
+        for (let i = 0; i < 5 && !this.view; i++) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    private disposeView(): void {
+        this.viewDisposables.forEach(d => d.dispose());
+        this.viewDisposables = [];
+        this.view = undefined;
+    }
+
+    private getRepository(): Repository | undefined {
+        if (this.currentRepository && this.repositoryManager.getRepository(this.currentRepository.root)) {
+            return this.currentRepository;
+        }
+        return this.repositoryManager.getActiveRepository();
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        if (!message || typeof message.type !== 'string') {
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+            case 'refresh':
+                await this.load();
+                break;
+            case 'selectRef':
+                if (typeof message.payload?.ref === 'string') {
+                    this.ref = message.payload.ref;
+                    await this.load();
+                }
+                break;
+            case 'action':
+                await this.runAction(message.payload?.action, message.payload?.selector);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private async load(): Promise<void> {
+        if (!this.view) {
+            return;
+        }
+
+        this.stale = false;
+        const repository = this.getRepository();
+        if (!repository) {
+            this.view.description = undefined;
+            await this.view.webview.postMessage({ type: 'reflog', payload: { ref: this.ref, refs: [], entries: [] } });
+            return;
+        }
+
+        this.view.description = repository.name;
+        let refs: string[] = [];
+        try {
+            const branches = await repository.gitService.getBranches();
+            refs = branches.filter(branch => !branch.remote).map(branch => branch.name);
+            // 分支被删除后其 reflog 也随之删除，回到 HEAD
+            if (this.ref !== 'HEAD' && !refs.includes(this.ref.replace(/^refs\/heads\//, ''))) {
+                this.ref = 'HEAD';
+            }
+            this.entries = await repository.gitService.getReflog(this.ref, this.maxEntries);
+            await this.view.webview.postMessage({
+                type: 'reflog',
+                payload: {
+                    ref: this.ref,
+                    refs,
+                    entries: this.entries.map(entry => this.toSummary(entry)),
+                    truncated: this.entries.length >= this.maxEntries
+                }
+            });
+        } catch (error) {
+            this.entries = [];
+            const message = error instanceof Error ? error.message : String(error);
+            await this.view.webview.postMessage({
+                type: 'reflog',
+                payload: { ref: this.ref, refs, entries: [], error: message }
+            });
+        }
+    }
+
+    private async runAction(action: ReflogAction | undefined, selector: unknown): Promise<void> {
+        const repository = this.getRepository();
+        const entry = this.entries.find(item => item.selector === selector);
+        if (!action || !repository || !entry) {
+            return;
+        }
+
+        try {
+            switch (action) {
+                case 'diff':
+                    await this.showDiff(repository, entry);
+                    break;
+                case 'openCommit':
+                    await vscode.commands.executeCommand('vigit.showCommitDetails', { hash: entry.hash }, repository.root);
+                    break;
+                case 'restoreBranch':
+                    await this.restoreBranch(repository, entry);
+                    break;
+                case 'createBranch':
+                    await this.createBranch(repository, entry);
+                    break;
+                case 'cherryPick':
+                    await this.cherryPick(repository, entry);
+                    break;
+                case 'copyHash':
+                    await vscode.env.clipboard.writeText(entry.hash);
+                    vscode.window.setStatusBarMessage(`Copied ${entry.abbrevHash}`, 2000);
+                    break;
+                default:
+                    break;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run reflog action: ${error}`);
+        }
+    }
+
+    /**
+     * 显示这次移动前后两个位置之间的差异；没有更早的记录时显示该提交本身的改动。
+     */
+    private async showDiff(repository: Repository, entry: GitReflogEntry): Promise<void> {
+        const diff = entry.previousHash
+            ? await repository.gitService.getRangeDiff(entry.previousHash, entry.hash)
+            : await repository.gitService.getCommitDiff(entry.hash);
+        const document = await vscode.workspace.openTextDocument({
+            content: diff || `${entry.selector}: no changes between ${entry.previousHash?.substring(0, 7)} and ${entry.abbrevHash}`,
+            language: 'diff'
+        });
+        await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Active });
+    }
+
+    private async restoreBranch(repository: Repository, entry: GitReflogEntry): Promise<void> {
+        const gitService = repository.gitService;
+        const current = await gitService.getCurrentBranch();
+        const branchName = this.ref === 'HEAD' ? current : this.ref.replace(/^refs\/heads\//, '');
+
+        // 已检出的分支需要 reset --hard；其他分支只移动引用
+        if (this.ref === 'HEAD' || branchName === current) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Reset ${branchName || 'HEAD'} to ${entry.selector} (${entry.abbrevHash})? Uncommitted changes will be discarded.`,
+                { modal: true },
+                'Reset --hard'
+            );
+            if (confirm !== 'Reset --hard') {
+                return;
+            }
+            await repository.operationJournal.run(
+                { kind: 'reset', label: `Restore ${branchName || 'HEAD'} to ${entry.selector}`, mode: 'hard' },
+                () => gitService.resetToCommit(entry.hash)
+            );
+        } else {
+            const confirm = await vscode.window.showWarningMessage(
+                `Move branch "${branchName}" to ${entry.selector} (${entry.abbrevHash})?`,
+                { modal: true },
+                'Move Branch'
+            );
+            if (confirm !== 'Move Branch') {
+                return;
+            }
+            await repository.operationJournal.run(
+                { kind: 'branchMove', label: `Move ${branchName} to ${entry.selector}`, branch: branchName },
+                () => gitService.moveBranch(branchName, entry.hash)
+            );
+        }
+        await this.refreshAfterGitOperation(`Restored ${branchName || 'HEAD'} to ${entry.abbrevHash}`);
+    }
+
+    private async createBranch(repository: Repository, entry: GitReflogEntry): Promise<void> {
+        const branchName = await vscode.window.showInputBox({
+            prompt: `Create branch at ${entry.selector} (${entry.abbrevHash})`,
+            placeHolder: 'recovered-branch',
+            validateInput: value => (value?.trim() ? null : 'Branch name cannot be empty')
+        });
+        if (!branchName) {
+            return;
+        }
+
+        await repository.gitService.createBranchAtCommit(branchName.trim(), entry.hash);
+        await this.refreshAfterGitOperation(`Created branch ${branchName.trim()} at ${entry.abbrevHash}`);
+    }
+
+    private async cherryPick(repository: Repository, entry: GitReflogEntry): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            `Cherry-pick ${entry.abbrevHash} onto the current branch?`,
+            { modal: true },
+            'Cherry-pick'
+        );
+        if (confirm !== 'Cherry-pick') {
+            return;
+        }
+
+        try {
+            await repository.gitService.cherryPick(entry.hash);
+        } catch (error) {
+            await this.refreshAfterGitOperation();
+            if (await ConflictHelper.notifyIfConflicted(repository.gitService, 'Cherry-pick', repository.root)) {
+                return;
+            }
+            throw error;
+        }
+        await this.refreshAfterGitOperation(`Cherry-picked ${entry.abbrevHash}`);
+    }
+
+    private async refreshAfterGitOperation(message?: string): Promise<void> {
+        try {
+            await vscode.commands.executeCommand('vigit.refresh');
+        } catch (error) {
+            console.warn('ViGit: failed to refresh after git operation', error);
+        }
+        if (message) {
+            vscode.window.showInformationMessage(message);
+        }
+    }
+
+    private toSummary(entry: GitReflogEntry): ReflogEntrySummary {
+        return {
+            hash: entry.hash,
+            abbrevHash: entry.abbrevHash,
+            selector: entry.selector,
+            action: entry.action,
+            message: entry.message,
+            date: entry.date.toISOString(),
+            previousHash: entry.previousHash
+        };
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = WebviewHelper.getNonce();
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8" />
+    ${WebviewHelper.getCspMeta(webview, nonce)}
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <style>
+        :root {
+            color-scheme: var(--vscode-color-scheme);
+        }
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+            background: var(--vscode-panel-background, var(--vscode-sideBar-background));
+            color: var(--vscode-foreground);
+            overflow: hidden;
+            height: 100vh;
+        }
+        .reflog-panel {
+            display: flex;
+            flex-direction: column;
+            height: 100%;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .toolbar select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border, transparent);
+            padding: 2px 4px;
+            max-width: 220px;
+        }
+        .toolbar button {
+            border: 1px solid var(--vscode-button-border, transparent);
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border-radius: 3px;
+            padding: 3px 10px;
+            cursor: pointer;
+        }
+        .toolbar button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .toolbar .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .list {
+            flex: 1;
+            overflow: auto;
+            outline: none;
+        }
+        .reflog-row {
+            display: flex;
+            align-items: center;
+            height: 24px;
+            padding: 0 10px;
+            gap: 8px;
+            cursor: default;
+            white-space: nowrap;
+        }
+        .reflog-row:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .reflog-row.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .reflog-row.selected .reflog-meta {
+            color: inherit;
+        }
+        .reflog-selector {
+            width: 110px;
+            flex-shrink: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .action {
+            flex-shrink: 0;
+            width: 120px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .action span {
+            padding: 0 5px;
+            border-radius: 3px;
+            font-size: 10px;
+            line-height: 16px;
+            background: rgba(128, 128, 128, 0.18);
+        }
+        .action-commit span {
+            background: rgba(115, 201, 145, 0.18);
+            color: #73c991;
+        }
+        .action-checkout span {
+            background: rgba(110, 151, 255, 0.15);
+            color: #6e97ff;
+        }
+        .action-reset span {
+            background: rgba(241, 76, 76, 0.15);
+            color: #f14c4c;
+        }
+        .action-rebase span,
+        .action-merge span,
+        .action-pull span,
+        .action-cherry-pick span {
+            background: rgba(197, 134, 192, 0.18);
+            color: #c586c0;
+        }
+        .reflog-message {
+            flex: 1;
+            min-width: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .reflog-meta {
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+        .reflog-date {
+            width: 130px;
+        }
+        .reflog-hash {
+            width: 60px;
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .empty {
+            padding: 16px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .context-menu {
+            position: fixed;
+            z-index: 10;
+            min-width: 220px;
+            padding: 4px 0;
+            background: var(--vscode-menu-background, var(--vscode-editorWidget-background));
+            color: var(--vscode-menu-foreground, var(--vscode-foreground));
+            border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.35);
+        }
+        .context-menu.hidden {
+            display: none;
+        }
+        .context-item {
+            display: block;
+            width: 100%;
+            padding: 4px 16px;
+            border: none;
+            background: transparent;
+            color: inherit;
+            text-align: left;
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .context-item:hover:not(:disabled) {
+            background: var(--vscode-menu-selectionBackground, var(--vscode-list-hoverBackground));
+            color: var(--vscode-menu-selectionForeground, inherit);
+        }
+        .context-item:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .context-separator {
+            height: 1px;
+            margin: 4px 0;
+            background: var(--vscode-menu-separatorBackground, var(--vscode-panel-border));
+        }
+    </style>
+</head>
+<body>
+    <div class="reflog-panel">
+        <div class="toolbar">
+            <select id="refSelect" title="Show the reflog of HEAD or a local branch"></select>
+            <button type="button" data-action="diff" title="Show the changes made by the selected movement">Show Diff</button>
+            <button type="button" data-action="restoreBranch" title="Move the branch back to the selected position">Restore Branch Here...</button>
+            <button type="button" data-action="createBranch" title="Create a new branch at the selected position">Create Branch Here...</button>
+            <button type="button" data-action="cherryPick" title="Cherry-pick the selected commit onto the current branch">Cherry-pick</button>
+            <button type="button" id="refreshReflog">Refresh</button>
+            <span class="status" id="reflogStatus"></span>
+        </div>
+        <div class="list" id="list" tabindex="0"></div>
+    </div>
+    <div id="contextMenu" class="context-menu hidden"></div>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            const list = document.getElementById('list');
+            const refSelect = document.getElementById('refSelect');
+            const statusLabel = document.getElementById('reflogStatus');
+            const contextMenu = document.getElementById('contextMenu');
+            const actionButtons = Array.from(document.querySelectorAll('.toolbar [data-action]'));
+
+            const menuItems = [
+                { id: 'diff', label: 'Show Diff' },
+                { id: 'openCommit', label: 'Show Commit Details' },
+                { separator: true },
+                { id: 'restoreBranch', label: 'Restore Branch Here...' },
+                { id: 'createBranch', label: 'Create Branch Here...' },
+                { id: 'cherryPick', label: 'Cherry-pick' },
+                { separator: true },
+                { id: 'copyHash', label: 'Copy Revision Number' }
+            ];
+
+            const state = {
+                ref: 'HEAD',
+                entries: [],
+                selected: null
+            };
+
+            const formatDate = (iso) => {
+                const date = new Date(iso);
+                if (Number.isNaN(date.getTime())) {
+                    return iso;
+                }
+                return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            };
+
+            // "commit (amend)"、"rebase (finish)" 等按首个单词归类配色
+            const actionKind = (action) => (action || '').split(/[\\s(]/)[0].toLowerCase();
+
+            const getSelected = () => state.entries.find(item => item.selector === state.selected);
+
+            const runAction = (action, entry) => {
+                if (entry) {
+                    vscode.postMessage({ type: 'action', payload: { action, selector: entry.selector } });
+                }
+            };
+
+            const updateToolbar = () => {
+                const entry = getSelected();
+                actionButtons.forEach(button => {
+                    button.disabled = !entry;
+                });
+            };
+
+            const select = (selector, reveal) => {
+                state.selected = selector;
+                list.querySelectorAll('.reflog-row').forEach(row => {
+                    const selected = row.dataset.selector === selector;
+                    row.classList.toggle('selected', selected);
+                    if (selected && reveal) {
+                        row.scrollIntoView({ block: 'nearest' });
+                    }
+                });
+                updateToolbar();
+            };
+
+            const createRow = (entry) => {
+                const row = document.createElement('div');
+                row.className = 'reflog-row';
+                row.dataset.selector = entry.selector;
+
+                const selector = document.createElement('span');
+                selector.className = 'reflog-meta reflog-selector';
+                selector.textContent = entry.selector;
+                row.appendChild(selector);
+
+                const action = document.createElement('span');
+                action.className = 'action action-' + actionKind(entry.action);
+                const badge = document.createElement('span');
+                badge.textContent = entry.action;
+                badge.title = entry.action;
+                action.appendChild(badge);
+                row.appendChild(action);
+
+                const message = document.createElement('span');
+                message.className = 'reflog-message';
+                message.textContent = entry.message;
+                message.title = entry.message;
+                row.appendChild(message);
+
+                const date = document.createElement('span');
+                date.className = 'reflog-meta reflog-date';
+                date.textContent = formatDate(entry.date);
+                row.appendChild(date);
+
+                const hash = document.createElement('span');
+                hash.className = 'reflog-meta reflog-hash';
+                hash.textContent = entry.abbrevHash;
+                hash.title = entry.previousHash
+                    ? entry.previousHash.substring(0, 7) + ' → ' + entry.abbrevHash
+                    : entry.abbrevHash;
+                row.appendChild(hash);
+
+                row.addEventListener('click', () => {
+                    select(entry.selector, false);
+                    runAction('diff', entry);
+                });
+                row.addEventListener('dblclick', () => runAction('openCommit', entry));
+                row.addEventListener('contextmenu', (event) => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    select(entry.selector, false);
+                    showContextMenu(entry, event.clientX, event.clientY);
+                });
+                return row;
+            };
+
+            const renderRefs = (refs) => {
+                refSelect.innerHTML = '';
+                ['HEAD'].concat(refs.map(name => 'refs/heads/' + name)).forEach(ref => {
+                    const option = document.createElement('option');
+                    option.value = ref;
+                    option.textContent = ref.replace(/^refs\\/heads\\//, '');
+                    refSelect.appendChild(option);
+                });
+                refSelect.value = state.ref;
+            };
+
+            const render = (payload) => {
+                state.ref = payload.ref || 'HEAD';
+                state.entries = Array.isArray(payload.entries) ? payload.entries : [];
+                if (!state.entries.some(item => item.selector === state.selected)) {
+                    state.selected = null;
+                }
+
+                renderRefs(Array.isArray(payload.refs) ? payload.refs : []);
+                list.innerHTML = '';
+
+                if (payload.error) {
+                    statusLabel.textContent = '';
+                    const error = document.createElement('div');
+                    error.className = 'empty';
+                    error.textContent = payload.error;
+                    list.appendChild(error);
+                } else if (state.entries.length === 0) {
+                    statusLabel.textContent = '';
+                    const empty = document.createElement('div');
+                    empty.className = 'empty';
+                    empty.textContent = 'No reflog entries for ' + refSelect.options[refSelect.selectedIndex]?.textContent + '.';
+                    list.appendChild(empty);
+                } else {
+                    statusLabel.textContent = state.entries.length
+                        + (payload.truncated ? '+' : '')
+                        + (state.entries.length === 1 ? ' entry' : ' entries');
+                    state.entries.forEach(entry => list.appendChild(createRow(entry)));
+                }
+
+                select(state.selected, false);
+            };
+
+            const showContextMenu = (entry, x, y) => {
+                contextMenu.innerHTML = '';
+                menuItems.forEach(item => {
+                    if (item.separator) {
+                        const separator = document.createElement('div');
+                        separator.className = 'context-separator';
+                        contextMenu.appendChild(separator);
+                        return;
+                    }
+                    const button = document.createElement('button');
+                    button.className = 'context-item';
+                    button.textContent = item.label;
+                    button.addEventListener('click', () => {
+                        hideContextMenu();
+                        runAction(item.id, entry);
+                    });
+                    contextMenu.appendChild(button);
+                });
+
+                contextMenu.classList.remove('hidden');
+                contextMenu.style.left = x + 'px';
+                contextMenu.style.top = y + 'px';
+                const rect = contextMenu.getBoundingClientRect();
+                if (rect.right > window.innerWidth) {
+                    contextMenu.style.left = Math.max(0, window.innerWidth - rect.width - 8) + 'px';
+                }
+                if (rect.bottom > window.innerHeight) {
+                    contextMenu.style.top = Math.max(0, window.innerHeight - rect.height - 8) + 'px';
+                }
+            };
+
+            const hideContextMenu = () => {
+                contextMenu.classList.add('hidden');
+            };
+
+            actionButtons.forEach(button => {
+                button.addEventListener('click', () => runAction(button.dataset.action, getSelected()));
+            });
+            refSelect.addEventListener('change', () => {
+                state.selected = null;
+                vscode.postMessage({ type: 'selectRef', payload: { ref: refSelect.value } });
+            });
+            document.getElementById('refreshReflog').addEventListener('click', () => {
+                vscode.postMessage({ type: 'refresh' });
+            });
+
+            list.addEventListener('keydown', (event) => {
+                if (state.entries.length === 0) {
+                    return;
+                }
+                const index = state.entries.findIndex(item => item.selector === state.selected);
+                if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                    event.preventDefault();
+                    const next = event.key === 'ArrowDown'
+                        ? Math.min(index + 1, state.entries.length - 1)
+                        : Math.max(index - 1, 0);
+                    select(state.entries[next].selector, true);
+                } else if (event.key === 'Enter' && index >= 0) {
+                    event.preventDefault();
+                    runAction('diff', state.entries[index]);
+                }
+            });
+
+            document.addEventListener('click', (event) => {
+                if (!contextMenu.contains(event.target)) {
+                    hideContextMenu();
+                }
+            });
+            window.addEventListener('blur', hideContextMenu);
+            document.addEventListener('keydown', (event) => {
+                if (event.key === 'Escape') {
+                    hideContextMenu();
+                }
+            });
+
+            window.addEventListener('message', (event) => {
+                const message = event.data;
+                if (message && message.type === 'reflog') {
+                    render(message.payload || {});
+                }
+            });
+
+            updateToolbar();
+            vscode.postMessage({ type: 'ready' });
+        })();
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -1,32 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService } from '../services/gitService';
-import { LocalChangesProvider } from '../providers/localChangesProvider';
-import { ChangelistManager } from '../managers/changelistManager';
+import { Repository, RepositoryManager } from '../managers/repositoryManager';
 
 export class FileSystemWatcher implements vscode.Disposable {
     private fileWatcher: vscode.FileSystemWatcher;
-    private gitService: GitService;
-    private localChangesProvider: LocalChangesProvider;
-    private changelistManager: ChangelistManager;
-    private workspaceRoot: string;
-    private refreshTimeout: NodeJS.Timeout | null = null;
+    private gitStateWatcher: vscode.FileSystemWatcher;
+    private repositoryManager: RepositoryManager;
+    private refreshTimeouts: Map<string, NodeJS.Timeout> = new Map();
     private readonly DEBOUNCE_DELAY = 500; // ms
 
-    constructor(
-        workspaceRoot: string,
-        gitService: GitService,
-        localChangesProvider: LocalChangesProvider,
-        changelistManager: ChangelistManager
-    ) {
-        this.workspaceRoot = workspaceRoot;
-        this.gitService = gitService;
-        this.localChangesProvider = localChangesProvider;
-        this.changelistManager = changelistManager;
+    constructor(repositoryManager: RepositoryManager) {
+        this.repositoryManager = repositoryManager;
 
         // Watch for file changes
         this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*');
 
+        // Watch the marker files git leaves behind while a merge/rebase/cherry-pick/revert/bisect is in progress
+        this.gitStateWatcher = vscode.workspace.createFileSystemWatcher(
+            '**/.git/{HEAD,MERGE_HEAD,CHERRY_PICK_HEAD,REVERT_HEAD,BISECT_LOG,rebase-merge,rebase-apply,sequencer}'
+        );
+
         this.setupWatchers();
     }
 
@@ -46,9 +39,23 @@ export class FileSystemWatcher implements vscode.Disposable {
             this.handleFileChange(uri, 'deleted');
         });
 
+        const handleGitStateChange = (uri: vscode.Uri) => {
+            const gitDir = path.dirname(uri.fsPath);
+            const repository = this.repositoryManager.getRepositoryForPath(path.dirname(gitDir));
+            if (repository) {
+                this.scheduleRefresh(repository);
+            }
+        };
+        this.gitStateWatcher.onDidCreate(handleGitStateChange);
+        this.gitStateWatcher.onDidChange(handleGitStateChange);
+        this.gitStateWatcher.onDidDelete(handleGitStateChange);
+
         // Listen to git repository changes
-        vscode.workspace.onDidSaveTextDocument(() => {
-            this.scheduleRefresh();
+        vscode.workspace.onDidSaveTextDocument(document => {
+            const repository = this.repositoryManager.getRepositoryForPath(document.uri.fsPath);
+            if (repository) {
+                this.scheduleRefresh(repository);
+            }
         });
     }
 
@@ -60,22 +67,27 @@ export class FileSystemWatcher implements vscode.Disposable {
             return;
         }
 
+        const repository = this.repositoryManager.getRepositoryForPath(filePath);
+        if (!repository) {
+            return;
+        }
+
         // Check if auto-refresh is enabled
         const config = vscode.workspace.getConfiguration('vigit');
         const autoRefresh = config.get<boolean>('autoRefresh', true);
         const autoStage = config.get<boolean>('autoStage', false);
 
         if (autoRefresh) {
-            this.scheduleRefresh();
+            this.scheduleRefresh(repository);
         }
 
         // Auto-add new files to active changelist
         if (type === 'created') {
-            const activeChangelist = this.changelistManager.getActiveChangelist();
+            const activeChangelist = repository.changelistManager.getActiveChangelist();
             if (activeChangelist) {
-                const added = this.changelistManager.addFileToChangelist(filePath, activeChangelist.id);
+                const added = repository.changelistManager.addFileToChangelist(filePath, activeChangelist.id);
                 if (added && autoStage) {
-                    this.gitService.stageFile(filePath).catch(error => {
+                    repository.gitService.stageFile(filePath).catch(error => {
                         console.error('Auto-stage failed:', error);
                     });
                 }
@@ -84,30 +96,31 @@ export class FileSystemWatcher implements vscode.Disposable {
 
         // Remove deleted files from changelists
         if (type === 'deleted') {
-            const changelist = this.changelistManager.getChangelistForFile(filePath);
+            const changelist = repository.changelistManager.getChangelistForFile(filePath);
             if (changelist) {
-                this.changelistManager.removeFileFromChangelist(filePath, changelist.id);
+                repository.changelistManager.removeFileFromChangelist(filePath, changelist.id);
             }
         }
     }
 
-    private scheduleRefresh(): void {
-        // Debounce refresh to avoid too many updates
-        if (this.refreshTimeout) {
-            clearTimeout(this.refreshTimeout);
+    private scheduleRefresh(repository: Repository): void {
+        // Debounce refresh per repository to avoid too many updates
+        const pending = this.refreshTimeouts.get(repository.root);
+        if (pending) {
+            clearTimeout(pending);
         }
 
-        this.refreshTimeout = setTimeout(() => {
-            this.localChangesProvider.refresh();
-            this.refreshTimeout = null;
-        }, this.DEBOUNCE_DELAY);
+        this.refreshTimeouts.set(repository.root, setTimeout(() => {
+            repository.localChangesProvider.refresh();
+            this.refreshTimeouts.delete(repository.root);
+        }, this.DEBOUNCE_DELAY));
     }
 
     dispose(): void {
-        if (this.refreshTimeout) {
-            clearTimeout(this.refreshTimeout);
-        }
+        this.refreshTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.refreshTimeouts.clear();
         this.fileWatcher.dispose();
+        this.gitStateWatcher.dispose();
     }
 }
 